@@ -15,7 +15,10 @@ export default defineConfig({
       rollupOptions: {
         input: {
           index: resolve('src/main/index.ts'),
-          'export-worker': resolve('src/main/export/worker.ts')
+          'export-worker': resolve('src/main/export/worker.ts'),
+          'embedding-worker': resolve('src/main/embeddings/worker.ts'),
+          'mcp-stdio': resolve('src/main/mcp/stdio.ts'),
+          cli: resolve('src/main/cli/index.ts')
         }
       }
     }
@@ -0,0 +1,16 @@
+// Download the semantic search model into models/, which electron-builder bundles with the app.
+// Files already downloaded are reused, so this is cheap to run before every build.
+// Keep in sync with src/main/embeddings/model.ts.
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { env, pipeline } from '@huggingface/transformers'
+
+const EMBEDDING_MODEL = 'Xenova/multilingual-e5-small'
+const EMBEDDING_DTYPE = 'q8'
+
+env.cacheDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'models')
+
+console.log(`Downloading ${EMBEDDING_MODEL} (${EMBEDDING_DTYPE}) to ${env.cacheDir}`)
+const extractor = await pipeline('feature-extraction', EMBEDDING_MODEL, { dtype: EMBEDDING_DTYPE })
+await extractor.dispose()
+console.log('Done')
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { parseDate, parseLimit, toFilters } from '../options'
+
+describe('parseDate', () => {
+  it('should parse ISO dates and date-times', () => {
+    expect(parseDate('2025-01-01', 'since')).toEqual(new Date('2025-01-01T00:00:00Z'))
+    expect(parseDate('2025-01-01T12:30:00Z', 'since').getUTCHours()).toBe(12)
+  })
+
+  it('should name the flag of an invalid date', () => {
+    expect(() => parseDate('last week', 'until')).toThrow('--until expects an ISO date')
+  })
+})
+
+describe('parseLimit', () => {
+  it('should use the fallback when the flag is missing', () => {
+    expect(parseLimit(undefined, 20)).toBe(20)
+    expect(parseLimit('5', 20)).toBe(5)
+  })
+
+  it('should reject anything but a positive integer', () => {
+    expect(() => parseLimit('0', 20)).toThrow('--limit')
+    expect(() => parseLimit('ten', 20)).toThrow('--limit')
+    expect(() => parseLimit('2.5', 20)).toThrow('--limit')
+  })
+})
+
+describe('toFilters', () => {
+  it('should map --since and --until to the update time', () => {
+    expect(toFilters({ provider: 'claude', since: '2025-01-01', until: '2025-02-01' })).toEqual({
+      provider: 'claude',
+      model: undefined,
+      updatedAfter: new Date('2025-01-01'),
+      updatedBefore: new Date('2025-02-01')
+    })
+  })
+
+  it('should pass the tag, folder and starred flags through', () => {
+    expect(toFilters({ tag: 'project-x', folder: 'Work/Clients', starred: true })).toMatchObject({
+      tag: 'project-x',
+      folder: 'Work/Clients',
+      starred: true
+    })
+  })
+})
@@ -0,0 +1,298 @@
+/**
+ * Command-line interface
+ *
+ * Reads the database the app syncs into, without the app: the app's binary runs this
+ * file as plain Node (ELECTRON_RUN_AS_NODE=1), like the stdio MCP server. The database
+ * is opened read-only, so the app can keep syncing meanwhile. Syncing itself needs the
+ * providers' browser sessions and stays in the app.
+ *
+ *   OwnYourChat out/main/cli.js <command> [options]
+ */
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { closeDatabase, openDatabase } from '../db/connection'
+import * as db from '../db/operations'
+import { semanticSearch, stopEmbeddingWorker } from '../embeddings'
+import { exportAllConversations } from '../export'
+import { DB_FILENAME, configureEmbeddingWorker, getUserDataPath } from '../headless'
+import { formatConversationList, formatMessageHits, formatSimilarityHits } from '../mcp/format'
+import { formatTranscript } from '../mcp/transcript'
+import { getActiveBranch } from '../../shared/branch-utils'
+import type { ExportBranches } from '../../shared/types'
+import { parseLimit, toFilters } from './options'
+
+// Logs of the modules go to stderr, stdout is for output that scripts read
+console.log = console.error
+console.info = console.error
+
+const USAGE = `Usage: ownyourchat <command> [options]
+
+Commands:
+  list                       List conversations, most recently updated first
+  search <query>             Search message text ("phrase", prefix*, AND, OR, NOT)
+  show <id>                  Print a conversation as markdown
+  export                     Export conversations to a folder
+  stats                      Count conversations by provider, model and mode
+
+Filters (list, search, export):
+  --provider <id>            Only this provider, e.g. chatgpt, claude, perplexity
+  --model <name>             Only conversations with messages by this model
+  --since <date>             Only conversations updated at or after this ISO date
+  --until <date>             Only conversations updated before this ISO date
+  --tag <name>               Only conversations with this tag
+  --folder <path>            Only conversations in this folder or its subfolders, e.g. Work/Clients
+  --starred                  Only starred conversations
+
+Options:
+  --db <path>                Database to read (default: the app's)
+  --json                     Print JSON (list, search, show, stats)
+  --limit <n>                Maximum results (list: 50, search: 20)
+  --semantic                 search: by meaning, with the local embedding model
+  --all-branches             show: every message of every branch, with IDs
+  --format <type>            export: markdown (default), json or html
+  --out <dir>                export: folder to write to (default: current folder)
+  --attachments              export: copy attachments the app has downloaded
+  --prefix-timestamp         export: start folder names with the creation date
+  --branches <mode>          export: all (default), active, each (a file per branch)
+                             or tree (JSON, replies nested under their parent)
+  --frontmatter              export: YAML frontmatter in markdown files (Obsidian, Dataview)
+  --footnotes                export: markdown sources as footnotes
+  --wikilinks                export: markdown attachments as [[wikilinks]]
+  -h, --help                 Show this help
+`
+
+type Flags = ReturnType<typeof parseFlags>['values']
+
+type CommandContext = {
+  argument: string | undefined
+  flags: Flags
+  filters: db.ConversationFilters
+  dbPath: string
+}
+
+function parseFlags(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      db: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      tag: { type: 'string' },
+      folder: { type: 'string' },
+      starred: { type: 'boolean' },
+      json: { type: 'boolean' },
+      limit: { type: 'string' },
+      semantic: { type: 'boolean' },
+      'all-branches': { type: 'boolean' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      attachments: { type: 'boolean' },
+      'prefix-timestamp': { type: 'boolean' },
+      branches: { type: 'string' },
+      frontmatter: { type: 'boolean' },
+      footnotes: { type: 'boolean' },
+      wikilinks: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+}
+
+function write(text: string): void {
+  process.stdout.write(text)
+}
+
+function writeJson(value: unknown): void {
+  write(JSON.stringify(value, null, 2) + '\n')
+}
+
+async function list({ flags, filters }: CommandContext): Promise<void> {
+  const result = await db.listConversations({
+    ...filters,
+    limit: parseLimit(flags.limit, 50)
+  })
+  if (flags.json) {
+    writeJson(result)
+    return
+  }
+  write(
+    formatConversationList(result.items, `${result.items.length} of ${result.total} conversations`)
+  )
+}
+
+async function search({ argument: query, flags, filters }: CommandContext): Promise<void> {
+  if (!query) {
+    throw new Error('search needs a query, e.g. ownyourchat search "memory leak"')
+  }
+  const options = { ...filters, limit: parseLimit(flags.limit, 20) }
+
+  if (flags.semantic) {
+    const hits = await semanticSearch(query, options)
+    if (flags.json) {
+      writeJson({ items: hits, total: hits.length })
+      return
+    }
+    write(formatSimilarityHits(hits, `${hits.length} conversations`))
+    return
+  }
+
+  // Matches are bold in a terminal and left as they are when piped
+  const highlight = process.stdout.isTTY
+    ? { start: '\x1b[1m', end: '\x1b[22m' }
+    : { start: '', end: '' }
+  const result = await db.searchMessages(query, { ...options, highlight })
+  if (flags.json) {
+    writeJson(result)
+    return
+  }
+  write(formatMessageHits(result.items, `${result.total} messages`))
+}
+
+async function show({ argument: id, flags }: CommandContext): Promise<void> {
+  if (!id) {
+    throw new Error('show needs a conversation ID, e.g. from ownyourchat list')
+  }
+  const result = await db.getConversationWithMessages(id)
+  if (!result) {
+    throw new Error(`Conversation not found: ${id}`)
+  }
+
+  const allBranches = flags['all-branches'] ?? false
+  const messages = allBranches
+    ? result.messages
+    : getActiveBranch(result.messages, result.conversation.currentNodeId)
+  if (flags.json) {
+    writeJson({ conversation: result.conversation, messages })
+    return
+  }
+  write(formatTranscript(result.conversation, messages, { messageIds: allBranches }))
+}
+
+async function exportConversations({ flags, filters }: CommandContext): Promise<void> {
+  const format = flags.format ?? 'markdown'
+  if (format === 'pdf') {
+    throw new Error('PDF export needs the app to print; export html and print it instead')
+  }
+  if (format !== 'markdown' && format !== 'json' && format !== 'html') {
+    throw new Error(`--format expects markdown, json or html (got "${format}")`)
+  }
+  const branches = flags.branches ?? 'all'
+  if (!isExportBranches(branches)) {
+    throw new Error(`--branches expects all, active, each or tree (got "${branches}")`)
+  }
+  const outputPath = path.resolve(flags.out ?? '.')
+  fs.mkdirSync(outputPath, { recursive: true })
+
+  // Without the app there is no provider to download attachments with
+  let exported = 0
+  await exportAllConversations(
+    {
+      format,
+      outputPath,
+      includeAttachments: flags.attachments ?? false,
+      prefixTimestamp: flags['prefix-timestamp'] ?? false,
+      branches,
+      markdown: {
+        frontmatter: flags.frontmatter,
+        footnotes: flags.footnotes,
+        wikilinks: flags.wikilinks
+      }
+    },
+    {
+      provider: null,
+      onProgress: (progress) => {
+        if (progress.phase === 'exporting') exported = progress.current
+      }
+    },
+    filters
+  )
+  console.error(`Exported ${exported} conversations to ${outputPath}`)
+}
+
+function isExportBranches(value: string): value is ExportBranches {
+  return ['all', 'active', 'each', 'tree'].includes(value)
+}
+
+async function stats({ flags, dbPath }: CommandContext): Promise<void> {
+  const [total, providers, models, modes] = await Promise.all([
+    db.countConversations(),
+    db.getProviderCounts(),
+    db.listModels(),
+    db.listModes()
+  ])
+  const size = fs.statSync(dbPath).size
+
+  if (flags.json) {
+    writeJson({ conversations: total, providers, models, modes, database: { path: dbPath, size } })
+    return
+  }
+
+  const lines = [`Conversations: ${total}`]
+  for (const [provider, count] of Object.entries(providers)) {
+    lines.push(`  ${provider}: ${count}`)
+  }
+  if (models.length > 0) {
+    lines.push('Models (conversations):')
+    for (const { model, provider, count } of models) {
+      lines.push(`  ${model} (${provider}): ${count}`)
+    }
+  }
+  if (modes.length > 0) {
+    lines.push('Modes:')
+    for (const { mode, provider, count } of modes) {
+      lines.push(`  ${mode} (${provider}): ${count}`)
+    }
+  }
+  lines.push(`Database: ${dbPath} (${(size / 1024 / 1024).toFixed(1)} MB)`)
+  write(lines.join('\n') + '\n')
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<void>> = {
+  list,
+  search,
+  show,
+  export: exportConversations,
+  stats
+}
+
+async function main(): Promise<void> {
+  const { values: flags, positionals } = parseFlags(process.argv.slice(2))
+  const [command, argument] = positionals
+
+  if (flags.help || !command) {
+    write(USAGE)
+    return
+  }
+
+  const run = COMMANDS[command]
+  if (!run) {
+    throw new Error(`Unknown command: ${command}. Run ownyourchat --help for the commands`)
+  }
+  const filters = toFilters(flags)
+
+  const userDataPath = getUserDataPath()
+  const dbPath = flags.db ?? path.join(userDataPath, DB_FILENAME)
+  try {
+    openDatabase(dbPath, { readonly: true, fileMustExist: true })
+  } catch (error) {
+    throw new Error(
+      `Failed to open ${dbPath} (${(error as Error).message}). Start OwnYourChat once or pass --db`
+    )
+  }
+  configureEmbeddingWorker(userDataPath)
+
+  try {
+    await run({ argument, flags, filters, dbPath })
+  } finally {
+    await stopEmbeddingWorker()
+    closeDatabase()
+  }
+}
+
+main().catch((error: Error) => {
+  console.error(`ownyourchat: ${error.message}`)
+  process.exitCode = 1
+})
@@ -0,0 +1,45 @@
+import type { ConversationFilters } from '../db/operations'
+
+/**
+ * Flags of the CLI shared by several commands.
+ */
+
+export type FilterFlags = {
+  provider?: string
+  model?: string
+  since?: string
+  until?: string
+  tag?: string
+  folder?: string
+  starred?: boolean
+}
+
+export function parseDate(value: string, flag: string): Date {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${flag} expects an ISO date, e.g. 2025-01-01 (got "${value}")`)
+  }
+  return date
+}
+
+export function parseLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`--limit expects a positive number (got "${value}")`)
+  }
+  return limit
+}
+
+// --since and --until bound the update time, so a backup can pick up where the last one stopped
+export function toFilters(flags: FilterFlags): ConversationFilters {
+  return {
+    provider: flags.provider,
+    model: flags.model,
+    updatedAfter: flags.since ? parseDate(flags.since, 'since') : undefined,
+    updatedBefore: flags.until ? parseDate(flags.until, 'until') : undefined,
+    tag: flags.tag,
+    folder: flags.folder,
+    starred: flags.starred
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { resolveArtifactVersions } from '../artifacts'
+import type { MessagePart } from '@shared/types'
+
+function message(id: string, parts: MessagePart[]) {
+  return { id, parts, createdAt: new Date('2026-01-07T10:00:00Z') }
+}
+
+describe('resolveArtifactVersions', () => {
+  it('should create a version for every artifact command', () => {
+    const versions = resolveArtifactVersions('conv-1', [
+      message('msg-1', [
+        { type: 'text', text: 'Here you go' },
+        {
+          type: 'artifact',
+          artifactId: 'script',
+          command: 'create',
+          artifactType: 'application/vnd.ant.code',
+          title: 'Script',
+          language: 'python',
+          content: 'print("hi")\nprint("bye")'
+        }
+      ]),
+      message('msg-2', [
+        {
+          type: 'artifact',
+          artifactId: 'script',
+          command: 'update',
+          oldStr: 'print("hi")',
+          newStr: 'print("hello")'
+        }
+      ])
+    ])
+
+    expect(versions).toHaveLength(2)
+    expect(versions[0]).toMatchObject({
+      id: 'conv-1:script:1',
+      messageId: 'msg-1',
+      version: 1,
+      command: 'create',
+      content: 'print("hi")\nprint("bye")'
+    })
+    // Metadata is inherited from the previous version
+    expect(versions[1]).toMatchObject({
+      id: 'conv-1:script:2',
+      messageId: 'msg-2',
+      version: 2,
+      command: 'update',
+      type: 'application/vnd.ant.code',
+      title: 'Script',
+      language: 'python',
+      content: 'print("hello")\nprint("bye")'
+    })
+  })
+
+  it('should replace the content on rewrite', () => {
+    const versions = resolveArtifactVersions('conv-1', [
+      message('msg-1', [
+        { type: 'artifact', artifactId: 'doc', command: 'create', title: 'Doc', content: 'Old' },
+        { type: 'artifact', artifactId: 'doc', command: 'rewrite', content: 'New' }
+      ])
+    ])
+
+    expect(versions.map((v) => [v.version, v.title, v.content])).toEqual([
+      [1, 'Doc', 'Old'],
+      [2, 'Doc', 'New']
+    ])
+  })
+
+  it('should keep $ sequences in updates literal', () => {
+    const versions = resolveArtifactVersions('conv-1', [
+      message('msg-1', [
+        { type: 'artifact', artifactId: 'price', command: 'create', content: 'cost: X' },
+        { type: 'artifact', artifactId: 'price', command: 'update', oldStr: 'X', newStr: '$&5' }
+      ])
+    ])
+
+    expect(versions[1].content).toBe('cost: $&5')
+  })
+
+  it('should skip updates of artifacts that were never created', () => {
+    const versions = resolveArtifactVersions('conv-1', [
+      message('msg-1', [
+        { type: 'artifact', artifactId: 'missing', command: 'update', oldStr: 'a', newStr: 'b' },
+        { type: 'artifact', artifactId: 'other', command: 'create', content: 'Other' }
+      ])
+    ])
+
+    expect(versions).toHaveLength(1)
+    expect(versions[0]).toMatchObject({ artifactId: 'other', version: 1 })
+  })
+
+  it('should track artifacts independently', () => {
+    const versions = resolveArtifactVersions('conv-1', [
+      message('msg-1', [
+        { type: 'artifact', artifactId: 'a', command: 'create', content: 'A' },
+        { type: 'artifact', artifactId: 'b', command: 'create', content: 'B' },
+        { type: 'artifact', artifactId: 'a', command: 'rewrite', content: 'A2' }
+      ])
+    ])
+
+    expect(versions.map((v) => `${v.artifactId}:${v.version}`)).toEqual(['a:1', 'b:1', 'a:2'])
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { buildSharedUrlEdges, getMessageSnippet, getSourceUrls, normalizeSourceUrl } from '../links'
+
+describe('normalizeSourceUrl', () => {
+  it('should drop the fragment and trailing slashes', () => {
+    expect(normalizeSourceUrl('https://example.com/docs/#install')).toBe('https://example.com/docs')
+    expect(normalizeSourceUrl('https://example.com/?q=1')).toBe('https://example.com/?q=1')
+  })
+
+  it('should skip URLs that are not http(s)', () => {
+    expect(normalizeSourceUrl('mailto:me@example.com')).toBeNull()
+    expect(normalizeSourceUrl('file:///etc/passwd')).toBeNull()
+  })
+})
+
+describe('getSourceUrls', () => {
+  it('should return each cited URL once', () => {
+    const urls = getSourceUrls([
+      { type: 'text', text: 'See https://example.com/not-a-source' },
+      { type: 'source-url', sourceId: 's1', url: 'https://example.com/a' },
+      { type: 'source-url', sourceId: 's2', url: 'https://example.com/a/' },
+      { type: 'source-url', sourceId: 's3', url: 'https://example.com/b' }
+    ])
+
+    expect(urls).toEqual(['https://example.com/a', 'https://example.com/b'])
+  })
+})
+
+describe('getMessageSnippet', () => {
+  it('should join text parts on one line', () => {
+    expect(
+      getMessageSnippet([
+        { type: 'reasoning', text: 'Thinking' },
+        { type: 'text', text: 'First\n\nline' },
+        { type: 'text', text: 'second' }
+      ])
+    ).toBe('First line second')
+  })
+
+  it('should shorten long messages', () => {
+    const snippet = getMessageSnippet([{ type: 'text', text: 'word '.repeat(100) }])
+
+    expect(snippet).toHaveLength(140)
+    expect(snippet?.endsWith('…')).toBe(true)
+  })
+
+  it('should return null without text', () => {
+    expect(getMessageSnippet([])).toBeNull()
+  })
+})
+
+describe('buildSharedUrlEdges', () => {
+  it('should weigh each pair of conversations by their shared URLs', () => {
+    const edges = buildSharedUrlEdges([
+      { url: 'https://a.com', conversationId: 'c2' },
+      { url: 'https://a.com', conversationId: 'c1' },
+      { url: 'https://b.com', conversationId: 'c1' },
+      { url: 'https://b.com', conversationId: 'c2' },
+      { url: 'https://b.com', conversationId: 'c3' }
+    ])
+
+    expect(edges).toEqual([
+      { source: 'c1', target: 'c2', kind: 'source', weight: 2 },
+      { source: 'c1', target: 'c3', kind: 'source', weight: 1 },
+      { source: 'c2', target: 'c3', kind: 'source', weight: 1 }
+    ])
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { mapConversation, mapMessage } from '../mappers'
+import { exportToJson } from '../../export/json'
+import { exportToMarkdown } from '../../export/markdown'
+import type { conversations, messages } from '../schema'
+
+const conversationRow: typeof conversations.$inferSelect = {
+  id: 'conv-1',
+  title: 'Cat facts',
+  provider: 'perplexity',
+  createdAt: new Date('2026-01-07T10:00:00Z'),
+  updatedAt: new Date('2026-01-07T11:00:00Z'),
+  syncedAt: new Date('2026-01-07T12:00:00Z'),
+  messageCount: 2,
+  currentNodeId: null,
+  syncError: null,
+  syncRetryCount: 0,
+  mode: 'research',
+  searchFocus: 'scholar',
+  projectId: null,
+  remoteStatus: null,
+  remoteDeletedAt: null,
+  starred: false,
+  folderId: null
+}
+
+function messageRow(
+  overrides: Partial<typeof messages.$inferSelect>
+): typeof messages.$inferSelect {
+  return {
+    id: 'msg-1',
+    conversationId: 'conv-1',
+    role: 'user',
+    parts: JSON.stringify([{ type: 'text', text: 'Why do cats purr?' }]),
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    updatedAt: null,
+    orderIndex: 0,
+    parentId: null,
+    siblingIds: '["msg-1"]',
+    siblingIndex: 0,
+    model: null,
+    ...overrides
+  }
+}
+
+// The export worker reads rows with its own connection and maps them with these
+describe('row mappers', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mappers-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  const conversation = mapConversation(conversationRow)
+  const rows = [
+    messageRow({}),
+    messageRow({
+      id: 'msg-2',
+      role: 'assistant',
+      parts: JSON.stringify([{ type: 'text', text: 'Mostly when content.' }]),
+      orderIndex: 1,
+      parentId: 'msg-1',
+      siblingIds: '["msg-2"]',
+      model: 'sonar-pro'
+    })
+  ]
+
+  it('should keep the model, mode and search focus', () => {
+    expect(mapMessage(rows[1]).model).toBe('sonar-pro')
+    expect(mapMessage(rows[0]).model).toBeUndefined()
+    expect(conversation).toMatchObject({ mode: 'research', searchFocus: 'scholar' })
+  })
+
+  it('should give the exporters the model and mode', async () => {
+    const options = { includeAttachments: false, outputPath: tempDir }
+    const mapped = rows.map((row) => mapMessage(row))
+
+    const json = JSON.parse(
+      fs.readFileSync(
+        await exportToJson(conversation, mapped, { ...options, format: 'json' }),
+        'utf-8'
+      )
+    )
+    expect(json).toMatchObject({ mode: 'research', search_focus: 'scholar' })
+    expect(json.messages[1].model).toBe('sonar-pro')
+
+    const markdown = fs.readFileSync(
+      await exportToMarkdown(conversation, mapped, { ...options, format: 'markdown' }),
+      'utf-8'
+    )
+    expect(markdown).toContain('## Assistant (sonar-pro)')
+  })
+})
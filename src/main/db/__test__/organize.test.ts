@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { buildFolderPaths, normalizeFolderName, normalizeTagName } from '../organize'
+
+describe('normalizeTagName', () => {
+  it('should lower-case tags and drop the leading #', () => {
+    expect(normalizeTagName('#Project')).toBe('project')
+    expect(normalizeTagName('  Reading List ')).toBe('reading-list')
+  })
+
+  it('should return null for empty tags', () => {
+    expect(normalizeTagName(' # ')).toBeNull()
+  })
+})
+
+describe('normalizeFolderName', () => {
+  it('should keep slashes out of folder names', () => {
+    expect(normalizeFolderName(' Q1/Q2  plans ')).toBe('Q1-Q2 plans')
+    expect(normalizeFolderName('   ')).toBeNull()
+  })
+})
+
+describe('buildFolderPaths', () => {
+  it('should join the names from the top-level folder down', () => {
+    const paths = buildFolderPaths([
+      { id: 'c', name: 'Acme', parentId: 'b' },
+      { id: 'a', name: 'Work', parentId: null },
+      { id: 'b', name: 'Clients', parentId: 'a' },
+      { id: 'd', name: 'Orphan', parentId: 'missing' }
+    ])
+
+    expect(paths.get('a')).toBe('Work')
+    expect(paths.get('c')).toBe('Work/Clients/Acme')
+    expect(paths.get('d')).toBe('Orphan')
+  })
+
+  it('should stop at a cycle', () => {
+    const paths = buildFolderPaths([
+      { id: 'a', name: 'A', parentId: 'b' },
+      { id: 'b', name: 'B', parentId: 'a' }
+    ])
+
+    expect(paths.get('a')).toBe('B/A')
+    expect(paths.get('b')).toBe('B')
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { diffRemoteStatus } from '../remote-status'
+import { listChatGPTConversationIds } from '../../sync/providers/chatgpt/utils'
+
+describe('diffRemoteStatus', () => {
+  it('should mark conversations missing from the listing as deleted', () => {
+    const changes = diffRemoteStatus(
+      [
+        { id: 'a', remoteStatus: null },
+        { id: 'b', remoteStatus: null },
+        { id: 'c', remoteStatus: null }
+      ],
+      { active: ['a'], archived: ['b'] }
+    )
+
+    expect(changes).toEqual({ archived: ['b'], deleted: ['c'], restored: [] })
+  })
+
+  it('should only return changes', () => {
+    const changes = diffRemoteStatus(
+      [
+        { id: 'a', remoteStatus: 'deleted' },
+        { id: 'b', remoteStatus: 'archived' },
+        { id: 'c', remoteStatus: 'archived' },
+        { id: 'd', remoteStatus: 'deleted' }
+      ],
+      { active: ['a'], archived: ['b', 'd'] }
+    )
+
+    expect(changes).toEqual({ archived: ['d'], deleted: ['c'], restored: ['a'] })
+  })
+
+  it('should not mark pinned ChatGPT conversations as deleted', async () => {
+    // chatgpt.com lists pinned conversations only with is_starred=true
+    const active = await listChatGPTConversationIds(
+      async (offset, starred) => ({
+        items: offset > 0 ? [] : starred ? [{ id: 'pinned' }] : [{ id: 'a' }, { id: 'b' }],
+        hasMore: offset === 0 && !starred
+      }),
+      2
+    )
+
+    const changes = diffRemoteStatus(
+      [
+        { id: 'a', remoteStatus: null },
+        { id: 'pinned', remoteStatus: null },
+        { id: 'gone', remoteStatus: null }
+      ],
+      { active, archived: [] }
+    )
+
+    expect(changes).toEqual({ archived: [], deleted: ['gone'], restored: [] })
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { buildRevisionContent, hashMessageContent, type MessageContent } from '../revisions'
+import { transformPerplexityMessageToParts } from '../../sync/providers/perplexity/utils'
+
+const question: MessageContent = {
+  id: 'msg-1',
+  parentId: null,
+  role: 'user',
+  parts: JSON.stringify([{ type: 'text', text: 'Why do cats purr?' }]),
+  model: null
+}
+
+const answer: MessageContent = {
+  id: 'msg-2',
+  parentId: 'msg-1',
+  role: 'assistant',
+  parts: JSON.stringify([{ type: 'text', text: 'Mostly when they are content.' }]),
+  model: 'gpt-4o'
+}
+
+describe('hashMessageContent', () => {
+  it('should depend on the content and not on the ID or parent', () => {
+    const moved: MessageContent = { ...question, id: 'msg-9', parentId: 'msg-8' }
+
+    expect(hashMessageContent(question)).toBe(hashMessageContent(moved))
+    expect(hashMessageContent(answer)).not.toBe(hashMessageContent({ ...answer, model: 'gpt-5' }))
+  })
+
+  it('should give two syncs of the same cited answer the same hash', () => {
+    const sync = (): string =>
+      hashMessageContent({
+        role: 'assistant',
+        parts: JSON.stringify(
+          transformPerplexityMessageToParts({
+            markdown: 'Cats purr when content [1][2].',
+            webResults: [
+              { name: 'Purring', url: 'https://example.com/purr' },
+              { name: 'Cats', url: 'https://example.org/cats' }
+            ]
+          })
+        ),
+        model: 'sonar-pro'
+      })
+
+    expect(sync()).toBe(sync())
+  })
+
+  it('should ignore the IDs of source-url parts', () => {
+    const cited = (sourceId: string): MessageContent => ({
+      ...answer,
+      parts: JSON.stringify([
+        { type: 'text', text: 'Mostly when they are content.' },
+        { type: 'source-url', sourceId, url: 'https://example.com/purr', title: 'Purring' }
+      ])
+    })
+
+    expect(hashMessageContent(cited('a1'))).toBe(hashMessageContent(cited('b2')))
+  })
+})
+
+describe('buildRevisionContent', () => {
+  it('should reference each message by the hash of its content', () => {
+    const revision = buildRevisionContent('Cats', 'msg-2', [question, answer])
+
+    expect(revision.messages).toEqual([
+      { id: 'msg-1', parentId: null, hash: hashMessageContent(question) },
+      { id: 'msg-2', parentId: 'msg-1', hash: hashMessageContent(answer) }
+    ])
+    expect(revision.snapshots.map((snapshot) => snapshot.role)).toEqual(['user', 'assistant'])
+  })
+
+  it('should store the same content once', () => {
+    const revision = buildRevisionContent('Cats', null, [question, { ...question, id: 'msg-3' }])
+
+    expect(revision.messages).toHaveLength(2)
+    expect(revision.snapshots).toHaveLength(1)
+  })
+
+  it('should change the content hash when the title, order or a message changes', () => {
+    const { contentHash } = buildRevisionContent('Cats', 'msg-2', [question, answer])
+
+    expect(buildRevisionContent('Cats', 'msg-2', [question, answer]).contentHash).toBe(contentHash)
+    expect(buildRevisionContent('Purring', 'msg-2', [question, answer]).contentHash).not.toBe(
+      contentHash
+    )
+    expect(buildRevisionContent('Cats', 'msg-2', [answer, question]).contentHash).not.toBe(
+      contentHash
+    )
+    expect(
+      buildRevisionContent('Cats', 'msg-2', [question, { ...answer, parts: '[]' }]).contentHash
+    ).not.toBe(contentHash)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { getSearchableText, toFtsQuery } from '../search'
+
+describe('getSearchableText', () => {
+  it('should join text parts and skip source-url parts', () => {
+    const text = getSearchableText([
+      { type: 'text', text: 'First paragraph' },
+      { type: 'source-url', sourceId: 's1', url: 'https://example.com', title: 'Example' },
+      { type: 'text', text: 'Second paragraph' }
+    ])
+
+    expect(text).toBe('First paragraph\nSecond paragraph')
+  })
+
+  it('should include reasoning and tool activity', () => {
+    const text = getSearchableText([
+      { type: 'reasoning', text: 'Looking it up' },
+      { type: 'tool-call', toolCallId: 't1', toolName: 'web_search', input: '{"query":"cats"}' },
+      { type: 'tool-result', toolCallId: 't1', toolName: 'web_search', output: 'Cats are mammals' },
+      {
+        type: 'code-execution',
+        toolCallId: 'c1',
+        language: 'python',
+        code: 'print(1)',
+        output: '1'
+      },
+      { type: 'text', text: 'Answer' }
+    ])
+
+    expect(text).toBe('Looking it up\n{"query":"cats"}\nCats are mammals\nprint(1)\n1\nAnswer')
+  })
+
+  it('should include artifact content and update text', () => {
+    const text = getSearchableText([
+      { type: 'artifact', artifactId: 'a1', command: 'create', content: 'def main(): pass' },
+      { type: 'artifact', artifactId: 'a1', command: 'update', oldStr: 'pass', newStr: 'run()' }
+    ])
+
+    expect(text).toBe('def main(): pass\nrun()')
+  })
+
+  it('should return empty string when there are no text parts', () => {
+    expect(getSearchableText([])).toBe('')
+  })
+})
+
+describe('toFtsQuery', () => {
+  it('should quote plain words so they are implicitly ANDed', () => {
+    expect(toFtsQuery('react hooks')).toEqual({
+      match: '"react" "hooks"',
+      terms: ['react', 'hooks']
+    })
+  })
+
+  it('should keep exact phrases', () => {
+    expect(toFtsQuery('"use effect" cleanup')?.match).toBe('"use effect" "cleanup"')
+  })
+
+  it('should support prefix queries on words and phrases', () => {
+    expect(toFtsQuery('typ* "state man"*')?.match).toBe('"typ"* "state man"*')
+  })
+
+  it('should pass boolean operators and parentheses through', () => {
+    const result = toFtsQuery('(sqlite OR postgres) NOT mysql')
+
+    expect(result?.match).toBe('("sqlite" OR "postgres") NOT "mysql"')
+    expect(result?.terms).toEqual(['sqlite', 'postgres'])
+  })
+
+  it('should treat lowercase operators as words', () => {
+    expect(toFtsQuery('this or that')?.match).toBe('"this" "or" "that"')
+  })
+
+  it('should quote FTS5 special characters instead of failing', () => {
+    expect(toFtsQuery('node:fs c++ e-mail')?.match).toBe('"node:fs" "c++" "e-mail"')
+  })
+
+  it('should drop dangling operators while the user is typing', () => {
+    expect(toFtsQuery('AND foo OR')?.match).toBe('"foo"')
+    expect(toFtsQuery('foo OR AND bar')?.match).toBe('"foo" OR "bar"')
+  })
+
+  it('should balance parentheses', () => {
+    expect(toFtsQuery('(foo OR bar')?.match).toBe('("foo" OR "bar")')
+    expect(toFtsQuery('foo) bar')?.match).toBe('"foo" "bar"')
+    expect(toFtsQuery('foo ()')?.match).toBe('"foo"')
+  })
+
+  it('should close an unterminated phrase', () => {
+    expect(toFtsQuery('"hello wor')?.match).toBe('"hello wor"')
+  })
+
+  it('should return null when nothing searchable remains', () => {
+    expect(toFtsQuery('')).toBeNull()
+    expect(toFtsQuery('  OR ( ) ')).toBeNull()
+    expect(toFtsQuery('... ---')).toBeNull()
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { decodeVector, encodeVector, vectorSimilarity } from '../vectors'
+
+describe('encodeVector / decodeVector', () => {
+  it('should round-trip a vector through its BLOB encoding', () => {
+    const vector = Float32Array.from([0.5, -0.25, 1, 0])
+    const blob = encodeVector(vector)
+
+    expect(blob.byteLength).toBe(16)
+    expect(decodeVector(blob)).toEqual(vector)
+  })
+
+  it('should decode BLOBs that are not aligned to 4 bytes', () => {
+    const blob = Buffer.concat([Buffer.from([0xff]), encodeVector(Float32Array.from([1, 2]))])
+
+    expect(decodeVector(blob.subarray(1))).toEqual(Float32Array.from([1, 2]))
+  })
+})
+
+describe('vectorSimilarity', () => {
+  it('should return the cosine similarity of normalized vectors', () => {
+    const a = encodeVector(Float32Array.from([1, 0]))
+    const b = encodeVector(Float32Array.from([Math.SQRT1_2, Math.SQRT1_2]))
+
+    expect(vectorSimilarity(a, a)).toBeCloseTo(1)
+    expect(vectorSimilarity(a, b)).toBeCloseTo(Math.SQRT1_2)
+    expect(vectorSimilarity(a, encodeVector(Float32Array.from([0, 1])))).toBe(0)
+  })
+
+  it('should return null for vectors of different sizes', () => {
+    const a = encodeVector(Float32Array.from([1, 0]))
+    const b = encodeVector(Float32Array.from([1, 0, 0]))
+
+    expect(vectorSimilarity(a, b)).toBeNull()
+  })
+})
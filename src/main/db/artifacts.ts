@@ -0,0 +1,78 @@
+import type { ArtifactPart, ArtifactVersion, MessagePart } from '../../shared/types'
+import type { NewMessage } from './schema'
+
+interface ArtifactSourceMessage {
+  id: string
+  parts: MessagePart[]
+  createdAt?: Date | null
+}
+
+/**
+ * Replay artifact commands in message order to get the full content of every version.
+ * Updates of an artifact we haven't seen created (e.g. a truncated conversation) are skipped.
+ */
+export function resolveArtifactVersions(
+  conversationId: string,
+  messages: ArtifactSourceMessage[]
+): ArtifactVersion[] {
+  const versions: ArtifactVersion[] = []
+  const latest = new Map<string, ArtifactVersion>()
+
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (part.type !== 'artifact') continue
+
+      const previous = latest.get(part.artifactId)
+      const content = applyArtifactCommand(previous?.content, part)
+      if (content === null) continue
+
+      const versionNumber = (previous?.version ?? 0) + 1
+      const version: ArtifactVersion = {
+        id: `${conversationId}:${part.artifactId}:${versionNumber}`,
+        conversationId,
+        messageId: message.id,
+        artifactId: part.artifactId,
+        version: versionNumber,
+        command: part.command,
+        type: part.artifactType ?? previous?.type ?? null,
+        title: part.title ?? previous?.title ?? null,
+        language: part.language ?? previous?.language ?? null,
+        content,
+        createdAt: message.createdAt ?? null
+      }
+
+      versions.push(version)
+      latest.set(part.artifactId, version)
+    }
+  }
+
+  return versions
+}
+
+/**
+ * Same as resolveArtifactVersions, for message rows with JSON-encoded parts.
+ */
+export function resolveArtifactVersionsFromRows(
+  conversationId: string,
+  rows: NewMessage[]
+): ArtifactVersion[] {
+  return resolveArtifactVersions(
+    conversationId,
+    rows.map((row) => ({
+      id: row.id,
+      parts: JSON.parse(row.parts) as MessagePart[],
+      createdAt: row.createdAt
+    }))
+  )
+}
+
+function applyArtifactCommand(previous: string | undefined, part: ArtifactPart): string | null {
+  if (part.command !== 'update') return part.content ?? null
+  if (previous === undefined) return null
+  if (part.oldStr === undefined || part.newStr === undefined) return previous
+
+  // Claude requires oldStr to be unique, so replacing the first match is enough.
+  // A replacer function keeps `$` sequences in newStr literal
+  const newStr = part.newStr
+  return previous.replace(part.oldStr, () => newStr)
+}
@@ -0,0 +1,50 @@
+import Database from 'better-sqlite3'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import * as schema from './schema'
+import { vectorSimilarity } from './vectors'
+
+/**
+ * Database connection, kept apart from index.ts (which needs Electron's app) so the
+ * stdio MCP server can open the database as plain Node.
+ */
+
+export type AppDatabase = ReturnType<typeof drizzle<typeof schema>>
+
+let db: AppDatabase | null = null
+let sqlite: Database.Database | null = null
+
+export function openDatabase(dbPath: string, options: Database.Options = {}): AppDatabase {
+  if (db) return db
+
+  sqlite = new Database(dbPath, options)
+
+  // Register custom function for Unicode-aware lowercase (SQLite's built-in lower() only handles ASCII)
+  sqlite.function('unicode_lower', (str: string | null) => str?.toLowerCase() ?? null)
+
+  // Similarity of two embedding vectors for semantic search (see vectors.ts)
+  sqlite.function('vector_similarity', { deterministic: true }, (a: Buffer, b: Buffer) =>
+    vectorSimilarity(a, b)
+  )
+
+  db = drizzle(sqlite, { schema })
+  return db
+}
+
+export function isDatabaseOpen(): boolean {
+  return db !== null
+}
+
+export function getDatabase(): AppDatabase {
+  if (!db) {
+    throw new Error('Database not initialized. Call initDatabase() first.')
+  }
+  return db
+}
+
+export function closeDatabase(): void {
+  if (sqlite) {
+    sqlite.close()
+    sqlite = null
+    db = null
+  }
+}
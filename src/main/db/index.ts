@@ -1,13 +1,10 @@
-import Database from 'better-sqlite3'
-import { drizzle } from 'drizzle-orm/better-sqlite3'
 import { migrate } from 'drizzle-orm/better-sqlite3/migrator'
 import { app } from 'electron'
 import path from 'path'
 import fs from 'fs'
-import * as schema from './schema'
+import { isDatabaseOpen, openDatabase } from './connection'
 
-let db: ReturnType<typeof drizzle<typeof schema>> | null = null
-let sqlite: Database.Database | null = null
+export { getDatabase, closeDatabase } from './connection'
 
 export function getDbPath(): string {
   const userDataPath = app.getPath('userData')
@@ -15,7 +12,7 @@ export function getDbPath(): string {
 }
 
 export async function initDatabase(): Promise<void> {
-  if (db) return
+  if (isDatabaseOpen()) return
 
   const dbPath = getDbPath()
   const dbDir = path.dirname(dbPath)
@@ -25,12 +22,7 @@ export async function initDatabase(): Promise<void> {
     fs.mkdirSync(dbDir, { recursive: true })
   }
 
-  sqlite = new Database(dbPath)
-
-  // Register custom function for Unicode-aware lowercase (SQLite's built-in lower() only handles ASCII)
-  sqlite.function('unicode_lower', (str: string | null) => str?.toLowerCase() ?? null)
-
-  db = drizzle(sqlite, { schema })
+  const db = openDatabase(dbPath)
 
   // Run migrations (create tables if they don't exist)
   const migrationsFolder = app.isPackaged
@@ -47,18 +39,3 @@ export async function initDatabase(): Promise<void> {
 
   console.log('[DB] Database initialized at', dbPath)
 }
-
-export function getDatabase(): ReturnType<typeof drizzle<typeof schema>> {
-  if (!db) {
-    throw new Error('Database not initialized. Call initDatabase() first.')
-  }
-  return db
-}
-
-export function closeDatabase(): void {
-  if (sqlite) {
-    sqlite.close()
-    sqlite = null
-    db = null
-  }
-}
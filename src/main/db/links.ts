@@ -0,0 +1,80 @@
+import type { LinkGraphEdge, MessagePart } from '../../shared/types'
+
+// URLs cited by more conversations than this (Wikipedia's front page, a docs index, ...) say
+// little about how two conversations relate, so they don't make them related
+export const RELATED_URL_MAX_CONVERSATIONS = 20
+
+/**
+ * Form of a cited URL used to match it across conversations: the fragment and trailing
+ * slashes are dropped. Only http(s) URLs are kept. Migration 0010 does the same in SQL.
+ */
+export function normalizeSourceUrl(url: string): string | null {
+  if (!/^https?:\/\//i.test(url)) return null
+  const hashIndex = url.indexOf('#')
+  const normalized = (hashIndex >= 0 ? url.slice(0, hashIndex) : url).replace(/\/+$/, '')
+  return normalized || null
+}
+
+/**
+ * Normalized URLs of a message's source-url parts, without duplicates.
+ */
+export function getSourceUrls(parts: MessagePart[]): string[] {
+  const urls = new Set<string>()
+  for (const part of parts) {
+    if (part.type !== 'source-url') continue
+    const url = normalizeSourceUrl(part.url)
+    if (url) urls.add(url)
+  }
+  return [...urls]
+}
+
+// Length of the message excerpts shown next to links
+const SNIPPET_LENGTH = 140
+
+/**
+ * Start of a message's text, on one line, to show next to a link to or from it.
+ */
+export function getMessageSnippet(parts: MessagePart[]): string | null {
+  const text = parts
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!text) return null
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text
+}
+
+/**
+ * Edges between conversations that cite the same URLs, weighted by the number of shared
+ * URLs. Rows are the distinct (url, conversation) pairs of the URLs to consider.
+ */
+export function buildSharedUrlEdges(
+  rows: Array<{ url: string; conversationId: string }>
+): LinkGraphEdge[] {
+  const conversationsByUrl = new Map<string, string[]>()
+  for (const { url, conversationId } of rows) {
+    const ids = conversationsByUrl.get(url) ?? []
+    if (!ids.includes(conversationId)) ids.push(conversationId)
+    conversationsByUrl.set(url, ids)
+  }
+
+  const edges = new Map<string, LinkGraphEdge>()
+  for (const ids of conversationsByUrl.values()) {
+    // Sorted so that each pair gets one edge whichever URL it comes from
+    const sorted = [...ids].sort()
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const key = `${sorted[i]}\n${sorted[j]}`
+        const edge = edges.get(key)
+        if (edge) {
+          edge.weight++
+        } else {
+          edges.set(key, { source: sorted[i], target: sorted[j], kind: 'source', weight: 1 })
+        }
+      }
+    }
+  }
+
+  return [...edges.values()]
+}
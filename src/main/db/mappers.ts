@@ -0,0 +1,85 @@
+import type { attachments, conversations, messages } from './schema'
+import type {
+  Attachment,
+  Conversation,
+  Message,
+  MessagePart,
+  RemoteStatus
+} from '../../shared/types'
+
+// Row mappers shared by operations.ts and the export worker, which has its own connection
+
+export function mapConversation(row: typeof conversations.$inferSelect): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    provider: row.provider,
+    createdAt: row.createdAt ?? new Date(),
+    updatedAt: row.updatedAt ?? new Date(),
+    syncedAt: row.syncedAt ?? new Date(),
+    messageCount: row.messageCount ?? 0,
+    currentNodeId: row.currentNodeId ?? null,
+    mode: row.mode ?? null,
+    searchFocus: row.searchFocus ?? null,
+    remoteStatus: (row.remoteStatus as RemoteStatus | null) ?? null,
+    remoteDeletedAt: row.remoteDeletedAt ?? null,
+    starred: row.starred
+  }
+}
+
+export function mapMessage(
+  row: typeof messages.$inferSelect,
+  messageAttachments: Attachment[] = []
+): Message {
+  // Parse siblingIds from JSON string
+  let siblingIds: string[] = []
+  if (row.siblingIds) {
+    try {
+      siblingIds = JSON.parse(row.siblingIds)
+    } catch {
+      siblingIds = []
+    }
+  }
+
+  return {
+    id: row.id,
+    conversationId: row.conversationId ?? '',
+    role: row.role as 'user' | 'assistant' | 'system',
+    parts: parseParts(row.parts),
+    createdAt: row.createdAt ?? new Date(),
+    orderIndex: row.orderIndex,
+    model: row.model ?? undefined,
+    attachments: messageAttachments,
+    // Branch/tree structure fields
+    parentId: row.parentId ?? null,
+    siblingIds: siblingIds,
+    siblingIndex: row.siblingIndex ?? 0
+  }
+}
+
+// Parse parts from JSON string
+export function parseParts(json: string | null): MessagePart[] {
+  if (!json) return []
+  try {
+    const parsed = JSON.parse(json)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export function mapAttachment(row: typeof attachments.$inferSelect): Attachment {
+  return {
+    id: row.id,
+    messageId: row.messageId ?? '',
+    type: row.type as 'image' | 'file',
+    fileId: row.fileId ?? undefined,
+    originalUrl: row.originalUrl ?? '',
+    localPath: row.localPath ?? '',
+    filename: row.filename ?? '',
+    mimeType: row.mimeType ?? '',
+    size: row.size ?? 0,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined
+  }
+}
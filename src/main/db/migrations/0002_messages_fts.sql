@@ -0,0 +1,7 @@
+CREATE INDEX IF NOT EXISTS `conversation_id_idx` ON `messages` (`conversation_id`);--> statement-breakpoint
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(`text`, tokenize = 'unicode61 remove_diacritics 2');--> statement-breakpoint
+INSERT INTO `messages_fts` (`rowid`, `text`)
+SELECT `messages`.`rowid`, group_concat(json_extract(`part`.`value`, '$.text'), char(10))
+FROM `messages`, json_each(CASE WHEN json_valid(`messages`.`parts`) THEN `messages`.`parts` ELSE '[]' END) AS `part`
+WHERE json_extract(`part`.`value`, '$.type') = 'text'
+GROUP BY `messages`.`rowid`;
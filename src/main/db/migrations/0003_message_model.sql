@@ -0,0 +1,2 @@
+ALTER TABLE `messages` ADD `model` text;--> statement-breakpoint
+CREATE INDEX `model_idx` ON `messages` (`model`);
\ No newline at end of file
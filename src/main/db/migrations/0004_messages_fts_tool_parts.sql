@@ -0,0 +1,14 @@
+DELETE FROM `messages_fts`;--> statement-breakpoint
+INSERT INTO `messages_fts` (`rowid`, `text`)
+SELECT `messages`.`rowid`, group_concat(
+  CASE json_extract(`part`.`value`, '$.type')
+    WHEN 'tool-call' THEN json_extract(`part`.`value`, '$.input')
+    WHEN 'tool-result' THEN json_extract(`part`.`value`, '$.output')
+    WHEN 'code-execution' THEN json_extract(`part`.`value`, '$.code') || coalesce(char(10) || json_extract(`part`.`value`, '$.output'), '')
+    ELSE json_extract(`part`.`value`, '$.text')
+  END,
+  char(10)
+)
+FROM `messages`, json_each(CASE WHEN json_valid(`messages`.`parts`) THEN `messages`.`parts` ELSE '[]' END) AS `part`
+WHERE json_extract(`part`.`value`, '$.type') IN ('text', 'reasoning', 'tool-call', 'tool-result', 'code-execution')
+GROUP BY `messages`.`rowid`;
\ No newline at end of file
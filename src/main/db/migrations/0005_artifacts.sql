@@ -0,0 +1,32 @@
+CREATE TABLE `artifacts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`artifact_id` text NOT NULL,
+	`version` integer NOT NULL,
+	`command` text NOT NULL,
+	`type` text,
+	`title` text,
+	`language` text,
+	`content` text NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `artifact_conversation_idx` ON `artifacts` (`conversation_id`);--> statement-breakpoint
+DELETE FROM `messages_fts`;--> statement-breakpoint
+INSERT INTO `messages_fts` (`rowid`, `text`)
+SELECT `messages`.`rowid`, group_concat(
+  CASE json_extract(`part`.`value`, '$.type')
+    WHEN 'tool-call' THEN json_extract(`part`.`value`, '$.input')
+    WHEN 'tool-result' THEN json_extract(`part`.`value`, '$.output')
+    WHEN 'code-execution' THEN json_extract(`part`.`value`, '$.code') || coalesce(char(10) || json_extract(`part`.`value`, '$.output'), '')
+    WHEN 'artifact' THEN coalesce(json_extract(`part`.`value`, '$.content'), json_extract(`part`.`value`, '$.newStr'))
+    ELSE json_extract(`part`.`value`, '$.text')
+  END,
+  char(10)
+)
+FROM `messages`, json_each(CASE WHEN json_valid(`messages`.`parts`) THEN `messages`.`parts` ELSE '[]' END) AS `part`
+WHERE json_extract(`part`.`value`, '$.type') IN ('text', 'reasoning', 'tool-call', 'tool-result', 'code-execution', 'artifact')
+GROUP BY `messages`.`rowid`;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `conversations` ADD `mode` text;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `search_focus` text;--> statement-breakpoint
+CREATE INDEX `mode_idx` ON `conversations` (`mode`);
\ No newline at end of file
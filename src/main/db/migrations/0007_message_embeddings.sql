@@ -0,0 +1,16 @@
+CREATE TABLE `message_embeddings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`message_id` text NOT NULL,
+	`conversation_id` text NOT NULL,
+	`chunk_index` integer NOT NULL,
+	`char_start` integer NOT NULL,
+	`char_end` integer NOT NULL,
+	`model` text NOT NULL,
+	`vector` blob NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `embedding_message_idx` ON `message_embeddings` (`message_id`);--> statement-breakpoint
+CREATE INDEX `embedding_conversation_idx` ON `message_embeddings` (`conversation_id`);
\ No newline at end of file
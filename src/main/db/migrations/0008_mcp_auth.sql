@@ -0,0 +1,22 @@
+CREATE TABLE `mcp_audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`token_id` text,
+	`client_name` text NOT NULL,
+	`method` text NOT NULL,
+	`target` text,
+	`arguments` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `audit_created_at_idx` ON `mcp_audit_log` (`created_at`);--> statement-breakpoint
+CREATE TABLE `mcp_tokens` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`token_hash` text NOT NULL,
+	`token_prefix` text NOT NULL,
+	`providers` text,
+	`created_at` integer NOT NULL,
+	`last_used_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mcp_tokens_token_hash_unique` ON `mcp_tokens` (`token_hash`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `export_mirror` (
+	`conversation_id` text PRIMARY KEY NOT NULL,
+	`folder` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`synced_at` integer,
+	`exported_at` integer NOT NULL
+);
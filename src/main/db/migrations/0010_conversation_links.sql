@@ -0,0 +1,32 @@
+CREATE TABLE `conversation_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_conversation_id` text NOT NULL,
+	`source_message_id` text NOT NULL,
+	`target_conversation_id` text NOT NULL,
+	`target_message_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`source_conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `link_source_idx` ON `conversation_links` (`source_conversation_id`);--> statement-breakpoint
+CREATE INDEX `link_target_idx` ON `conversation_links` (`target_conversation_id`);--> statement-breakpoint
+CREATE TABLE `message_source_urls` (
+	`message_id` text NOT NULL,
+	`conversation_id` text NOT NULL,
+	`url` text NOT NULL,
+	PRIMARY KEY(`message_id`, `url`),
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `source_url_idx` ON `message_source_urls` (`url`);--> statement-breakpoint
+CREATE INDEX `source_url_conversation_idx` ON `message_source_urls` (`conversation_id`);--> statement-breakpoint
+INSERT OR IGNORE INTO `message_source_urls` (`message_id`, `conversation_id`, `url`)
+SELECT `id`, `conversation_id`, rtrim(CASE WHEN instr(`url`, '#') > 0 THEN substr(`url`, 1, instr(`url`, '#') - 1) ELSE `url` END, '/')
+FROM (
+  SELECT `messages`.`id`, `messages`.`conversation_id`, json_extract(`part`.`value`, '$.url') AS `url`
+  FROM `messages`, json_each(CASE WHEN json_valid(`messages`.`parts`) THEN `messages`.`parts` ELSE '[]' END) AS `part`
+  WHERE json_extract(`part`.`value`, '$.type') = 'source-url' AND `messages`.`conversation_id` IS NOT NULL
+)
+WHERE `url` LIKE 'http://%' OR `url` LIKE 'https://%';
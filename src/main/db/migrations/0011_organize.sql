@@ -0,0 +1,26 @@
+CREATE TABLE `conversation_tags` (
+	`conversation_id` text NOT NULL,
+	`tag` text NOT NULL,
+	PRIMARY KEY(`conversation_id`, `tag`),
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tag`) REFERENCES `tags`(`name`) ON UPDATE cascade ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `conversation_tag_idx` ON `conversation_tags` (`tag`);--> statement-breakpoint
+CREATE TABLE `folders` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`parent_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`parent_id`) REFERENCES `folders`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `folder_parent_idx` ON `folders` (`parent_id`);--> statement-breakpoint
+CREATE TABLE `tags` (
+	`name` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `conversations` ADD `starred` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `folder_id` text REFERENCES folders(id) ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `folder_idx` ON `conversations` (`folder_id`);
\ No newline at end of file
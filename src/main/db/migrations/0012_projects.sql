@@ -0,0 +1,25 @@
+CREATE TABLE `project_documents` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`filename` text NOT NULL,
+	`content` text,
+	`created_at` integer,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `project_document_idx` ON `project_documents` (`project_id`);--> statement-breakpoint
+CREATE TABLE `projects` (
+	`id` text PRIMARY KEY NOT NULL,
+	`provider` text NOT NULL,
+	`kind` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`instructions` text,
+	`created_at` integer,
+	`updated_at` integer,
+	`synced_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `project_provider_idx` ON `projects` (`provider`);--> statement-breakpoint
+ALTER TABLE `conversations` ADD `project_id` text;--> statement-breakpoint
+CREATE INDEX `project_idx` ON `conversations` (`project_id`);
\ No newline at end of file
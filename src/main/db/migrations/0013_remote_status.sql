@@ -0,0 +1,3 @@
+ALTER TABLE `conversations` ADD `remote_status` text;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `remote_deleted_at` integer;--> statement-breakpoint
+CREATE INDEX `remote_status_idx` ON `conversations` (`remote_status`);
\ No newline at end of file
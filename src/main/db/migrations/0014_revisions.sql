@@ -0,0 +1,19 @@
+CREATE TABLE `conversation_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`conversation_id` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`title` text NOT NULL,
+	`current_node_id` text,
+	`messages` text NOT NULL,
+	`synced_at` integer,
+	`recorded_at` integer NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `revision_conversation_idx` ON `conversation_revisions` (`conversation_id`);--> statement-breakpoint
+CREATE TABLE `message_snapshots` (
+	`hash` text PRIMARY KEY NOT NULL,
+	`role` text NOT NULL,
+	`parts` text NOT NULL,
+	`model` text
+);
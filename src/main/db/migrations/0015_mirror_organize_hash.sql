@@ -0,0 +1 @@
+ALTER TABLE `export_mirror` ADD `organize_hash` text;
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE `message_search` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` text NOT NULL,
+	`text` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `message_search_message_id_unique` ON `message_search` (`message_id`);--> statement-breakpoint
+INSERT INTO `message_search` (`message_id`, `text`)
+SELECT `id`, `text` FROM (
+  SELECT `messages`.`id` AS `id`, group_concat(
+    CASE json_extract(`part`.`value`, '$.type')
+      WHEN 'tool-call' THEN json_extract(`part`.`value`, '$.input')
+      WHEN 'tool-result' THEN json_extract(`part`.`value`, '$.output')
+      WHEN 'code-execution' THEN json_extract(`part`.`value`, '$.code') || coalesce(char(10) || json_extract(`part`.`value`, '$.output'), '')
+      WHEN 'artifact' THEN coalesce(json_extract(`part`.`value`, '$.content'), json_extract(`part`.`value`, '$.newStr'))
+      ELSE json_extract(`part`.`value`, '$.text')
+    END,
+    char(10)
+  ) AS `text`
+  FROM `messages`, json_each(CASE WHEN json_valid(`messages`.`parts`) THEN `messages`.`parts` ELSE '[]' END) AS `part`
+  WHERE json_extract(`part`.`value`, '$.type') IN ('text', 'reasoning', 'tool-call', 'tool-result', 'code-execution', 'artifact')
+  GROUP BY `messages`.`id`
+)
+WHERE `text` <> '';--> statement-breakpoint
+DROP TABLE `messages_fts`;--> statement-breakpoint
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(`text`, content = 'message_search', content_rowid = 'id', tokenize = 'unicode61 remove_diacritics 2');--> statement-breakpoint
+INSERT INTO `messages_fts` (`messages_fts`) VALUES ('rebuild');--> statement-breakpoint
+CREATE TRIGGER `message_search_insert` AFTER INSERT ON `message_search` BEGIN
+  INSERT INTO `messages_fts` (`rowid`, `text`) VALUES (new.`id`, new.`text`);
+END;--> statement-breakpoint
+CREATE TRIGGER `message_search_delete` AFTER DELETE ON `message_search` BEGIN
+  INSERT INTO `messages_fts` (`messages_fts`, `rowid`, `text`) VALUES ('delete', old.`id`, old.`text`);
+END;--> statement-breakpoint
+CREATE TRIGGER `message_search_update` AFTER UPDATE ON `message_search` BEGIN
+  INSERT INTO `messages_fts` (`messages_fts`, `rowid`, `text`) VALUES ('delete', old.`id`, old.`text`);
+  INSERT INTO `messages_fts` (`rowid`, `text`) VALUES (new.`id`, new.`text`);
+END;
@@ -1,8 +1,105 @@
-import { eq, desc, max, lt, and, asc, ne, count, or, sql } from 'drizzle-orm'
-import { getDatabase } from './index'
-import { conversations, messages, attachments, syncState, userPreferences } from './schema'
-import type { NewConversation, NewMessage, NewAttachment } from './schema'
-import type { Conversation, Message, Attachment, MessagePart } from '../../shared/types'
+import {
+  eq,
+  desc,
+  max,
+  lt,
+  gte,
+  and,
+  asc,
+  ne,
+  count,
+  countDistinct,
+  isNotNull,
+  or,
+  sql,
+  inArray,
+  type SQL
+} from 'drizzle-orm'
+import { getDatabase } from './connection'
+import {
+  conversations,
+  messages,
+  attachments,
+  artifacts,
+  conversationRevisions,
+  messageSnapshots,
+  messageEmbeddings,
+  messageSearch,
+  messageSourceUrls,
+  conversationLinks,
+  projects,
+  projectDocuments,
+  folders,
+  tags,
+  conversationTags,
+  mcpTokens,
+  mcpAuditLog,
+  exportMirror,
+  syncState,
+  userPreferences
+} from './schema'
+import type {
+  NewConversation,
+  NewMessage,
+  NewAttachment,
+  NewArtifact,
+  NewMessageEmbedding,
+  NewConversationLink,
+  NewProject,
+  NewProjectDocument,
+  NewFolder,
+  NewMcpToken,
+  NewMcpAuditEntry,
+  ExportMirrorEntry,
+  NewExportMirrorEntry
+} from './schema'
+import { getSearchableText, toFtsQuery, type FtsQuery } from './search'
+import { encodeVector } from './vectors'
+import { diffRemoteStatus, type RemoteListing, type RemoteStatusChanges } from './remote-status'
+import { buildRevisionContent, type RevisionMessageRef } from './revisions'
+import { mapAttachment, mapConversation, mapMessage, parseParts } from './mappers'
+import {
+  buildFolderPaths,
+  normalizeFolderName,
+  normalizeTagName,
+  organizeFilterCondition
+} from './organize'
+import {
+  RELATED_URL_MAX_CONVERSATIONS,
+  buildSharedUrlEdges,
+  getMessageSnippet,
+  getSourceUrls
+} from './links'
+import {
+  SNIPPET_HIGHLIGHT_START,
+  SNIPPET_HIGHLIGHT_END,
+  type Conversation,
+  type ConversationSearchResult,
+  type Message,
+  type Attachment,
+  type ModelCount,
+  type ModeCount,
+  type ArtifactVersion,
+  type ConversationRevision,
+  type ConversationRevisionSummary,
+  type ConversationSnapshot,
+  type RevisionMessage,
+  type Project,
+  type ProjectDocument,
+  type ProjectKind,
+  type RemoteStatus,
+  type Folder,
+  type OrganizeFilters,
+  type TagCount,
+  type ConversationLink,
+  type ConversationLinks,
+  type LinkedConversation,
+  type LinkGraph,
+  type LinkGraphEdge,
+  type McpTokenInfo,
+  type McpAuditEntry,
+  type ProviderName
+} from '../../shared/types'
 
 // Conversation operations
 export async function countConversations(): Promise<number> {
@@ -11,16 +108,54 @@ export async function countConversations(): Promise<number> {
   return result?.count ?? 0
 }
 
-export async function listConversations(options?: {
-  limit?: number
-  offset?: number
-  provider?: 'chatgpt' | 'claude' | 'perplexity'
-}): Promise<{ items: Conversation[]; total: number; hasMore: boolean }> {
+// Conversations with at least one message generated by the model
+function conversationHasModel(model: string) {
+  return sql`EXISTS (SELECT 1 FROM ${messages} WHERE ${messages.conversationId} = ${conversations.id} AND ${messages.model} = ${model})`
+}
+
+/**
+ * Filters shared by conversation listing and search.
+ * Date ranges include the `after` bound and exclude the `before` bound.
+ */
+export interface ConversationFilters extends OrganizeFilters {
+  provider?: ProviderName
+  providers?: ProviderName[] // Any of these providers (an MCP client's read scope)
+  model?: string // Conversations with at least one message generated by the model
+  mode?: string
+  remoteStatus?: RemoteStatus | 'any' // Archived or deleted on the provider ('any': either)
+  createdAfter?: Date
+  createdBefore?: Date
+  updatedAfter?: Date
+  updatedBefore?: Date
+}
+
+function conversationFilterCondition(filters?: ConversationFilters): SQL | undefined {
+  return and(
+    filters?.provider ? eq(conversations.provider, filters.provider) : undefined,
+    filters?.providers ? inArray(conversations.provider, filters.providers) : undefined,
+    filters?.model ? conversationHasModel(filters.model) : undefined,
+    filters?.mode ? eq(conversations.mode, filters.mode) : undefined,
+    filters?.remoteStatus === 'any'
+      ? isNotNull(conversations.remoteStatus)
+      : filters?.remoteStatus
+        ? eq(conversations.remoteStatus, filters.remoteStatus)
+        : undefined,
+    filters?.createdAfter ? gte(conversations.createdAt, filters.createdAfter) : undefined,
+    filters?.createdBefore ? lt(conversations.createdAt, filters.createdBefore) : undefined,
+    filters?.updatedAfter ? gte(conversations.updatedAt, filters.updatedAfter) : undefined,
+    filters?.updatedBefore ? lt(conversations.updatedAt, filters.updatedBefore) : undefined,
+    organizeFilterCondition(filters)
+  )
+}
+
+export async function listConversations(
+  options?: ConversationFilters & { limit?: number; offset?: number }
+): Promise<{ items: Conversation[]; total: number; hasMore: boolean }> {
   const db = getDatabase()
   const limit = options?.limit ?? 50
   const offset = options?.offset ?? 0
 
-  const whereClause = options?.provider ? eq(conversations.provider, options.provider) : undefined
+  const whereClause = conversationFilterCondition(options)
 
   const [results, totalResult] = await Promise.all([
     whereClause
@@ -45,17 +180,13 @@ export async function listConversations(options?: {
   const total = totalResult[0]?.count ?? 0
 
   return {
-    items: results.map(mapConversation),
+    items: await mapConversations(results),
     total,
     hasMore: offset + results.length < total
   }
 }
 
-export async function getProviderCounts(): Promise<{
-  chatgpt: number
-  claude: number
-  perplexity: number
-}> {
+export async function getProviderCounts(): Promise<Record<ProviderName, number>> {
   const db = getDatabase()
   const results = await db
     .select({
@@ -65,19 +196,65 @@ export async function getProviderCounts(): Promise<{
     .from(conversations)
     .groupBy(conversations.provider)
 
-  const counts = { chatgpt: 0, claude: 0, perplexity: 0 }
+  const counts: Record<ProviderName, number> = {}
   for (const row of results) {
-    if (row.provider === 'chatgpt' || row.provider === 'claude' || row.provider === 'perplexity') {
-      counts[row.provider] = row.count
-    }
+    counts[row.provider] = row.count
   }
   return counts
 }
 
+// Models seen in assistant messages, most used first
+export async function listModels(): Promise<ModelCount[]> {
+  const db = getDatabase()
+  const conversationCount = countDistinct(messages.conversationId)
+
+  const rows = await db
+    .select({
+      model: messages.model,
+      provider: conversations.provider,
+      count: conversationCount
+    })
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(isNotNull(messages.model))
+    .groupBy(messages.model, conversations.provider)
+    .orderBy(desc(conversationCount))
+
+  return rows.map((row) => ({
+    model: row.model ?? '',
+    provider: row.provider as ModelCount['provider'],
+    count: row.count
+  }))
+}
+
+// Search modes of conversations (Perplexity Pro Search, Deep Research, ...), most used first
+export async function listModes(): Promise<ModeCount[]> {
+  const db = getDatabase()
+
+  const rows = await db
+    .select({
+      mode: conversations.mode,
+      provider: conversations.provider,
+      count: count()
+    })
+    .from(conversations)
+    .where(isNotNull(conversations.mode))
+    .groupBy(conversations.mode, conversations.provider)
+    .orderBy(desc(count()))
+
+  return rows.map((row) => ({
+    mode: row.mode ?? '',
+    provider: row.provider as ModeCount['provider'],
+    count: row.count
+  }))
+}
+
 export async function getConversation(id: string): Promise<Conversation | null> {
   const db = getDatabase()
   const [result] = await db.select().from(conversations).where(eq(conversations.id, id))
-  return result ? mapConversation(result) : null
+  if (!result) return null
+  const [conversation] = await mapConversations([result])
+  return conversation
 }
 
 export async function getMaxUpdatedAt(provider: string): Promise<Date | null> {
@@ -141,8 +318,9 @@ export async function getConversationWithMessages(
     })
   )
 
+  const [mapped] = await mapConversations([conversation])
   return {
-    conversation: mapConversation(conversation),
+    conversation: mapped,
     messages: messagesWithAttachments,
     hasMoreMessages,
     oldestLoadedOrderIndex: msgs.length > 0 ? msgs[0].orderIndex : null
@@ -209,15 +387,15 @@ export async function getMessagesPage(
 
 export async function searchConversations(
   query: string,
-  options?: {
-    provider?: 'chatgpt' | 'claude' | 'perplexity'
+  options?: ConversationFilters & {
     caseInsensitive?: boolean
     searchInMessages?: boolean
   }
-): Promise<{ items: Conversation[]; total: number; hasMore: boolean }> {
+): Promise<{ items: ConversationSearchResult[]; total: number; hasMore: boolean }> {
   const db = getDatabase()
   const caseInsensitive = options?.caseInsensitive ?? true
   const searchInMessages = options?.searchInMessages ?? false
+  const limit = 50
 
   // unicode_lower is a custom SQLite function that uses JS toLowerCase() for proper Unicode support
   // INSTR does binary comparison for substring matching
@@ -225,45 +403,71 @@ export async function searchConversations(
     ? sql`INSTR(unicode_lower(${conversations.title}), ${query.toLowerCase()}) > 0`
     : sql`INSTR(${conversations.title}, ${query}) > 0`
 
-  let searchCondition
-  if (searchInMessages) {
-    // Also search in message content using EXISTS subquery
-    const messageCondition = caseInsensitive
-      ? sql`INSTR(unicode_lower(${messages.parts}), ${query.toLowerCase()}) > 0`
-      : sql`INSTR(${messages.parts}, ${query}) > 0`
-
-    const hasMatchingMessage = sql`EXISTS (
-      SELECT 1 FROM ${messages}
-      WHERE ${messages.conversationId} = ${conversations.id}
-      AND ${messageCondition}
-    )`
+  const whereClause = and(titleCondition, conversationFilterCondition(options))
 
-    searchCondition = or(titleCondition, hasMatchingMessage)
-  } else {
-    searchCondition = titleCondition
-  }
-
-  const whereClause = options?.provider
-    ? and(searchCondition, eq(conversations.provider, options.provider))
-    : searchCondition
-
-  const results = await db
+  const titleResults = await db
     .select()
     .from(conversations)
     .where(whereClause)
     .orderBy(desc(conversations.updatedAt))
-    .limit(50)
+    .limit(limit)
+
+  const ftsQuery = searchInMessages ? toFtsQuery(query) : null
+  if (!ftsQuery) {
+    return {
+      items: await mapConversations(titleResults),
+      total: titleResults.length,
+      hasMore: false // Search is always limited to 50
+    }
+  }
+
+  const hits = await findMessageHits(ftsQuery, {
+    limit: MESSAGE_HITS_SCAN_LIMIT,
+    filters: options,
+    caseInsensitive
+  })
+
+  // Hits are ordered by rank, so the first hit per conversation is its best match
+  const bestHits = new Map<string, MessageHit>()
+  for (const hit of hits) {
+    if (!bestHits.has(hit.conversationId)) {
+      bestHits.set(hit.conversationId, hit)
+    }
+  }
+
+  // Title matches come first, followed by conversations ranked by their best message
+  const titleIds = new Set(titleResults.map((row) => row.id))
+  const rankedIds = [...bestHits.keys()]
+    .filter((id) => !titleIds.has(id))
+    .slice(0, limit - titleResults.length)
+  const rankedRows =
+    rankedIds.length > 0
+      ? await db.select().from(conversations).where(inArray(conversations.id, rankedIds))
+      : []
+  const rowsById = new Map(rankedRows.map((row) => [row.id, row]))
+
+  const rows = [
+    ...titleResults,
+    ...rankedIds
+      .map((id) => rowsById.get(id))
+      .filter((row): row is typeof conversations.$inferSelect => row !== undefined)
+  ]
+
+  const items = (await mapConversations(rows)).map((conversation) => {
+    const snippet = bestHits.get(conversation.id)?.snippet
+    return snippet ? { ...conversation, snippet } : conversation
+  })
 
   return {
-    items: results.map(mapConversation),
-    total: results.length,
+    items,
+    total: items.length,
     hasMore: false // Search is always limited to 50
   }
 }
 
 export async function searchConversationsByKeywords(
   keywords: string[],
-  options?: { limit?: number; caseInsensitive?: boolean }
+  options?: ConversationFilters & { limit?: number; caseInsensitive?: boolean }
 ): Promise<{ items: Conversation[]; total: number }> {
   const db = getDatabase()
   const limit = options?.limit ?? 50
@@ -284,68 +488,74 @@ export async function searchConversationsByKeywords(
   const results = await db
     .select()
     .from(conversations)
-    .where(or(...conditions))
+    .where(and(or(...conditions), conversationFilterCondition(options)))
     .orderBy(desc(conversations.updatedAt))
     .limit(limit)
 
   return {
-    items: results.map(mapConversation),
+    items: await mapConversations(results),
     total: results.length
   }
 }
 
-export async function searchMessagesByKeywords(
-  keywords: string[],
-  options?: { limit?: number; caseInsensitive?: boolean }
+/**
+ * Full-text search over message text, ranked by BM25.
+ * The query supports "phrases", prefix*, AND / OR / NOT and parentheses (see toFtsQuery).
+ * Unlike the other filters, `model` matches the messages generated by the model.
+ */
+export async function searchMessages(
+  query: string,
+  options?: ConversationFilters & {
+    limit?: number
+    caseInsensitive?: boolean
+    highlight?: { start: string; end: string }
+  }
 ): Promise<{
   items: Array<{
     message: Message
     conversation: Conversation
-    matchedKeywords: string[]
+    snippet: string
+    rank: number
   }>
   total: number
 }> {
   const db = getDatabase()
-  const limit = options?.limit ?? 50
-  const caseInsensitive = options?.caseInsensitive ?? true
+  const ftsQuery = toFtsQuery(query)
 
-  if (keywords.length === 0) {
+  if (!ftsQuery) {
     return { items: [], total: 0 }
   }
 
-  // unicode_lower is a custom SQLite function that uses JS toLowerCase() for proper Unicode support
-  // INSTR does binary comparison for substring matching
-  const conditions = keywords.map((kw) =>
-    caseInsensitive
-      ? sql`INSTR(unicode_lower(${messages.parts}), ${kw.toLowerCase()}) > 0`
-      : sql`INSTR(${messages.parts}, ${kw}) > 0`
-  )
-
-  const results = await db
-    .select({
-      message: messages,
-      conversation: conversations
-    })
-    .from(messages)
-    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
-    .where(or(...conditions))
-    .orderBy(desc(messages.createdAt))
-    .limit(limit)
+  const { model, ...filters } = options ?? {}
+  const hits = await findMessageHits(ftsQuery, {
+    limit: options?.limit ?? 50,
+    filters,
+    messageModel: model,
+    caseInsensitive: options?.caseInsensitive ?? true,
+    highlight: options?.highlight
+  })
 
   const items = await Promise.all(
-    results.map(async (row) => {
+    hits.map(async (hit) => {
+      const [row] = await db
+        .select({
+          message: messages,
+          conversation: conversations
+        })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(eq(messages.id, hit.messageId))
+
       const msgAttachments = await db
         .select()
         .from(attachments)
-        .where(eq(attachments.messageId, row.message.id))
-
-      const partsText = row.message.parts?.toLowerCase() ?? ''
-      const matchedKeywords = keywords.filter((kw) => partsText.includes(kw.toLowerCase()))
+        .where(eq(attachments.messageId, hit.messageId))
 
       return {
         message: mapMessage(row.message, msgAttachments.map(mapAttachment)),
         conversation: mapConversation(row.conversation),
-        matchedKeywords
+        snippet: hit.snippet,
+        rank: hit.rank
       }
     })
   )
@@ -356,8 +566,262 @@ export async function searchMessagesByKeywords(
   }
 }
 
+export async function searchMessagesByKeywords(
+  keywords: string[],
+  options?: ConversationFilters & {
+    limit?: number
+    caseInsensitive?: boolean
+    highlight?: { start: string; end: string }
+  }
+): Promise<{
+  items: Array<{
+    message: Message
+    conversation: Conversation
+    snippet: string
+    matchedKeywords: string[]
+  }>
+  total: number
+}> {
+  if (keywords.length === 0) {
+    return { items: [], total: 0 }
+  }
+
+  // Each keyword becomes a phrase, matching messages that contain ANY of them
+  const query = keywords.map((kw) => `"${kw.replace(/"/g, '')}"`).join(' OR ')
+  const result = await searchMessages(query, options)
+
+  const items = result.items.map(({ message, conversation, snippet }) => {
+    const text = getSearchableText(message.parts).toLowerCase()
+    const matchedKeywords = keywords.filter((kw) => text.includes(kw.toLowerCase()))
+    return { message, conversation, snippet, matchedKeywords }
+  })
+
+  return {
+    items,
+    total: items.length
+  }
+}
+
+// Full-text index helpers (messages_fts indexes message_search, keyed on its id)
+const MESSAGE_HITS_SCAN_LIMIT = 500
+
+interface MessageHit {
+  messageId: string
+  conversationId: string
+  rank: number
+  snippet: string
+}
+
+async function findMessageHits(
+  ftsQuery: FtsQuery,
+  options: {
+    limit: number
+    filters?: ConversationFilters
+    messageModel?: string // Only messages generated by the model
+    caseInsensitive: boolean
+    highlight?: { start: string; end: string }
+  }
+): Promise<MessageHit[]> {
+  const db = getDatabase()
+  const highlight = options.highlight ?? {
+    start: SNIPPET_HIGHLIGHT_START,
+    end: SNIPPET_HIGHLIGHT_END
+  }
+
+  const filterCondition = conversationFilterCondition(options.filters)
+  const conversationCondition = filterCondition ? sql`AND ${filterCondition}` : sql``
+
+  const messageModelCondition = options.messageModel
+    ? sql`AND ${messages.model} = ${options.messageModel}`
+    : sql``
+
+  // FTS5 always matches case-insensitively, so case-sensitive search additionally
+  // requires one of the searched terms to appear verbatim in the message text
+  const caseCondition =
+    options.caseInsensitive || ftsQuery.terms.length === 0
+      ? sql``
+      : sql`AND (${sql.join(
+          ftsQuery.terms.map((term) => sql`INSTR(${messageSearch.text}, ${term}) > 0`),
+          sql` OR `
+        )})`
+
+  return db.all<MessageHit>(sql`
+    SELECT
+      ${messages.id} AS messageId,
+      ${messages.conversationId} AS conversationId,
+      bm25(messages_fts) AS rank,
+      snippet(messages_fts, 0, ${highlight.start}, ${highlight.end}, '…', 16) AS snippet
+    FROM messages_fts
+    INNER JOIN ${messageSearch} ON ${messageSearch.id} = messages_fts.rowid
+    INNER JOIN ${messages} ON ${messages.id} = ${messageSearch.messageId}
+    INNER JOIN ${conversations} ON ${conversations.id} = ${messages.conversationId}
+    WHERE messages_fts MATCH ${ftsQuery.match} ${conversationCondition} ${messageModelCondition} ${caseCondition}
+    ORDER BY rank
+    LIMIT ${options.limit}
+  `)
+}
+
+async function indexMessageText(message: NewMessage): Promise<void> {
+  const db = getDatabase()
+  const text = getSearchableText(parseParts(message.parts))
+
+  const [indexed] = await db
+    .select({ text: messageSearch.text })
+    .from(messageSearch)
+    .where(eq(messageSearch.messageId, message.id))
+  if ((indexed?.text ?? '') === text) {
+    return
+  }
+
+  // Embeddings of the old text are stale, the embeddings indexer picks the message up again
+  await db.delete(messageEmbeddings).where(eq(messageEmbeddings.messageId, message.id))
+
+  // Triggers keep messages_fts in sync (see migrations/0016_message_search.sql)
+  await db.delete(messageSearch).where(eq(messageSearch.messageId, message.id))
+
+  if (text) {
+    await db.insert(messageSearch).values({ messageId: message.id, text })
+  }
+}
+
+// Source URLs of a message are replaced as a whole; rows of deleted messages go by the FK cascade
+async function indexMessageSourceUrls(message: NewMessage): Promise<void> {
+  const db = getDatabase()
+  await db.delete(messageSourceUrls).where(eq(messageSourceUrls.messageId, message.id))
+
+  const conversationId = message.conversationId
+  if (!conversationId) return
+  for (const url of getSourceUrls(parseParts(message.parts))) {
+    await db.insert(messageSourceUrls).values({ messageId: message.id, conversationId, url })
+  }
+}
+
+async function unindexConversationMessages(conversationId: string): Promise<void> {
+  const db = getDatabase()
+  await db
+    .delete(messageSearch)
+    .where(
+      inArray(
+        messageSearch.messageId,
+        db
+          .select({ id: messages.id })
+          .from(messages)
+          .where(eq(messages.conversationId, conversationId))
+      )
+    )
+}
+
+// Semantic search (vectors are created by the embeddings indexer, see embeddings/index.ts)
+const SEMANTIC_SNIPPET_LENGTH = 240
+
+/**
+ * Messages with indexed text that have no vectors from the embedding model yet.
+ */
+export async function getMessagesToEmbed(
+  embeddingModel: string,
+  limit: number
+): Promise<Array<{ messageId: string; conversationId: string; text: string }>> {
+  const db = getDatabase()
+  return db.all(sql`
+    SELECT
+      ${messages.id} AS messageId,
+      ${messages.conversationId} AS conversationId,
+      ${messageSearch.text} AS text
+    FROM ${messageSearch}
+    INNER JOIN ${messages} ON ${messages.id} = ${messageSearch.messageId}
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ${messageEmbeddings}
+      WHERE ${messageEmbeddings.messageId} = ${messages.id}
+        AND ${messageEmbeddings.model} = ${embeddingModel}
+    )
+    ORDER BY ${messageSearch.id}
+    LIMIT ${limit}
+  `)
+}
+
+export async function replaceMessageEmbeddings(
+  messageId: string,
+  data: NewMessageEmbedding[]
+): Promise<void> {
+  const db = getDatabase()
+  await db.delete(messageEmbeddings).where(eq(messageEmbeddings.messageId, messageId))
+  if (data.length > 0) {
+    await db.insert(messageEmbeddings).values(data)
+  }
+}
+
+/**
+ * Conversations ranked by the similarity of their closest message chunk to a query vector.
+ */
+export async function searchConversationsBySimilarity(
+  vector: Float32Array,
+  options: ConversationFilters & {
+    embeddingModel: string
+    limit?: number
+  }
+): Promise<
+  Array<{ conversation: Conversation; messageId: string; snippet: string; score: number }>
+> {
+  const db = getDatabase()
+
+  const filterCondition = conversationFilterCondition(options)
+  const conversationCondition = filterCondition ? sql`AND ${filterCondition}` : sql``
+
+  // With MAX(), SQLite takes the other columns from the row with the best score
+  const hits = await db.all<{
+    conversationId: string
+    messageId: string
+    score: number
+    chunk: string
+  }>(sql`
+    WITH best AS (
+      SELECT
+        ${messageEmbeddings.conversationId} AS conversationId,
+        ${messageEmbeddings.messageId} AS messageId,
+        ${messageEmbeddings.charStart} AS charStart,
+        ${messageEmbeddings.charEnd} AS charEnd,
+        MAX(vector_similarity(${messageEmbeddings.vector}, ${encodeVector(vector)})) AS score
+      FROM ${messageEmbeddings}
+      INNER JOIN ${conversations} ON ${conversations.id} = ${messageEmbeddings.conversationId}
+      WHERE ${messageEmbeddings.model} = ${options.embeddingModel} ${conversationCondition}
+      GROUP BY ${messageEmbeddings.conversationId}
+      ORDER BY score DESC
+      LIMIT ${options.limit ?? 50}
+    )
+    SELECT
+      best.conversationId AS conversationId,
+      best.messageId AS messageId,
+      best.score AS score,
+      substr(${messageSearch.text}, best.charStart + 1, best.charEnd - best.charStart) AS chunk
+    FROM best
+    INNER JOIN ${messageSearch} ON ${messageSearch.messageId} = best.messageId
+    ORDER BY best.score DESC
+  `)
+
+  if (hits.length === 0) {
+    return []
+  }
+
+  const ids = hits.map((hit) => hit.conversationId)
+  const rows = await db.select().from(conversations).where(inArray(conversations.id, ids))
+  const conversationsById = new Map(
+    (await mapConversations(rows)).map((conversation) => [conversation.id, conversation])
+  )
+
+  return hits.flatMap((hit) => {
+    const conversation = conversationsById.get(hit.conversationId)
+    if (!conversation) return []
+    const snippet =
+      hit.chunk.length > SEMANTIC_SNIPPET_LENGTH
+        ? `${hit.chunk.slice(0, SEMANTIC_SNIPPET_LENGTH).trimEnd()}…`
+        : hit.chunk
+    return [{ conversation, messageId: hit.messageId, snippet, score: hit.score }]
+  })
+}
+
 export async function upsertConversation(data: NewConversation): Promise<void> {
   const db = getDatabase()
+  await recordRevision(data.id)
 
   await db
     .insert(conversations)
@@ -370,16 +834,52 @@ export async function upsertConversation(data: NewConversation): Promise<void> {
         updatedAt: data.updatedAt,
         syncedAt: data.syncedAt,
         messageCount: data.messageCount,
-        currentNodeId: data.currentNodeId
+        currentNodeId: data.currentNodeId,
+        mode: data.mode,
+        searchFocus: data.searchFocus,
+        projectId: data.projectId
       }
     })
 }
 
 export async function deleteConversation(id: string): Promise<void> {
   const db = getDatabase()
+  // Messages are removed by the FK cascade, their index entries are not
+  await unindexConversationMessages(id)
   await db.delete(conversations).where(eq(conversations.id, id))
 }
 
+/**
+ * Mark the provider's conversations that its complete listing no longer has as archived or
+ * deleted, and clear the mark of ones listed again. The conversations themselves are kept.
+ */
+export async function reconcileRemoteConversations(
+  provider: ProviderName,
+  listing: RemoteListing,
+  at: Date
+): Promise<RemoteStatusChanges> {
+  const db = getDatabase()
+  const local = await db
+    .select({ id: conversations.id, remoteStatus: conversations.remoteStatus })
+    .from(conversations)
+    .where(eq(conversations.provider, provider))
+  const changes = diffRemoteStatus(local, listing)
+
+  const update = async (ids: string[], values: Partial<NewConversation>): Promise<void> => {
+    // Stay under SQLite's limit on bound parameters
+    for (let i = 0; i < ids.length; i += 500) {
+      await db
+        .update(conversations)
+        .set(values)
+        .where(inArray(conversations.id, ids.slice(i, i + 500)))
+    }
+  }
+  await update(changes.archived, { remoteStatus: 'archived', remoteDeletedAt: at })
+  await update(changes.deleted, { remoteStatus: 'deleted', remoteDeletedAt: at })
+  await update(changes.restored, { remoteStatus: null, remoteDeletedAt: null })
+  return changes
+}
+
 // Message operations
 export async function upsertMessages(data: NewMessage[]): Promise<void> {
   const db = getDatabase()
@@ -399,14 +899,19 @@ export async function upsertMessages(data: NewMessage[]): Promise<void> {
           orderIndex: message.orderIndex,
           parentId: message.parentId,
           siblingIds: message.siblingIds,
-          siblingIndex: message.siblingIndex
+          siblingIndex: message.siblingIndex,
+          model: message.model
         }
       })
+    await indexMessageText(message)
+    await indexMessageSourceUrls(message)
   }
 }
 
 export async function deleteMessagesForConversation(conversationId: string): Promise<void> {
   const db = getDatabase()
+  await recordRevision(conversationId)
+  await unindexConversationMessages(conversationId)
   await db.delete(messages).where(eq(messages.conversationId, conversationId))
 }
 
@@ -479,6 +984,632 @@ export async function findDownloadedAttachmentByFileId(fileId: string): Promise<
   return result ? mapAttachment(result) : null
 }
 
+// Artifact operations
+// Versions are derived from message parts, so a conversation's rows are replaced as a whole
+export async function replaceArtifacts(conversationId: string, data: NewArtifact[]): Promise<void> {
+  const db = getDatabase()
+  await db.delete(artifacts).where(eq(artifacts.conversationId, conversationId))
+  for (const artifact of data) {
+    await db.insert(artifacts).values(artifact)
+  }
+}
+
+export async function listArtifacts(conversationId: string): Promise<ArtifactVersion[]> {
+  const db = getDatabase()
+  const results = await db
+    .select()
+    .from(artifacts)
+    .where(eq(artifacts.conversationId, conversationId))
+    .orderBy(asc(artifacts.artifactId), asc(artifacts.version))
+  return results.map(mapArtifact)
+}
+
+export async function getArtifactVersion(id: string): Promise<ArtifactVersion | null> {
+  const db = getDatabase()
+  const [result] = await db.select().from(artifacts).where(eq(artifacts.id, id))
+  return result ? mapArtifact(result) : null
+}
+
+// Revision operations
+// Title, current node and messages of a conversation as stored, with their revision content
+async function getStoredState(conversationId: string) {
+  const db = getDatabase()
+  const [conversation] = await db
+    .select({
+      title: conversations.title,
+      currentNodeId: conversations.currentNodeId,
+      syncedAt: conversations.syncedAt
+    })
+    .from(conversations)
+    .where(eq(conversations.id, conversationId))
+  if (!conversation) return null
+
+  const rows = await db
+    .select({
+      id: messages.id,
+      parentId: messages.parentId,
+      role: messages.role,
+      parts: messages.parts,
+      model: messages.model
+    })
+    .from(messages)
+    .where(eq(messages.conversationId, conversationId))
+    .orderBy(asc(messages.orderIndex))
+
+  return {
+    ...conversation,
+    rows,
+    content: buildRevisionContent(conversation.title, conversation.currentNodeId, rows)
+  }
+}
+
+/**
+ * Keep the stored state of a conversation as a revision before it's overwritten, unless
+ * it has no messages yet or the latest revision has the same content. Called by
+ * upsertConversation and deleteMessagesForConversation, which every sync and import
+ * goes through, so providers don't need to know about revisions.
+ */
+async function recordRevision(conversationId: string): Promise<void> {
+  const db = getDatabase()
+  const stored = await getStoredState(conversationId)
+  if (!stored || stored.rows.length === 0) return
+
+  const [latest] = await db
+    .select({ contentHash: conversationRevisions.contentHash })
+    .from(conversationRevisions)
+    .where(eq(conversationRevisions.conversationId, conversationId))
+    .orderBy(desc(conversationRevisions.id))
+    .limit(1)
+  if (latest?.contentHash === stored.content.contentHash) return
+
+  for (const snapshot of stored.content.snapshots) {
+    await db.insert(messageSnapshots).values(snapshot).onConflictDoNothing()
+  }
+  await db.insert(conversationRevisions).values({
+    conversationId,
+    contentHash: stored.content.contentHash,
+    title: stored.title,
+    currentNodeId: stored.currentNodeId,
+    messages: JSON.stringify(stored.content.messages),
+    syncedAt: stored.syncedAt,
+    recordedAt: new Date()
+  })
+}
+
+// Newest first. A revision with the same content as the stored state isn't listed
+export async function listConversationRevisions(
+  conversationId: string
+): Promise<ConversationRevisionSummary[]> {
+  const db = getDatabase()
+  const rows = await db
+    .select({
+      id: conversationRevisions.id,
+      contentHash: conversationRevisions.contentHash,
+      title: conversationRevisions.title,
+      messageCount: sql<number>`json_array_length(${conversationRevisions.messages})`,
+      syncedAt: conversationRevisions.syncedAt,
+      recordedAt: conversationRevisions.recordedAt
+    })
+    .from(conversationRevisions)
+    .where(eq(conversationRevisions.conversationId, conversationId))
+    .orderBy(desc(conversationRevisions.id))
+  const stored = await getStoredState(conversationId)
+
+  return rows
+    .filter((row) => row.contentHash !== stored?.content.contentHash)
+    .map((row) => ({
+      id: row.id,
+      title: row.title,
+      messageCount: row.messageCount,
+      syncedAt: row.syncedAt,
+      recordedAt: row.recordedAt
+    }))
+}
+
+// A revision with the stored state of its conversation, to compare them
+export async function getConversationRevision(
+  id: number
+): Promise<{ revision: ConversationRevision; current: ConversationSnapshot } | null> {
+  const db = getDatabase()
+  const [row] = await db
+    .select()
+    .from(conversationRevisions)
+    .where(eq(conversationRevisions.id, id))
+  if (!row) return null
+  const stored = await getStoredState(row.conversationId)
+  if (!stored) return null
+
+  const refs: RevisionMessageRef[] = JSON.parse(row.messages)
+  const hashes = [...new Set(refs.map((ref) => ref.hash))]
+  const snapshots = new Map<string, typeof messageSnapshots.$inferSelect>()
+  // Stay under SQLite's limit on bound parameters
+  for (let i = 0; i < hashes.length; i += 500) {
+    const chunk = await db
+      .select()
+      .from(messageSnapshots)
+      .where(inArray(messageSnapshots.hash, hashes.slice(i, i + 500)))
+    for (const snapshot of chunk) snapshots.set(snapshot.hash, snapshot)
+  }
+
+  const toRevisionMessage = (
+    message: { role: string; parts: string; model: string | null },
+    ref: { id: string; parentId: string | null }
+  ): RevisionMessage => ({
+    id: ref.id,
+    parentId: ref.parentId,
+    role: message.role as RevisionMessage['role'],
+    parts: parseParts(message.parts),
+    model: message.model ?? undefined
+  })
+
+  return {
+    revision: {
+      id: row.id,
+      conversationId: row.conversationId,
+      title: row.title,
+      currentNodeId: row.currentNodeId,
+      messages: refs.flatMap((ref) => {
+        const snapshot = snapshots.get(ref.hash)
+        return snapshot ? [toRevisionMessage(snapshot, ref)] : []
+      }),
+      syncedAt: row.syncedAt,
+      recordedAt: row.recordedAt
+    },
+    current: {
+      title: stored.title,
+      currentNodeId: stored.currentNodeId,
+      messages: stored.rows.map((message) => toRevisionMessage(message, message))
+    }
+  }
+}
+
+// Project operations
+/**
+ * Insert or update a project. Its documents are replaced when given, and left alone
+ * otherwise (providers skip fetching them for unchanged projects).
+ */
+export async function upsertProject(
+  data: NewProject,
+  documents?: NewProjectDocument[]
+): Promise<void> {
+  const db = getDatabase()
+
+  await db
+    .insert(projects)
+    .values(data)
+    .onConflictDoUpdate({
+      target: projects.id,
+      set: {
+        kind: data.kind,
+        name: data.name,
+        description: data.description,
+        instructions: data.instructions,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+        syncedAt: data.syncedAt
+      }
+    })
+
+  if (documents) {
+    await db.delete(projectDocuments).where(eq(projectDocuments.projectId, data.id))
+    if (documents.length > 0) await db.insert(projectDocuments).values(documents)
+  }
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  const [project] = await selectProjects(eq(projects.id, id))
+  return project ?? null
+}
+
+// Projects grouped by provider, by name within each
+export async function listProjects(): Promise<Project[]> {
+  return selectProjects()
+}
+
+async function selectProjects(where?: SQL): Promise<Project[]> {
+  const db = getDatabase()
+  const rows = await db
+    .select({ project: projects, conversationCount: count(conversations.id) })
+    .from(projects)
+    .leftJoin(conversations, eq(conversations.projectId, projects.id))
+    .where(where)
+    .groupBy(projects.id)
+    .orderBy(asc(projects.provider), asc(projects.name))
+
+  return rows.map(({ project, conversationCount }) => mapProject(project, conversationCount))
+}
+
+export async function getProjectWithDocuments(
+  id: string
+): Promise<{ project: Project; documents: ProjectDocument[] } | null> {
+  const db = getDatabase()
+  const project = await getProject(id)
+  if (!project) return null
+
+  const documents = await db
+    .select()
+    .from(projectDocuments)
+    .where(eq(projectDocuments.projectId, id))
+    .orderBy(asc(projectDocuments.filename))
+  return {
+    project,
+    documents: documents.map((row) => ({
+      id: row.id,
+      projectId: row.projectId,
+      filename: row.filename,
+      content: row.content,
+      createdAt: row.createdAt
+    }))
+  }
+}
+
+// Organization operations: favorites, folders and tags (see organize.ts). They only touch
+// columns and tables that syncing leaves alone
+export async function setConversationStarred(id: string, starred: boolean): Promise<void> {
+  const db = getDatabase()
+  await db.update(conversations).set({ starred }).where(eq(conversations.id, id))
+}
+
+export async function setConversationFolder(id: string, folderId: string | null): Promise<void> {
+  const db = getDatabase()
+  await db.update(conversations).set({ folderId }).where(eq(conversations.id, id))
+}
+
+/**
+ * Replace the tags of a conversation. Tags are created as needed and stay when their last
+ * conversation goes, until deleted. Returns the normalized names.
+ */
+export async function setConversationTags(id: string, names: string[]): Promise<string[]> {
+  const db = getDatabase()
+  const normalized = [
+    ...new Set(names.map(normalizeTagName).filter((tag): tag is string => tag !== null))
+  ].sort()
+
+  await db.delete(conversationTags).where(eq(conversationTags.conversationId, id))
+  for (const tag of normalized) {
+    await db.insert(tags).values({ name: tag, createdAt: new Date() }).onConflictDoNothing()
+    await db.insert(conversationTags).values({ conversationId: id, tag })
+  }
+  return normalized
+}
+
+export async function listTags(): Promise<TagCount[]> {
+  const db = getDatabase()
+  return db
+    .select({ tag: tags.name, count: count(conversationTags.conversationId) })
+    .from(tags)
+    .leftJoin(conversationTags, eq(conversationTags.tag, tags.name))
+    .groupBy(tags.name)
+    .orderBy(asc(tags.name))
+}
+
+/**
+ * Rename a tag on all its conversations; renaming to an existing tag merges the two.
+ */
+export async function renameTag(tag: string, newName: string): Promise<void> {
+  const db = getDatabase()
+  const target = normalizeTagName(newName)
+  if (!target) throw new Error('Tag names cannot be empty')
+  if (target === tag) return
+
+  const [existing] = await db.select().from(tags).where(eq(tags.name, target))
+  if (!existing) {
+    // conversation_tags follows through ON UPDATE CASCADE
+    await db.update(tags).set({ name: target }).where(eq(tags.name, tag))
+    return
+  }
+
+  await db.run(sql`
+    INSERT OR IGNORE INTO ${conversationTags} (conversation_id, tag)
+    SELECT ${conversationTags.conversationId}, ${target} FROM ${conversationTags}
+    WHERE ${conversationTags.tag} = ${tag}
+  `)
+  await db.delete(tags).where(eq(tags.name, tag))
+}
+
+export async function deleteTag(tag: string): Promise<void> {
+  const db = getDatabase()
+  await db.delete(tags).where(eq(tags.name, tag))
+}
+
+// Folders sorted by path, so subfolders follow their parent
+export async function listFolders(): Promise<Folder[]> {
+  const db = getDatabase()
+  const [rows, counts] = await Promise.all([
+    db.select().from(folders),
+    db
+      .select({ folderId: conversations.folderId, count: count() })
+      .from(conversations)
+      .where(isNotNull(conversations.folderId))
+      .groupBy(conversations.folderId)
+  ])
+  const paths = buildFolderPaths(rows)
+  const countsById = new Map(counts.map((row) => [row.folderId, row.count]))
+
+  return rows
+    .map((row) => ({
+      id: row.id,
+      name: row.name,
+      parentId: row.parentId,
+      path: paths.get(row.id) ?? row.name,
+      conversationCount: countsById.get(row.id) ?? 0
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+export async function createFolder(data: NewFolder): Promise<Folder> {
+  const db = getDatabase()
+  const name = normalizeFolderName(data.name)
+  if (!name) throw new Error('Folder names cannot be empty')
+  await db.insert(folders).values({ ...data, name })
+  const folder = (await listFolders()).find((row) => row.id === data.id)
+  if (!folder) throw new Error(`Folder not found: ${data.id}`)
+  return folder
+}
+
+export async function renameFolder(id: string, name: string): Promise<void> {
+  const db = getDatabase()
+  const normalized = normalizeFolderName(name)
+  if (!normalized) throw new Error('Folder names cannot be empty')
+  await db.update(folders).set({ name: normalized }).where(eq(folders.id, id))
+}
+
+// Subfolders are deleted too; their conversations stay, outside any folder
+export async function deleteFolder(id: string): Promise<void> {
+  const db = getDatabase()
+  await db.delete(folders).where(eq(folders.id, id))
+}
+
+// Link operations (see links.ts)
+export async function createConversationLink(data: NewConversationLink): Promise<ConversationLink> {
+  const db = getDatabase()
+  const [row] = await db.insert(conversationLinks).values(data).returning()
+  return mapConversationLink(row)
+}
+
+export async function deleteConversationLink(id: string): Promise<void> {
+  const db = getDatabase()
+  await db.delete(conversationLinks).where(eq(conversationLinks.id, id))
+}
+
+/**
+ * Links from and to a conversation, and the conversations citing the same URLs
+ * (most shared URLs first).
+ */
+export async function getConversationLinks(conversationId: string): Promise<ConversationLinks> {
+  const db = getDatabase()
+
+  const outgoingRows = await db
+    .select()
+    .from(conversationLinks)
+    .where(eq(conversationLinks.sourceConversationId, conversationId))
+    .orderBy(asc(conversationLinks.createdAt))
+  const backlinkRows = await db
+    .select()
+    .from(conversationLinks)
+    .where(eq(conversationLinks.targetConversationId, conversationId))
+    .orderBy(asc(conversationLinks.createdAt))
+
+  // URLs of this conversation that other conversations cite too, but not too many of them
+  const sharedUrls = db
+    .select({ url: messageSourceUrls.url })
+    .from(messageSourceUrls)
+    .where(
+      inArray(
+        messageSourceUrls.url,
+        db
+          .select({ url: messageSourceUrls.url })
+          .from(messageSourceUrls)
+          .where(eq(messageSourceUrls.conversationId, conversationId))
+      )
+    )
+    .groupBy(messageSourceUrls.url)
+    .having(
+      sql`count(DISTINCT ${messageSourceUrls.conversationId}) BETWEEN 2 AND ${RELATED_URL_MAX_CONVERSATIONS}`
+    )
+  const relatedRows = await db
+    .selectDistinct({
+      conversationId: messageSourceUrls.conversationId,
+      url: messageSourceUrls.url
+    })
+    .from(messageSourceUrls)
+    .where(
+      and(
+        inArray(messageSourceUrls.url, sharedUrls),
+        ne(messageSourceUrls.conversationId, conversationId)
+      )
+    )
+
+  const urlsByConversation = new Map<string, string[]>()
+  for (const row of relatedRows) {
+    urlsByConversation.set(row.conversationId, [
+      ...(urlsByConversation.get(row.conversationId) ?? []),
+      row.url
+    ])
+  }
+
+  const conversationsById = await getConversationsById([
+    ...outgoingRows.map((row) => row.targetConversationId),
+    ...backlinkRows.map((row) => row.sourceConversationId),
+    ...urlsByConversation.keys()
+  ])
+  const snippets = await getMessageSnippets([
+    ...outgoingRows.flatMap((row) => (row.targetMessageId ? [row.targetMessageId] : [])),
+    ...backlinkRows.map((row) => row.sourceMessageId)
+  ])
+
+  const toLinkedConversation = (
+    row: typeof conversationLinks.$inferSelect,
+    otherConversationId: string,
+    messageId: string | null
+  ): LinkedConversation[] => {
+    const conversation = conversationsById.get(otherConversationId)
+    if (!conversation) return []
+    const snippet = messageId ? (snippets.get(messageId) ?? null) : null
+    return [{ link: mapConversationLink(row), conversation, snippet }]
+  }
+
+  return {
+    outgoing: outgoingRows.flatMap((row) =>
+      toLinkedConversation(row, row.targetConversationId, row.targetMessageId)
+    ),
+    backlinks: backlinkRows.flatMap((row) =>
+      toLinkedConversation(row, row.sourceConversationId, row.sourceMessageId)
+    ),
+    related: [...urlsByConversation]
+      .flatMap(([id, urls]) => {
+        const conversation = conversationsById.get(id)
+        return conversation ? [{ conversation, urls }] : []
+      })
+      .sort((a, b) => b.urls.length - a.urls.length)
+  }
+}
+
+/**
+ * Every conversation with a link or a shared URL, and the edges between them.
+ */
+export async function getLinkGraph(): Promise<LinkGraph> {
+  const db = getDatabase()
+
+  const linkRows = await db
+    .select({
+      source: conversationLinks.sourceConversationId,
+      target: conversationLinks.targetConversationId,
+      weight: count()
+    })
+    .from(conversationLinks)
+    .where(ne(conversationLinks.sourceConversationId, conversationLinks.targetConversationId))
+    .groupBy(conversationLinks.sourceConversationId, conversationLinks.targetConversationId)
+  const linkEdges: LinkGraphEdge[] = linkRows.map((row) => ({ ...row, kind: 'link' }))
+
+  const sharedUrls = db
+    .select({ url: messageSourceUrls.url })
+    .from(messageSourceUrls)
+    .groupBy(messageSourceUrls.url)
+    .having(
+      sql`count(DISTINCT ${messageSourceUrls.conversationId}) BETWEEN 2 AND ${RELATED_URL_MAX_CONVERSATIONS}`
+    )
+  const urlRows = await db
+    .selectDistinct({
+      url: messageSourceUrls.url,
+      conversationId: messageSourceUrls.conversationId
+    })
+    .from(messageSourceUrls)
+    .where(inArray(messageSourceUrls.url, sharedUrls))
+
+  const edges = [...linkEdges, ...buildSharedUrlEdges(urlRows)]
+  const conversationsById = await getConversationsById(
+    edges.flatMap((edge) => [edge.source, edge.target])
+  )
+
+  return {
+    nodes: [...conversationsById.values()].map(({ id, title, provider }) => ({
+      id,
+      title,
+      provider
+    })),
+    edges: edges.filter(
+      (edge) => conversationsById.has(edge.source) && conversationsById.has(edge.target)
+    )
+  }
+}
+
+async function getConversationsById(ids: string[]): Promise<Map<string, Conversation>> {
+  const db = getDatabase()
+  const unique = [...new Set(ids)]
+  if (unique.length === 0) return new Map()
+  const rows = await db.select().from(conversations).where(inArray(conversations.id, unique))
+  return new Map(rows.map((row) => [row.id, mapConversation(row)]))
+}
+
+async function getMessageSnippets(ids: string[]): Promise<Map<string, string | null>> {
+  const db = getDatabase()
+  if (ids.length === 0) return new Map()
+  const rows = await db
+    .select({ id: messages.id, parts: messages.parts })
+    .from(messages)
+    .where(inArray(messages.id, [...new Set(ids)]))
+  return new Map(rows.map((row) => [row.id, getMessageSnippet(parseParts(row.parts))]))
+}
+
+// MCP client operations (tokens are created in mcp/tokens.ts)
+// Newest entries kept in the audit log
+const MCP_AUDIT_LOG_LIMIT = 10000
+
+export async function createMcpToken(data: NewMcpToken): Promise<McpTokenInfo> {
+  const db = getDatabase()
+  const [row] = await db.insert(mcpTokens).values(data).returning()
+  return mapMcpToken(row)
+}
+
+export async function listMcpTokens(): Promise<McpTokenInfo[]> {
+  const db = getDatabase()
+  const results = await db.select().from(mcpTokens).orderBy(asc(mcpTokens.createdAt))
+  return results.map(mapMcpToken)
+}
+
+export async function getMcpTokenByHash(tokenHash: string): Promise<McpTokenInfo | null> {
+  const db = getDatabase()
+  const [result] = await db.select().from(mcpTokens).where(eq(mcpTokens.tokenHash, tokenHash))
+  return result ? mapMcpToken(result) : null
+}
+
+export async function setMcpTokenLastUsed(id: string, lastUsedAt: Date): Promise<void> {
+  const db = getDatabase()
+  await db.update(mcpTokens).set({ lastUsedAt }).where(eq(mcpTokens.id, id))
+}
+
+export async function deleteMcpToken(id: string): Promise<void> {
+  const db = getDatabase()
+  await db.delete(mcpTokens).where(eq(mcpTokens.id, id))
+}
+
+export async function addMcpAuditEntry(data: NewMcpAuditEntry): Promise<void> {
+  const db = getDatabase()
+  const [row] = await db.insert(mcpAuditLog).values(data).returning({ id: mcpAuditLog.id })
+  if (row.id > MCP_AUDIT_LOG_LIMIT) {
+    await db.delete(mcpAuditLog).where(lt(mcpAuditLog.id, row.id - MCP_AUDIT_LOG_LIMIT + 1))
+  }
+}
+
+export async function listMcpAuditLog(limit = 100): Promise<McpAuditEntry[]> {
+  const db = getDatabase()
+  return db.select().from(mcpAuditLog).orderBy(desc(mcpAuditLog.id)).limit(limit)
+}
+
+// Export mirror operations (see export/mirror.ts)
+export async function listExportMirrorEntries(): Promise<ExportMirrorEntry[]> {
+  const db = getDatabase()
+  return db.select().from(exportMirror)
+}
+
+export async function upsertExportMirrorEntry(data: NewExportMirrorEntry): Promise<void> {
+  const db = getDatabase()
+  await db
+    .insert(exportMirror)
+    .values(data)
+    .onConflictDoUpdate({
+      target: exportMirror.conversationId,
+      set: {
+        folder: data.folder,
+        contentHash: data.contentHash,
+        syncedAt: data.syncedAt,
+        organizeHash: data.organizeHash,
+        exportedAt: data.exportedAt
+      }
+    })
+}
+
+export async function deleteExportMirrorEntry(conversationId: string): Promise<void> {
+  const db = getDatabase()
+  await db.delete(exportMirror).where(eq(exportMirror.conversationId, conversationId))
+}
+
+export async function clearExportMirror(): Promise<void> {
+  const db = getDatabase()
+  await db.delete(exportMirror)
+}
+
 // Sync state operations
 export async function getSyncState(key: string): Promise<string | null> {
   const db = getDatabase()
@@ -495,74 +1626,106 @@ export async function setSyncState(key: string, value: string): Promise<void> {
 }
 
 // Mappers
-function mapConversation(row: typeof conversations.$inferSelect): Conversation {
+function mapProject(row: typeof projects.$inferSelect, conversationCount: number): Project {
   return {
     id: row.id,
-    title: row.title,
-    provider: row.provider as 'chatgpt' | 'claude',
-    createdAt: row.createdAt ?? new Date(),
-    updatedAt: row.updatedAt ?? new Date(),
-    syncedAt: row.syncedAt ?? new Date(),
-    messageCount: row.messageCount ?? 0,
-    currentNodeId: row.currentNodeId ?? null
-  }
-}
-
-function mapMessage(
-  row: typeof messages.$inferSelect,
-  messageAttachments: Attachment[] = []
-): Message {
-  // Parse siblingIds from JSON string
-  let siblingIds: string[] = []
-  if (row.siblingIds) {
-    try {
-      siblingIds = JSON.parse(row.siblingIds)
-    } catch {
-      siblingIds = []
-    }
+    provider: row.provider as ProviderName,
+    kind: row.kind as ProjectKind,
+    name: row.name,
+    description: row.description,
+    instructions: row.instructions,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    conversationCount
   }
+}
 
-  // Parse parts from JSON string
-  let parts: MessagePart[] = []
-  if (row.parts) {
-    try {
-      const parsed = JSON.parse(row.parts)
-      if (Array.isArray(parsed)) {
-        parts = parsed
-      }
-    } catch {
-      parts = []
+// Conversations with their projects, folder paths and tags, which live in other tables
+async function mapConversations(
+  rows: Array<typeof conversations.$inferSelect>
+): Promise<Conversation[]> {
+  const db = getDatabase()
+  if (rows.length === 0) return []
+
+  const projectIds = [
+    ...new Set(rows.map((row) => row.projectId).filter((id): id is string => id !== null))
+  ]
+  const projectsById = new Map(
+    projectIds.length > 0
+      ? (
+          await db
+            .select({ id: projects.id, name: projects.name, kind: projects.kind })
+            .from(projects)
+            .where(inArray(projects.id, projectIds))
+        ).map((row) => [row.id, { ...row, kind: row.kind as ProjectKind }])
+      : []
+  )
+
+  const folderPaths = rows.some((row) => row.folderId)
+    ? buildFolderPaths(await db.select().from(folders))
+    : new Map<string, string>()
+
+  const tagsByConversation = new Map<string, string[]>()
+  const tagRows = await db
+    .select()
+    .from(conversationTags)
+    .where(
+      inArray(
+        conversationTags.conversationId,
+        rows.map((row) => row.id)
+      )
+    )
+    .orderBy(asc(conversationTags.tag))
+  for (const { conversationId, tag } of tagRows) {
+    tagsByConversation.set(conversationId, [...(tagsByConversation.get(conversationId) ?? []), tag])
+  }
+
+  return rows.map((row) => {
+    const path = row.folderId ? folderPaths.get(row.folderId) : undefined
+    return {
+      ...mapConversation(row),
+      project: (row.projectId && projectsById.get(row.projectId)) || null,
+      folder: row.folderId && path !== undefined ? { id: row.folderId, path } : null,
+      tags: tagsByConversation.get(row.id) ?? []
     }
+  })
+}
+
+function mapArtifact(row: typeof artifacts.$inferSelect): ArtifactVersion {
+  return {
+    id: row.id,
+    conversationId: row.conversationId,
+    messageId: row.messageId,
+    artifactId: row.artifactId,
+    version: row.version,
+    command: row.command as ArtifactVersion['command'],
+    type: row.type,
+    title: row.title,
+    language: row.language,
+    content: row.content,
+    createdAt: row.createdAt
   }
+}
 
+function mapConversationLink(row: typeof conversationLinks.$inferSelect): ConversationLink {
   return {
     id: row.id,
-    conversationId: row.conversationId ?? '',
-    role: row.role as 'user' | 'assistant' | 'system',
-    parts,
-    createdAt: row.createdAt ?? new Date(),
-    orderIndex: row.orderIndex,
-    attachments: messageAttachments,
-    // Branch/tree structure fields
-    parentId: row.parentId ?? null,
-    siblingIds: siblingIds,
-    siblingIndex: row.siblingIndex ?? 0
+    sourceConversationId: row.sourceConversationId,
+    sourceMessageId: row.sourceMessageId,
+    targetConversationId: row.targetConversationId,
+    targetMessageId: row.targetMessageId,
+    createdAt: row.createdAt
   }
 }
 
-function mapAttachment(row: typeof attachments.$inferSelect): Attachment {
+function mapMcpToken(row: typeof mcpTokens.$inferSelect): McpTokenInfo {
   return {
     id: row.id,
-    messageId: row.messageId ?? '',
-    type: row.type as 'image' | 'file',
-    fileId: row.fileId ?? undefined,
-    originalUrl: row.originalUrl ?? '',
-    localPath: row.localPath ?? '',
-    filename: row.filename ?? '',
-    mimeType: row.mimeType ?? '',
-    size: row.size ?? 0,
-    width: row.width ?? undefined,
-    height: row.height ?? undefined
+    name: row.name,
+    tokenPrefix: row.tokenPrefix,
+    providers: row.providers ? JSON.parse(row.providers) : null,
+    createdAt: row.createdAt,
+    lastUsedAt: row.lastUsedAt
   }
 }
 
@@ -0,0 +1,85 @@
+import { and, eq, sql, type SQL } from 'drizzle-orm'
+import { conversations, conversationTags, folders } from './schema'
+import type { OrganizeFilters } from '../../shared/types'
+
+/**
+ * Form tags are stored and matched in: lower case, without a leading '#', with dashes
+ * instead of spaces. They stay valid Obsidian tags in exported frontmatter.
+ */
+export function normalizeTagName(name: string): string | null {
+  const normalized = name.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-')
+  return normalized || null
+}
+
+/**
+ * Folder names are joined with '/' into paths, so a '/' in a name becomes a dash.
+ */
+export function normalizeFolderName(name: string): string | null {
+  const normalized = name.replace(/\//g, '-').replace(/\s+/g, ' ').trim()
+  return normalized || null
+}
+
+/**
+ * Path of each folder: the names from its top-level folder down, joined with '/'.
+ */
+export function buildFolderPaths(
+  rows: Array<{ id: string; name: string; parentId: string | null }>
+): Map<string, string> {
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  const paths = new Map<string, string>()
+
+  const pathOf = (id: string, seen: Set<string>): string => {
+    const cached = paths.get(id)
+    if (cached !== undefined) return cached
+    const row = byId.get(id)!
+    // A parent that's missing or part of a cycle ends the path
+    const parent =
+      row.parentId && byId.has(row.parentId) && !seen.has(row.parentId)
+        ? pathOf(row.parentId, seen.add(id))
+        : null
+    const path = parent ? `${parent}/${row.name}` : row.name
+    paths.set(id, path)
+    return path
+  }
+
+  for (const row of rows) pathOf(row.id, new Set())
+  return paths
+}
+
+// Conversations with the tag (already normalized)
+function conversationHasTag(tag: string): SQL {
+  return sql`EXISTS (SELECT 1 FROM ${conversationTags} WHERE ${conversationTags.conversationId} = ${conversations.id} AND ${conversationTags.tag} = ${tag})`
+}
+
+// Conversations in the folder, given by ID or path, or in one of its subfolders
+function conversationInFolder(folder: string): SQL {
+  const path = folder.replace(/^\/+|\/+$/g, '').toLowerCase()
+  return sql`${conversations.folderId} IN (
+    WITH RECURSIVE folder_paths(id, path) AS (
+      SELECT ${folders.id}, unicode_lower(${folders.name}) FROM ${folders} WHERE ${folders.parentId} IS NULL
+      UNION ALL
+      SELECT ${folders.id}, folder_paths.path || '/' || unicode_lower(${folders.name})
+      FROM ${folders} JOIN folder_paths ON ${folders.parentId} = folder_paths.id
+    ),
+    subfolders(id) AS (
+      SELECT id FROM folder_paths WHERE id = ${folder} OR path = ${path}
+      UNION
+      SELECT ${folders.id} FROM ${folders} JOIN subfolders ON ${folders.parentId} = subfolders.id
+    )
+    SELECT id FROM subfolders
+  )`
+}
+
+/**
+ * Condition for the tag, folder and starred filters. Plain SQL over the schema, so the
+ * export worker, which has its own connection, filters the same way (it registers
+ * unicode_lower too).
+ */
+export function organizeFilterCondition(filters?: OrganizeFilters): SQL | undefined {
+  const tag = filters?.tag ? normalizeTagName(filters.tag) : null
+  return and(
+    tag ? conversationHasTag(tag) : undefined,
+    filters?.folder ? conversationInFolder(filters.folder) : undefined,
+    filters?.starred !== undefined ? eq(conversations.starred, filters.starred) : undefined
+  )
+}
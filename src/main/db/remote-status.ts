@@ -0,0 +1,39 @@
+import type { RemoteStatus } from '../../shared/types'
+
+// Conversation IDs of a provider's complete listing
+export interface RemoteListing {
+  active: string[]
+  archived: string[] // Empty for providers without archiving
+}
+
+export interface RemoteStatusChanges {
+  archived: string[]
+  deleted: string[]
+  restored: string[] // Listed again after being archived or deleted
+}
+
+/**
+ * Compare a provider's listing with its local conversations. A conversation that's in
+ * neither list is deleted; one that's listed as archived is archived, unless it's also
+ * active. Only conversations whose status changes are returned.
+ */
+export function diffRemoteStatus(
+  local: Array<{ id: string; remoteStatus: string | null }>,
+  listing: RemoteListing
+): RemoteStatusChanges {
+  const active = new Set(listing.active)
+  const archived = new Set(listing.archived)
+  const changes: RemoteStatusChanges = { archived: [], deleted: [], restored: [] }
+
+  for (const { id, remoteStatus } of local) {
+    const status: RemoteStatus | null = active.has(id)
+      ? null
+      : archived.has(id)
+        ? 'archived'
+        : 'deleted'
+    if (status === remoteStatus) continue
+    if (status === null) changes.restored.push(id)
+    else changes[status].push(id)
+  }
+  return changes
+}
@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto'
+import type { MessagePart } from '../../shared/types'
+import { parseParts } from './mappers'
+
+// Message as stored, the part of a row a revision keeps
+export interface MessageContent {
+  id: string
+  parentId: string | null
+  role: string
+  parts: string // JSON, as stored in messages.parts
+  model: string | null
+}
+
+// Entry of a revision's message list; the content is in message_snapshots under the hash
+export interface RevisionMessageRef {
+  id: string
+  parentId: string | null
+  hash: string
+}
+
+export interface RevisionContent {
+  contentHash: string
+  messages: RevisionMessageRef[]
+  snapshots: Array<{ hash: string; role: string; parts: string; model: string | null }>
+}
+
+function sha256(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex')
+}
+
+/**
+ * Parts as compared between syncs: source-url parts without their ID, which older rows
+ * (and plugins) may have set to a random value on every fetch.
+ */
+export function withoutSourceIds(parts: MessagePart[]): MessagePart[] {
+  return parts.map((part) => (part.type === 'source-url' ? { ...part, sourceId: '' } : part))
+}
+
+/**
+ * Hash of what a message says: its role, parts and model. Messages with the same content
+ * share a snapshot, across revisions and conversations.
+ */
+export function hashMessageContent(
+  message: Pick<MessageContent, 'role' | 'parts' | 'model'>
+): string {
+  return sha256([message.role, withoutSourceIds(parseParts(message.parts)), message.model])
+}
+
+/**
+ * Split a conversation's stored state into the revision row and the message snapshots it
+ * references. The content hash covers the title, the current node and, in order, each
+ * message's ID, parent and content, so any change to them gives a different hash.
+ */
+export function buildRevisionContent(
+  title: string,
+  currentNodeId: string | null,
+  rows: MessageContent[]
+): RevisionContent {
+  const snapshots = new Map<string, RevisionContent['snapshots'][number]>()
+  const messages = rows.map((row) => {
+    const hash = hashMessageContent(row)
+    snapshots.set(hash, { hash, role: row.role, parts: row.parts, model: row.model })
+    return { id: row.id, parentId: row.parentId, hash }
+  })
+
+  return {
+    contentHash: sha256([title, currentNodeId, messages]),
+    messages,
+    snapshots: [...snapshots.values()]
+  }
+}
@@ -1,21 +1,96 @@
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+import {
+  sqliteTable,
+  text,
+  integer,
+  blob,
+  index,
+  primaryKey,
+  type AnySQLiteColumn
+} from 'drizzle-orm/sqlite-core'
+
+// Folders the user sorts conversations into; deleting a folder deletes its subfolders
+export const folders = sqliteTable(
+  'folders',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    parentId: text('parent_id').references((): AnySQLiteColumn => folders.id, {
+      onDelete: 'cascade'
+    }), // null for top-level folders
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull()
+  },
+  (table) => ({
+    folderParentIdx: index('folder_parent_idx').on(table.parentId)
+  })
+)
 
 export const conversations = sqliteTable(
   'conversations',
   {
     id: text('id').primaryKey(),
     title: text('title').notNull(),
-    provider: text('provider').notNull(), // 'chatgpt' | 'claude'
+    provider: text('provider').notNull(), // Built-in provider or plugin id
     createdAt: integer('created_at', { mode: 'timestamp' }),
     updatedAt: integer('updated_at', { mode: 'timestamp' }),
     syncedAt: integer('synced_at', { mode: 'timestamp' }),
     messageCount: integer('message_count').default(0),
     currentNodeId: text('current_node_id'), // Default branch endpoint for navigation
     syncError: text('sync_error'), // Last sync error message (null if no error)
-    syncRetryCount: integer('sync_retry_count').default(0) // Number of retry attempts
+    syncRetryCount: integer('sync_retry_count').default(0), // Number of retry attempts
+    mode: text('mode'), // Provider search mode (Perplexity Pro Search, Deep Research, ...)
+    searchFocus: text('search_focus'), // Perplexity search focus ('internet', 'scholar', ...)
+    // ChatGPT project or custom GPT, Claude project (see projects). Not a foreign key: a
+    // conversation can be synced before its project, or belong to one the provider doesn't list
+    projectId: text('project_id'),
+    // Set by reconciliation when the provider no longer lists the conversation (see remote-status.ts)
+    remoteStatus: text('remote_status'), // 'archived' | 'deleted', null while listed
+    remoteDeletedAt: integer('remote_deleted_at', { mode: 'timestamp' }),
+    // Set by the user; upsertConversation leaves them alone so they survive re-syncs
+    starred: integer('starred', { mode: 'boolean' }).notNull().default(false),
+    folderId: text('folder_id').references(() => folders.id, { onDelete: 'set null' })
+  },
+  (table) => ({
+    providerIdx: index('provider_idx').on(table.provider),
+    modeIdx: index('mode_idx').on(table.mode),
+    folderIdx: index('folder_idx').on(table.folderId),
+    projectIdx: index('project_idx').on(table.projectId),
+    remoteStatusIdx: index('remote_status_idx').on(table.remoteStatus)
+  })
+)
+
+// Projects and custom GPTs of the providers, synced before their conversations
+export const projects = sqliteTable(
+  'projects',
+  {
+    id: text('id').primaryKey(), // ChatGPT gizmo ID ('g-p-...' project, 'g-...' GPT), Claude UUID
+    provider: text('provider').notNull(),
+    kind: text('kind').notNull(), // 'project' | 'gpt'
+    name: text('name').notNull(),
+    description: text('description'),
+    instructions: text('instructions'), // Custom instructions (Claude's prompt template)
+    createdAt: integer('created_at', { mode: 'timestamp' }),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }),
+    syncedAt: integer('synced_at', { mode: 'timestamp' }).notNull()
+  },
+  (table) => ({
+    projectProviderIdx: index('project_provider_idx').on(table.provider)
+  })
+)
+
+// Knowledge files of a project; replaced whenever the project changes
+export const projectDocuments = sqliteTable(
+  'project_documents',
+  {
+    id: text('id').primaryKey(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    filename: text('filename').notNull(),
+    content: text('content'), // Extracted text, null when the provider only lists the file
+    createdAt: integer('created_at', { mode: 'timestamp' })
   },
   (table) => ({
-    providerIdx: index('provider_idx').on(table.provider)
+    projectDocumentIdx: index('project_document_idx').on(table.projectId)
   })
 )
 
@@ -34,10 +109,12 @@ export const messages = sqliteTable(
     // Branch/tree structure fields
     parentId: text('parent_id'), // Parent message ID (null for root)
     siblingIds: text('sibling_ids'), // JSON array of sibling message IDs
-    siblingIndex: integer('sibling_index') // 0-based index among siblings
+    siblingIndex: integer('sibling_index'), // 0-based index among siblings
+    model: text('model') // Model that generated the message (assistant messages only)
   },
   (table) => ({
-    conversationIdIdx: index('conversation_id_idx').on(table.conversationId)
+    conversationIdIdx: index('conversation_id_idx').on(table.conversationId),
+    modelIdx: index('model_idx').on(table.model)
   })
 )
 
@@ -57,6 +134,187 @@ export const attachments = sqliteTable('attachments', {
   updatedAt: integer('updated_at', { mode: 'timestamp' })
 })
 
+// One row per artifact version; rebuilt from message parts on every sync
+export const artifacts = sqliteTable(
+  'artifacts',
+  {
+    id: text('id').primaryKey(), // `${conversationId}:${artifactId}:${version}`
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    messageId: text('message_id')
+      .notNull()
+      .references(() => messages.id, { onDelete: 'cascade' }),
+    artifactId: text('artifact_id').notNull(),
+    version: integer('version').notNull(), // 1-based, in message order
+    command: text('command').notNull(), // 'create' | 'update' | 'rewrite'
+    type: text('type'), // e.g. 'text/markdown', 'application/vnd.ant.code'
+    title: text('title'),
+    language: text('language'),
+    content: text('content').notNull(), // Full content after the command
+    createdAt: integer('created_at', { mode: 'timestamp' })
+  },
+  (table) => ({
+    artifactConversationIdx: index('artifact_conversation_idx').on(table.conversationId)
+  })
+)
+
+// Earlier states of conversations, kept when a sync replaced them (see revisions.ts)
+export const conversationRevisions = sqliteTable(
+  'conversation_revisions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    contentHash: text('content_hash').notNull(), // SHA-256 of the title, current node and messages
+    title: text('title').notNull(),
+    currentNodeId: text('current_node_id'),
+    messages: text('messages').notNull(), // JSON array of { id, parentId, hash } in orderIndex order
+    syncedAt: integer('synced_at', { mode: 'timestamp' }), // When this state was synced
+    recordedAt: integer('recorded_at', { mode: 'timestamp' }).notNull()
+  },
+  (table) => ({
+    revisionConversationIdx: index('revision_conversation_idx').on(table.conversationId)
+  })
+)
+
+// Message content referenced by revisions, stored once per SHA-256 of role, parts and model.
+// Revisions of a deleted conversation leave theirs behind, so there is no foreign key
+export const messageSnapshots = sqliteTable('message_snapshots', {
+  hash: text('hash').primaryKey(),
+  role: text('role').notNull(),
+  parts: text('parts').notNull(), // JSON, as stored in messages.parts
+  model: text('model')
+})
+
+// Searchable text of each message (see search.ts), the content of the messages_fts index.
+// messages has a TEXT key and no stable rowid, so the index is keyed on this table's id
+export const messageSearch = sqliteTable('message_search', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: text('message_id')
+    .notNull()
+    .unique()
+    .references(() => messages.id, { onDelete: 'cascade' }),
+  text: text('text').notNull()
+})
+
+// URLs cited by source-url parts, normalized (see links.ts); kept in sync by upsertMessages.
+// Conversations citing the same URL are shown as related
+export const messageSourceUrls = sqliteTable(
+  'message_source_urls',
+  {
+    messageId: text('message_id')
+      .notNull()
+      .references(() => messages.id, { onDelete: 'cascade' }),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    url: text('url').notNull()
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.messageId, table.url] }),
+    sourceUrlIdx: index('source_url_idx').on(table.url),
+    sourceUrlConversationIdx: index('source_url_conversation_idx').on(table.conversationId)
+  })
+)
+
+// Links a user made from a message to another conversation or message. Messages are
+// re-created when a conversation is synced again, so only conversations are foreign keys
+export const conversationLinks = sqliteTable(
+  'conversation_links',
+  {
+    id: text('id').primaryKey(),
+    sourceConversationId: text('source_conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    sourceMessageId: text('source_message_id').notNull(),
+    targetConversationId: text('target_conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    targetMessageId: text('target_message_id'), // null links the whole conversation
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull()
+  },
+  (table) => ({
+    linkSourceIdx: index('link_source_idx').on(table.sourceConversationId),
+    linkTargetIdx: index('link_target_idx').on(table.targetConversationId)
+  })
+)
+
+// User-defined tags, by normalized name (see organize.ts); renames cascade to conversations
+export const tags = sqliteTable('tags', {
+  name: text('name').primaryKey(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull()
+})
+
+export const conversationTags = sqliteTable(
+  'conversation_tags',
+  {
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    tag: text('tag')
+      .notNull()
+      .references(() => tags.name, { onDelete: 'cascade', onUpdate: 'cascade' })
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.conversationId, table.tag] }),
+    conversationTagIdx: index('conversation_tag_idx').on(table.tag)
+  })
+)
+
+// Semantic search vectors, one row per chunk of a message's full-text index entry
+export const messageEmbeddings = sqliteTable(
+  'message_embeddings',
+  {
+    id: text('id').primaryKey(), // `${messageId}:${chunkIndex}`
+    messageId: text('message_id')
+      .notNull()
+      .references(() => messages.id, { onDelete: 'cascade' }),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    chunkIndex: integer('chunk_index').notNull(),
+    charStart: integer('char_start').notNull(), // Chunk offsets in message_search.text
+    charEnd: integer('char_end').notNull(),
+    model: text('model').notNull(), // Embedding model, vectors of other models are re-created
+    vector: blob('vector', { mode: 'buffer' }).notNull(), // Float32 vector (see vectors.ts)
+    createdAt: integer('created_at', { mode: 'timestamp' })
+  },
+  (table) => ({
+    embeddingMessageIdx: index('embedding_message_idx').on(table.messageId),
+    embeddingConversationIdx: index('embedding_conversation_idx').on(table.conversationId)
+  })
+)
+
+// Bearer tokens of MCP clients; only a SHA-256 hash of the token is stored
+export const mcpTokens = sqliteTable('mcp_tokens', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  tokenPrefix: text('token_prefix').notNull(), // Start of the token, to tell tokens apart in the UI
+  providers: text('providers'), // JSON array of providers the client may read, null for all
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' })
+})
+
+// MCP calls by client; entries outlive revoked tokens, so there is no foreign key
+export const mcpAuditLog = sqliteTable(
+  'mcp_audit_log',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    tokenId: text('token_id'),
+    clientName: text('client_name').notNull(),
+    method: text('method').notNull(), // JSON-RPC method: tools/call, resources/read, prompts/get
+    target: text('target'), // Tool or prompt name, resource URI
+    arguments: text('arguments'), // JSON
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull()
+  },
+  (table) => ({
+    auditCreatedAtIdx: index('audit_created_at_idx').on(table.createdAt)
+  })
+)
+
 export const syncState = sqliteTable('sync_state', {
   key: text('key').primaryKey(),
   value: text('value'),
@@ -75,6 +333,17 @@ export const providerState = sqliteTable('provider_state', {
   updatedAt: integer('updated_at', { mode: 'timestamp' })
 })
 
+// Conversations written by the export mirror (see export/mirror.ts); entries outlive deleted
+// conversations until their folders are removed, so there is no foreign key
+export const exportMirror = sqliteTable('export_mirror', {
+  conversationId: text('conversation_id').primaryKey(),
+  folder: text('folder').notNull(), // Folder name inside the mirror folder
+  contentHash: text('content_hash').notNull(), // SHA-256 of the exported conversation data
+  syncedAt: integer('synced_at', { mode: 'timestamp' }), // Conversation's syncedAt when written
+  organizeHash: text('organize_hash'), // SHA-256 of the star, folder and tags when written
+  exportedAt: integer('exported_at', { mode: 'timestamp' }).notNull()
+})
+
 export const userPreferences = sqliteTable('user_preferences', {
   id: text('id').primaryKey().default('default'),
   hasCompletedOnboarding: integer('has_completed_onboarding', { mode: 'boolean' })
@@ -93,6 +362,30 @@ export type Message = typeof messages.$inferSelect
 export type NewMessage = typeof messages.$inferInsert
 export type Attachment = typeof attachments.$inferSelect
 export type NewAttachment = typeof attachments.$inferInsert
+export type Artifact = typeof artifacts.$inferSelect
+export type NewArtifact = typeof artifacts.$inferInsert
+export type ConversationRevisionRow = typeof conversationRevisions.$inferSelect
+export type MessageSnapshot = typeof messageSnapshots.$inferSelect
+export type MessageSourceUrl = typeof messageSourceUrls.$inferSelect
+export type NewMessageSourceUrl = typeof messageSourceUrls.$inferInsert
+export type ConversationLinkRow = typeof conversationLinks.$inferSelect
+export type NewConversationLink = typeof conversationLinks.$inferInsert
+export type Project = typeof projects.$inferSelect
+export type NewProject = typeof projects.$inferInsert
+export type ProjectDocument = typeof projectDocuments.$inferSelect
+export type NewProjectDocument = typeof projectDocuments.$inferInsert
+export type Folder = typeof folders.$inferSelect
+export type NewFolder = typeof folders.$inferInsert
+export type Tag = typeof tags.$inferSelect
+export type ConversationTag = typeof conversationTags.$inferSelect
+export type MessageEmbedding = typeof messageEmbeddings.$inferSelect
+export type NewMessageEmbedding = typeof messageEmbeddings.$inferInsert
+export type McpToken = typeof mcpTokens.$inferSelect
+export type NewMcpToken = typeof mcpTokens.$inferInsert
+export type McpAuditEntry = typeof mcpAuditLog.$inferSelect
+export type NewMcpAuditEntry = typeof mcpAuditLog.$inferInsert
+export type ExportMirrorEntry = typeof exportMirror.$inferSelect
+export type NewExportMirrorEntry = typeof exportMirror.$inferInsert
 export type ProviderState = typeof providerState.$inferSelect
 export type NewProviderState = typeof providerState.$inferInsert
 export type UserPreferences = typeof userPreferences.$inferSelect
@@ -0,0 +1,161 @@
+import type { MessagePart } from '../../shared/types'
+
+function getPartText(part: MessagePart): string | null {
+  switch (part.type) {
+    case 'text':
+    case 'reasoning':
+      return part.text
+    case 'tool-call':
+      return part.input
+    case 'tool-result':
+      return part.output
+    case 'code-execution':
+      return part.output !== undefined ? `${part.code}\n${part.output}` : part.code
+    case 'artifact':
+      return part.content ?? part.newStr ?? null
+    default:
+      return null
+  }
+}
+
+/**
+ * Text stored in message_search (indexed by messages_fts) for a message.
+ * Keep in sync with the backfill in migrations/0016_message_search.sql.
+ */
+export function getSearchableText(parts: MessagePart[]): string {
+  return parts
+    .map(getPartText)
+    .filter((text) => text !== null)
+    .join('\n')
+}
+
+export interface FtsQuery {
+  /** Sanitized FTS5 MATCH expression */
+  match: string
+  /** Words and phrases the user is looking for (excludes NOT operands) */
+  terms: string[]
+}
+
+type Token =
+  | { type: 'term'; text: string; prefix: boolean }
+  | { type: 'op'; op: 'AND' | 'OR' | 'NOT' }
+  | { type: 'open' }
+  | { type: 'close' }
+
+const OPERATORS = new Set(['AND', 'OR', 'NOT'])
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(') {
+      tokens.push({ type: 'open' })
+      i++
+    } else if (char === ')') {
+      tokens.push({ type: 'close' })
+      i++
+    } else if (char === '"') {
+      // Unterminated quotes run to the end of the input (the user is still typing)
+      const end = input.indexOf('"', i + 1)
+      const text = input.slice(i + 1, end === -1 ? input.length : end)
+      i = end === -1 ? input.length : end + 1
+      const prefix = input[i] === '*'
+      if (prefix) i++
+      tokens.push({ type: 'term', text, prefix })
+    } else {
+      let end = i
+      while (end < input.length && !/[\s"()]/.test(input[end])) end++
+      const word = input.slice(i, end)
+      i = end
+
+      if (OPERATORS.has(word)) {
+        tokens.push({ type: 'op', op: word as 'AND' | 'OR' | 'NOT' })
+      } else {
+        const text = word.replace(/\*+$/, '')
+        tokens.push({ type: 'term', text, prefix: text.length < word.length })
+      }
+    }
+  }
+
+  // Terms without letters or digits produce no tokens in FTS5 and would only break the query
+  return tokens.filter((token) => token.type !== 'term' || /[\p{L}\p{N}]/u.test(token.text))
+}
+
+/**
+ * Convert user search input into a valid FTS5 MATCH expression.
+ *
+ * Supports "exact phrases", prefix* queries, AND / OR / NOT and parentheses.
+ * Everything else is quoted, so punctuation in the input can never produce an
+ * FTS5 syntax error. Dangling operators and unbalanced parentheses (common
+ * while typing) are dropped or closed. Returns null if nothing searchable remains.
+ */
+export function toFtsQuery(input: string): FtsQuery | null {
+  const output: Token[] = []
+  const terms: string[] = []
+  let depth = 0
+
+  for (const token of tokenize(input)) {
+    const last = output[output.length - 1]
+    const expectsOperand = !last || last.type === 'op' || last.type === 'open'
+
+    if (token.type === 'term') {
+      if (last?.type !== 'op' || last.op !== 'NOT') {
+        terms.push(token.text)
+      }
+      output.push(token)
+    } else if (token.type === 'op') {
+      if (!expectsOperand) output.push(token)
+    } else if (token.type === 'open') {
+      depth++
+      output.push(token)
+    } else if (depth > 0) {
+      // Drop operators and empty groups right before the closing paren
+      while (output[output.length - 1]?.type === 'op') output.pop()
+      if (output[output.length - 1]?.type === 'open') {
+        output.pop()
+      } else {
+        output.push(token)
+      }
+      depth--
+    }
+  }
+
+  let last = output[output.length - 1]
+  while (last && (last.type === 'op' || last.type === 'open')) {
+    if (last.type === 'open') depth--
+    output.pop()
+    last = output[output.length - 1]
+  }
+
+  if (!output.some((token) => token.type === 'term')) {
+    return null
+  }
+
+  for (; depth > 0; depth--) {
+    output.push({ type: 'close' })
+  }
+
+  const match = output
+    .map((token) => {
+      switch (token.type) {
+        case 'term':
+          return `"${token.text.replace(/"/g, '""')}"${token.prefix ? '*' : ''}`
+        case 'op':
+          return token.op
+        case 'open':
+          return '('
+        case 'close':
+          return ')'
+      }
+    })
+    .join(' ')
+    .replace(/\( /g, '(')
+    .replace(/ \)/g, ')')
+
+  return { match, terms }
+}
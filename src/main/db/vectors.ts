@@ -0,0 +1,31 @@
+// Embedding vectors are stored as BLOBs of little-endian 32-bit floats
+
+export function encodeVector(vector: Float32Array): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4)
+  vector.forEach((value, index) => buffer.writeFloatLE(value, index * 4))
+  return buffer
+}
+
+export function decodeVector(blob: Uint8Array): Float32Array {
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength)
+  return Float32Array.from({ length: blob.byteLength / 4 }, (_, index) =>
+    view.getFloat32(index * 4, true)
+  )
+}
+
+/**
+ * Dot product of two encoded vectors, which is their cosine similarity since the
+ * embedding model normalizes its output. Registered as the `vector_similarity`
+ * SQLite function; returns null for vectors of different sizes.
+ */
+export function vectorSimilarity(a: Uint8Array, b: Uint8Array): number | null {
+  if (a.byteLength !== b.byteLength) return null
+
+  const viewA = new DataView(a.buffer, a.byteOffset, a.byteLength)
+  const viewB = new DataView(b.buffer, b.byteOffset, b.byteLength)
+  let sum = 0
+  for (let offset = 0; offset < a.byteLength; offset += 4) {
+    sum += viewA.getFloat32(offset, true) * viewB.getFloat32(offset, true)
+  }
+  return sum
+}
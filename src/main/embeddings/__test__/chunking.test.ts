@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { chunkText } from '../chunking'
+
+describe('chunkText', () => {
+  it('should keep short text in a single chunk without surrounding whitespace', () => {
+    expect(chunkText('\n  How do I center a div?  \n')).toEqual([
+      { text: 'How do I center a div?', start: 3, end: 25 }
+    ])
+  })
+
+  it('should return no chunks for empty or whitespace-only text', () => {
+    expect(chunkText('')).toEqual([])
+    expect(chunkText(' \n\t ')).toEqual([])
+  })
+
+  it('should prefer ending chunks at paragraph breaks', () => {
+    const first = 'First paragraph about sqlite indexes. '.repeat(3).trim()
+    const second = 'Second paragraph about vector search. '.repeat(3).trim()
+    const chunks = chunkText(`${first}\n\n${second}`, { maxLength: 160, overlap: 0 })
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([first, second])
+  })
+
+  it('should overlap chunks and report offsets into the source text', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Sentence number ${i}.`).join(' ')
+    const chunks = chunkText(text, { maxLength: 200, overlap: 50 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const [index, chunk] of chunks.entries()) {
+      expect(chunk.text.length).toBeLessThanOrEqual(200)
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text)
+      if (index > 0) {
+        expect(chunk.start).toBeLessThan(chunks[index - 1].end)
+      }
+    }
+    expect(chunks[chunks.length - 1].end).toBe(text.length)
+  })
+
+  it('should cut text without whitespace at the maximum length, with no word to overlap', () => {
+    const chunks = chunkText('x'.repeat(250), { maxLength: 100, overlap: 20 })
+
+    expect(chunks.map((chunk) => [chunk.start, chunk.end])).toEqual([
+      [0, 100],
+      [100, 200],
+      [200, 250]
+    ])
+  })
+})
@@ -0,0 +1,66 @@
+export interface TextChunk {
+  text: string
+  // Offsets of the chunk in the source text
+  start: number
+  end: number
+}
+
+// About 250 tokens of English text, well within the model's 512 token window
+export const CHUNK_MAX_LENGTH = 1000
+export const CHUNK_OVERLAP = 150
+
+// Preferred places to end a chunk, best first
+const BREAK_PATTERNS = [/\n\s*\n/g, /\n/g, /[.!?…]\s/g, /\s/g]
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++
+  return index
+}
+
+// Find the last break between min and max, or max if there is none
+function findBreak(text: string, min: number, max: number): number {
+  const window = text.slice(min, max)
+  for (const pattern of BREAK_PATTERNS) {
+    let last = -1
+    for (const match of window.matchAll(pattern)) {
+      last = match.index + match[0].length
+    }
+    if (last > 0) return min + last
+  }
+  return max
+}
+
+/**
+ * Split text into overlapping chunks for embedding.
+ *
+ * Chunks end at paragraph, line, sentence or word boundaries when possible, and
+ * each chunk repeats the last `overlap` characters of the previous one (rounded
+ * to a word) so a thought cut in two is still embedded whole once.
+ */
+export function chunkText(
+  text: string,
+  options?: { maxLength?: number; overlap?: number }
+): TextChunk[] {
+  const maxLength = options?.maxLength ?? CHUNK_MAX_LENGTH
+  const overlap = Math.min(options?.overlap ?? CHUNK_OVERLAP, Math.floor(maxLength / 2))
+  const chunks: TextChunk[] = []
+  let start = skipWhitespace(text, 0)
+
+  while (start < text.length) {
+    let end = Math.min(start + maxLength, text.length)
+    if (end < text.length) {
+      end = findBreak(text, start + Math.floor(maxLength / 2), end)
+    }
+
+    const chunk = text.slice(start, end).trimEnd()
+    chunks.push({ text: chunk, start, end: start + chunk.length })
+    if (end >= text.length) break
+
+    // Start the next chunk at the first word boundary within the overlap
+    let next = Math.max(end - overlap, start + 1)
+    while (next < end && !/\s/.test(text[next - 1])) next++
+    start = skipWhitespace(text, next)
+  }
+
+  return chunks
+}
@@ -0,0 +1,203 @@
+/**
+ * Semantic search
+ *
+ * Message text from the full-text index is split into chunks (chunking.ts) and
+ * embedded by a local model in a worker thread (worker.ts). Vectors are stored in
+ * `message_embeddings`; a search embeds the query the same way and ranks
+ * conversations by their closest chunk.
+ *
+ * Messages are embedded incrementally after every provider sync. Changing a
+ * message's text drops its vectors (see indexMessageText), so it's embedded again.
+ */
+import { Worker } from 'worker_threads'
+import * as db from '../db/operations'
+import { encodeVector } from '../db/vectors'
+import { chunkText } from './chunking'
+import { EMBEDDING_MODEL, PASSAGE_PREFIX, QUERY_PREFIX } from './model'
+import type {
+  EmbeddingWorkerData,
+  EmbeddingWorkerInboundMessage,
+  EmbeddingWorkerOutboundMessage
+} from './worker'
+import type { ConversationSearchResult } from '../../shared/types'
+
+// Messages embedded per database round trip
+const MESSAGES_PER_BATCH = 16
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pendingRequests = new Map<
+  number,
+  { resolve: (vectors: Float32Array[]) => void; reject: (error: Error) => void }
+>()
+
+let indexing: Promise<void> | null = null
+let indexAgain = false
+
+export type EmbeddingWorkerLocation = { workerPath: string } & EmbeddingWorkerData
+
+// Set at startup by the app (see paths.ts) or by the stdio MCP server, which runs without Electron
+let workerLocation: EmbeddingWorkerLocation | null = null
+
+/**
+ * Set where the worker file and the bundled model are. Must be called before embedding.
+ */
+export function setEmbeddingWorkerLocation(location: EmbeddingWorkerLocation): void {
+  workerLocation = location
+}
+
+function rejectPendingRequests(error: Error): void {
+  for (const { reject } of pendingRequests.values()) {
+    reject(error)
+  }
+  pendingRequests.clear()
+}
+
+function getWorker(): Worker {
+  if (worker) return worker
+
+  if (!workerLocation) {
+    throw new Error('Embedding worker location not set. Call setEmbeddingWorkerLocation() first.')
+  }
+
+  console.log('[Embeddings] Starting worker')
+  const newWorker = new Worker(workerLocation.workerPath, {
+    workerData: {
+      localModelPath: workerLocation.localModelPath,
+      cacheDir: workerLocation.cacheDir
+    } satisfies EmbeddingWorkerData
+  })
+
+  newWorker.on('message', (msg: EmbeddingWorkerOutboundMessage) => {
+    const request = pendingRequests.get(msg.id)
+    if (!request) return
+    pendingRequests.delete(msg.id)
+
+    if (msg.type === 'embedded') {
+      request.resolve(msg.vectors)
+    } else {
+      request.reject(new Error(msg.message))
+    }
+  })
+
+  newWorker.on('error', (error) => {
+    console.error('[Embeddings] Worker error:', error)
+    worker = null
+    rejectPendingRequests(error)
+  })
+
+  newWorker.on('exit', (code) => {
+    console.log('[Embeddings] Worker exited with code:', code)
+    worker = null
+    rejectPendingRequests(new Error(`Embedding worker exited with code ${code}`))
+  })
+
+  worker = newWorker
+  return newWorker
+}
+
+function embed(texts: string[]): Promise<Float32Array[]> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, { resolve, reject })
+    getWorker().postMessage({ type: 'embed', id, texts } satisfies EmbeddingWorkerInboundMessage)
+  })
+}
+
+async function embedPendingMessages(): Promise<void> {
+  const attempted = new Set<string>()
+  let embedded = 0
+
+  for (;;) {
+    const pending = (await db.getMessagesToEmbed(EMBEDDING_MODEL, MESSAGES_PER_BATCH)).filter(
+      (message) => !attempted.has(message.messageId)
+    )
+    if (pending.length === 0) break
+
+    const chunksByMessage = pending.map((message) => chunkText(message.text))
+    const texts = chunksByMessage.flat().map((chunk) => `${PASSAGE_PREFIX}${chunk.text}`)
+    const vectors = texts.length > 0 ? await embed(texts) : []
+
+    let vectorIndex = 0
+    for (const [messageIndex, message] of pending.entries()) {
+      attempted.add(message.messageId)
+      await db.replaceMessageEmbeddings(
+        message.messageId,
+        chunksByMessage[messageIndex].map((chunk, chunkIndex) => ({
+          id: `${message.messageId}:${chunkIndex}`,
+          messageId: message.messageId,
+          conversationId: message.conversationId,
+          chunkIndex,
+          charStart: chunk.start,
+          charEnd: chunk.end,
+          model: EMBEDDING_MODEL,
+          vector: encodeVector(vectors[vectorIndex++]),
+          createdAt: new Date()
+        }))
+      )
+    }
+    embedded += pending.length
+  }
+
+  if (embedded > 0) {
+    console.log(`[Embeddings] Embedded ${embedded} message(s)`)
+  }
+}
+
+/**
+ * Embed messages synced since the last run. Runs in the background; calls made
+ * while it's running schedule one more run afterwards.
+ */
+export function scheduleEmbeddingUpdate(): void {
+  if (indexing) {
+    indexAgain = true
+    return
+  }
+
+  indexing = embedPendingMessages()
+    .catch((error) => {
+      console.error('[Embeddings] Failed to embed messages:', error)
+    })
+    .finally(() => {
+      indexing = null
+      if (indexAgain) {
+        indexAgain = false
+        scheduleEmbeddingUpdate()
+      }
+    })
+}
+
+/**
+ * Conversations ranked by how close their messages are in meaning to the query.
+ */
+export async function semanticSearch(
+  query: string,
+  options?: db.ConversationFilters & { limit?: number }
+): Promise<Awaited<ReturnType<typeof db.searchConversationsBySimilarity>>> {
+  const [vector] = await embed([`${QUERY_PREFIX}${query.trim()}`])
+  return db.searchConversationsBySimilarity(vector, {
+    ...options,
+    embeddingModel: EMBEDDING_MODEL
+  })
+}
+
+export async function searchConversationsSemantic(
+  query: string,
+  options?: db.ConversationFilters
+): Promise<{ items: ConversationSearchResult[]; total: number; hasMore: boolean }> {
+  const hits = await semanticSearch(query, options)
+  const items = hits.map(({ conversation, snippet }) => ({ ...conversation, snippet }))
+
+  return {
+    items,
+    total: items.length,
+    hasMore: false // Search is always limited to 50
+  }
+}
+
+export async function stopEmbeddingWorker(): Promise<void> {
+  if (worker) {
+    await worker.terminate()
+    worker = null
+  }
+}
@@ -0,0 +1,8 @@
+// Multilingual sentence embeddings with 384 dimensions, about 120 MB quantized.
+// Keep in sync with scripts/download-embedding-model.mjs, which bundles it with the app.
+export const EMBEDDING_MODEL = 'Xenova/multilingual-e5-small'
+export const EMBEDDING_DTYPE = 'q8'
+
+// E5 models expect every input to be marked as a search query or a searched passage
+export const QUERY_PREFIX = 'query: '
+export const PASSAGE_PREFIX = 'passage: '
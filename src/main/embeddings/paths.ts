@@ -0,0 +1,35 @@
+import path from 'path'
+import { app } from 'electron'
+import { getModelCachePath } from '../settings'
+import type { EmbeddingWorkerLocation } from './index'
+
+/**
+ * Get the path to the bundled worker file.
+ * In development, it's in out/main; in production, it's in resources/app.asar/out/main.
+ */
+function getWorkerPath(): string {
+  if (app.isPackaged) {
+    return path.join(process.resourcesPath, 'app.asar', 'out', 'main', 'embedding-worker.js')
+  } else {
+    return path.join(app.getAppPath(), 'out', 'main', 'embedding-worker.js')
+  }
+}
+
+// Models downloaded by `npm run models:download` and bundled by electron-builder
+function getBundledModelsPath(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'models')
+    : path.join(app.getAppPath(), 'models')
+}
+
+/**
+ * Worker and model locations of the running app. Kept apart from index.ts, which the
+ * stdio MCP server imports without Electron.
+ */
+export function getAppEmbeddingWorkerLocation(): EmbeddingWorkerLocation {
+  return {
+    workerPath: getWorkerPath(),
+    localModelPath: getBundledModelsPath(),
+    cacheDir: getModelCachePath()
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Embedding Worker Thread
+ *
+ * Runs the embedding model on the CPU off the main process, so indexing a large
+ * history doesn't freeze the UI. The model is loaded by the first request and
+ * stays in memory for the lifetime of the worker.
+ */
+import { parentPort, workerData } from 'worker_threads'
+import { env, pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers'
+import { EMBEDDING_DTYPE, EMBEDDING_MODEL } from './model'
+
+// Worker message types
+export type EmbeddingWorkerInboundMessage = { type: 'embed'; id: number; texts: string[] }
+
+export type EmbeddingWorkerOutboundMessage =
+  | { type: 'embedded'; id: number; vectors: Float32Array[] }
+  | { type: 'error'; id: number; message: string }
+
+export type EmbeddingWorkerData = {
+  // Models bundled with the app
+  localModelPath: string
+  // Where models missing from the bundle are downloaded to
+  cacheDir: string
+}
+
+// Texts per model run; bigger batches only add memory pressure on the CPU
+const BATCH_SIZE = 8
+
+const { localModelPath, cacheDir } = workerData as EmbeddingWorkerData
+env.localModelPath = localModelPath
+env.cacheDir = cacheDir
+
+let extractor: Promise<FeatureExtractionPipeline> | null = null
+
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractor) {
+    extractor = pipeline('feature-extraction', EMBEDDING_MODEL, {
+      dtype: EMBEDDING_DTYPE,
+      device: 'cpu'
+    })
+    // Let the next request try again, e.g. once the download works
+    extractor.catch(() => {
+      extractor = null
+    })
+  }
+  return extractor
+}
+
+async function embed(texts: string[]): Promise<Float32Array[]> {
+  const model = await getExtractor()
+  const vectors: Float32Array[] = []
+
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const output = await model(texts.slice(i, i + BATCH_SIZE), {
+      pooling: 'mean',
+      normalize: true
+    })
+    const [count, dimensions] = output.dims
+    const data = output.data as Float32Array
+    for (let row = 0; row < count; row++) {
+      vectors.push(data.slice(row * dimensions, (row + 1) * dimensions))
+    }
+  }
+
+  return vectors
+}
+
+function send(message: EmbeddingWorkerOutboundMessage): void {
+  parentPort?.postMessage(message)
+}
+
+parentPort?.on('message', async (msg: EmbeddingWorkerInboundMessage) => {
+  if (msg.type !== 'embed') return
+
+  try {
+    send({ type: 'embedded', id: msg.id, vectors: await embed(msg.texts) })
+  } catch (error) {
+    send({ type: 'error', id: msg.id, message: (error as Error).message })
+  }
+})
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { exportToHtml } from '../html'
+import type { Conversation, Message, ExportOptions } from '@shared/types'
+
+function createConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: 'test-conv-1',
+    title: 'Test <Conversation>',
+    provider: 'chatgpt',
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    updatedAt: new Date('2026-01-07T11:00:00Z'),
+    syncedAt: new Date('2026-01-07T12:00:00Z'),
+    messageCount: 1,
+    currentNodeId: null,
+    ...overrides
+  }
+}
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 'test-msg-1',
+    conversationId: 'test-conv-1',
+    role: 'assistant',
+    parts: [{ type: 'text', text: 'Hello, world!' }],
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    orderIndex: 0,
+    parentId: null,
+    siblingIds: ['test-msg-1'],
+    siblingIndex: 0,
+    ...overrides
+  }
+}
+
+describe('exportToHtml', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  async function exportHtml(
+    messages: Message[],
+    overrides: Partial<ExportOptions> = {}
+  ): Promise<string> {
+    const filePath = await exportToHtml(createConversation(), messages, {
+      format: 'html',
+      includeAttachments: false,
+      outputPath: tempDir,
+      ...overrides
+    })
+    expect(path.basename(filePath)).toBe('conversation.html')
+    return fs.readFileSync(filePath, 'utf-8')
+  }
+
+  it('should write a standalone document with inlined styles', async () => {
+    const html = await exportHtml([createMessage({ model: 'gpt-4o' })])
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<title>Test &lt;Conversation&gt;</title>')
+    expect(html).toContain('<style>')
+    expect(html).not.toMatch(/<link |<script/)
+    expect(html).toContain('<h2>Assistant <span class="model">gpt-4o</span></h2>')
+    expect(html).toContain('<a href="https://chatgpt.com/c/test-conv-1">Open original</a>')
+  })
+
+  it('should render math to MathML and leave prices alone', async () => {
+    const html = await exportHtml([
+      createMessage({
+        parts: [
+          {
+            type: 'text',
+            text: 'Euler: $e^{i\\pi} + 1 = 0$, costs $5 and $10.\n\n$$\n\\frac{a}{b}\n$$\n\nAlso \\(x^2\\).'
+          }
+        ]
+      })
+    ])
+
+    expect(html.match(/<math/g)).toHaveLength(3)
+    expect(html).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">')
+    expect(html).toContain('costs $5 and $10.')
+  })
+
+  it('should highlight code and escape raw HTML', async () => {
+    const html = await exportHtml([
+      createMessage({
+        parts: [
+          {
+            type: 'text',
+            text: '<script>alert(1)</script>\n\n```python\ndef f():\n    return "<b>"\n```\n\n[bad](javascript:alert(1))'
+          }
+        ]
+      })
+    ])
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).toContain('<code class="hljs language-python">')
+    expect(html).toContain('<span class="hljs-keyword">def</span>')
+    expect(html).toContain('&quot;&lt;b&gt;&quot;')
+    expect(html).not.toContain('javascript:')
+  })
+
+  it('should render sources as citation pills', async () => {
+    const html = await exportHtml([
+      createMessage({
+        parts: [
+          { type: 'text', text: 'Cats sleep a lot' },
+          {
+            type: 'source-url',
+            sourceId: 'src-1',
+            url: 'https://www.example.com/cats',
+            title: 'Cats'
+          },
+          { type: 'text', text: ' and purr 2 times.' }
+        ]
+      })
+    ])
+
+    expect(html).toContain(
+      '<p>Cats sleep a lot<a class="citation" href="https://www.example.com/cats" title="Cats">example.com</a> and purr 2 times.</p>'
+    )
+  })
+
+  it('should embed images and link other attachments', async () => {
+    const imagePath = path.join(tempDir, 'cat.png')
+    const documentPath = path.join(tempDir, 'notes.pdf')
+    fs.writeFileSync(imagePath, 'image')
+    fs.writeFileSync(documentPath, 'document')
+    const message = createMessage({
+      attachments: [
+        {
+          id: 'att-1',
+          messageId: 'test-msg-1',
+          type: 'image',
+          originalUrl: '',
+          localPath: imagePath,
+          filename: 'Cat photo.png',
+          mimeType: 'image/png',
+          size: 5
+        },
+        {
+          id: 'att-2',
+          messageId: 'test-msg-1',
+          type: 'file',
+          originalUrl: '',
+          localPath: documentPath,
+          filename: 'Notes.pdf',
+          mimeType: 'application/pdf',
+          size: 8
+        }
+      ]
+    })
+    const outputPath = path.join(tempDir, 'out')
+
+    const html = await exportHtml([message], { includeAttachments: true, outputPath })
+
+    const base64 = Buffer.from('image').toString('base64')
+    expect(html).toContain(`<img src="data:image/png;base64,${base64}" alt="Cat photo.png">`)
+    expect(html).toContain('<a href="./attachments/notes.pdf">Notes.pdf</a>')
+    expect(
+      fs.existsSync(path.join(outputPath, 'Test -Conversation-', 'attachments', 'cat.png'))
+    ).toBe(false)
+  })
+
+  it('should print each file to PDF and remove the HTML', async () => {
+    const printed: string[] = []
+    const filePath = await exportToHtml(
+      createConversation(),
+      [createMessage()],
+      { format: 'pdf', includeAttachments: false, outputPath: tempDir },
+      async (htmlPath, pdfPath) => {
+        printed.push(fs.readFileSync(htmlPath, 'utf-8'))
+        fs.writeFileSync(pdfPath, 'pdf')
+      }
+    )
+
+    expect(printed).toHaveLength(1)
+    expect(filePath).toBe(path.join(tempDir, 'Test -Conversation-', 'conversation.pdf'))
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['conversation.pdf'])
+  })
+
+  it('should open details and link remote images when printing', async () => {
+    const messages = [
+      createMessage({
+        parts: [
+          { type: 'reasoning', text: 'Thinking' },
+          { type: 'text', text: '![A cat](https://example.com/cat.png)' }
+        ]
+      })
+    ]
+    const printed: string[] = []
+    await exportToHtml(
+      createConversation(),
+      messages,
+      { format: 'pdf', includeAttachments: false, outputPath: tempDir },
+      async (htmlPath, pdfPath) => {
+        printed.push(fs.readFileSync(htmlPath, 'utf-8'))
+        fs.writeFileSync(pdfPath, 'pdf')
+      }
+    )
+
+    expect(printed[0]).toContain('<details open>')
+    expect(printed[0]).toContain('<a href="https://example.com/cat.png">A cat</a>')
+    expect(printed[0]).not.toContain('<img')
+
+    const html = await exportHtml(messages)
+    expect(html).toContain('<details>')
+    expect(html).toContain('<img src="https://example.com/cat.png" alt="A cat">')
+  })
+})
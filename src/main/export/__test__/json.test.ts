@@ -171,6 +171,68 @@ describe('exportToJson', () => {
     })
   })
 
+  it('should include reasoning and tool calls', async () => {
+    const conversation = createConversation()
+    const messages = [
+      createMessage({
+        role: 'assistant',
+        parts: [
+          { type: 'reasoning', text: 'Checking the docs' },
+          { type: 'tool-call', toolCallId: 'call-1', toolName: 'web', input: '{"q":"cats"}' },
+          {
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            toolName: 'web',
+            output: 'Cats are mammals'
+          },
+          {
+            type: 'code-execution',
+            toolCallId: 'call-2',
+            language: 'python',
+            code: 'print(1)',
+            output: '1'
+          },
+          { type: 'text', text: 'Cats are mammals.' }
+        ]
+      })
+    ]
+    const options: ExportOptions = {
+      format: 'json',
+      includeAttachments: false,
+      outputPath: tempDir
+    }
+
+    const exportPath = await exportToJson(conversation, messages, options)
+    const exported = JSON.parse(fs.readFileSync(exportPath, 'utf-8'))
+
+    // Only text parts go into content
+    expect(exported.messages[0].content).toBe('Cats are mammals.')
+    expect(exported.messages[0].reasoning).toBe('Checking the docs')
+    expect(exported.messages[0].tool_calls).toEqual([
+      { id: 'call-1', name: 'web', input: '{"q":"cats"}', output: 'Cats are mammals' },
+      { id: 'call-2', name: 'code_execution', language: 'python', input: 'print(1)', output: '1' }
+    ])
+  })
+
+  it('should include the model only for messages that have one', async () => {
+    const conversation = createConversation()
+    const messages = [
+      createMessage(),
+      createMessage({ id: 'test-msg-2', role: 'assistant', orderIndex: 1, model: 'gpt-4o' })
+    ]
+    const options: ExportOptions = {
+      format: 'json',
+      includeAttachments: false,
+      outputPath: tempDir
+    }
+
+    const exportPath = await exportToJson(conversation, messages, options)
+    const exported = JSON.parse(fs.readFileSync(exportPath, 'utf-8'))
+
+    expect(exported.messages[0]).not.toHaveProperty('model')
+    expect(exported.messages[1].model).toBe('gpt-4o')
+  })
+
   it('should not include sources field when there are no sources', async () => {
     const conversation = createConversation()
     const messages = [createMessage()]
@@ -395,4 +457,164 @@ describe('JSON export format compatibility', () => {
       { title: 'Wikipedia - Paris', url: 'https://en.wikipedia.org/wiki/Paris' }
     ])
   })
+
+  it('should write artifact versions as standalone files', async () => {
+    const conversation = createConversation({ provider: 'claude' })
+    const messages = [
+      createMessage({
+        id: 'msg-1',
+        role: 'assistant',
+        parts: [
+          { type: 'text', text: 'Here is the script.' },
+          {
+            type: 'artifact',
+            artifactId: 'greet',
+            command: 'create',
+            artifactType: 'application/vnd.ant.code',
+            title: 'Greeting',
+            language: 'python',
+            content: 'print("hi")'
+          }
+        ]
+      }),
+      createMessage({
+        id: 'msg-2',
+        role: 'assistant',
+        parts: [
+          {
+            type: 'artifact',
+            artifactId: 'greet',
+            command: 'update',
+            oldStr: '"hi"',
+            newStr: '"hello"'
+          }
+        ],
+        orderIndex: 1
+      })
+    ]
+    const options: ExportOptions = {
+      format: 'json',
+      includeAttachments: false,
+      outputPath: tempDir
+    }
+
+    const exportPath = await exportToJson(conversation, messages, options)
+    const exported = JSON.parse(fs.readFileSync(exportPath, 'utf-8'))
+    const artifactsFolder = path.join(path.dirname(exportPath), 'artifacts')
+
+    expect(exported.messages[0].artifacts).toEqual([
+      {
+        id: 'greet',
+        command: 'create',
+        title: 'Greeting',
+        type: 'application/vnd.ant.code',
+        language: 'python',
+        file: './artifacts/Greeting v1.py'
+      }
+    ])
+    expect(exported.messages[1].artifacts).toEqual([
+      { id: 'greet', command: 'update', file: './artifacts/Greeting v2.py' }
+    ])
+    expect(fs.readFileSync(path.join(artifactsFolder, 'Greeting v1.py'), 'utf-8')).toBe(
+      'print("hi")'
+    )
+    expect(fs.readFileSync(path.join(artifactsFolder, 'Greeting v2.py'), 'utf-8')).toBe(
+      'print("hello")'
+    )
+  })
+
+  it('should include search mode, plan and related queries', async () => {
+    const conversation = createConversation({
+      provider: 'perplexity',
+      mode: 'COPILOT',
+      searchFocus: 'internet'
+    })
+    const messages = [
+      createMessage({
+        role: 'assistant',
+        parts: [
+          { type: 'text', text: 'Bengals are a hybrid breed.' },
+          { type: 'plan', steps: ['Search breed history'] },
+          { type: 'related-queries', queries: ['How big do Bengals get?'] }
+        ]
+      })
+    ]
+    const options: ExportOptions = {
+      format: 'json',
+      includeAttachments: false,
+      outputPath: tempDir
+    }
+
+    const exportPath = await exportToJson(conversation, messages, options)
+    const exported = JSON.parse(fs.readFileSync(exportPath, 'utf-8'))
+
+    expect(exported.mode).toBe('COPILOT')
+    expect(exported.search_focus).toBe('internet')
+    expect(exported.messages[0].content).toBe('Bengals are a hybrid breed.')
+    expect(exported.messages[0].plan).toEqual(['Search breed history'])
+    expect(exported.messages[0].related_queries).toEqual(['How big do Bengals get?'])
+  })
+
+  describe('branches', () => {
+    // msg-1 -> (msg-2 | msg-3), msg-3 is the current node
+    const conversation = createConversation({ currentNodeId: 'msg-3' })
+    const messages = [
+      createMessage({ id: 'msg-1' }),
+      createMessage({ id: 'msg-2', role: 'assistant', parentId: 'msg-1', orderIndex: 1 }),
+      createMessage({ id: 'msg-3', role: 'assistant', parentId: 'msg-1', orderIndex: 2 })
+    ]
+    const options: ExportOptions = { format: 'json', includeAttachments: false, outputPath: '' }
+
+    const ids = (exported: { messages: Array<{ id: string }> }) =>
+      exported.messages.map((message) => message.id)
+
+    it('should write only the active branch', async () => {
+      const exportPath = await exportToJson(conversation, messages, {
+        ...options,
+        outputPath: tempDir,
+        branches: 'active'
+      })
+
+      const exported = JSON.parse(fs.readFileSync(exportPath, 'utf-8'))
+      expect(ids(exported)).toEqual(['msg-1', 'msg-3'])
+      expect(exported.message_count).toBe(2)
+    })
+
+    it('should write a file per branch', async () => {
+      const exportPath = await exportToJson(conversation, messages, {
+        ...options,
+        outputPath: tempDir,
+        branches: 'each'
+      })
+
+      const folder = path.dirname(exportPath)
+      expect(fs.readdirSync(folder).sort()).toEqual([
+        'conversation (branch 2).json',
+        'conversation.json'
+      ])
+      expect(ids(JSON.parse(fs.readFileSync(exportPath, 'utf-8')))).toEqual(['msg-1', 'msg-3'])
+      const other = JSON.parse(
+        fs.readFileSync(path.join(folder, 'conversation (branch 2).json'), 'utf-8')
+      )
+      expect(ids(other)).toEqual(['msg-1', 'msg-2'])
+    })
+
+    it('should nest replies under their parent', async () => {
+      const exportPath = await exportToJson(conversation, messages, {
+        ...options,
+        outputPath: tempDir,
+        branches: 'tree'
+      })
+
+      const exported = JSON.parse(fs.readFileSync(exportPath, 'utf-8'))
+      expect(exported.current_node_id).toBe('msg-3')
+      expect(exported.message_count).toBe(3)
+      expect(ids(exported)).toEqual(['msg-1'])
+      expect(exported.messages[0].children.map((child: { id: string }) => child.id)).toEqual([
+        'msg-2',
+        'msg-3'
+      ])
+      expect(exported.messages[0].children[0].children).toEqual([])
+    })
+  })
 })
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { exportToMarkdown } from '../markdown'
+import type { Conversation, Message, ExportOptions } from '@shared/types'
+
+function createConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: 'test-conv-1',
+    title: 'Test "Conversation"',
+    provider: 'chatgpt',
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    updatedAt: new Date('2026-01-07T11:00:00Z'),
+    syncedAt: new Date('2026-01-07T12:00:00Z'),
+    messageCount: 2,
+    currentNodeId: null,
+    ...overrides
+  }
+}
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 'test-msg-1',
+    conversationId: 'test-conv-1',
+    role: 'user',
+    parts: [{ type: 'text', text: 'Hello, world!' }],
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    orderIndex: 0,
+    parentId: null,
+    siblingIds: ['test-msg-1'],
+    siblingIndex: 0,
+    ...overrides
+  }
+}
+
+const answer = createMessage({
+  id: 'test-msg-2',
+  role: 'assistant',
+  model: 'gpt-4o',
+  parts: [
+    { type: 'text', text: 'Cats sleep a lot' },
+    { type: 'source-url', sourceId: 'src-1', url: 'https://example.com/cats', title: 'Cats' },
+    { type: 'text', text: ' and purr' },
+    { type: 'source-url', sourceId: 'src-2', url: 'https://example.com/purr' },
+    { type: 'text', text: '.' }
+  ],
+  parentId: 'test-msg-1',
+  orderIndex: 1
+})
+
+describe('exportToMarkdown', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  async function exportMarkdown(
+    messages: Message[],
+    overrides: Partial<ExportOptions> = {}
+  ): Promise<string> {
+    const filePath = await exportToMarkdown(createConversation(), messages, {
+      format: 'markdown',
+      includeAttachments: false,
+      outputPath: tempDir,
+      ...overrides
+    })
+    return fs.readFileSync(filePath, 'utf-8')
+  }
+
+  it('should write dates in the body and sources inline by default', async () => {
+    const markdown = await exportMarkdown([createMessage(), answer])
+
+    expect(markdown).toMatch(/^# Test "Conversation"\n\n\*\*Created:\*\*/)
+    expect(markdown).toContain('## User\n')
+    expect(markdown).toContain('## Assistant (gpt-4o)\n')
+    expect(markdown).toContain(
+      'Cats sleep a lot[Cats](https://example.com/cats) and purrhttps://example.com/purr.'
+    )
+  })
+
+  it('should write YAML frontmatter instead of the dates', async () => {
+    const markdown = await exportMarkdown([createMessage(), answer], {
+      markdown: { frontmatter: true }
+    })
+
+    expect(markdown).toMatch(
+      new RegExp(
+        [
+          '^---',
+          'id: "test-conv-1"',
+          'provider: "chatgpt"',
+          'title: "Test \\\\"Conversation\\\\""',
+          'created: 2026-01-07T10:00:00.000Z',
+          'updated: 2026-01-07T11:00:00.000Z',
+          'model: "gpt-4o"',
+          'tags:',
+          '  - "chatgpt"',
+          'source: "https://chatgpt.com/c/test-conv-1"',
+          '---',
+          '',
+          '# Test "Conversation"\n'
+        ].join('\n')
+      )
+    )
+    expect(markdown).not.toContain('**Created:**')
+  })
+
+  it('should add the folder, favorite and tags to the frontmatter', async () => {
+    const conversation = createConversation({
+      starred: true,
+      folder: { id: 'folder-1', path: 'Work/Clients' },
+      tags: ['chatgpt', 'project-x']
+    })
+    const filePath = await exportToMarkdown(conversation, [createMessage()], {
+      format: 'markdown',
+      includeAttachments: false,
+      outputPath: tempDir,
+      markdown: { frontmatter: true }
+    })
+    const markdown = fs.readFileSync(filePath, 'utf-8')
+
+    expect(markdown).toContain(
+      [
+        'folder: "Work/Clients"',
+        'starred: true',
+        'tags:',
+        '  - "chatgpt"',
+        '  - "project-x"\n'
+      ].join('\n')
+    )
+  })
+
+  it('should turn sources into footnotes', async () => {
+    const markdown = await exportMarkdown([answer, { ...answer, id: 'test-msg-3' }], {
+      markdown: { footnotes: true }
+    })
+
+    expect(markdown).toContain('Cats sleep a lot[^1] and purr[^2].')
+    // The same source keeps its number and is defined once
+    expect(markdown.match(/\[\^1\]: /g)).toHaveLength(1)
+    expect(markdown).toMatch(
+      /\[\^1\]: \[Cats\]\(https:\/\/example\.com\/cats\)\n\[\^2\]: <https:\/\/example\.com\/purr>\n$/
+    )
+  })
+
+  it('should use the configured role headings', async () => {
+    const markdown = await exportMarkdown(
+      [createMessage(), answer, createMessage({ id: 'test-msg-4', role: 'system' })],
+      { markdown: { roleHeadings: { user: 'Me', assistant: 'ChatGPT' } } }
+    )
+
+    expect(markdown).toContain('## Me\n')
+    expect(markdown).toContain('## ChatGPT (gpt-4o)\n')
+    expect(markdown).toContain('## System\n')
+  })
+
+  it('should link attachments with wikilinks', async () => {
+    const imagePath = path.join(tempDir, 'cat.png')
+    const documentPath = path.join(tempDir, 'notes.pdf')
+    fs.writeFileSync(imagePath, 'image')
+    fs.writeFileSync(documentPath, 'document')
+    const message = createMessage({
+      attachments: [
+        {
+          id: 'att-1',
+          messageId: 'test-msg-1',
+          type: 'image',
+          originalUrl: '',
+          localPath: imagePath,
+          filename: 'Cat photo.png',
+          mimeType: 'image/png',
+          size: 5
+        },
+        {
+          id: 'att-2',
+          messageId: 'test-msg-1',
+          type: 'file',
+          originalUrl: '',
+          localPath: documentPath,
+          filename: 'Notes.pdf',
+          mimeType: 'application/pdf',
+          size: 8
+        }
+      ]
+    })
+
+    const markdown = await exportMarkdown([message], {
+      includeAttachments: true,
+      outputPath: path.join(tempDir, 'out'),
+      markdown: { wikilinks: true }
+    })
+
+    expect(markdown).toContain('![[attachments/cat.png]]')
+    expect(markdown).toContain('[[attachments/notes.pdf|Notes.pdf]]')
+  })
+})
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import type { Conversation, Message } from '@shared/types'
+import type { ExportMirrorEntry } from '../../db/schema'
+
+// In-memory stand-ins for the tables the mirror reads and writes
+const state = vi.hoisted(() => ({
+  settings: {} as Record<string, unknown>,
+  conversations: [] as Array<{ conversation: Conversation; messages: Message[] }>,
+  entries: new Map<string, ExportMirrorEntry>(),
+  syncState: new Map<string, string>()
+}))
+
+vi.mock('../../settings', () => ({
+  getSettings: () => state.settings
+}))
+
+vi.mock('../../db/operations.js', () => ({
+  getSyncState: vi.fn(async (key: string) => state.syncState.get(key) ?? null),
+  setSyncState: vi.fn(async (key: string, value: string) => {
+    state.syncState.set(key, value)
+  }),
+  listExportMirrorEntries: vi.fn(async () => [...state.entries.values()]),
+  upsertExportMirrorEntry: vi.fn(async (entry: ExportMirrorEntry) => {
+    state.entries.set(entry.conversationId, entry)
+  }),
+  deleteExportMirrorEntry: vi.fn(async (id: string) => {
+    state.entries.delete(id)
+  }),
+  clearExportMirror: vi.fn(async () => {
+    state.entries.clear()
+  }),
+  countConversations: vi.fn(async () => state.conversations.length),
+  listConversations: vi.fn(async () => ({
+    items: state.conversations.map((data) => data.conversation),
+    total: state.conversations.length
+  })),
+  getConversationWithMessages: vi.fn(
+    async (id: string) => state.conversations.find((data) => data.conversation.id === id) ?? null
+  )
+}))
+
+// The writers only need to write a file to the folder they're given
+vi.mock('../markdown.js', () => ({
+  exportToMarkdown: vi.fn(
+    async (_conversation: Conversation, _messages: Message[], options, folder: string) => {
+      fs.mkdirSync(path.join(options.outputPath, folder), { recursive: true })
+      fs.writeFileSync(path.join(options.outputPath, folder, 'conversation.md'), '')
+    }
+  )
+}))
+
+vi.mock('../json.js', () => ({
+  exportToJson: vi.fn()
+}))
+
+import { exportToMarkdown } from '../markdown.js'
+import { getConversationWithMessages } from '../../db/operations.js'
+import { hashConversation, pickMirrorFolder, runMirror } from '../mirror'
+
+function createConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: 'conv-1',
+    title: 'Test Conversation',
+    provider: 'chatgpt',
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    updatedAt: new Date('2026-01-07T11:00:00Z'),
+    syncedAt: new Date('2026-01-07T12:00:00Z'),
+    messageCount: 1,
+    currentNodeId: 'msg-1',
+    ...overrides
+  }
+}
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: 'msg-1',
+    conversationId: 'conv-1',
+    role: 'user',
+    parts: [{ type: 'text', text: 'Hello' }],
+    createdAt: new Date('2026-01-07T10:00:00Z'),
+    orderIndex: 0,
+    attachments: [],
+    parentId: null,
+    siblingIds: ['msg-1'],
+    siblingIndex: 0,
+    ...overrides
+  }
+}
+
+describe('hashConversation', () => {
+  it('ignores syncedAt', () => {
+    const messages = [createMessage()]
+    expect(hashConversation(createConversation(), messages)).toBe(
+      hashConversation(createConversation({ syncedAt: new Date() }), messages)
+    )
+  })
+
+  it('ignores the IDs of source-url parts', () => {
+    const cited = (sourceId: string): Message[] => [
+      createMessage({ parts: [{ type: 'source-url', sourceId, url: 'https://example.com' }] })
+    ]
+    expect(hashConversation(createConversation(), cited('a1'))).toBe(
+      hashConversation(createConversation(), cited('b2'))
+    )
+  })
+
+  it('changes with the star, folder and tags', () => {
+    const messages = [createMessage()]
+    const hash = hashConversation(createConversation(), messages)
+    expect(hashConversation(createConversation({ starred: true }), messages)).not.toBe(hash)
+    expect(
+      hashConversation(createConversation({ folder: { id: 'f1', path: 'Work' } }), messages)
+    ).not.toBe(hash)
+    expect(hashConversation(createConversation({ tags: ['cats'] }), messages)).not.toBe(hash)
+  })
+
+  it('changes with the messages', () => {
+    const conversation = createConversation()
+    expect(hashConversation(conversation, [createMessage()])).not.toBe(
+      hashConversation(conversation, [createMessage({ parts: [{ type: 'text', text: 'Hi' }] })])
+    )
+  })
+})
+
+describe('pickMirrorFolder', () => {
+  const conversation = createConversation({ id: 'abcdef1234567890', title: 'Notes' })
+
+  it('uses the title when it is free', () => {
+    expect(pickMirrorFolder(conversation, new Set())).toBe('Notes')
+  })
+
+  it('adds the start of the ID when another conversation has the title, ignoring case', () => {
+    expect(pickMirrorFolder(conversation, new Set(['notes']))).toBe('Notes (abcdef12)')
+  })
+
+  it('keeps the current folder while the title matches', () => {
+    expect(pickMirrorFolder(conversation, new Set(), 'Notes (abcdef12)')).toBe('Notes (abcdef12)')
+  })
+})
+
+describe('runMirror', () => {
+  let outputPath: string
+
+  beforeEach(() => {
+    outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mirror-test-'))
+    state.settings = {
+      mirrorPath: outputPath,
+      mirrorFormat: 'markdown',
+      mirrorIncludeAttachments: false,
+      mirrorDeleteRemoved: true
+    }
+    state.conversations = [
+      { conversation: createConversation(), messages: [createMessage()] },
+      {
+        conversation: createConversation({ id: 'conv-2', title: 'Other' }),
+        messages: [createMessage({ conversationId: 'conv-2' })]
+      }
+    ]
+    state.entries.clear()
+    state.syncState.clear()
+    vi.mocked(exportToMarkdown).mockClear()
+    vi.mocked(getConversationWithMessages).mockClear()
+  })
+
+  afterEach(() => {
+    fs.rmSync(outputPath, { recursive: true, force: true })
+  })
+
+  it('writes only new and changed conversations', async () => {
+    expect(await runMirror()).toEqual({ written: 2, removed: 0, unchanged: 0 })
+
+    // Synced again without changes
+    state.conversations[0].conversation = createConversation({ syncedAt: new Date() })
+    expect(await runMirror()).toEqual({ written: 0, removed: 0, unchanged: 2 })
+
+    state.conversations[1].messages = [
+      createMessage({ conversationId: 'conv-2', parts: [{ type: 'text', text: 'Edited' }] })
+    ]
+    state.conversations[1].conversation = createConversation({
+      id: 'conv-2',
+      title: 'Other',
+      syncedAt: new Date()
+    })
+    expect(await runMirror()).toEqual({ written: 1, removed: 0, unchanged: 1 })
+    expect(exportToMarkdown).toHaveBeenCalledTimes(3)
+  })
+
+  it('skips conversations that were not synced or organized without loading them', async () => {
+    await runMirror()
+    vi.mocked(getConversationWithMessages).mockClear()
+
+    expect(await runMirror()).toEqual({ written: 0, removed: 0, unchanged: 2 })
+    expect(getConversationWithMessages).not.toHaveBeenCalled()
+  })
+
+  it('writes a conversation whose tags changed without a sync', async () => {
+    await runMirror()
+    state.conversations[0].conversation = createConversation({ tags: ['cats'] })
+
+    expect(await runMirror()).toEqual({ written: 1, removed: 0, unchanged: 1 })
+  })
+
+  it('removes folders of deleted conversations', async () => {
+    await runMirror()
+    state.conversations = state.conversations.slice(0, 1)
+
+    expect(await runMirror()).toEqual({ written: 0, removed: 1, unchanged: 1 })
+    expect(fs.readdirSync(outputPath)).toEqual(['Test Conversation'])
+  })
+
+  it('leaves folders it did not create and files the user added alone', async () => {
+    fs.mkdirSync(path.join(outputPath, 'Test Conversation'))
+    fs.writeFileSync(path.join(outputPath, 'Test Conversation', 'ideas.md'), 'Mine')
+    await runMirror()
+    fs.writeFileSync(path.join(outputPath, 'Other', 'notes.md'), 'Mine')
+
+    expect(fs.readdirSync(path.join(outputPath, 'Test Conversation'))).toEqual(['ideas.md'])
+    expect(fs.readdirSync(outputPath).sort()).toEqual([
+      'Other',
+      'Test Conversation',
+      'Test Conversation (conv-1)'
+    ])
+
+    // Renamed, then deleted
+    state.conversations[0].conversation = createConversation({
+      title: 'Renamed',
+      syncedAt: new Date()
+    })
+    await runMirror()
+    state.conversations = []
+    await runMirror()
+
+    expect(fs.readdirSync(outputPath).sort()).toEqual(['Other', 'Test Conversation'])
+    expect(fs.readdirSync(path.join(outputPath, 'Test Conversation'))).toEqual(['ideas.md'])
+    expect(fs.readdirSync(path.join(outputPath, 'Other'))).toEqual(['notes.md'])
+  })
+
+  it('moves a renamed conversation to a new folder', async () => {
+    await runMirror()
+    state.conversations[0].conversation = createConversation({
+      title: 'Renamed',
+      syncedAt: new Date()
+    })
+
+    expect(await runMirror()).toEqual({ written: 1, removed: 0, unchanged: 1 })
+    expect(fs.readdirSync(outputPath).sort()).toEqual(['Other', 'Renamed'])
+  })
+
+  it('keeps the folders when the options change', async () => {
+    await runMirror()
+    state.settings = { ...state.settings, mirrorMarkdown: { frontmatter: true } }
+
+    expect(await runMirror()).toEqual({ written: 2, removed: 0, unchanged: 0 })
+    expect(fs.readdirSync(outputPath).sort()).toEqual(['Other', 'Test Conversation'])
+  })
+
+  it('writes everything again when the folder changes', async () => {
+    await runMirror()
+    const otherPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mirror-test-'))
+    state.settings = { ...state.settings, mirrorPath: otherPath }
+
+    try {
+      expect(await runMirror()).toEqual({ written: 2, removed: 0, unchanged: 0 })
+    } finally {
+      fs.rmSync(otherPath, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { getArtifactExtension, getArtifactFilename } from '../utils'
+
+describe('getArtifactExtension', () => {
+  it('should use the language of code artifacts', () => {
+    expect(getArtifactExtension({ type: 'application/vnd.ant.code', language: 'python' })).toBe(
+      'py'
+    )
+    expect(getArtifactExtension({ type: 'application/vnd.ant.code', language: 'TypeScript' })).toBe(
+      'ts'
+    )
+    expect(getArtifactExtension({ type: 'application/vnd.ant.code', language: 'go' })).toBe('go')
+  })
+
+  it('should fall back to txt for unknown languages', () => {
+    expect(getArtifactExtension({ type: 'application/vnd.ant.code', language: 'c++ 20' })).toBe(
+      'txt'
+    )
+    expect(getArtifactExtension({ type: 'application/vnd.ant.code', language: null })).toBe('txt')
+  })
+
+  it('should use the artifact type for everything else', () => {
+    expect(getArtifactExtension({ type: 'text/markdown', language: null })).toBe('md')
+    expect(getArtifactExtension({ type: 'image/svg+xml', language: null })).toBe('svg')
+    expect(getArtifactExtension({ type: 'application/vnd.ant.react', language: null })).toBe('jsx')
+    expect(getArtifactExtension({ type: null, language: null })).toBe('txt')
+  })
+})
+
+describe('getArtifactFilename', () => {
+  const artifact = {
+    artifactId: 'report',
+    version: 2,
+    title: 'Bengal cats: a report',
+    type: 'text/markdown',
+    language: null
+  }
+
+  it('should name the file after the sanitized title', () => {
+    expect(getArtifactFilename(artifact)).toBe('Bengal cats- a report.md')
+  })
+
+  it('should add the version when there are several', () => {
+    expect(getArtifactFilename(artifact, 3)).toBe('Bengal cats- a report v2.md')
+  })
+
+  it('should fall back to the artifact id', () => {
+    expect(getArtifactFilename({ ...artifact, title: null })).toBe('report.md')
+  })
+})
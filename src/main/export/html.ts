@@ -0,0 +1,442 @@
+import fs from 'fs'
+import path from 'path'
+import { Marked, type TokenizerAndRendererExtension } from 'marked'
+import katex from 'katex'
+import hljs from 'highlight.js/lib/common'
+import type {
+  ArtifactPart,
+  Attachment,
+  Conversation,
+  Message,
+  ExportOptions,
+  MessagePart,
+  SourceUrlPart
+} from '../../shared/types'
+import { getConversationUrl } from '../../shared/conversation-url'
+import {
+  formatDateTime,
+  getConversationFolderName,
+  getExportFiles,
+  writeArtifactFiles
+} from './utils.js'
+
+/**
+ * Turns an exported HTML file into a PDF. Needs Electron, so the export worker asks the
+ * main process to do it (see pdf.ts).
+ */
+export type PdfPrinter = (htmlPath: string, pdfPath: string) => Promise<void>
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+}
+
+// Source parts are replaced with these markers before rendering and with pills after
+const CITATION_MARKER = /\uE000(\d+)\uE001/g
+
+const SAFE_URL = /^(https?:|mailto:|#)/i
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+}
+
+/**
+ * Export a conversation as a self-contained HTML file: CSS is inlined, math is rendered
+ * to MathML and images are embedded as data URIs, so the file opens offline. With a
+ * printer, each HTML file is converted to a PDF and removed; it's rendered for print,
+ * with <details> blocks open and remote images as links, since printing is offline.
+ */
+export async function exportToHtml(
+  conversation: Conversation,
+  messages: Message[],
+  options: ExportOptions,
+  printToPdf?: PdfPrinter
+): Promise<string> {
+  const folderPath = path.join(options.outputPath, getConversationFolderName(conversation, options))
+
+  if (!fs.existsSync(folderPath)) {
+    fs.mkdirSync(folderPath, { recursive: true })
+  }
+
+  // Images are embedded, other attachments are copied next to the file and linked
+  const attachmentsFolder = path.join(folderPath, 'attachments')
+  const hasFileAttachments =
+    options.includeAttachments &&
+    messages.some((msg) => msg.attachments?.some((att) => !isEmbeddedImage(att)))
+
+  if (hasFileAttachments && !fs.existsSync(attachmentsFolder)) {
+    fs.mkdirSync(attachmentsFolder, { recursive: true })
+  }
+
+  const artifactFiles = writeArtifactFiles(folderPath, conversation.id, messages)
+  const forPrint = printToPdf !== undefined
+
+  const filePaths: string[] = []
+  for (const file of getExportFiles(conversation, messages, options.branches)) {
+    const htmlPath = path.join(folderPath, `${file.name}.html`)
+    fs.writeFileSync(
+      htmlPath,
+      formatHtml(conversation, file.messages, options, artifactFiles, attachmentsFolder, forPrint),
+      'utf-8'
+    )
+
+    if (printToPdf) {
+      const pdfPath = path.join(folderPath, `${file.name}.pdf`)
+      await printToPdf(htmlPath, pdfPath)
+      fs.unlinkSync(htmlPath)
+      filePaths.push(pdfPath)
+    } else {
+      filePaths.push(htmlPath)
+    }
+  }
+
+  return filePaths[0]
+}
+
+/**
+ * HTML document of one file. Copies the attachments it links into the attachments folder.
+ */
+function formatHtml(
+  conversation: Conversation,
+  messages: Message[],
+  options: ExportOptions,
+  artifactFiles: Map<ArtifactPart, string>,
+  attachmentsFolder: string,
+  forPrint: boolean
+): string {
+  const source = getConversationUrl(conversation.provider, conversation.id)
+  const body: string[] = []
+
+  body.push('<header>')
+  body.push(`<h1>${escapeHtml(conversation.title)}</h1>`)
+  body.push(
+    `<p class="meta">Created ${formatDateTime(conversation.createdAt)}` +
+      ` · Last updated ${formatDateTime(conversation.updatedAt)}` +
+      ` · Exported ${formatDateTime(new Date())}` +
+      (source ? ` · <a href="${escapeHtml(source)}">Open original</a>` : '') +
+      '</p>'
+  )
+  body.push('</header>')
+
+  for (const msg of messages) {
+    const roleLabel = ROLE_LABELS[msg.role]
+    body.push(`<section class="message ${msg.role}">`)
+    body.push(
+      `<h2>${roleLabel}${msg.model ? ` <span class="model">${escapeHtml(msg.model)}</span>` : ''}</h2>`
+    )
+    body.push(formatParts(msg.parts, artifactFiles, forPrint))
+
+    if (options.includeAttachments && msg.attachments && msg.attachments.length > 0) {
+      for (const att of msg.attachments) {
+        if (!att.localPath || !fs.existsSync(att.localPath)) continue
+
+        if (isEmbeddedImage(att)) {
+          const data = fs.readFileSync(att.localPath).toString('base64')
+          body.push(
+            `<figure><img src="data:${getImageMimeType(att)};base64,${data}" alt="${escapeHtml(att.filename)}"></figure>`
+          )
+        } else {
+          const destFilename = path.basename(att.localPath)
+          fs.copyFileSync(att.localPath, path.join(attachmentsFolder, destFilename))
+          body.push(
+            `<p class="attachment"><a href="./attachments/${encodeURIComponent(destFilename)}">${escapeHtml(att.filename)}</a></p>`
+          )
+        }
+      }
+    }
+
+    body.push('</section>')
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(conversation.title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    ...body,
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Render message parts. Consecutive text and source parts are rendered as one markdown
+ * block so that citations stay inline; other parts become blocks of their own.
+ */
+function formatParts(
+  parts: MessagePart[],
+  artifactFiles: Map<ArtifactPart, string>,
+  forPrint: boolean
+): string {
+  const blocks: string[] = []
+  let content = ''
+  let sources: SourceUrlPart[] = []
+
+  const flush = () => {
+    if (content) blocks.push(renderMarkdownWithCitations(content, sources, forPrint))
+    content = ''
+    sources = []
+  }
+
+  for (const part of parts) {
+    if (part.type === 'text') {
+      content += part.text
+    } else if (part.type === 'source-url') {
+      content += `\uE000${sources.length}\uE001`
+      sources.push(part)
+    } else if (part.type === 'artifact') {
+      flush()
+      blocks.push(formatArtifactLink(part, artifactFiles.get(part)))
+    } else if (part.type === 'related-queries') {
+      flush()
+      blocks.push(
+        '<div class="related"><strong>Related</strong><ul>' +
+          part.queries.map((query) => `<li>${escapeHtml(query)}</li>`).join('') +
+          '</ul></div>'
+      )
+    } else {
+      flush()
+      blocks.push(formatDetailsBlock(part, forPrint))
+    }
+  }
+  flush()
+
+  return blocks.join('\n')
+}
+
+function renderMarkdownWithCitations(
+  content: string,
+  sources: SourceUrlPart[],
+  forPrint: boolean
+): string {
+  return renderMarkdown(content, forPrint).replace(CITATION_MARKER, (_, index: string) =>
+    formatCitation(sources[Number(index)])
+  )
+}
+
+function formatCitation(part: SourceUrlPart): string {
+  let label = part.title || part.url
+  try {
+    label = new URL(part.url).hostname.replace(/^www\./, '')
+  } catch {
+    // Not a URL; keep the title
+  }
+  if (!SAFE_URL.test(part.url)) {
+    return `<span class="citation">${escapeHtml(label)}</span>`
+  }
+  const title = part.title ? ` title="${escapeHtml(part.title)}"` : ''
+  return `<a class="citation" href="${escapeHtml(part.url)}"${title}>${escapeHtml(label)}</a>`
+}
+
+const ARTIFACT_COMMAND_LABELS: Record<ArtifactPart['command'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  rewrite: 'Rewrote'
+}
+
+function formatArtifactLink(part: ArtifactPart, file: string | undefined): string {
+  const title = escapeHtml(part.title || part.artifactId)
+  const label = `<strong>${ARTIFACT_COMMAND_LABELS[part.command]} artifact:</strong>`
+  return file
+    ? `<p class="artifact">${label} <a href="${escapeHtml(encodeURI(file))}">${title}</a></p>`
+    : `<p class="artifact">${label} ${title}</p>`
+}
+
+/**
+ * Render a reasoning, tool or plan part as a collapsible <details> block, open when
+ * printed since a PDF can't expand it.
+ */
+function formatDetailsBlock(
+  part: Exclude<MessagePart, { type: 'text' | 'source-url' | 'artifact' | 'related-queries' }>,
+  forPrint: boolean
+): string {
+  const details = (summary: string, body: string) =>
+    `<details${forPrint ? ' open' : ''}>\n<summary>${escapeHtml(summary)}</summary>\n${body}\n</details>`
+
+  switch (part.type) {
+    case 'reasoning':
+      return details('Reasoning', renderMarkdown(part.text, forPrint))
+    case 'tool-call':
+      return details(`Tool call: ${part.toolName}`, highlightCode(part.input))
+    case 'tool-result':
+      return details(`Tool result: ${part.toolName}`, highlightCode(part.output))
+    case 'code-execution':
+      return details(
+        `Code (${part.language})`,
+        part.output !== undefined
+          ? `${highlightCode(part.code, part.language)}\n${highlightCode(part.output)}`
+          : highlightCode(part.code, part.language)
+      )
+    case 'plan':
+      return details(
+        'Plan',
+        `<ol>${part.steps.map((step) => `<li>${escapeHtml(step)}</li>`).join('')}</ol>`
+      )
+  }
+}
+
+function isEmbeddedImage(att: Attachment): boolean {
+  return att.type === 'image' && getImageMimeType(att) !== null
+}
+
+function getImageMimeType(att: Attachment): string | null {
+  if (att.mimeType.startsWith('image/')) return att.mimeType
+  return IMAGE_MIME_TYPES[path.extname(att.localPath || att.filename).toLowerCase()] ?? null
+}
+
+// Markdown rendering
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function highlightCode(code: string, language?: string): string {
+  const lang = language?.trim().split(/\s+/)[0].toLowerCase()
+  const highlighted =
+    lang && hljs.getLanguage(lang)
+      ? hljs.highlight(code, { language: lang, ignoreIllegals: true }).value
+      : escapeHtml(code)
+  return `<pre><code class="hljs${lang ? ` language-${escapeHtml(lang)}` : ''}">${highlighted}</code></pre>`
+}
+
+// MathML needs no fonts or stylesheet, which keeps the file self-contained
+function renderMath(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, output: 'mathml', throwOnError: false })
+}
+
+// $$...$$ and \[...\] on their own lines
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: (src) => src.match(/^(\$\$|\\\[)/m)?.index,
+  tokenizer(src) {
+    const match = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n|$)/.exec(src)
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: (match[1] ?? match[2]).trim() }
+    }
+    return undefined
+  },
+  renderer: (token) => `<div class="math">${renderMath(token.text, true)}</div>\n`
+}
+
+// $...$, \(...\) and $$...$$ within a line. A dollar followed by a space or a closing
+// dollar followed by a digit is a price, not math.
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: (src) => src.match(/\$|\\\(/)?.index,
+  tokenizer(src) {
+    const match =
+      /^\$\$([^$]+?)\$\$/.exec(src) ??
+      /^\$(?![\s$])((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/.exec(src) ??
+      /^\\\(([\s\S]+?)\\\)/.exec(src)
+    if (match) {
+      return {
+        type: 'inlineMath',
+        raw: match[0],
+        text: match[1].trim(),
+        displayMode: match[0].startsWith('$$')
+      }
+    }
+    return undefined
+  },
+  renderer: (token) => renderMath(token.text, token.displayMode)
+}
+
+// Printing blocks remote requests (see pdf.ts), so for print remote images become links
+function createMarkdown(forPrint: boolean): Marked {
+  return new Marked({
+    gfm: true,
+    extensions: [blockMath, inlineMath],
+    renderer: {
+      code({ text, lang }) {
+        return `${highlightCode(text, lang)}\n`
+      },
+      // Conversations quote HTML all the time; show it instead of rendering it
+      html({ text }) {
+        return escapeHtml(text)
+      },
+      link({ href, title, tokens }) {
+        const text = this.parser.parseInline(tokens)
+        if (!SAFE_URL.test(href)) return text
+        const titleAttr = title ? ` title="${escapeHtml(title)}"` : ''
+        return `<a href="${escapeHtml(href)}"${titleAttr}>${text}</a>`
+      },
+      image({ href, title, text }) {
+        if (!/^https?:/i.test(href)) return escapeHtml(text)
+        const titleAttr = title ? ` title="${escapeHtml(title)}"` : ''
+        if (forPrint) {
+          return `<a href="${escapeHtml(href)}"${titleAttr}>${escapeHtml(text || href)}</a>`
+        }
+        return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr}>`
+      }
+    }
+  })
+}
+
+const markdown = createMarkdown(false)
+const printMarkdown = createMarkdown(true)
+
+function renderMarkdown(text: string, forPrint: boolean): string {
+  return (forPrint ? printMarkdown : markdown).parse(text, { async: false })
+}
+
+const STYLES = `
+:root { color-scheme: light; }
+body { margin: 0; background: #fff; color: #1f2328; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 40px 24px; }
+header { margin-bottom: 32px; }
+h1 { font-size: 1.75em; line-height: 1.25; margin: 0 0 8px; }
+.meta { color: #656d76; font-size: 0.85em; margin: 0; }
+.message { padding: 16px 0; border-top: 1px solid #d0d7de; }
+.message > h2 { font-size: 0.8em; text-transform: uppercase; letter-spacing: 0.04em; color: #656d76; margin: 0 0 8px; }
+.message.user { background: #f6f8fa; border-radius: 8px; padding: 16px; border-top: none; margin: 16px 0; }
+.model { text-transform: none; letter-spacing: 0; font-weight: normal; }
+a { color: #0969da; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+code { font: 0.875em/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+:not(pre) > code { background: rgba(175, 184, 194, 0.2); border-radius: 4px; padding: 0.1em 0.3em; }
+blockquote { margin: 0; padding: 0 1em; color: #656d76; border-left: 4px solid #d0d7de; }
+table { border-collapse: collapse; display: block; overflow-x: auto; }
+th, td { border: 1px solid #d0d7de; padding: 6px 12px; }
+img { max-width: 100%; }
+figure { margin: 12px 0; }
+.math { overflow-x: auto; margin: 12px 0; }
+.citation { display: inline-block; margin-left: 4px; padding: 0 8px; border-radius: 9px; background: #eaeef2; color: #656d76; font-size: 0.7em; font-weight: 500; line-height: 18px; max-width: 15ch; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; vertical-align: 0.1em; text-decoration: none; }
+details { margin: 12px 0; padding: 8px 12px; border: 1px solid #d0d7de; border-radius: 6px; }
+summary { cursor: pointer; color: #656d76; }
+.related ul { margin: 4px 0; }
+.hljs-comment, .hljs-quote { color: #6e7781; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type, .hljs-doctag { color: #cf222e; }
+.hljs-string, .hljs-regexp, .hljs-addition { color: #0a3069; }
+.hljs-number, .hljs-literal, .hljs-variable, .hljs-template-variable, .hljs-attr, .hljs-attribute { color: #0550ae; }
+.hljs-title, .hljs-section, .hljs-function .hljs-title { color: #8250df; }
+.hljs-built_in, .hljs-symbol, .hljs-name, .hljs-tag { color: #116329; }
+.hljs-meta { color: #953800; }
+.hljs-deletion { color: #82071e; background: #ffebe9; }
+@media print {
+  main { max-width: none; padding: 0; }
+  details { border: none; padding: 0; }
+  pre, figure, .math { break-inside: avoid; }
+  a { color: inherit; }
+}
+`.trim()
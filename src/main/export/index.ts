@@ -3,6 +3,7 @@ import type { ExportOptions, Message, ExportProgress } from '../../shared/types'
 import * as db from '../db/operations.js'
 import { exportToMarkdown } from './markdown.js'
 import { exportToJson } from './json.js'
+import { exportToHtml } from './html.js'
 import type { IProvider } from '../sync/providers/base.js'
 
 /**
@@ -156,18 +157,25 @@ export async function exportConversation(
     throw new DOMException('Export cancelled', 'AbortError')
   }
 
-  if (options.format === 'markdown') {
-    return exportToMarkdown(data.conversation, data.messages, options)
-  } else {
-    return exportToJson(data.conversation, data.messages, options)
+  switch (options.format) {
+    case 'markdown':
+      return exportToMarkdown(data.conversation, data.messages, options)
+    case 'html':
+      return exportToHtml(data.conversation, data.messages, options)
+    case 'pdf':
+      // Printing needs an Electron window; the app exports PDFs through the worker
+      throw new Error('PDF export is only available in the app')
+    default:
+      return exportToJson(data.conversation, data.messages, options)
   }
 }
 
 export async function exportAllConversations(
   options: ExportOptions,
-  context?: ExportContext
+  context?: ExportContext,
+  filters?: db.ConversationFilters
 ): Promise<string> {
-  const conversations = await db.listConversations({ limit: 10000 })
+  const conversations = await db.listConversations({ ...filters, limit: 10000 })
 
   const total = conversations.items.length
   let current = 0
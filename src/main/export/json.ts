@@ -1,13 +1,15 @@
 import fs from 'fs'
 import path from 'path'
 import type {
+  ArtifactPart,
   Conversation,
   Message,
   ExportOptions,
   MessagePart,
   SourceUrlPart
 } from '../../shared/types'
-import { formatDate, sanitizeFilename } from './utils.js'
+import { buildMessageTree } from '../../shared/branch-utils'
+import { getConversationFolderName, getExportFiles, writeArtifactFiles } from './utils.js'
 
 /**
  * Flatten message parts to a single content string.
@@ -33,6 +35,91 @@ function extractSources(parts: MessagePart[]): Array<{ title?: string; url: stri
     }))
 }
 
+/**
+ * Join reasoning parts into a single string.
+ */
+function extractReasoning(parts: MessagePart[]): string {
+  return parts
+    .filter((part) => part.type === 'reasoning')
+    .map((part) => part.text)
+    .join('\n\n')
+}
+
+/**
+ * Pair tool calls with their results by call id.
+ * Code interpreter runs are reported as `code_execution` calls.
+ */
+function extractToolCalls(
+  parts: MessagePart[]
+): Array<{ id: string; name: string; language?: string; input?: string; output?: string }> {
+  const toolCalls: ReturnType<typeof extractToolCalls> = []
+
+  for (const part of parts) {
+    if (part.type === 'tool-call') {
+      toolCalls.push({ id: part.toolCallId, name: part.toolName, input: part.input })
+    } else if (part.type === 'tool-result') {
+      const call = toolCalls.find((c) => c.id === part.toolCallId && c.output === undefined)
+      if (call) {
+        call.output = part.output
+      } else {
+        toolCalls.push({ id: part.toolCallId, name: part.toolName, output: part.output })
+      }
+    } else if (part.type === 'code-execution') {
+      toolCalls.push({
+        id: part.toolCallId,
+        name: 'code_execution',
+        language: part.language,
+        input: part.code,
+        ...(part.output !== undefined && { output: part.output })
+      })
+    }
+  }
+
+  return toolCalls
+}
+
+/**
+ * Describe artifact commands, with the standalone file each one was written to.
+ */
+function extractArtifacts(
+  parts: MessagePart[],
+  files: Map<ArtifactPart, string>
+): Array<{
+  id: string
+  command: string
+  title?: string
+  type?: string
+  language?: string
+  file?: string
+}> {
+  return parts
+    .filter((part): part is ArtifactPart => part.type === 'artifact')
+    .map((part) => ({
+      id: part.artifactId,
+      command: part.command,
+      ...(part.title && { title: part.title }),
+      ...(part.artifactType && { type: part.artifactType }),
+      ...(part.language && { language: part.language }),
+      ...(files.has(part) && { file: files.get(part) })
+    }))
+}
+
+/**
+ * Nest message objects under their parent as `children`, for branches: 'tree'.
+ */
+function nestMessages(
+  messages: Message[],
+  messageObjects: Array<Record<string, unknown>>
+): Array<Record<string, unknown>> {
+  const tree = buildMessageTree(messages)
+  const objectsById = new Map(messages.map((msg, index) => [msg.id, messageObjects[index]]))
+  const nest = (id: string): Record<string, unknown> => ({
+    ...objectsById.get(id),
+    children: (tree.childrenMap.get(id) || []).map(nest)
+  })
+  return tree.rootIds.map(nest)
+}
+
 /**
  * Convert a Date to Unix timestamp (seconds since epoch).
  */
@@ -44,13 +131,10 @@ function toUnixTimestamp(date: Date | undefined | null): number | null {
 export async function exportToJson(
   conversation: Conversation,
   messages: Message[],
-  options: ExportOptions
+  options: ExportOptions,
+  folderName = getConversationFolderName(conversation, options)
 ): Promise<string> {
   // Create conversation folder
-  const safeTitle = sanitizeFilename(conversation.title)
-  const folderName = options.prefixTimestamp
-    ? `${formatDate(conversation.createdAt)} ${safeTitle}`
-    : safeTitle
   const folderPath = path.join(options.outputPath, folderName)
 
   if (!fs.existsSync(folderPath)) {
@@ -74,8 +158,11 @@ export async function exportToJson(
     }
   }
 
+  // Artifacts are written as standalone files next to conversation.json
+  const artifactFiles = writeArtifactFiles(folderPath, conversation.id, messages)
+
   // Build JSON structure with processed messages in OpenAI-compatible format
-  const processedMessages = messages.map((msg) => {
+  const processMessage = (msg: Message): Record<string, unknown> => {
     // Extract sources from message parts
     const sources = extractSources(msg.parts)
 
@@ -115,34 +202,85 @@ export async function exportToJson(
       parent_id: msg.parentId
     }
 
+    // Only include the model if the provider reported one
+    if (msg.model) {
+      messageObj.model = msg.model
+    }
+
     // Only include sources if there are any
     if (sources.length > 0) {
       messageObj.sources = sources
     }
 
+    // Only include reasoning and tool calls if there are any
+    const reasoning = extractReasoning(msg.parts)
+    if (reasoning) {
+      messageObj.reasoning = reasoning
+    }
+
+    const toolCalls = extractToolCalls(msg.parts)
+    if (toolCalls.length > 0) {
+      messageObj.tool_calls = toolCalls
+    }
+
+    // Research plan and follow-up suggestions (Perplexity)
+    const plan = msg.parts.flatMap((part) => (part.type === 'plan' ? part.steps : []))
+    if (plan.length > 0) {
+      messageObj.plan = plan
+    }
+
+    const relatedQueries = msg.parts.flatMap((part) =>
+      part.type === 'related-queries' ? part.queries : []
+    )
+    if (relatedQueries.length > 0) {
+      messageObj.related_queries = relatedQueries
+    }
+
+    const messageArtifacts = extractArtifacts(msg.parts, artifactFiles)
+    if (messageArtifacts.length > 0) {
+      messageObj.artifacts = messageArtifacts
+    }
+
     // Only include attachments if there are any
     if (processedAttachments.length > 0) {
       messageObj.attachments = processedAttachments
     }
 
     return messageObj
-  })
-
-  // Build export data in OpenAI-compatible format
-  const exportData = {
-    id: conversation.id,
-    title: conversation.title,
-    provider: conversation.provider,
-    created_at: toUnixTimestamp(conversation.createdAt),
-    updated_at: toUnixTimestamp(conversation.updatedAt),
-    exported_at: new Date().toISOString(),
-    message_count: messages.length,
-    messages: processedMessages
   }
 
-  // Write file
-  const filePath = path.join(folderPath, 'conversation.json')
-  fs.writeFileSync(filePath, JSON.stringify(exportData, null, 2), 'utf-8')
+  // One file per branch with branches: 'each', otherwise one
+  const filePaths = getExportFiles(conversation, messages, options.branches).map((file) => {
+    const processedMessages = file.messages.map(processMessage)
+
+    // Build export data in OpenAI-compatible format
+    const exportData = {
+      id: conversation.id,
+      title: conversation.title,
+      provider: conversation.provider,
+      // Only include the search mode if the provider has one
+      ...(conversation.mode && { mode: conversation.mode }),
+      ...(conversation.searchFocus && { search_focus: conversation.searchFocus }),
+      // Organization set by the user
+      ...(conversation.starred && { starred: true }),
+      ...(conversation.folder && { folder: conversation.folder.path }),
+      ...(conversation.tags && conversation.tags.length > 0 && { tags: conversation.tags }),
+      created_at: toUnixTimestamp(conversation.createdAt),
+      updated_at: toUnixTimestamp(conversation.updatedAt),
+      exported_at: new Date().toISOString(),
+      message_count: file.messages.length,
+      // A tree keeps every branch; the current node marks the one the provider shows
+      ...(options.branches === 'tree' && { current_node_id: conversation.currentNodeId }),
+      messages:
+        options.branches === 'tree'
+          ? nestMessages(file.messages, processedMessages)
+          : processedMessages
+    }
+
+    const filePath = path.join(folderPath, `${file.name}.json`)
+    fs.writeFileSync(filePath, JSON.stringify(exportData, null, 2), 'utf-8')
+    return filePath
+  })
 
-  return filePath
+  return filePaths[0]
 }
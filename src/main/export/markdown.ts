@@ -1,18 +1,34 @@
 import fs from 'fs'
 import path from 'path'
-import type { Conversation, Message, ExportOptions } from '../../shared/types'
-import { formatDate, sanitizeFilename } from './utils.js'
+import type {
+  ArtifactPart,
+  Conversation,
+  Message,
+  ExportOptions,
+  MessagePart
+} from '../../shared/types'
+import { getConversationUrl } from '../../shared/conversation-url'
+import {
+  codeBlock,
+  formatDateTime,
+  getConversationFolderName,
+  getExportFiles,
+  writeArtifactFiles
+} from './utils.js'
+
+const DEFAULT_ROLE_HEADINGS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+}
 
 export async function exportToMarkdown(
   conversation: Conversation,
   messages: Message[],
-  options: ExportOptions
+  options: ExportOptions,
+  folderName = getConversationFolderName(conversation, options)
 ): Promise<string> {
   // Create conversation folder
-  const safeTitle = sanitizeFilename(conversation.title)
-  const folderName = options.prefixTimestamp
-    ? `${formatDate(conversation.createdAt)} ${safeTitle}`
-    : safeTitle
   const folderPath = path.join(options.outputPath, folderName)
 
   if (!fs.existsSync(folderPath)) {
@@ -36,39 +52,99 @@ export async function exportToMarkdown(
     }
   }
 
+  // Artifacts are written as standalone files and linked from their messages
+  const artifactFiles = writeArtifactFiles(folderPath, conversation.id, messages)
+
+  // One file per branch with branches: 'each', otherwise one
+  const filePaths = getExportFiles(conversation, messages, options.branches).map((file) => {
+    const filePath = path.join(folderPath, `${file.name}.md`)
+    fs.writeFileSync(
+      filePath,
+      formatMarkdown(conversation, file.messages, options, artifactFiles, attachmentsFolder),
+      'utf-8'
+    )
+    return filePath
+  })
+
+  return filePaths[0]
+}
+
+/**
+ * Markdown of one file. Copies the attachments it links into the attachments folder.
+ */
+function formatMarkdown(
+  conversation: Conversation,
+  messages: Message[],
+  options: ExportOptions,
+  artifactFiles: Map<ArtifactPart, string>,
+  attachmentsFolder: string
+): string {
+  const style = options.markdown ?? {}
+  const roleHeadings = { ...DEFAULT_ROLE_HEADINGS, ...style.roleHeadings }
+  // Footnote numbers by source URL, shared by all messages
+  const footnotes = new Map<string, { number: number; title?: string }>()
+
   // Build markdown content
   const lines: string[] = []
 
-  // Header
-  lines.push(`# ${conversation.title}`)
-  lines.push('')
-  // Two trailing spaces create a line break in markdown
-  lines.push(`**Created:** ${formatDateTime(conversation.createdAt)}  `)
-  lines.push(`**Last updated:** ${formatDateTime(conversation.updatedAt)}  `)
-  lines.push(`**Exported:** ${formatDateTime(new Date())}`)
-  lines.push('')
+  // Header; with frontmatter, the dates are properties instead
+  if (style.frontmatter) {
+    lines.push(formatFrontmatter(conversation, messages))
+    lines.push('')
+    lines.push(`# ${conversation.title}`)
+    lines.push('')
+  } else {
+    lines.push(`# ${conversation.title}`)
+    lines.push('')
+    // Two trailing spaces create a line break in markdown
+    lines.push(`**Created:** ${formatDateTime(conversation.createdAt)}  `)
+    lines.push(`**Last updated:** ${formatDateTime(conversation.updatedAt)}  `)
+    lines.push(`**Exported:** ${formatDateTime(new Date())}`)
+    lines.push('')
+  }
 
   // Messages
   for (const msg of messages) {
-    const roleLabel = msg.role === 'user' ? 'User' : 'Assistant'
-    lines.push(`## ${roleLabel}`)
+    const roleLabel = roleHeadings[msg.role]
+    lines.push(msg.model ? `## ${roleLabel} (${msg.model})` : `## ${roleLabel}`)
     lines.push('')
 
-    // Reconstruct content from parts
-    const content = msg.parts
-      .map((part) => {
-        if (part.type === 'text') {
-          return part.text
-        } else if (part.type === 'source-url') {
+    // Reconstruct content from parts; reasoning and tool parts become separate blocks
+    const blocks: string[] = []
+    let content = ''
+    for (const part of msg.parts) {
+      if (part.type === 'text') {
+        content += part.text
+      } else if (part.type === 'source-url') {
+        if (style.footnotes) {
+          let footnote = footnotes.get(part.url)
+          if (!footnote) {
+            footnote = { number: footnotes.size + 1, title: part.title }
+            footnotes.set(part.url, footnote)
+          }
+          content += `[^${footnote.number}]`
+        } else {
           // Include source as a markdown link
-          return part.title ? `[${part.title}](${part.url})` : part.url
+          content += part.title ? `[${part.title}](${part.url})` : part.url
         }
-        return ''
-      })
-      .join('')
+      } else if (part.type === 'artifact') {
+        if (content) blocks.push(content)
+        content = ''
+        blocks.push(formatArtifactLink(part, artifactFiles.get(part)))
+      } else if (part.type === 'related-queries') {
+        if (content) blocks.push(content)
+        content = ''
+        blocks.push(['**Related:**', ...part.queries.map((query) => `- ${query}`)].join('\n'))
+      } else {
+        if (content) blocks.push(content)
+        content = ''
+        blocks.push(formatDetailsBlock(part))
+      }
+    }
+    if (content) blocks.push(content)
 
-    if (content) {
-      lines.push(content)
+    for (const block of blocks) {
+      lines.push(block)
       lines.push('')
     }
 
@@ -83,7 +159,13 @@ export async function exportToMarkdown(
           fs.copyFileSync(att.localPath, destPath)
 
           // Add markdown reference
-          if (att.type === 'image') {
+          if (style.wikilinks) {
+            lines.push(
+              att.type === 'image'
+                ? `![[attachments/${destFilename}]]`
+                : `[[attachments/${destFilename}|${att.filename}]]`
+            )
+          } else if (att.type === 'image') {
             lines.push(`![${att.filename}](./attachments/${destFilename})`)
           } else {
             lines.push(`[${att.filename}](./attachments/${destFilename})`)
@@ -94,21 +176,80 @@ export async function exportToMarkdown(
     }
   }
 
-  // Write file
-  const filePath = path.join(folderPath, 'conversation.md')
-  fs.writeFileSync(filePath, lines.join('\n'), 'utf-8')
+  // Footnote definitions go at the end of the file
+  if (footnotes.size > 0) {
+    for (const [url, { number, title }] of footnotes) {
+      lines.push(title ? `[^${number}]: [${title}](${url})` : `[^${number}]: <${url}>`)
+    }
+    lines.push('')
+  }
 
-  return filePath
+  return lines.join('\n')
 }
 
-function formatDateTime(date: Date | null | undefined): string {
-  if (!date) return 'Unknown'
-  const d = new Date(date)
-  return d.toLocaleString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit'
-  })
+/**
+ * YAML frontmatter for Obsidian properties and Dataview queries. Strings are written as
+ * JSON strings, which are valid YAML; dates are left unquoted so they're read as dates.
+ */
+function formatFrontmatter(conversation: Conversation, messages: Message[]): string {
+  const model = [...messages].reverse().find((msg) => msg.model)?.model
+  const source = getConversationUrl(conversation.provider, conversation.id)
+
+  const lines = [
+    '---',
+    `id: ${JSON.stringify(conversation.id)}`,
+    `provider: ${JSON.stringify(conversation.provider)}`,
+    `title: ${JSON.stringify(conversation.title)}`,
+    `created: ${new Date(conversation.createdAt).toISOString()}`,
+    `updated: ${new Date(conversation.updatedAt).toISOString()}`
+  ]
+  if (model) lines.push(`model: ${JSON.stringify(model)}`)
+  if (conversation.folder) lines.push(`folder: ${JSON.stringify(conversation.folder.path)}`)
+  if (conversation.starred) lines.push('starred: true')
+  // The provider comes first, then the user's tags
+  const tags = [conversation.provider, ...(conversation.tags ?? [])]
+  lines.push('tags:', ...[...new Set(tags)].map((tag) => `  - ${JSON.stringify(tag)}`))
+  if (source) lines.push(`source: ${JSON.stringify(source)}`)
+  lines.push('---')
+  return lines.join('\n')
+}
+
+const ARTIFACT_COMMAND_LABELS: Record<ArtifactPart['command'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  rewrite: 'Rewrote'
+}
+
+function formatArtifactLink(part: ArtifactPart, file: string | undefined): string {
+  const title = part.title || part.artifactId
+  const label = `**${ARTIFACT_COMMAND_LABELS[part.command]} artifact:**`
+  return file ? `${label} [${title}](${encodeURI(file)})` : `${label} ${title}`
+}
+
+/**
+ * Render a reasoning, tool or plan part as a collapsible <details> block.
+ */
+function formatDetailsBlock(
+  part: Exclude<MessagePart, { type: 'text' | 'source-url' | 'artifact' | 'related-queries' }>
+): string {
+  const details = (summary: string, body: string) =>
+    `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`
+
+  switch (part.type) {
+    case 'reasoning':
+      return details('Reasoning', part.text)
+    case 'tool-call':
+      return details(`Tool call: ${part.toolName}`, codeBlock(part.input))
+    case 'tool-result':
+      return details(`Tool result: ${part.toolName}`, codeBlock(part.output))
+    case 'code-execution':
+      return details(
+        `Code (${part.language})`,
+        part.output !== undefined
+          ? `${codeBlock(part.code, part.language)}\n\n${codeBlock(part.output)}`
+          : codeBlock(part.code, part.language)
+      )
+    case 'plan':
+      return details('Plan', part.steps.map((step, index) => `${index + 1}. ${step}`).join('\n'))
+  }
 }
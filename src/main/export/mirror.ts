@@ -0,0 +1,284 @@
+/**
+ * Export mirror
+ *
+ * Keeps a folder (e.g. an Obsidian vault) in sync with the database. After every
+ * provider sync, conversations that are new or changed since they were last written
+ * are exported again; folders of deleted conversations are optionally removed.
+ *
+ * `export_mirror` remembers the folder of each conversation and a hash of the data it
+ * was exported from. Conversations whose syncedAt and star, folder and tags haven't
+ * changed are skipped without loading their messages, the others are written only when
+ * the hash differs.
+ *
+ * The folder may hold the user's own notes: the mirror never writes into a folder it
+ * didn't create, and removes only the files it wrote.
+ */
+import { createHash } from 'node:crypto'
+import fs from 'fs'
+import path from 'path'
+import * as db from '../db/operations'
+import { withoutSourceIds } from '../db/revisions'
+import { getSettings } from '../settings'
+import { exportToMarkdown } from './markdown'
+import { exportToJson } from './json'
+import { getConversationFolderName, sanitizeFilename } from './utils'
+import type { Conversation, ExportOptions, Message, MirrorResult } from '../../shared/types'
+
+// sync_state key of the folder and options the mirror entries were written with
+const MIRROR_TARGET_KEY = 'export_mirror_target'
+
+// What the mirror writes into a conversation folder (see getExportFiles)
+const MIRROR_FILE = /^conversation( \(branch \d+\))?\.(md|json)$/
+const MIRROR_SUBFOLDERS = ['attachments', 'artifacts']
+
+let mirroring: Promise<MirrorResult> | null = null
+let mirrorAgain = false
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve))
+}
+
+// Star, folder and tags, which the user changes without a sync
+function getOrganizeData(conversation: Conversation) {
+  return {
+    starred: conversation.starred ?? false,
+    folder: conversation.folder?.path ?? null,
+    tags: conversation.tags ?? []
+  }
+}
+
+export function hashOrganizeData(conversation: Conversation): string {
+  return createHash('sha256')
+    .update(JSON.stringify(getOrganizeData(conversation)))
+    .digest('hex')
+}
+
+/**
+ * Hash of the data a conversation is exported from, including how it's organized (star,
+ * folder, tags). syncedAt changes on every sync and source IDs may too, so they're left
+ * out; everything else only changes with the content.
+ */
+export function hashConversation(conversation: Conversation, messages: Message[]): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        ...conversation,
+        ...getOrganizeData(conversation),
+        syncedAt: undefined,
+        messages: messages.map((message) => ({
+          ...message,
+          parts: withoutSourceIds(message.parts)
+        }))
+      })
+    )
+    .digest('hex')
+}
+
+/**
+ * Folder for a conversation. Titles aren't unique, so a name another conversation or
+ * the user already uses gets the start of the conversation ID. Names are compared
+ * ignoring case, like macOS and Windows do.
+ *
+ * @param taken - Lowercased names of the other conversations' folders and of everything else in the mirror folder
+ * @param current - Folder the conversation was written to before, kept while the title matches
+ */
+export function pickMirrorFolder(
+  conversation: Pick<Conversation, 'id' | 'title' | 'createdAt'>,
+  taken: Set<string>,
+  current?: string
+): string {
+  const name = getConversationFolderName(conversation, { prefixTimestamp: false })
+  const id = sanitizeFilename(conversation.id)
+  const candidates = [name, `${name} (${id.slice(0, 8)})`, `${name} (${id})`]
+
+  if (current && candidates.includes(current)) return current
+  return candidates.find((candidate) => !taken.has(candidate.toLowerCase())) ?? candidates[2]
+}
+
+/**
+ * Remove the files the mirror wrote to a conversation folder, and the folder once it's
+ * empty. Anything the user added stays, with the folder. Only direct children of the
+ * mirror folder are touched.
+ */
+function removeMirrorFiles(outputPath: string, folder: string): void {
+  const folderPath = path.resolve(outputPath, folder)
+  if (path.dirname(folderPath) !== path.resolve(outputPath) || !fs.existsSync(folderPath)) return
+
+  for (const name of fs.readdirSync(folderPath)) {
+    if (MIRROR_FILE.test(name) || MIRROR_SUBFOLDERS.includes(name)) {
+      fs.rmSync(path.join(folderPath, name), { recursive: true, force: true })
+    }
+  }
+  if (fs.readdirSync(folderPath).length === 0) {
+    fs.rmdirSync(folderPath)
+  }
+}
+
+async function mirrorConversations(): Promise<MirrorResult> {
+  const settings = getSettings()
+  if (!settings.mirrorPath) {
+    throw new Error('No mirror folder selected')
+  }
+
+  const options: ExportOptions = {
+    format: settings.mirrorFormat,
+    includeAttachments: settings.mirrorIncludeAttachments,
+    prefixTimestamp: false,
+    outputPath: settings.mirrorPath,
+    markdown: settings.mirrorMarkdown
+  }
+
+  // Entries written to another folder or in another format don't describe this folder
+  const target = JSON.stringify([
+    options.outputPath,
+    options.format,
+    options.includeAttachments,
+    options.markdown
+  ])
+  const previousTarget = await db.getSyncState(MIRROR_TARGET_KEY)
+  if (previousTarget !== target) {
+    // Rewritten in the same folder: the old files go first, so conversations keep their folders
+    if (previousTarget && JSON.parse(previousTarget)[0] === options.outputPath) {
+      for (const entry of await db.listExportMirrorEntries()) {
+        removeMirrorFiles(options.outputPath, entry.folder)
+      }
+    }
+    await db.clearExportMirror()
+    await db.setSyncState(MIRROR_TARGET_KEY, target)
+  }
+
+  fs.mkdirSync(options.outputPath, { recursive: true })
+
+  const entries = new Map(
+    (await db.listExportMirrorEntries()).map((entry) => [entry.conversationId, entry])
+  )
+  const { items: conversations } = await db.listConversations({
+    limit: await db.countConversations()
+  })
+  const result: MirrorResult = { written: 0, removed: 0, unchanged: 0 }
+
+  // Deleted conversations go first, so their folder names are free again
+  if (settings.mirrorDeleteRemoved) {
+    const conversationIds = new Set(conversations.map((conversation) => conversation.id))
+    for (const entry of entries.values()) {
+      if (conversationIds.has(entry.conversationId)) continue
+      removeMirrorFiles(options.outputPath, entry.folder)
+      await db.deleteExportMirrorEntry(entry.conversationId)
+      entries.delete(entry.conversationId)
+      result.removed++
+    }
+  }
+
+  // Folders the mirror didn't create belong to the user and are never written to
+  const taken = new Set(
+    [
+      ...fs.readdirSync(options.outputPath),
+      ...[...entries.values()].map((entry) => entry.folder)
+    ].map((name) => name.toLowerCase())
+  )
+
+  for (const [index, conversation] of conversations.entries()) {
+    // Yield every 10 conversations to keep the main process responsive
+    if (index % 10 === 0) {
+      await yieldToEventLoop()
+    }
+
+    const entry = entries.get(conversation.id)
+    const folderExists = entry ? fs.existsSync(path.join(options.outputPath, entry.folder)) : false
+    const organizeHash = hashOrganizeData(conversation)
+    if (
+      entry &&
+      folderExists &&
+      entry.syncedAt?.getTime() === conversation.syncedAt.getTime() &&
+      entry.organizeHash === organizeHash
+    ) {
+      result.unchanged++
+      continue
+    }
+
+    const data = await db.getConversationWithMessages(conversation.id)
+    if (!data) continue
+
+    const contentHash = hashConversation(data.conversation, data.messages)
+    if (entry) {
+      taken.delete(entry.folder.toLowerCase())
+    }
+    const folder = pickMirrorFolder(data.conversation, taken, entry?.folder)
+    taken.add(folder.toLowerCase())
+
+    const changed = !entry || !folderExists || entry.contentHash !== contentHash
+    const moved = entry !== undefined && entry.folder !== folder
+    if (changed || moved) {
+      // A renamed conversation moves to a new folder
+      if (moved) {
+        removeMirrorFiles(options.outputPath, entry.folder)
+        // Left behind with files the user added; it's theirs now
+        if (fs.existsSync(path.join(options.outputPath, entry.folder))) {
+          taken.add(entry.folder.toLowerCase())
+        }
+      }
+      if (options.format === 'markdown') {
+        await exportToMarkdown(data.conversation, data.messages, options, folder)
+      } else {
+        await exportToJson(data.conversation, data.messages, options, folder)
+      }
+      result.written++
+    } else {
+      result.unchanged++
+    }
+
+    await db.upsertExportMirrorEntry({
+      conversationId: conversation.id,
+      folder,
+      contentHash,
+      syncedAt: conversation.syncedAt,
+      organizeHash,
+      exportedAt: entry && !changed && !moved ? entry.exportedAt : new Date()
+    })
+  }
+
+  return result
+}
+
+/**
+ * Bring the mirror folder up to date, after the run in progress if there is one.
+ */
+export async function runMirror(): Promise<MirrorResult> {
+  while (mirroring) {
+    await mirroring.catch(() => undefined)
+  }
+
+  mirroring = mirrorConversations().finally(() => {
+    mirroring = null
+  })
+  return mirroring
+}
+
+/**
+ * Update the mirror in the background if it's enabled. Calls made while it's running
+ * schedule one more run afterwards.
+ */
+export function scheduleMirrorUpdate(): void {
+  if (!getSettings().mirrorEnabled) return
+
+  if (mirroring) {
+    mirrorAgain = true
+    return
+  }
+
+  runMirror()
+    .then(({ written, removed }) => {
+      if (written > 0 || removed > 0) {
+        console.log(`[Mirror] Wrote ${written} conversation(s), removed ${removed}`)
+      }
+    })
+    .catch((error) => {
+      console.error('[Mirror] Failed to update mirror:', error)
+    })
+    .finally(() => {
+      if (mirrorAgain) {
+        mirrorAgain = false
+        scheduleMirrorUpdate()
+      }
+    })
+}
@@ -0,0 +1,43 @@
+import { BrowserWindow, session } from 'electron'
+import fs from 'fs'
+
+// Session for the print windows; only local files load, so printing never hits the network
+const PDF_PARTITION = 'export-pdf'
+let isSessionConfigured = false
+
+function getPdfSession(): Electron.Session {
+  const pdfSession = session.fromPartition(PDF_PARTITION)
+  if (!isSessionConfigured) {
+    pdfSession.webRequest.onBeforeRequest((details, callback) => {
+      callback({ cancel: !/^(file|data):/.test(details.url) })
+    })
+    isSessionConfigured = true
+  }
+  return pdfSession
+}
+
+/**
+ * Print an exported HTML file to PDF in a hidden window.
+ */
+export async function printToPdf(htmlPath: string, pdfPath: string): Promise<void> {
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      session: getPdfSession(),
+      javascript: false,
+      sandbox: true
+    }
+  })
+
+  try {
+    await window.loadFile(htmlPath)
+    const data = await window.webContents.printToPDF({
+      printBackground: true,
+      pageSize: 'A4',
+      margins: { marginType: 'default' }
+    })
+    await fs.promises.writeFile(pdfPath, data)
+  } finally {
+    window.destroy()
+  }
+}
@@ -1,3 +1,16 @@
+import fs from 'fs'
+import path from 'path'
+import type {
+  ArtifactPart,
+  ArtifactVersion,
+  Conversation,
+  ExportBranches,
+  ExportOptions,
+  Message
+} from '../../shared/types'
+import { getActiveBranch, getAllBranches } from '../../shared/branch-utils'
+import { resolveArtifactVersions } from '../db/artifacts'
+
 export function formatDate(date: Date | null | undefined): string {
   if (!date) return 'Unknown'
   const d = new Date(date)
@@ -7,6 +20,25 @@ export function formatDate(date: Date | null | undefined): string {
   return `${year}-${month}-${day}`
 }
 
+export function formatDateTime(date: Date | null | undefined): string {
+  if (!date) return 'Unknown'
+  const d = new Date(date)
+  return d.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// Fence longer than any backtick run in the content
+export function codeBlock(text: string, language = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  return `${fence}${language}\n${text}\n${fence}`
+}
+
 export function sanitizeFilename(name: string): string {
   return (
     name
@@ -17,3 +49,146 @@ export function sanitizeFilename(name: string): string {
       .trim() || 'Untitled'
   )
 }
+
+/**
+ * Folder a conversation is exported to: its title, optionally after its creation date.
+ */
+export function getConversationFolderName(
+  conversation: Pick<Conversation, 'title' | 'createdAt'>,
+  options: Pick<ExportOptions, 'prefixTimestamp'>
+): string {
+  const safeTitle = sanitizeFilename(conversation.title)
+  return options.prefixTimestamp ? `${formatDate(conversation.createdAt)} ${safeTitle}` : safeTitle
+}
+
+/**
+ * Files to write for a conversation, without extension, and the messages of each.
+ * With branches: 'each', the active branch is `conversation` and the others are
+ * `conversation (branch 2)`, `conversation (branch 3)`, ...
+ */
+export function getExportFiles(
+  conversation: Pick<Conversation, 'currentNodeId'>,
+  messages: Message[],
+  branches: ExportBranches = 'all'
+): Array<{ name: string; messages: Message[] }> {
+  switch (branches) {
+    case 'active':
+      return [
+        { name: 'conversation', messages: getActiveBranch(messages, conversation.currentNodeId) }
+      ]
+    case 'each': {
+      const all = getAllBranches(messages, conversation.currentNodeId)
+      if (all.length === 0) return [{ name: 'conversation', messages: [] }]
+      return all.map((branch, index) => ({
+        name: index === 0 ? 'conversation' : `conversation (branch ${index + 1})`,
+        messages: branch
+      }))
+    }
+    // Tree nesting is up to the JSON writer
+    default:
+      return [{ name: 'conversation', messages }]
+  }
+}
+
+const ARTIFACT_TYPE_EXTENSIONS: Record<string, string> = {
+  'text/markdown': 'md',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'image/svg+xml': 'svg',
+  'application/vnd.ant.react': 'jsx',
+  'application/vnd.ant.mermaid': 'mmd'
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  bash: 'sh',
+  'c++': 'cpp',
+  csharp: 'cs',
+  javascript: 'js',
+  kotlin: 'kt',
+  markdown: 'md',
+  python: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  shell: 'sh',
+  typescript: 'ts',
+  yaml: 'yml'
+}
+
+/**
+ * File extension for an artifact: code artifacts use their language, everything else its type.
+ */
+export function getArtifactExtension(artifact: Pick<ArtifactVersion, 'type' | 'language'>): string {
+  if (artifact.type === 'application/vnd.ant.code') {
+    const language = artifact.language?.toLowerCase() ?? ''
+    if (LANGUAGE_EXTENSIONS[language]) return LANGUAGE_EXTENSIONS[language]
+    // Most language names (go, java, sql, css, ...) are their own extension
+    return /^[a-z0-9]+$/.test(language) ? language : 'txt'
+  }
+  return ARTIFACT_TYPE_EXTENSIONS[artifact.type ?? ''] ?? 'txt'
+}
+
+/**
+ * Standalone file name for an artifact version. The version suffix is only added
+ * when the artifact has more than one version.
+ */
+export function getArtifactFilename(
+  artifact: Pick<ArtifactVersion, 'artifactId' | 'version' | 'title' | 'type' | 'language'>,
+  versionCount = 1
+): string {
+  const name = sanitizeFilename(artifact.title || artifact.artifactId)
+  const suffix = versionCount > 1 ? ` v${artifact.version}` : ''
+  return `${name}${suffix}.${getArtifactExtension(artifact)}`
+}
+
+/**
+ * Write every artifact version as a standalone file in {folderPath}/artifacts.
+ * Returns the relative path written for each artifact part.
+ */
+export function writeArtifactFiles(
+  folderPath: string,
+  conversationId: string,
+  messages: Message[]
+): Map<ArtifactPart, string> {
+  const files = new Map<ArtifactPart, string>()
+  const versions = resolveArtifactVersions(conversationId, messages)
+  if (versions.length === 0) return files
+
+  const artifactsFolder = path.join(folderPath, 'artifacts')
+  if (!fs.existsSync(artifactsFolder)) {
+    fs.mkdirSync(artifactsFolder, { recursive: true })
+  }
+
+  const versionCounts = new Map<string, number>()
+  for (const version of versions) {
+    versionCounts.set(version.artifactId, version.version)
+  }
+
+  // Versions come out in part order; parts without a version (e.g. empty) are skipped
+  const usedNames = new Set<string>()
+  let next = 0
+  for (const message of messages) {
+    for (const part of message.parts) {
+      const version = versions[next]
+      if (part.type !== 'artifact' || !version) continue
+      if (
+        version.messageId !== message.id ||
+        version.artifactId !== part.artifactId ||
+        version.command !== part.command
+      ) {
+        continue
+      }
+      next++
+
+      let filename = getArtifactFilename(version, versionCounts.get(version.artifactId))
+      for (let i = 2; usedNames.has(filename); i++) {
+        filename = filename.replace(/( \(\d+\))?(\.[^.]+)$/, ` (${i})$2`)
+      }
+      usedNames.add(filename)
+
+      fs.writeFileSync(path.join(artifactsFolder, filename), version.content, 'utf-8')
+      files.set(part, `./artifacts/${filename}`)
+    }
+  }
+
+  return files
+}
@@ -2,12 +2,13 @@
  * Export Worker Manager
  *
  * Manages the lifecycle of the export worker thread.
- * Coordinates between main process (attachment downloads) and worker (export logic).
+ * Coordinates between main process (attachment downloads, PDF printing) and worker (export logic).
  */
 import { Worker } from 'worker_threads'
 import path from 'path'
 import { app } from 'electron'
 import { getDbPath } from '../db'
+import { printToPdf } from './pdf'
 import type { ExportProgress } from '../../shared/types'
 import type {
   WorkerInboundMessage,
@@ -138,6 +139,25 @@ function startWorker(
           return
         }
 
+        if (msg.type === 'printToPdf') {
+          // PDFs are printed by a hidden window in the main process
+          try {
+            await printToPdf(msg.htmlPath, msg.pdfPath)
+            activeWorker?.postMessage({
+              type: 'pdfPrinted',
+              requestId: msg.requestId
+            } satisfies WorkerInboundMessage)
+          } catch (error) {
+            console.error('[Export Manager] PDF printing failed:', error)
+            activeWorker?.postMessage({
+              type: 'pdfPrinted',
+              requestId: msg.requestId,
+              error: (error as Error).message
+            } satisfies WorkerInboundMessage)
+          }
+          return
+        }
+
         if (msg.type === 'complete') {
           cleanup()
           pendingResolve?.({ success: true, path: msg.payload.path })
@@ -6,6 +6,7 @@
  *
  * Main process retains:
  * - Attachment downloads (requires provider auth state)
+ * - PDF printing (requires an Electron window)
  * - IPC communication with renderer
  * - Abort coordination
  */
@@ -15,15 +16,18 @@ import { drizzle } from 'drizzle-orm/better-sqlite3'
 import { eq, desc, asc, count } from 'drizzle-orm'
 import fs from 'fs'
 import * as schema from '../db/schema'
+import { buildFolderPaths, organizeFilterCondition } from '../db/organize'
+import { mapAttachment, mapConversation, mapMessage } from '../db/mappers'
 import { exportToMarkdown } from './markdown'
 import { exportToJson } from './json'
+import { exportToHtml } from './html'
 import type {
   ExportOptions,
   Conversation,
   Message,
   Attachment,
-  MessagePart,
-  ExportProgress
+  ExportProgress,
+  OrganizeFilters
 } from '../../shared/types'
 
 // Worker message types
@@ -32,6 +36,7 @@ export type WorkerInboundMessage =
   | { type: 'exportAll'; payload: ExportAllPayload }
   | { type: 'cancel' }
   | { type: 'attachmentDownloaded'; attachmentId: string; localPath: string }
+  | { type: 'pdfPrinted'; requestId: number; error?: string }
 
 export type WorkerOutboundMessage =
   | { type: 'progress'; payload: ExportProgress }
@@ -42,6 +47,7 @@ export type WorkerOutboundMessage =
       fileId: string
       filename: string
     }
+  | { type: 'printToPdf'; requestId: number; htmlPath: string; pdfPath: string }
   | { type: 'complete'; payload: { path: string } }
   | { type: 'error'; payload: { message: string } }
   | { type: 'cancelled' }
@@ -53,6 +59,7 @@ export type ExportPayload = {
 
 export type ExportAllPayload = {
   options: ExportOptions
+  filters?: OrganizeFilters
 }
 
 // Worker initialization
@@ -63,6 +70,8 @@ if (!dbPath) {
 }
 
 const sqlite = new Database(dbPath)
+// Used by the folder filter (see db/connection.ts)
+sqlite.function('unicode_lower', (str: string | null) => str?.toLowerCase() ?? null)
 const db = drizzle(sqlite, { schema })
 
 // Cancellation flag
@@ -74,6 +83,10 @@ const pendingAttachments = new Map<
   { resolve: (localPath: string) => void; reject: (error: Error) => void }
 >()
 
+// Pending PDF prints (waiting for main process response)
+const pendingPdfs = new Map<number, { resolve: () => void; reject: (error: Error) => void }>()
+let nextPdfRequestId = 0
+
 // Send message to main process
 function send(message: WorkerOutboundMessage): void {
   parentPort?.postMessage(message)
@@ -91,81 +104,17 @@ function checkCancelled(): void {
   }
 }
 
-// DB Operations (replicates operations.ts for worker context)
-function mapConversation(row: typeof schema.conversations.$inferSelect): Conversation {
-  return {
-    id: row.id,
-    title: row.title,
-    provider: row.provider as 'chatgpt' | 'claude' | 'perplexity',
-    createdAt: row.createdAt ?? new Date(),
-    updatedAt: row.updatedAt ?? new Date(),
-    syncedAt: row.syncedAt ?? new Date(),
-    messageCount: row.messageCount ?? 0,
-    currentNodeId: row.currentNodeId ?? null
-  }
-}
-
-function mapAttachment(row: typeof schema.attachments.$inferSelect): Attachment {
-  return {
-    id: row.id,
-    messageId: row.messageId ?? '',
-    type: row.type as 'image' | 'file',
-    fileId: row.fileId ?? undefined,
-    originalUrl: row.originalUrl ?? '',
-    localPath: row.localPath ?? '',
-    filename: row.filename ?? '',
-    mimeType: row.mimeType ?? '',
-    size: row.size ?? 0,
-    width: row.width ?? undefined,
-    height: row.height ?? undefined
-  }
-}
-
-function mapMessage(
-  row: typeof schema.messages.$inferSelect,
-  messageAttachments: Attachment[] = []
-): Message {
-  let siblingIds: string[] = []
-  if (row.siblingIds) {
-    try {
-      siblingIds = JSON.parse(row.siblingIds)
-    } catch {
-      siblingIds = []
-    }
-  }
-
-  let parts: MessagePart[] = []
-  if (row.parts) {
-    try {
-      const parsed = JSON.parse(row.parts)
-      if (Array.isArray(parsed)) {
-        parts = parsed
-      }
-    } catch {
-      parts = []
-    }
-  }
-
-  return {
-    id: row.id,
-    conversationId: row.conversationId ?? '',
-    role: row.role as 'user' | 'assistant' | 'system',
-    parts,
-    createdAt: row.createdAt ?? new Date(),
-    orderIndex: row.orderIndex,
-    attachments: messageAttachments,
-    parentId: row.parentId ?? null,
-    siblingIds: siblingIds,
-    siblingIndex: row.siblingIndex ?? 0
-  }
-}
-
-function countConversations(): number {
-  const result = db.select({ count: count() }).from(schema.conversations).get()
+// DB Operations (replicates operations.ts for worker context; rows are mapped the same way)
+function countConversations(filters?: OrganizeFilters): number {
+  const result = db
+    .select({ count: count() })
+    .from(schema.conversations)
+    .where(organizeFilterCondition(filters))
+    .get()
   return result?.count ?? 0
 }
 
-function listConversations(options?: { limit?: number; offset?: number }): {
+function listConversations(options?: OrganizeFilters & { limit?: number; offset?: number }): {
   items: Conversation[]
   total: number
   hasMore: boolean
@@ -176,12 +125,13 @@ function listConversations(options?: { limit?: number; offset?: number }): {
   const results = db
     .select()
     .from(schema.conversations)
+    .where(organizeFilterCondition(options))
     .orderBy(desc(schema.conversations.updatedAt))
     .limit(limit)
     .offset(offset)
     .all()
 
-  const total = countConversations()
+  const total = countConversations(options)
 
   return {
     items: results.map(mapConversation),
@@ -219,8 +169,27 @@ function getConversationWithMessages(id: string): {
     return mapMessage(msg, msgAttachments.map(mapAttachment))
   })
 
+  // Folder and tags, for the frontmatter
+  const folderPaths = conversation.folderId
+    ? buildFolderPaths(db.select().from(schema.folders).all())
+    : new Map<string, string>()
+  const folderPath = conversation.folderId ? folderPaths.get(conversation.folderId) : undefined
+  const tags = db
+    .select({ tag: schema.conversationTags.tag })
+    .from(schema.conversationTags)
+    .where(eq(schema.conversationTags.conversationId, id))
+    .orderBy(asc(schema.conversationTags.tag))
+    .all()
+
   return {
-    conversation: mapConversation(conversation),
+    conversation: {
+      ...mapConversation(conversation),
+      folder:
+        conversation.folderId && folderPath !== undefined
+          ? { id: conversation.folderId, path: folderPath }
+          : null,
+      tags: tags.map((row) => row.tag)
+    },
     messages: messagesWithAttachments
   }
 }
@@ -260,6 +229,16 @@ async function requestAttachmentDownload(
   })
 }
 
+// Request a PDF print from main process and wait for response
+async function requestPdfPrint(htmlPath: string, pdfPath: string): Promise<void> {
+  checkCancelled()
+  const requestId = nextPdfRequestId++
+  return new Promise((resolve, reject) => {
+    pendingPdfs.set(requestId, { resolve, reject })
+    send({ type: 'printToPdf', requestId, htmlPath, pdfPath })
+  })
+}
+
 // Download missing attachments (delegates to main process)
 async function downloadMissingAttachments(
   messages: Message[],
@@ -337,16 +316,24 @@ async function exportConversation(
   checkCancelled()
 
   // Format and export
-  if (options.format === 'markdown') {
-    return exportToMarkdown(data.conversation, data.messages, options)
-  } else {
-    return exportToJson(data.conversation, data.messages, options)
+  switch (options.format) {
+    case 'markdown':
+      return exportToMarkdown(data.conversation, data.messages, options)
+    case 'html':
+      return exportToHtml(data.conversation, data.messages, options)
+    case 'pdf':
+      return exportToHtml(data.conversation, data.messages, options, requestPdfPrint)
+    default:
+      return exportToJson(data.conversation, data.messages, options)
   }
 }
 
 // Export all conversations
-async function exportAllConversations(options: ExportOptions): Promise<string> {
-  const conversations = listConversations({ limit: 10000 })
+async function exportAllConversations(
+  options: ExportOptions,
+  filters?: OrganizeFilters
+): Promise<string> {
+  const conversations = listConversations({ ...filters, limit: 10000 })
   const total = conversations.items.length
   let current = 0
 
@@ -410,6 +397,10 @@ parentPort?.on('message', async (msg: WorkerInboundMessage) => {
         reject(new Error('Export cancelled'))
       }
       pendingAttachments.clear()
+      for (const [, { reject }] of pendingPdfs) {
+        reject(new Error('Export cancelled'))
+      }
+      pendingPdfs.clear()
       send({ type: 'cancelled' })
       return
     }
@@ -423,6 +414,19 @@ parentPort?.on('message', async (msg: WorkerInboundMessage) => {
       return
     }
 
+    if (msg.type === 'pdfPrinted') {
+      const pending = pendingPdfs.get(msg.requestId)
+      if (pending) {
+        if (msg.error) {
+          pending.reject(new Error(msg.error))
+        } else {
+          pending.resolve()
+        }
+        pendingPdfs.delete(msg.requestId)
+      }
+      return
+    }
+
     if (msg.type === 'export') {
       const result = await exportConversation(msg.payload.conversationId, msg.payload.options)
       send({ type: 'complete', payload: { path: result } })
@@ -430,7 +434,7 @@ parentPort?.on('message', async (msg: WorkerInboundMessage) => {
     }
 
     if (msg.type === 'exportAll') {
-      const result = await exportAllConversations(msg.payload.options)
+      const result = await exportAllConversations(msg.payload.options, msg.payload.filters)
       send({ type: 'complete', payload: { path: result } })
       return
     }
@@ -0,0 +1,51 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { setEmbeddingWorkerLocation } from './embeddings'
+
+/**
+ * Paths for entries that the app's binary runs as plain Node (ELECTRON_RUN_AS_NODE=1):
+ * the stdio MCP server and the CLI. Electron's app isn't available there, so the user
+ * data folder and the bundled files are found from the environment and __dirname.
+ * Modules these entries import must not import Electron.
+ */
+
+export const DB_FILENAME = 'ownyourchat.db'
+
+// The app's folder is named after productName when packaged and after the package name in development
+const APP_FOLDER_NAMES = ['OwnYourChat', 'ownyourchat']
+
+// out/main lives inside app.asar when packaged, in the repository in development
+const appPath = path.join(__dirname, '..', '..')
+const isPackaged = path.basename(appPath) === 'app.asar'
+
+// Electron's appData folder, which holds the app's userData folder
+function getAppDataPath(): string {
+  switch (process.platform) {
+    case 'darwin':
+      return path.join(os.homedir(), 'Library', 'Application Support')
+    case 'win32':
+      return process.env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming')
+    default:
+      return process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config')
+  }
+}
+
+export function getUserDataPath(): string {
+  const candidates = APP_FOLDER_NAMES.map((name) => path.join(getAppDataPath(), name))
+  return (
+    candidates.find((candidate) => fs.existsSync(path.join(candidate, DB_FILENAME))) ??
+    candidates[0]
+  )
+}
+
+/**
+ * Point semantic search at the worker next to this entry and the app's bundled model.
+ */
+export function configureEmbeddingWorker(userDataPath: string): void {
+  setEmbeddingWorkerLocation({
+    workerPath: path.join(__dirname, 'embedding-worker.js'),
+    localModelPath: isPackaged ? path.join(appPath, '..', 'models') : path.join(appPath, 'models'),
+    cacheDir: path.join(userDataPath, 'models')
+  })
+}
@@ -0,0 +1,332 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { openZipArchive } from '../zip'
+import { parseChatGPTExport } from '../chatgpt'
+import { parseClaudeExport } from '../claude'
+import { getExtractPath, importArchive } from '../index'
+import type { IStorage } from '../../storage/interface'
+import type { NewAttachment, NewConversation, NewMessage } from '../../db/schema'
+import type { SourceUrlPart } from '@shared/types'
+
+const CHATGPT_ARCHIVE = path.join(__dirname, 'chatgpt-export.zip')
+const CLAUDE_ARCHIVE = path.join(__dirname, 'claude-export.zip')
+
+const BENGAL_ID = '6789a0b1-0000-4000-8000-000000000001'
+
+async function readArchiveJson(filePath: string, name: string): Promise<unknown> {
+  const archive = await openZipArchive(filePath)
+  try {
+    const entry = archive.entries.find((e) => e.name.endsWith(name))!
+    return JSON.parse((await archive.read(entry)).toString('utf8'))
+  } finally {
+    await archive.close()
+  }
+}
+
+// In-memory storage with just the operations the importer uses
+function createStorage() {
+  const conversations = new Map<string, NewConversation>()
+  const messages = new Map<string, NewMessage>()
+  const attachments = new Map<string, NewAttachment>()
+
+  const storage = {
+    getConversation: async (id: string) => conversations.get(id) ?? null,
+    upsertConversation: async (data: NewConversation) => {
+      conversations.set(data.id, data)
+    },
+    upsertMessages: async (data: NewMessage[]) => {
+      for (const msg of data) messages.set(msg.id, msg)
+    },
+    deleteMessagesForConversation: async (conversationId: string) => {
+      for (const [id, msg] of messages) {
+        if (msg.conversationId === conversationId) messages.delete(id)
+      }
+    },
+    upsertAttachments: async (data: NewAttachment[]) => {
+      for (const att of data) attachments.set(att.id, att)
+    },
+    replaceArtifacts: async () => {}
+  }
+
+  return { storage: storage as unknown as IStorage, conversations, messages, attachments }
+}
+
+describe('openZipArchive', () => {
+  it('should list file entries and read stored and deflated entries', async () => {
+    const archive = await openZipArchive(CHATGPT_ARCHIVE)
+    try {
+      expect(archive.entries.map((e) => e.name)).toEqual([
+        'conversations.json',
+        'user.json',
+        'file-Img123-cat.png'
+      ])
+
+      const user = await archive.read(archive.getEntry('user.json')!)
+      expect(JSON.parse(user.toString('utf8'))).toEqual({
+        id: 'user-abc',
+        email: 'user@example.com'
+      })
+
+      const image = await archive.read(archive.getEntry('file-Img123-cat.png')!)
+      expect(image.subarray(1, 4).toString('ascii')).toBe('PNG')
+    } finally {
+      await archive.close()
+    }
+  })
+
+  it('should reject files that are not ZIP archives', async () => {
+    await expect(openZipArchive(path.join(__dirname, 'import.test.ts'))).rejects.toThrow(
+      'Not a ZIP archive'
+    )
+  })
+})
+
+describe('parseChatGPTExport', () => {
+  it('should flatten the mapping tree into visible messages', async () => {
+    const data = await readArchiveJson(CHATGPT_ARCHIVE, 'conversations.json')
+    const [bengal, hello] = parseChatGPTExport(data, ['file-Img123-cat.png'])
+
+    expect(bengal.conversation).toMatchObject({
+      id: BENGAL_ID,
+      title: 'Bengal cat',
+      provider: 'chatgpt',
+      currentNodeId: 'asst-2',
+      messageCount: 5
+    })
+    expect(bengal.conversation.createdAt).toEqual(new Date(1768392000 * 1000))
+    expect(bengal.conversation.updatedAt).toEqual(new Date(1768392103 * 1000))
+
+    // Hidden system message and the python tool call/output are skipped
+    expect(bengal.messages.map((m) => m.id)).toEqual([
+      'user-1',
+      'asst-1a',
+      'asst-1b',
+      'user-2',
+      'asst-2'
+    ])
+    expect(bengal.messages[0].parentId).toBeNull()
+    expect(bengal.messages[4].parentId).toBe('user-2')
+
+    expect(hello.conversation.currentNodeId).toBe('a')
+    expect(hello.messages).toHaveLength(2)
+  })
+
+  it('should keep regenerated responses as siblings', async () => {
+    const data = await readArchiveJson(CHATGPT_ARCHIVE, 'conversations.json')
+    const [bengal] = parseChatGPTExport(data, [])
+
+    const [, first, second, followUp] = bengal.messages
+    expect(JSON.parse(first.siblingIds as string)).toEqual(['asst-1a', 'asst-1b'])
+    expect(first.siblingIndex).toBe(0)
+    expect(second.siblingIndex).toBe(1)
+    expect(followUp.parentId).toBe('asst-1b')
+  })
+
+  it('should keep the model slug for assistant messages only', async () => {
+    const data = await readArchiveJson(CHATGPT_ARCHIVE, 'conversations.json')
+    const [bengal] = parseChatGPTExport(data, [])
+
+    expect(bengal.messages.map((m) => m.model)).toEqual([null, 'gpt-4o', 'gpt-4o', null, 'gpt-4o'])
+  })
+
+  it('should transform citations into source-url parts', async () => {
+    const data = await readArchiveJson(CHATGPT_ARCHIVE, 'conversations.json')
+    const [bengal] = parseChatGPTExport(data, [])
+
+    const parts = JSON.parse(bengal.messages[2].parts as string)
+    expect(parts[0]).toEqual({ type: 'text', text: "That's a Bengal cat" })
+    expect((parts[1] as SourceUrlPart).url).toBe('https://en.wikipedia.org/wiki/Bengal_cat')
+  })
+
+  it('should locate attachment files in the archive by file id', async () => {
+    const data = await readArchiveJson(CHATGPT_ARCHIVE, 'conversations.json')
+    const [bengal] = parseChatGPTExport(data, ['user.json', 'file-Img123-cat.png'])
+
+    expect(bengal.attachments).toHaveLength(1)
+    expect(bengal.attachments[0]).toMatchObject({
+      id: 'user-1-att-file-Img123',
+      messageId: 'user-1',
+      type: 'image',
+      fileId: 'file-Img123',
+      filename: 'cat.png',
+      mimeType: 'image/png',
+      archivePath: 'file-Img123-cat.png'
+    })
+  })
+
+  it('should throw when conversations.json is not an array', () => {
+    expect(() => parseChatGPTExport({}, [])).toThrow('not an array')
+  })
+})
+
+describe('parseClaudeExport', () => {
+  it('should chain messages from exports without parent ids', async () => {
+    const data = await readArchiveJson(CLAUDE_ARCHIVE, 'conversations.json')
+    const [sourdough] = parseClaudeExport(data)
+
+    expect(sourdough.conversation).toMatchObject({
+      id: 'a5c9e1f2-0000-4000-8000-000000000001',
+      title: 'Sourdough starter',
+      provider: 'claude',
+      currentNodeId: 'c1-m4',
+      messageCount: 4
+    })
+    expect(sourdough.messages.map((m) => [m.id, m.role, m.parentId])).toEqual([
+      ['c1-m1', 'user', null],
+      ['c1-m2', 'assistant', 'c1-m1'],
+      ['c1-m3', 'user', 'c1-m2'],
+      ['c1-m4', 'assistant', 'c1-m3']
+    ])
+  })
+
+  it('should fall back to message text when content blocks are missing', async () => {
+    const data = await readArchiveJson(CLAUDE_ARCHIVE, 'conversations.json')
+    const [sourdough] = parseClaudeExport(data)
+
+    expect(JSON.parse(sourdough.messages[3].parts as string)).toEqual([
+      { type: 'text', text: 'Once a day at room temperature.' }
+    ])
+  })
+
+  it('should keep file references with their claude.ai URLs', async () => {
+    const data = await readArchiveJson(CLAUDE_ARCHIVE, 'conversations.json')
+    const [sourdough, photo] = parseClaudeExport(data)
+
+    // Files without a uuid can't be downloaded later
+    expect(sourdough.attachments).toEqual([])
+
+    expect(photo.conversation.title).toBe('Untitled')
+    expect(photo.conversation.currentNodeId).toBe('c2-m2')
+    expect(photo.attachments).toEqual([
+      expect.objectContaining({
+        id: 'c2-m1-att-f-1',
+        messageId: 'c2-m1',
+        type: 'image',
+        fileId: 'f-1',
+        originalUrl: 'https://claude.ai/api/org/files/f-1/preview',
+        filename: 'photo.png',
+        width: 800,
+        height: 600,
+        archivePath: null
+      })
+    ])
+  })
+})
+
+describe('getExtractPath', () => {
+  const root = path.resolve(os.tmpdir(), 'attachments')
+
+  it('should use the attachment cache naming', () => {
+    expect(getExtractPath(root, BENGAL_ID, 'file-Img123', 'file-Img123-cat.png')).toBe(
+      path.join(root, BENGAL_ID, 'file-Img123_cat.png')
+    )
+  })
+
+  it('should keep IDs and names from the archive inside the attachments folder', () => {
+    const paths = [
+      getExtractPath(root, '../../etc', 'file-1', 'cat.png'),
+      getExtractPath(root, BENGAL_ID, '../../../evil', 'cat.png'),
+      getExtractPath(root, BENGAL_ID, 'file-1', 'dir/..\\..\\evil.sh'),
+      getExtractPath(root, '..', '..', '..')
+    ]
+
+    for (const localPath of paths) {
+      expect(localPath).not.toBeNull()
+      expect(path.dirname(path.dirname(localPath!))).toBe(root)
+    }
+  })
+})
+
+describe('importArchive', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-test-'))
+  })
+
+  afterEach(() => {
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should import a ChatGPT archive and extract attachments', async () => {
+    const { storage, conversations, messages, attachments } = createStorage()
+
+    const result = await importArchive(CHATGPT_ARCHIVE, storage, { attachmentsPath: tempDir })
+
+    expect(result).toEqual({ provider: 'chatgpt', imported: 2, skipped: 0, attachments: 1 })
+    expect(conversations.size).toBe(2)
+    expect(messages.size).toBe(7)
+
+    const localPath = path.join(tempDir, BENGAL_ID, 'file-Img123_cat.png')
+    expect(attachments.get('user-1-att-file-Img123')?.localPath).toBe(localPath)
+    expect(fs.existsSync(localPath)).toBe(true)
+  })
+
+  it('should import a Claude archive with a top-level folder', async () => {
+    const { storage, conversations } = createStorage()
+    const progress: number[] = []
+
+    const result = await importArchive(CLAUDE_ARCHIVE, storage, {
+      attachmentsPath: tempDir,
+      onProgress: (current) => progress.push(current)
+    })
+
+    expect(result).toEqual({ provider: 'claude', imported: 2, skipped: 0, attachments: 0 })
+    expect(conversations.size).toBe(2)
+    expect(progress).toEqual([0, 1, 2])
+  })
+
+  it('should skip conversations that are already stored with newer data', async () => {
+    const { storage, conversations } = createStorage()
+    await storage.upsertConversation({
+      id: BENGAL_ID,
+      title: 'Synced title',
+      provider: 'chatgpt',
+      createdAt: new Date(1768392000 * 1000),
+      updatedAt: new Date(1768400000 * 1000),
+      syncedAt: new Date()
+    })
+
+    const result = await importArchive(CHATGPT_ARCHIVE, storage, { attachmentsPath: tempDir })
+
+    expect(result).toMatchObject({ imported: 1, skipped: 1, attachments: 0 })
+    expect(conversations.get(BENGAL_ID)?.title).toBe('Synced title')
+  })
+
+  it('should replace messages of conversations with older stored data', async () => {
+    const { storage, messages } = createStorage()
+    await storage.upsertConversation({
+      id: BENGAL_ID,
+      title: 'Bengal cat',
+      provider: 'chatgpt',
+      createdAt: new Date(1768392000 * 1000),
+      updatedAt: new Date(1768392000 * 1000),
+      syncedAt: new Date()
+    })
+    await storage.upsertMessages([
+      { id: 'stale', conversationId: BENGAL_ID, role: 'user', parts: '[]', orderIndex: 0 }
+    ])
+
+    await importArchive(CHATGPT_ARCHIVE, storage, { attachmentsPath: tempDir })
+
+    expect(messages.has('stale')).toBe(false)
+    expect(messages.has('asst-2')).toBe(true)
+  })
+
+  it('should reject archives without conversations.json', async () => {
+    const archivePath = path.join(tempDir, 'empty.zip')
+    // Empty ZIP: just the end of central directory record
+    const eocd = Buffer.alloc(22)
+    eocd.writeUInt32LE(0x06054b50, 0)
+    fs.writeFileSync(archivePath, eocd)
+
+    const { storage } = createStorage()
+    await expect(importArchive(archivePath, storage, { attachmentsPath: tempDir })).rejects.toThrow(
+      'conversations.json not found'
+    )
+  })
+})
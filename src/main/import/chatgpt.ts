@@ -0,0 +1,94 @@
+import path from 'path'
+import {
+  extractChatGPTConversation,
+  transformChatGPTMessageToParts,
+  type ChatGPTConversationData
+} from '../sync/providers/chatgpt/utils'
+import type { ImportedAttachment, ImportedConversation } from './types'
+
+// Files in the archive are named after their file id: `file-AbC123-photo.png`,
+// `file_00000000a1b2...-<uuid>.png`, `dalle-generations/file-XyZ-<uuid>.webp`
+const ARCHIVE_FILE_ID_REGEX = /^(file[-_][A-Za-z0-9]+)/
+
+/**
+ * Convert conversations.json from ChatGPT's "Export data" archive.
+ * `archivePaths` lists the files in the archive, used to locate attachments.
+ */
+export function parseChatGPTExport(data: unknown, archivePaths: string[]): ImportedConversation[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid ChatGPT export: conversations.json is not an array')
+  }
+
+  const filesById = new Map<string, string>()
+  for (const archivePath of archivePaths) {
+    const match = path.posix.basename(archivePath).match(ARCHIVE_FILE_ID_REGEX)
+    if (match && !filesById.has(match[1])) {
+      filesById.set(match[1], archivePath)
+    }
+  }
+
+  const results: ImportedConversation[] = []
+
+  for (const raw of data as ChatGPTConversationData[]) {
+    const id = raw.conversation_id || raw.id
+    if (!id || !raw.mapping) continue
+
+    const content = extractChatGPTConversation(raw)
+    const createdAt = raw.create_time ? new Date(raw.create_time * 1000) : new Date()
+    const updatedAt = raw.update_time ? new Date(raw.update_time * 1000) : createdAt
+
+    const messages = content.messages.map((msg, index) => ({
+      id: msg.nodeId || msg.id || `${id}-${index}`,
+      conversationId: id,
+      role: msg.role,
+      parts: JSON.stringify(
+        transformChatGPTMessageToParts({
+          content: msg.content,
+          contentReferences: msg.contentReferences,
+          toolParts: msg.toolParts
+        })
+      ),
+      createdAt: msg.createdAt ? new Date(msg.createdAt) : undefined,
+      orderIndex: index,
+      parentId: msg.parentNodeId,
+      siblingIds: JSON.stringify(msg.siblingNodeIds),
+      siblingIndex: msg.siblingIndex,
+      model: msg.role === 'assistant' ? msg.modelSlug || null : null
+    }))
+
+    const attachments: ImportedAttachment[] = content.messages.flatMap((msg, index) => {
+      const messageId = msg.nodeId || msg.id || `${id}-${index}`
+      return (msg.attachments || []).map((att, idx) => ({
+        id: `${messageId}-att-${att.fileId || idx}`,
+        messageId,
+        type: att.type,
+        fileId: att.fileId,
+        originalUrl: '',
+        localPath: '',
+        filename: att.filename || att.fileId,
+        mimeType: att.mimeType || '',
+        size: att.size || 0,
+        width: att.width,
+        height: att.height,
+        archivePath: filesById.get(att.fileId) ?? null
+      }))
+    })
+
+    results.push({
+      conversation: {
+        id,
+        title: content.title,
+        provider: 'chatgpt',
+        createdAt,
+        updatedAt,
+        syncedAt: new Date(),
+        messageCount: messages.length,
+        currentNodeId: content.currentNode
+      },
+      messages,
+      attachments
+    })
+  }
+
+  return results
+}
@@ -0,0 +1,121 @@
+import {
+  transformClaudeMessageToParts,
+  type ClaudeContentBlock
+} from '../sync/providers/claude/utils'
+import type { ClaudeFile } from '../sync/providers/claude-provider'
+import type { ImportedAttachment, ImportedConversation } from './types'
+
+interface ClaudeExportMessage {
+  uuid: string
+  text?: string
+  content?: ClaudeContentBlock[]
+  sender: 'human' | 'assistant'
+  index?: number
+  created_at?: string
+  parent_message_uuid?: string | null
+  files?: Array<Partial<ClaudeFile>>
+  files_v2?: Array<Partial<ClaudeFile>>
+}
+
+interface ClaudeExportConversation {
+  uuid: string
+  name?: string
+  created_at?: string
+  updated_at?: string
+  current_leaf_message_uuid?: string | null
+  chat_messages?: ClaudeExportMessage[]
+}
+
+/**
+ * Convert conversations.json from Claude's data export.
+ *
+ * The export doesn't contain uploaded files, so attachments keep their claude.ai
+ * URLs and are downloaded on demand once the account is connected. Older exports
+ * have no `parent_message_uuid`; their messages are chained in order.
+ */
+export function parseClaudeExport(data: unknown): ImportedConversation[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid Claude export: conversations.json is not an array')
+  }
+
+  const results: ImportedConversation[] = []
+
+  for (const raw of data as ClaudeExportConversation[]) {
+    if (!raw.uuid || !Array.isArray(raw.chat_messages)) continue
+
+    const chatMessages = [...raw.chat_messages].sort(
+      (a, b) =>
+        (a.index ?? 0) - (b.index ?? 0) ||
+        new Date(a.created_at ?? 0).getTime() - new Date(b.created_at ?? 0).getTime()
+    )
+
+    let previousId: string | null = null
+    const messages = chatMessages.map((msg, index) => {
+      const parts = msg.content?.length
+        ? transformClaudeMessageToParts({ content: msg.content })
+        : []
+
+      const message = {
+        id: msg.uuid,
+        conversationId: raw.uuid,
+        role: msg.sender === 'human' ? ('user' as const) : ('assistant' as const),
+        parts: JSON.stringify(parts.length > 0 ? parts : [{ type: 'text', text: msg.text ?? '' }]),
+        createdAt: msg.created_at ? new Date(msg.created_at) : undefined,
+        orderIndex: msg.index ?? index,
+        parentId: msg.parent_message_uuid !== undefined ? msg.parent_message_uuid : previousId,
+        siblingIds: JSON.stringify([]),
+        siblingIndex: 0
+      }
+      previousId = msg.uuid
+      return message
+    })
+
+    const attachments: ImportedAttachment[] = chatMessages.flatMap((msg) => {
+      const files = msg.files_v2?.length ? msg.files_v2 : msg.files || []
+      return files
+        .filter((file): file is Partial<ClaudeFile> & { file_uuid: string } =>
+          Boolean(file.file_uuid)
+        )
+        .map((file) => {
+          const asset = file.preview_asset || file.document_asset || file.thumbnail_asset
+          const relativeUrl = asset?.url || file.preview_url || file.thumbnail_url || ''
+          return {
+            id: `${msg.uuid}-att-${file.file_uuid}`,
+            messageId: msg.uuid,
+            type: file.file_kind === 'image' ? ('image' as const) : ('file' as const),
+            fileId: file.file_uuid,
+            originalUrl:
+              !relativeUrl || relativeUrl.startsWith('http')
+                ? relativeUrl
+                : `https://claude.ai${relativeUrl}`,
+            localPath: '',
+            filename: file.file_name ?? null,
+            mimeType: null,
+            size: 0,
+            width: asset?.image_width,
+            height: asset?.image_height,
+            archivePath: null
+          }
+        })
+    })
+
+    const createdAt = raw.created_at ? new Date(raw.created_at) : new Date()
+
+    results.push({
+      conversation: {
+        id: raw.uuid,
+        title: raw.name || 'Untitled',
+        provider: 'claude',
+        createdAt,
+        updatedAt: raw.updated_at ? new Date(raw.updated_at) : createdAt,
+        syncedAt: new Date(),
+        messageCount: messages.length,
+        currentNodeId: raw.current_leaf_message_uuid ?? previousId
+      },
+      messages,
+      attachments
+    })
+  }
+
+  return results
+}
@@ -0,0 +1,163 @@
+import fs from 'fs'
+import path from 'path'
+import type { IStorage } from '../storage/interface'
+import type { ImportResult } from '../../shared/types'
+import { openZipArchive, type ZipArchive } from './zip'
+import { parseChatGPTExport } from './chatgpt'
+import { parseClaudeExport } from './claude'
+import type { ImportedConversation } from './types'
+import type { NewAttachment } from '../db/schema'
+import { resolveArtifactVersionsFromRows } from '../db/artifacts'
+import { sanitizeFilename } from '../export/utils'
+
+export interface ImportOptions {
+  /** Root attachments folder; archive files are extracted to {attachmentsPath}/{conversationId} */
+  attachmentsPath: string
+  onProgress?: (current: number, total: number) => void
+}
+
+/**
+ * Import a ChatGPT or Claude data-export ZIP without logging in.
+ *
+ * Conversations that are already stored with the same or a newer `updatedAt`
+ * (e.g. from a live sync, which has richer data) are skipped.
+ */
+export async function importArchive(
+  filePath: string,
+  storage: IStorage,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const archive = await openZipArchive(filePath)
+
+  try {
+    // Some exports wrap everything in a top-level folder
+    const conversationsEntry = archive.entries
+      .filter((entry) => path.posix.basename(entry.name) === 'conversations.json')
+      .sort((a, b) => a.name.length - b.name.length)[0]
+
+    if (!conversationsEntry) {
+      throw new Error('conversations.json not found in archive')
+    }
+
+    const data = JSON.parse((await archive.read(conversationsEntry)).toString('utf8'))
+    const first = Array.isArray(data) && typeof data[0] === 'object' ? data[0] : null
+
+    let provider: ImportResult['provider']
+    let conversations: ImportedConversation[]
+    if (first && 'mapping' in first) {
+      provider = 'chatgpt'
+      conversations = parseChatGPTExport(
+        data,
+        archive.entries.map((entry) => entry.name)
+      )
+    } else if (first && 'chat_messages' in first) {
+      provider = 'claude'
+      conversations = parseClaudeExport(data)
+    } else {
+      throw new Error('Unrecognized export archive: expected a ChatGPT or Claude data export')
+    }
+
+    console.log(`[Import] Importing ${conversations.length} ${provider} conversations`)
+
+    const result: ImportResult = { provider, imported: 0, skipped: 0, attachments: 0 }
+
+    for (const [index, item] of conversations.entries()) {
+      options.onProgress?.(index, conversations.length)
+
+      const { conversation } = item
+      const existing = await storage.getConversation(conversation.id)
+      if (
+        existing &&
+        conversation.updatedAt &&
+        existing.updatedAt.getTime() >= conversation.updatedAt.getTime()
+      ) {
+        result.skipped++
+        continue
+      }
+
+      if (existing) {
+        await storage.deleteMessagesForConversation(conversation.id)
+      }
+
+      await storage.upsertConversation(conversation)
+      await storage.upsertMessages(item.messages)
+      await storage.replaceArtifacts(
+        conversation.id,
+        resolveArtifactVersionsFromRows(conversation.id, item.messages)
+      )
+
+      if (item.attachments.length > 0) {
+        const attachments: NewAttachment[] = []
+        for (const { archivePath, ...attachment } of item.attachments) {
+          const localPath = archivePath
+            ? getExtractPath(
+                options.attachmentsPath,
+                conversation.id,
+                attachment.fileId ?? attachment.id,
+                archivePath
+              )
+            : null
+          if (archivePath && localPath) {
+            attachment.localPath = await extractAttachment(archive, archivePath, localPath)
+            if (attachment.localPath) result.attachments++
+          }
+          attachments.push(attachment)
+        }
+        await storage.upsertAttachments(attachments)
+      }
+
+      result.imported++
+    }
+
+    options.onProgress?.(conversations.length, conversations.length)
+    console.log(
+      `[Import] Done: ${result.imported} imported, ${result.skipped} skipped, ${result.attachments} attachments`
+    )
+
+    return result
+  } finally {
+    await archive.close()
+  }
+}
+
+/**
+ * Path an archive file is extracted to, using the attachment cache naming
+ * ({conversationId}/{fileId}_{name}) so providers' downloadAttachment finds it without
+ * hitting the network. The IDs and names come from the archive, so they're sanitized;
+ * a path that still ends up outside attachmentsPath gives null.
+ */
+export function getExtractPath(
+  attachmentsPath: string,
+  conversationId: string,
+  fileId: string,
+  archivePath: string
+): string | null {
+  const basename = path.posix.basename(archivePath)
+  const displayName = basename.startsWith(fileId)
+    ? basename.slice(fileId.length).replace(/^[-_]+/, '') || basename
+    : basename
+
+  const root = path.resolve(attachmentsPath)
+  const localPath = path.resolve(
+    root,
+    sanitizeFilename(conversationId),
+    `${sanitizeFilename(fileId)}_${sanitizeFilename(displayName)}`
+  )
+  return localPath.startsWith(root + path.sep) ? localPath : null
+}
+
+async function extractAttachment(
+  archive: ZipArchive,
+  archivePath: string,
+  localPath: string
+): Promise<string> {
+  const entry = archive.getEntry(archivePath)
+  if (!entry) return ''
+
+  if (!fs.existsSync(localPath)) {
+    fs.mkdirSync(path.dirname(localPath), { recursive: true })
+    fs.writeFileSync(localPath, await archive.read(entry))
+  }
+
+  return localPath
+}
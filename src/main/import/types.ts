@@ -0,0 +1,12 @@
+import type { NewAttachment, NewConversation, NewMessage } from '../db/schema'
+
+export interface ImportedAttachment extends NewAttachment {
+  /** Path of the file inside the export archive, if the archive contains it */
+  archivePath: string | null
+}
+
+export interface ImportedConversation {
+  conversation: NewConversation
+  messages: NewMessage[]
+  attachments: ImportedAttachment[]
+}
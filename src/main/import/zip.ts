@@ -0,0 +1,171 @@
+import fs from 'fs'
+import zlib from 'zlib'
+import { promisify } from 'util'
+
+const inflateRaw = promisify(zlib.inflateRaw)
+
+const EOCD_SIGNATURE = 0x06054b50
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP64_EOCD_SIGNATURE = 0x06064b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+export interface ZipEntry {
+  name: string
+  compressedSize: number
+  size: number
+  method: number
+  localHeaderOffset: number
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[]
+  getEntry(name: string): ZipEntry | undefined
+  read(entry: ZipEntry): Promise<Buffer>
+  close(): Promise<void>
+}
+
+/**
+ * Minimal ZIP reader for provider data exports.
+ *
+ * Only reads the central directory up front; entry contents are read on demand,
+ * so large archives with many attachments don't have to fit in memory.
+ * Supports stored and deflated entries, including ZIP64 archives.
+ */
+export async function openZipArchive(filePath: string): Promise<ZipArchive> {
+  const handle = await fs.promises.open(filePath, 'r')
+
+  try {
+    const { size: fileSize } = await handle.stat()
+    const entries = await readCentralDirectory(handle, fileSize)
+    const byName = new Map(entries.map((entry) => [entry.name, entry]))
+
+    return {
+      entries,
+      getEntry: (name) => byName.get(name),
+      read: (entry) => readEntry(handle, entry),
+      close: () => handle.close()
+    }
+  } catch (error) {
+    await handle.close()
+    throw error
+  }
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  return buffer.subarray(0, bytesRead)
+}
+
+async function readCentralDirectory(
+  handle: fs.promises.FileHandle,
+  fileSize: number
+): Promise<ZipEntry[]> {
+  // End of central directory record is 22 bytes plus an optional comment of up to 64KB
+  const tailLength = Math.min(fileSize, 22 + 0xffff)
+  const tailStart = fileSize - tailLength
+  const tail = await readAt(handle, tailStart, tailLength)
+
+  let eocdIndex = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocdIndex = i
+      break
+    }
+  }
+
+  if (eocdIndex === -1) {
+    throw new Error('Not a ZIP archive')
+  }
+
+  let entryCount = tail.readUInt16LE(eocdIndex + 10)
+  let directorySize = tail.readUInt32LE(eocdIndex + 12)
+  let directoryOffset = tail.readUInt32LE(eocdIndex + 16)
+
+  const locatorIndex = eocdIndex - 20
+  if (locatorIndex >= 0 && tail.readUInt32LE(locatorIndex) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64EocdOffset = Number(tail.readBigUInt64LE(locatorIndex + 8))
+    const zip64Eocd = await readAt(handle, zip64EocdOffset, 56)
+    if (zip64Eocd.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Corrupt ZIP64 archive')
+    }
+    entryCount = Number(zip64Eocd.readBigUInt64LE(32))
+    directorySize = Number(zip64Eocd.readBigUInt64LE(40))
+    directoryOffset = Number(zip64Eocd.readBigUInt64LE(48))
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize)
+  const entries: ZipEntry[] = []
+  let offset = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const method = directory.readUInt16LE(offset + 10)
+    let compressedSize = directory.readUInt32LE(offset + 20)
+    let size = directory.readUInt32LE(offset + 24)
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const extraLength = directory.readUInt16LE(offset + 30)
+    const commentLength = directory.readUInt16LE(offset + 32)
+    let localHeaderOffset = directory.readUInt32LE(offset + 42)
+
+    const nameStart = offset + 46
+    const name = directory.toString('utf8', nameStart, nameStart + nameLength)
+
+    // ZIP64 extended information: 64-bit values for the fields that are 0xFFFFFFFF
+    const extra = directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength)
+    let e = 0
+    while (e + 4 <= extra.length) {
+      const headerId = extra.readUInt16LE(e)
+      const dataSize = extra.readUInt16LE(e + 2)
+      if (headerId === 0x0001) {
+        let p = e + 4
+        if (size === 0xffffffff) {
+          size = Number(extra.readBigUInt64LE(p))
+          p += 8
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(extra.readBigUInt64LE(p))
+          p += 8
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(extra.readBigUInt64LE(p))
+        }
+      }
+      e += 4 + dataSize
+    }
+
+    if (!name.endsWith('/')) {
+      entries.push({ name, compressedSize, size, method, localHeaderOffset })
+    }
+
+    offset = nameStart + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+async function readEntry(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<Buffer> {
+  const header = await readAt(handle, entry.localHeaderOffset, 30)
+  if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`)
+  }
+
+  // Local name/extra lengths can differ from the central directory
+  const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+  const data = await readAt(handle, dataStart, entry.compressedSize)
+
+  if (entry.method === METHOD_STORED) {
+    return data
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    return inflateRaw(data)
+  }
+  throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`)
+}
@@ -20,6 +20,13 @@ import { viewBoundsManager } from './view-bounds-manager'
 import { store } from './store'
 import { createZustandBridge } from '@zubridge/electron/main'
 import { startMcpServer, stopMcpServer } from './mcp/server'
+import {
+  scheduleEmbeddingUpdate,
+  setEmbeddingWorkerLocation,
+  stopEmbeddingWorker
+} from './embeddings'
+import { getAppEmbeddingWorkerLocation } from './embeddings/paths'
+import { scheduleMirrorUpdate } from './export/mirror'
 import {
   initAutoUpdater,
   isUpdateAvailable,
@@ -291,6 +298,7 @@ app.whenReady().then(async () => {
 
   // Initialize database
   await initDatabase()
+  setEmbeddingWorkerLocation(getAppEmbeddingWorkerLocation())
 
   // Set up IPC handlers
   setupIpcHandlers()
@@ -362,6 +370,11 @@ app.whenReady().then(async () => {
     })
   }
 
+  // Embed messages synced before semantic search existed or while indexing was interrupted
+  scheduleEmbeddingUpdate()
+  // Catch up on conversations synced while the mirror was off or the app was closed
+  scheduleMirrorUpdate()
+
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
     // dock icon is clicked and there are no other windows open.
@@ -393,4 +406,5 @@ app.on('before-quit', async () => {
   await providerRegistry.stopAll()
   stopSyncScheduler()
   await stopMcpServer()
+  await stopEmbeddingWorker()
 })
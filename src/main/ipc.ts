@@ -1,12 +1,32 @@
-import { ipcMain, dialog, shell } from 'electron'
-import { IPC_CHANNELS, type ExportProgress } from '../shared/types'
+import { app, ipcMain, dialog, shell } from 'electron'
+import {
+  IPC_CHANNELS,
+  type ExportProgress,
+  type McpStdioConfig,
+  type OrganizeFilters,
+  type ProviderName,
+  type RemoteStatus
+} from '../shared/types'
 import { getMainWindow, providerRegistry } from './index.js'
 import * as db from './db/operations'
 import { startExportWorker, startExportAllWorker, cancelExport } from './export/worker-manager'
-import { getSettings, updateSettings } from './settings'
-import { startMcpServer, stopMcpServer, isMcpServerRunning } from './mcp/server'
+import { getArtifactExtension, getArtifactFilename } from './export/utils'
+import { runMirror, scheduleMirrorUpdate } from './export/mirror'
+import { searchConversationsSemantic } from './embeddings'
+import { getAttachmentsPath, getSettings, updateSettings } from './settings'
+import { importArchive } from './import'
+import { DrizzleStorageAdapter } from './storage/drizzle-adapter'
+import {
+  startMcpServer,
+  stopMcpServer,
+  isMcpServerRunning,
+  closeClientSessions
+} from './mcp/server'
+import { createToken } from './mcp/tokens'
 import { viewBoundsManager } from './view-bounds-manager'
+import { randomUUID } from 'node:crypto'
 import fs from 'fs'
+import path from 'path'
 
 export function setupIpcHandlers(): void {
   // Conversation handlers
@@ -38,11 +58,18 @@ export function setupIpcHandlers(): void {
       _event,
       query: string,
       options?: {
-        provider?: 'chatgpt' | 'claude' | 'perplexity'
+        provider?: ProviderName
+        model?: string
+        mode?: string
+        remoteStatus?: RemoteStatus | 'any'
         caseInsensitive?: boolean
         searchInMessages?: boolean
-      }
+        semantic?: boolean
+      } & OrganizeFilters
     ) => {
+      if (options?.semantic) {
+        return searchConversationsSemantic(query, options)
+      }
       return db.searchConversations(query, options)
     }
   )
@@ -51,6 +78,14 @@ export function setupIpcHandlers(): void {
     return db.getProviderCounts()
   })
 
+  ipcMain.handle(IPC_CHANNELS.CONVERSATIONS_MODELS, async () => {
+    return db.listModels()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.CONVERSATIONS_MODES, async () => {
+    return db.listModes()
+  })
+
   // Refresh a single conversation from provider API (for getting latest messages)
   // Uses stale-while-revalidate: returns existing data immediately if refresh fails
   ipcMain.handle(IPC_CHANNELS.CONVERSATIONS_REFRESH, async (_event, conversationId: string) => {
@@ -62,7 +97,7 @@ export function setupIpcHandlers(): void {
       }
 
       // Get the provider and delegate to its refreshAndPersistConversation method
-      const provider = providerRegistry.getProvider(existing.provider as 'chatgpt' | 'claude')
+      const provider = providerRegistry.getProvider(existing.provider)
       if (!provider) {
         // Provider not available, return stale data
         const result = await db.getConversationWithMessages(conversationId)
@@ -101,9 +136,7 @@ export function setupIpcHandlers(): void {
     }
 
     // Get provider instance
-    const provider = providerRegistry.getProvider(
-      conversation.provider as 'chatgpt' | 'claude' | 'perplexity'
-    )
+    const provider = providerRegistry.getProvider(conversation.provider)
     if (!provider) {
       throw new Error(`${conversation.provider} provider not available`)
     }
@@ -136,9 +169,13 @@ export function setupIpcHandlers(): void {
     }
   })
 
-  ipcMain.handle(IPC_CHANNELS.EXPORT_ALL, async (_event, options) => {
+  ipcMain.handle(IPC_CHANNELS.EXPORT_ALL, async (_event, options, filters?: OrganizeFilters) => {
     try {
-      const result = await startExportAllWorker({ options }, sendProgressUpdate, downloadAttachment)
+      const result = await startExportAllWorker(
+        { options, filters },
+        sendProgressUpdate,
+        downloadAttachment
+      )
       return result
     } catch (error) {
       console.error('[IPC] Export all error:', error)
@@ -151,13 +188,200 @@ export function setupIpcHandlers(): void {
     cancelExport()
   })
 
-  ipcMain.handle(IPC_CHANNELS.AUTH_LOGIN, async (_event, providerName: 'chatgpt' | 'claude') => {
+  // Bring the mirror folder up to date now instead of after the next sync
+  ipcMain.handle(IPC_CHANNELS.EXPORT_MIRROR, async () => {
+    try {
+      const result = await runMirror()
+      return { success: true, result }
+    } catch (error) {
+      console.error('[IPC] Mirror error:', error)
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // Import a provider data-export archive (no login required)
+  ipcMain.handle(IPC_CHANNELS.IMPORT_ARCHIVE, async () => {
+    const mainWindow = getMainWindow()
+    if (!mainWindow) {
+      return { success: false, error: 'Main window not available' }
+    }
+
+    const selection = await dialog.showOpenDialog(mainWindow, {
+      properties: ['openFile'],
+      filters: [{ name: 'Data Export', extensions: ['zip'] }],
+      title: 'Select ChatGPT or Claude Data Export'
+    })
+
+    if (selection.canceled || !selection.filePaths[0]) {
+      return { success: false, canceled: true }
+    }
+
+    try {
+      const result = await importArchive(selection.filePaths[0], new DrizzleStorageAdapter(), {
+        attachmentsPath: getAttachmentsPath()
+      })
+      scheduleMirrorUpdate()
+      return { success: true, result }
+    } catch (error) {
+      console.error('[IPC] Import archive error:', error)
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  ipcMain.handle(IPC_CHANNELS.ARTIFACTS_LIST, async (_event, conversationId: string) => {
+    return db.listArtifacts(conversationId)
+  })
+
+  // Save one artifact version as a standalone file
+  ipcMain.handle(IPC_CHANNELS.ARTIFACTS_EXPORT, async (_event, versionId: string) => {
+    const mainWindow = getMainWindow()
+    if (!mainWindow) {
+      return { success: false, error: 'Main window not available' }
+    }
+
+    const artifact = await db.getArtifactVersion(versionId)
+    if (!artifact) {
+      return { success: false, error: 'Artifact not found' }
+    }
+
+    const extension = getArtifactExtension(artifact)
+    const selection = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: getArtifactFilename(artifact),
+      filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+      title: 'Export Artifact'
+    })
+
+    if (selection.canceled || !selection.filePath) {
+      return { success: false, canceled: true }
+    }
+
+    try {
+      fs.writeFileSync(selection.filePath, artifact.content, 'utf-8')
+      return { success: true, filePath: selection.filePath }
+    } catch (error) {
+      console.error('[IPC] Artifact export error:', error)
+      return { success: false, error: (error as Error).message }
+    }
+  })
+
+  // Organization set by the user (see db/organize.ts)
+  ipcMain.handle(
+    IPC_CHANNELS.CONVERSATIONS_SET_STARRED,
+    async (_event, id: string, starred: boolean) => {
+      await db.setConversationStarred(id, starred)
+      return db.getConversation(id)
+    }
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.CONVERSATIONS_SET_FOLDER,
+    async (_event, id: string, folderId: string | null) => {
+      await db.setConversationFolder(id, folderId)
+      return db.getConversation(id)
+    }
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.CONVERSATIONS_SET_TAGS,
+    async (_event, id: string, tags: string[]) => {
+      await db.setConversationTags(id, tags)
+      return db.getConversation(id)
+    }
+  )
+
+  ipcMain.handle(IPC_CHANNELS.TAGS_LIST, async () => {
+    return db.listTags()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.TAGS_RENAME, async (_event, tag: string, newName: string) => {
+    await db.renameTag(tag, newName)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.TAGS_DELETE, async (_event, tag: string) => {
+    await db.deleteTag(tag)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.FOLDERS_LIST, async () => {
+    return db.listFolders()
+  })
+
+  ipcMain.handle(
+    IPC_CHANNELS.FOLDERS_CREATE,
+    async (_event, name: string, parentId?: string | null) => {
+      return db.createFolder({
+        id: randomUUID(),
+        name,
+        parentId: parentId ?? null,
+        createdAt: new Date()
+      })
+    }
+  )
+
+  ipcMain.handle(IPC_CHANNELS.FOLDERS_RENAME, async (_event, id: string, name: string) => {
+    await db.renameFolder(id, name)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.FOLDERS_DELETE, async (_event, id: string) => {
+    await db.deleteFolder(id)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROJECTS_LIST, async () => {
+    return db.listProjects()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROJECTS_GET, async (_event, id: string) => {
+    return db.getProjectWithDocuments(id)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.REVISIONS_LIST, async (_event, conversationId: string) => {
+    return db.listConversationRevisions(conversationId)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.REVISIONS_GET, async (_event, id: number) => {
+    return db.getConversationRevision(id)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.LINKS_LIST, async (_event, conversationId: string) => {
+    return db.getConversationLinks(conversationId)
+  })
+
+  ipcMain.handle(
+    IPC_CHANNELS.LINKS_CREATE,
+    async (
+      _event,
+      link: {
+        sourceConversationId: string
+        sourceMessageId: string
+        targetConversationId: string
+        targetMessageId?: string | null
+      }
+    ) => {
+      return db.createConversationLink({
+        id: randomUUID(),
+        sourceConversationId: link.sourceConversationId,
+        sourceMessageId: link.sourceMessageId,
+        targetConversationId: link.targetConversationId,
+        targetMessageId: link.targetMessageId ?? null,
+        createdAt: new Date()
+      })
+    }
+  )
+
+  ipcMain.handle(IPC_CHANNELS.LINKS_DELETE, async (_event, id: string) => {
+    await db.deleteConversationLink(id)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.LINKS_GRAPH, async () => {
+    return db.getLinkGraph()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.AUTH_LOGIN, async (_event, providerName: ProviderName) => {
     const provider = providerRegistry.getProvider(providerName)
     provider?.showLogin()
     return { success: true }
   })
 
-  ipcMain.handle(IPC_CHANNELS.AUTH_LOGOUT, async (_event, providerName?: 'chatgpt' | 'claude') => {
+  ipcMain.handle(IPC_CHANNELS.AUTH_LOGOUT, async (_event, providerName?: ProviderName) => {
     if (providerName) {
       // Logout specific provider
       const provider = providerRegistry.getProvider(providerName)
@@ -214,9 +438,58 @@ export function setupIpcHandlers(): void {
       }
     }
 
+    // Write the mirror right away when it's turned on or its folder or options change
+    const mirrorChanged = (
+      [
+        'mirrorEnabled',
+        'mirrorPath',
+        'mirrorFormat',
+        'mirrorIncludeAttachments',
+        'mirrorDeleteRemoved',
+        'mirrorMarkdown'
+      ] as const
+    ).some(
+      (key) =>
+        settings[key] !== undefined &&
+        JSON.stringify(settings[key]) !== JSON.stringify(currentSettings[key])
+    )
+    if (mirrorChanged) {
+      scheduleMirrorUpdate()
+    }
+
     return newSettings
   })
 
+  // MCP client handlers
+  ipcMain.handle(IPC_CHANNELS.MCP_TOKENS_LIST, async () => {
+    return db.listMcpTokens()
+  })
+
+  ipcMain.handle(
+    IPC_CHANNELS.MCP_TOKENS_CREATE,
+    async (_event, name: string, providers: ProviderName[] | null) => {
+      return createToken(name, providers)
+    }
+  )
+
+  ipcMain.handle(IPC_CHANNELS.MCP_TOKENS_REVOKE, async (_event, id: string) => {
+    await db.deleteMcpToken(id)
+    await closeClientSessions(id)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.MCP_AUDIT_LOG, async (_event, limit?: number) => {
+    return db.listMcpAuditLog(limit)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.MCP_STDIO_CONFIG, async (): Promise<McpStdioConfig> => {
+    // The app's binary runs the bundled stdio entry as plain Node
+    return {
+      command: process.execPath,
+      args: [path.join(app.getAppPath(), 'out', 'main', 'mcp-stdio.js')],
+      env: { ELECTRON_RUN_AS_NODE: '1' }
+    }
+  })
+
   // User preferences handlers
   ipcMain.handle(IPC_CHANNELS.USER_PREFERENCES_GET, async () => {
     return db.getUserPreferences()
@@ -234,42 +507,14 @@ export function setupIpcHandlers(): void {
   })
 
   // Debug handlers
-  ipcMain.handle(IPC_CHANNELS.DEBUG_TOGGLE_CHATGPT_VIEW, async () => {
-    const provider = providerRegistry.getProvider('chatgpt')
-    const isVisible = provider?.toggleView() ?? false
-    return { isVisible }
-  })
-
-  ipcMain.handle(IPC_CHANNELS.DEBUG_OPEN_CHATGPT_DEVTOOLS, async () => {
-    const provider = providerRegistry.getProvider('chatgpt')
-    const view = provider?.getView()
-    if (view) {
-      view.webContents.openDevTools({ mode: 'detach' })
-    }
-  })
-
-  ipcMain.handle(IPC_CHANNELS.DEBUG_TOGGLE_CLAUDE_VIEW, async () => {
-    const provider = providerRegistry.getProvider('claude')
-    const isVisible = provider?.toggleView() ?? false
-    return { isVisible }
-  })
-
-  ipcMain.handle(IPC_CHANNELS.DEBUG_OPEN_CLAUDE_DEVTOOLS, async () => {
-    const provider = providerRegistry.getProvider('claude')
-    const view = provider?.getView()
-    if (view) {
-      view.webContents.openDevTools({ mode: 'detach' })
-    }
-  })
-
-  ipcMain.handle(IPC_CHANNELS.DEBUG_TOGGLE_PERPLEXITY_VIEW, async () => {
-    const provider = providerRegistry.getProvider('perplexity')
+  ipcMain.handle(IPC_CHANNELS.DEBUG_TOGGLE_VIEW, async (_event, providerName: ProviderName) => {
+    const provider = providerRegistry.getProvider(providerName)
     const isVisible = provider?.toggleView() ?? false
     return { isVisible }
   })
 
-  ipcMain.handle(IPC_CHANNELS.DEBUG_OPEN_PERPLEXITY_DEVTOOLS, async () => {
-    const provider = providerRegistry.getProvider('perplexity')
+  ipcMain.handle(IPC_CHANNELS.DEBUG_OPEN_DEVTOOLS, async (_event, providerName: ProviderName) => {
+    const provider = providerRegistry.getProvider(providerName)
     const view = provider?.getView()
     if (view) {
       view.webContents.openDevTools({ mode: 'detach' })
@@ -298,7 +543,7 @@ export function setupIpcHandlers(): void {
         }
 
         // Get provider instance
-        const provider = providerRegistry.getProvider(conversation.provider as 'chatgpt' | 'claude')
+        const provider = providerRegistry.getProvider(conversation.provider)
         if (!provider) {
           return { success: false, error: `${conversation.provider} provider not available` }
         }
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canReadProvider,
+  generateToken,
+  hashToken,
+  isAllowedHost,
+  isAllowedOrigin,
+  parseBearerToken
+} from '../auth'
+
+describe('tokens', () => {
+  it('should generate distinct tokens and hash them deterministically', () => {
+    const token = generateToken()
+    expect(token).toMatch(/^oyc_[\w-]{43}$/)
+    expect(generateToken()).not.toBe(token)
+    expect(hashToken(token)).toBe(hashToken(token))
+    expect(hashToken(token)).not.toContain(token)
+  })
+
+  it('should parse bearer tokens from the Authorization header', () => {
+    expect(parseBearerToken('Bearer oyc_abc')).toBe('oyc_abc')
+    expect(parseBearerToken('bearer  oyc_abc ')).toBe('oyc_abc')
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull()
+    expect(parseBearerToken(undefined)).toBeNull()
+  })
+})
+
+describe('isAllowedHost', () => {
+  it('should allow loopback hosts on the server port', () => {
+    expect(isAllowedHost('localhost:37777', 37777)).toBe(true)
+    expect(isAllowedHost('127.0.0.1:37777', 37777)).toBe(true)
+    expect(isAllowedHost('[::1]:37777', 37777)).toBe(true)
+  })
+
+  it('should reject other hosts and ports', () => {
+    expect(isAllowedHost('attacker.example:37777', 37777)).toBe(false)
+    expect(isAllowedHost('localhost:8080', 37777)).toBe(false)
+    expect(isAllowedHost('localhost', 37777)).toBe(false)
+    expect(isAllowedHost(undefined, 37777)).toBe(false)
+  })
+})
+
+describe('isAllowedOrigin', () => {
+  it('should allow requests without an Origin and from local pages', () => {
+    expect(isAllowedOrigin(undefined)).toBe(true)
+    expect(isAllowedOrigin('http://localhost:6274')).toBe(true)
+    expect(isAllowedOrigin('http://127.0.0.1:3000')).toBe(true)
+  })
+
+  it('should reject other origins', () => {
+    expect(isAllowedOrigin('https://attacker.example')).toBe(false)
+    expect(isAllowedOrigin('null')).toBe(false)
+    expect(isAllowedOrigin('file://localhost')).toBe(false)
+  })
+})
+
+describe('canReadProvider', () => {
+  it('should limit scoped clients to their providers', () => {
+    const client = { tokenId: 't1', name: 'Cursor', providers: ['claude'] }
+    expect(canReadProvider(client, 'claude')).toBe(true)
+    expect(canReadProvider(client, 'chatgpt')).toBe(false)
+    expect(canReadProvider({ ...client, providers: null }, 'chatgpt')).toBe(true)
+  })
+})
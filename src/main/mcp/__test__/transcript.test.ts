@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { formatTranscript } from '../transcript'
+import type { Conversation, Message } from '../../../shared/types'
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Indexing chats',
+  provider: 'claude',
+  createdAt: new Date(2025, 0, 2),
+  updatedAt: new Date(2025, 0, 3),
+  syncedAt: new Date(2025, 0, 3),
+  messageCount: 2,
+  currentNodeId: null
+}
+
+const message = (overrides: Partial<Message>): Message => ({
+  id: 'm1',
+  conversationId: 'c1',
+  role: 'user',
+  parts: [],
+  createdAt: new Date(2025, 0, 2),
+  orderIndex: 0,
+  parentId: null,
+  siblingIds: [],
+  siblingIndex: 0,
+  ...overrides
+})
+
+describe('formatTranscript', () => {
+  it('should render a header and one section per message', () => {
+    const transcript = formatTranscript(
+      conversation,
+      [
+        message({ parts: [{ type: 'text', text: 'How do I index chats?' }] }),
+        message({
+          id: 'm2',
+          role: 'assistant',
+          model: 'claude-sonnet-4',
+          orderIndex: 1,
+          parts: [
+            { type: 'text', text: 'Use FTS5, see ' },
+            {
+              type: 'source-url',
+              sourceId: 's1',
+              url: 'https://sqlite.org/fts5.html',
+              title: 'FTS5'
+            }
+          ]
+        })
+      ],
+      { providerName: 'Claude' }
+    )
+
+    expect(transcript).toBe(
+      [
+        '# Indexing chats',
+        '',
+        'Provider: Claude · Created: 2025-01-02 · Updated: 2025-01-03',
+        '',
+        '## User',
+        '',
+        'How do I index chats?',
+        '',
+        '## Assistant (claude-sonnet-4)',
+        '',
+        'Use FTS5, see [FTS5](https://sqlite.org/fts5.html)',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('should keep artifacts and attachments but leave out reasoning and tool activity', () => {
+    const transcript = formatTranscript(conversation, [
+      message({
+        role: 'assistant',
+        parts: [
+          { type: 'reasoning', text: 'Thinking about it' },
+          { type: 'tool-call', toolCallId: 't1', toolName: 'web_search', input: '{}' },
+          { type: 'text', text: 'Here it is:' },
+          {
+            type: 'artifact',
+            artifactId: 'a1',
+            command: 'create',
+            title: 'Schema',
+            language: 'sql',
+            content: 'CREATE TABLE chats (id TEXT);'
+          }
+        ],
+        attachments: [
+          {
+            id: 'f1',
+            messageId: 'm1',
+            type: 'image',
+            originalUrl: '',
+            localPath: '',
+            filename: 'diagram.png',
+            mimeType: 'image/png',
+            size: 1
+          }
+        ]
+      })
+    ])
+
+    expect(transcript).not.toContain('Thinking about it')
+    expect(transcript).not.toContain('web_search')
+    expect(transcript).toContain(
+      'Here it is:\n\n**Artifact:** Schema\n\n```sql\nCREATE TABLE chats (id TEXT);\n```\n\n[Attachment: diagram.png]'
+    )
+  })
+
+  it('should label messages with their IDs and note omitted messages', () => {
+    const transcript = formatTranscript(
+      conversation,
+      [
+        message({ id: 'm2', parentId: 'm1', parts: [{ type: 'text', text: 'Retry' }] }),
+        message({ id: 'm3', parentId: 'm1', parts: [{ type: 'text', text: 'Again' }] })
+      ],
+      { messageIds: true, omittedMessages: 1 }
+    )
+
+    expect(transcript).toContain('_1 earlier messages not shown_')
+    expect(transcript).toContain('## User [id: m2, parent: m1]\n\nRetry')
+    expect(transcript).toContain('## User [id: m3, parent: m1]\n\nAgain')
+  })
+})
@@ -0,0 +1,62 @@
+import { createHash, randomBytes } from 'node:crypto'
+import type { ProviderName } from '../../shared/types'
+
+/**
+ * MCP client authentication
+ *
+ * Clients send `Authorization: Bearer <token>` with every request. Tokens are created
+ * in Settings and stored hashed (see tokens.ts). Requests must also name the server by
+ * a loopback Host and, when a browser sends one, come from a loopback Origin, so web
+ * pages can't reach the server through DNS rebinding.
+ */
+
+export interface McpClient {
+  tokenId: string
+  name: string
+  providers: ProviderName[] | null // Providers the client may read, null for all
+}
+
+const TOKEN_PREFIX = 'oyc_'
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]'])
+
+export function generateToken(): string {
+  return `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function parseBearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i)
+  return match ? match[1] : null
+}
+
+// A rebound DNS name still arrives with the attacker's hostname in Host
+export function isAllowedHost(host: string | undefined, port: number): boolean {
+  if (!host) return false
+  try {
+    const url = new URL(`http://${host}`)
+    return LOOPBACK_HOSTNAMES.has(url.hostname) && (url.port || '80') === String(port)
+  } catch {
+    return false
+  }
+}
+
+// Clients outside a browser send no Origin; local web tools (e.g. MCP Inspector) may use any port
+export function isAllowedOrigin(origin: string | undefined): boolean {
+  if (!origin) return true
+  try {
+    const url = new URL(origin)
+    return (
+      (url.protocol === 'http:' || url.protocol === 'https:') &&
+      LOOPBACK_HOSTNAMES.has(url.hostname)
+    )
+  } catch {
+    return false
+  }
+}
+
+export function canReadProvider(client: McpClient, provider: ProviderName): boolean {
+  return client.providers === null || client.providers.includes(provider)
+}
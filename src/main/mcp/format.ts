@@ -0,0 +1,81 @@
+import type { Conversation, ConversationSearchResult, Message } from '../../shared/types'
+import { formatDate } from '../export/utils'
+import { getProviderName } from './resources'
+
+/**
+ * Compact plain-text output of the MCP tools (`format: "text"`).
+ * One entry per conversation or message, a line each for details and snippet.
+ */
+
+// Snippets are excerpts, line breaks in them only cost context
+function flatten(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function conversationHeading(conversation: Conversation): string {
+  return `- ${conversation.title || 'Untitled'} [${conversation.id}]`
+}
+
+function conversationDetails(conversation: Conversation): string {
+  return [
+    getProviderName(conversation.provider),
+    conversation.mode,
+    `created ${formatDate(conversation.createdAt)}`,
+    `updated ${formatDate(conversation.updatedAt)}`,
+    `${conversation.messageCount} messages`,
+    conversation.remoteStatus && `${conversation.remoteStatus} on the provider`,
+    conversation.starred && 'starred',
+    conversation.folder && `in ${conversation.folder.path}`,
+    conversation.tags?.map((tag) => `#${tag}`).join(' ')
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+export function formatConversationList(items: ConversationSearchResult[], summary: string): string {
+  const lines = [summary]
+  for (const conversation of items) {
+    lines.push(conversationHeading(conversation), `  ${conversationDetails(conversation)}`)
+    if (conversation.snippet) {
+      lines.push(`  > ${flatten(conversation.snippet)}`)
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+export function formatMessageHits(
+  items: Array<{ message: Message; conversation: Conversation; snippet: string }>,
+  summary: string
+): string {
+  const lines = [summary]
+  for (const { message, conversation, snippet } of items) {
+    const details = [
+      `message ${message.id}`,
+      message.role,
+      message.model,
+      formatDate(message.createdAt),
+      getProviderName(conversation.provider)
+    ]
+    lines.push(
+      conversationHeading(conversation),
+      `  ${details.filter(Boolean).join(' · ')}`,
+      `  > ${flatten(snippet)}`
+    )
+  }
+  return lines.join('\n') + '\n'
+}
+
+export function formatSimilarityHits(
+  items: Array<{ conversation: Conversation; messageId: string; snippet: string; score: number }>,
+  summary: string
+): string {
+  const lines = [summary]
+  for (const { conversation, messageId, snippet, score } of items) {
+    lines.push(
+      conversationHeading(conversation),
+      `  score ${score.toFixed(3)} · message ${messageId} · ${conversationDetails(conversation)}`,
+      `  > ${flatten(snippet)}`
+    )
+  }
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,130 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import * as db from '../db/operations'
+import { semanticSearch } from '../embeddings'
+import { getConversationUri, getProviderName, readConversationTranscript } from './resources'
+import type { McpClient } from './auth'
+
+type PromptMessage = GetPromptResult['messages'][number]
+
+const DEFAULT_TOPIC_CONVERSATIONS = 5
+const MAX_TOPIC_CONVERSATIONS = 20
+
+// Attach a conversation transcript the way resources/read returns it
+async function conversationMessage(id: string, client: McpClient): Promise<PromptMessage> {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri: getConversationUri(id),
+        mimeType: 'text/markdown',
+        text: await readConversationTranscript(id, client)
+      }
+    }
+  }
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } }
+}
+
+/**
+ * Conversations about a topic: by meaning when the embedding model is available,
+ * by full-text match otherwise.
+ */
+async function findConversationIds(
+  topic: string,
+  limit: number,
+  client: McpClient
+): Promise<string[]> {
+  const providers = client.providers ?? undefined
+  try {
+    const hits = await semanticSearch(topic, { limit, providers })
+    if (hits.length > 0) {
+      return hits.map((hit) => hit.conversation.id)
+    }
+  } catch (error) {
+    console.error('[MCP] Semantic search failed, falling back to full-text search:', error)
+  }
+
+  const { items } = await db.searchMessages(topic, { limit: limit * 10, providers })
+  return [...new Set(items.map((item) => item.conversation.id))].slice(0, limit)
+}
+
+export function registerPrompts(server: McpServer, client: McpClient): void {
+  server.registerPrompt(
+    'continue_conversation',
+    {
+      title: 'Continue this conversation',
+      description:
+        'Attach a synced conversation and pick it up where it left off, with any model or assistant.',
+      argsSchema: {
+        conversationId: z.string().describe('ID of the conversation to continue')
+      }
+    },
+    async ({ conversationId }) => {
+      console.log('[MCP] Prompt: continue_conversation', JSON.stringify({ conversationId }))
+      const conversation = await db.getConversation(conversationId)
+      const provider = conversation ? getProviderName(conversation.provider) : 'another assistant'
+
+      return {
+        description: `Continue "${conversation?.title ?? conversationId}"`,
+        messages: [
+          await conversationMessage(conversationId, client),
+          textMessage(
+            `The attached transcript is a conversation I had with ${provider}. Continue it from where it left off: keep the context and decisions already made, pick up the last open question or task, and don't repeat what was already said.`
+          )
+        ]
+      }
+    }
+  )
+
+  server.registerPrompt(
+    'summarize_topic',
+    {
+      title: 'Summarize my history on a topic',
+      description:
+        'Find the conversations about a topic across all providers and summarize what was discussed and concluded.',
+      argsSchema: {
+        topic: z.string().describe('Topic to summarize, e.g. "migrating the app to SQLite"'),
+        limit: z
+          .string()
+          .optional()
+          .describe(
+            `Number of conversations to include (default: ${DEFAULT_TOPIC_CONVERSATIONS}, max: ${MAX_TOPIC_CONVERSATIONS})`
+          )
+      }
+    },
+    async ({ topic, limit }) => {
+      console.log('[MCP] Prompt: summarize_topic', JSON.stringify({ topic, limit }))
+      const count = Math.min(
+        Math.max(Number.parseInt(limit ?? '', 10) || DEFAULT_TOPIC_CONVERSATIONS, 1),
+        MAX_TOPIC_CONVERSATIONS
+      )
+      const ids = await findConversationIds(topic, count, client)
+
+      if (ids.length === 0) {
+        return {
+          description: `No conversations about "${topic}"`,
+          messages: [
+            textMessage(
+              `I searched my chat history for "${topic}" and found nothing. Tell me so, and suggest other terms I could search for.`
+            )
+          ]
+        }
+      }
+
+      return {
+        description: `Summarize ${ids.length} conversations about "${topic}"`,
+        messages: [
+          ...(await Promise.all(ids.map((id) => conversationMessage(id, client)))),
+          textMessage(
+            `The attached transcripts are the conversations from my chat history most related to "${topic}". Summarize what I've discussed about it: the key questions, the answers and decisions I arrived at, how my thinking changed over time, and what is still open. Refer to conversations by their titles.`
+          )
+        ]
+      }
+    }
+  )
+}
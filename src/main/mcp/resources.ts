@@ -0,0 +1,150 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import * as db from '../db/operations'
+import { store } from '../store'
+import { formatTranscript } from './transcript'
+import { canReadProvider, type McpClient } from './auth'
+import type { ProviderName } from '../../shared/types'
+
+/**
+ * MCP resources
+ *
+ *   ownyourchat://conversation/{id}                  Markdown transcript of a conversation
+ *   ownyourchat://provider/{provider}/conversations  JSON listing of a provider's conversations
+ */
+
+// Conversations returned by resources/list; older ones are in the provider listings
+const LISTED_CONVERSATIONS_LIMIT = 200
+const PROVIDER_LISTING_LIMIT = 1000
+
+export function getConversationUri(id: string): string {
+  return `ownyourchat://conversation/${encodeURIComponent(id)}`
+}
+
+export function getProviderConversationsUri(provider: ProviderName): string {
+  return `ownyourchat://provider/${encodeURIComponent(provider)}/conversations`
+}
+
+export function getProviderName(provider: ProviderName): string {
+  return store.getState().registeredProviders.find((info) => info.id === provider)?.name ?? provider
+}
+
+// URI template variables are strings, or arrays for explode (`{id*}`) variables
+function getVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value)
+}
+
+/**
+ * Markdown transcript of a conversation; throws an MCP error if it doesn't exist
+ * or is outside the client's provider scope.
+ */
+export async function readConversationTranscript(id: string, client: McpClient): Promise<string> {
+  const result = await db.getConversationWithMessages(id)
+  if (!result || !canReadProvider(client, result.conversation.provider)) {
+    throw new McpError(ErrorCode.InvalidParams, `Conversation not found: ${id}`)
+  }
+  return formatTranscript(result.conversation, result.messages, {
+    providerName: getProviderName(result.conversation.provider)
+  })
+}
+
+export function registerResources(server: McpServer, client: McpClient): void {
+  const providers = client.providers ?? undefined
+
+  server.registerResource(
+    'conversation',
+    new ResourceTemplate('ownyourchat://conversation/{id}', {
+      list: async () => {
+        const { items } = await db.listConversations({
+          providers,
+          limit: LISTED_CONVERSATIONS_LIMIT
+        })
+        return {
+          resources: items.map((conversation) => ({
+            uri: getConversationUri(conversation.id),
+            name: conversation.title || 'Untitled',
+            description: `${getProviderName(conversation.provider)} conversation, ${conversation.messageCount} messages`,
+            mimeType: 'text/markdown'
+          }))
+        }
+      }
+    }),
+    {
+      title: 'Conversation',
+      description: 'Transcript of a synced conversation: messages, sources and artifacts',
+      mimeType: 'text/markdown'
+    },
+    async (uri, { id }) => {
+      console.log('[MCP] Resource read:', uri.href)
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/markdown',
+            text: await readConversationTranscript(getVariable(id), client)
+          }
+        ]
+      }
+    }
+  )
+
+  server.registerResource(
+    'provider-conversations',
+    new ResourceTemplate('ownyourchat://provider/{provider}/conversations', {
+      list: async () => {
+        const counts = await db.getProviderCounts()
+        return {
+          resources: Object.entries(counts)
+            .filter(([provider, count]) => count > 0 && canReadProvider(client, provider))
+            .map(([provider, count]) => ({
+              uri: getProviderConversationsUri(provider),
+              name: `${getProviderName(provider)} conversations`,
+              description: `${count} conversations synced from ${getProviderName(provider)}`,
+              mimeType: 'application/json'
+            }))
+        }
+      },
+      complete: {
+        provider: (value) =>
+          store
+            .getState()
+            .registeredProviders.map((info) => info.id)
+            .filter((id) => id.startsWith(value) && canReadProvider(client, id))
+      }
+    }),
+    {
+      title: 'Provider conversations',
+      description:
+        'Conversations synced from one provider, most recently updated first, with the URI of each transcript',
+      mimeType: 'application/json'
+    },
+    async (uri, { provider }) => {
+      console.log('[MCP] Resource read:', uri.href)
+      const providerId = getVariable(provider)
+      if (!canReadProvider(client, providerId)) {
+        throw new McpError(ErrorCode.InvalidParams, `Provider not found: ${providerId}`)
+      }
+      const result = await db.listConversations({
+        provider: providerId,
+        limit: PROVIDER_LISTING_LIMIT
+      })
+      const listing = {
+        provider: providerId,
+        total: result.total,
+        conversations: result.items.map((conversation) => ({
+          uri: getConversationUri(conversation.id),
+          id: conversation.id,
+          title: conversation.title,
+          createdAt: conversation.createdAt,
+          updatedAt: conversation.updatedAt,
+          messageCount: conversation.messageCount
+        }))
+      }
+      return {
+        contents: [
+          { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(listing, null, 2) }
+        ]
+      }
+    }
+  )
+}
@@ -2,116 +2,30 @@ import { randomUUID } from 'node:crypto'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
-import { z } from 'zod'
-import * as db from '../db/operations'
+import { registerTools } from './tools'
+import { registerResources } from './resources'
+import { registerPrompts } from './prompts'
+import { isAllowedHost, isAllowedOrigin, type McpClient } from './auth'
+import { authenticate, recordCalls } from './tokens'
 import { createServer } from 'http'
 import type { Server as HttpServer, IncomingMessage, ServerResponse } from 'http'
 
 let httpServer: HttpServer | null = null
 let isRunning = false
 
-const transports: Map<string, StreamableHTTPServerTransport> = new Map()
+// Sessions belong to the client whose token opened them
+const sessions: Map<string, { transport: StreamableHTTPServerTransport; client: McpClient }> =
+  new Map()
 
-const createMcpServer = () => {
+/**
+ * MCP server with the tools, resources and prompts a client may use.
+ */
+export function createMcpServer(client: McpClient): McpServer {
   const server = new McpServer({ name: 'ownyourchat', version: '1.0.0' })
 
-  server.registerTool(
-    'list_conversations',
-    {
-      description:
-        'List conversations from the local database. Returns a paginated list of ChatGPT and Claude conversations synced to the local database.',
-      inputSchema: {
-        limit: z
-          .number()
-          .optional()
-          .describe('Maximum number of conversations to return (default: 50)'),
-        offset: z
-          .number()
-          .optional()
-          .describe('Number of conversations to skip for pagination (default: 0)')
-      }
-    },
-    async ({ limit, offset }) => {
-      console.log('[MCP] Tool call: list_conversations', JSON.stringify({ limit, offset }))
-      const result = await db.listConversations({ limit: limit ?? 50, offset: offset ?? 0 })
-      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
-    }
-  )
-
-  server.registerTool(
-    'get_conversation_with_messages',
-    {
-      description:
-        'Get a specific conversation with all its messages. Returns detailed conversation data including the full message history with attachments.',
-      inputSchema: {
-        id: z.string().describe('The unique ID of the conversation to retrieve'),
-        limit: z.number().optional().describe('Optional limit on number of messages to return')
-      }
-    },
-    async ({ id, limit }) => {
-      console.log('[MCP] Tool call: get_conversation_with_messages', JSON.stringify({ id, limit }))
-      const result = await db.getConversationWithMessages(id, limit ? { limit } : undefined)
-      if (!result) {
-        return {
-          content: [{ type: 'text', text: JSON.stringify({ error: 'Conversation not found' }) }],
-          isError: true
-        }
-      }
-      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
-    }
-  )
-
-  server.registerTool(
-    'search_conversations',
-    {
-      description:
-        'Search conversations by keywords in their titles. Returns conversations where the title contains ANY of the provided keywords.',
-      inputSchema: {
-        keywords: z
-          .array(z.string())
-          .describe('Array of keywords to search for in conversation titles'),
-        limit: z.number().optional().describe('Maximum number of results to return (default: 50)'),
-        caseInsensitive: z
-          .boolean()
-          .optional()
-          .describe('Whether to perform case-insensitive search (default: true)')
-      }
-    },
-    async ({ keywords, limit, caseInsensitive }) => {
-      console.log(
-        '[MCP] Tool call: search_conversations',
-        JSON.stringify({ keywords, limit, caseInsensitive })
-      )
-      const result = await db.searchConversationsByKeywords(keywords, { limit, caseInsensitive })
-      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
-    }
-  )
-
-  server.registerTool(
-    'search_messages',
-    {
-      description:
-        'Search messages by keywords in their content. Returns messages where the content contains ANY of the provided keywords. Each result includes the message, its parent conversation, and which keywords matched.',
-      inputSchema: {
-        keywords: z
-          .array(z.string())
-          .describe('Array of keywords to search for in message content'),
-        limit: z.number().optional().describe('Maximum number of results to return (default: 50)'),
-        caseInsensitive: z
-          .boolean()
-          .optional()
-          .describe('Whether to perform case-insensitive search (default: true)')
-      }
-    },
-    async ({ keywords, limit, caseInsensitive }) => {
-      console.log(
-        '[MCP] Tool call: search_messages',
-        JSON.stringify({ keywords, limit, caseInsensitive })
-      )
-      const result = await db.searchMessagesByKeywords(keywords, { limit, caseInsensitive })
-      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
-    }
-  )
+  registerTools(server, client)
+  registerResources(server, client)
+  registerPrompts(server, client)
 
   return server
 }
@@ -145,9 +59,26 @@ export async function startMcpServer(port: number = 37777): Promise<void> {
       // Log all incoming requests
       console.log(`[MCP] <- ${req.method} ${req.url} session=${sessionId ?? 'none'}`)
 
-      res.setHeader('Access-Control-Allow-Origin', '*')
+      // Reject DNS rebinding and requests from web pages before anything else
+      const origin = req.headers.origin
+      if (!isAllowedHost(req.headers.host, port) || !isAllowedOrigin(origin)) {
+        console.log(
+          `[MCP] -> 403 Host ${req.headers.host ?? 'none'} or Origin ${origin ?? 'none'} not allowed`
+        )
+        res.writeHead(403, { 'Content-Type': 'application/json' })
+        res.end(
+          JSON.stringify({ error: 'forbidden', error_description: 'Host or Origin not allowed' })
+        )
+        return
+      }
+
+      // Only local origins get here, so they can be echoed back
+      if (origin) {
+        res.setHeader('Access-Control-Allow-Origin', origin)
+        res.setHeader('Vary', 'Origin')
+      }
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS')
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, mcp-session-id')
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-session-id')
       res.setHeader('Access-Control-Expose-Headers', 'mcp-session-id')
 
       if (req.method === 'OPTIONS') {
@@ -162,7 +93,8 @@ export async function startMcpServer(port: number = 37777): Promise<void> {
         return
       }
 
-      // handle OAuth discovery - return 404 JSON to indicate no auth server
+      // handle OAuth discovery - return 404 JSON to indicate no auth server,
+      // tokens are created in Settings instead
       if (req.url?.startsWith('/.well-known/')) {
         console.log(`[MCP] -> 404 ${req.url} (OAuth not configured)`)
         res.writeHead(404, { 'Content-Type': 'application/json' })
@@ -178,42 +110,66 @@ export async function startMcpServer(port: number = 37777): Promise<void> {
       }
 
       try {
+        const client = await authenticate(req.headers.authorization)
+        if (!client) {
+          console.log('[MCP] -> 401 Missing or unknown bearer token')
+          res.writeHead(401, {
+            'Content-Type': 'application/json',
+            'WWW-Authenticate': 'Bearer realm="OwnYourChat"'
+          })
+          res.end(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              error: {
+                code: -32001,
+                message: 'Unauthorized: send a token from OwnYourChat Settings as a Bearer token'
+              },
+              id: null
+            })
+          )
+          return
+        }
+
+        // A session can't be used with another client's token
+        const session = sessionId ? sessions.get(sessionId) : undefined
+        const transport = session?.client.tokenId === client.tokenId ? session.transport : null
+
         if (req.method === 'POST') {
           const body = await parseBody(req)
 
           // Log JSON-RPC method details
           const jsonRpcBody = body as { method?: string; id?: unknown }
           console.log(
-            `[MCP]    method=${jsonRpcBody.method ?? 'unknown'} id=${jsonRpcBody.id ?? '-'}`
+            `[MCP]    client=${client.name} method=${jsonRpcBody.method ?? 'unknown'} id=${jsonRpcBody.id ?? '-'}`
           )
 
-          if (sessionId && transports.has(sessionId)) {
-            const transport = transports.get(sessionId)!
+          if (transport) {
+            await recordCalls(client, body)
             await transport.handleRequest(req, res, body)
             return
           }
 
           if (!sessionId && isInitializeRequest(body)) {
             console.log('[MCP] New initialization request')
-            const transport = new StreamableHTTPServerTransport({
+            const newTransport = new StreamableHTTPServerTransport({
               sessionIdGenerator: () => randomUUID(),
               onsessioninitialized: (newSessionId) => {
-                console.log(`[MCP] Session initialized: ${newSessionId}`)
-                transports.set(newSessionId, transport)
+                console.log(`[MCP] Session initialized: ${newSessionId} (${client.name})`)
+                sessions.set(newSessionId, { transport: newTransport, client })
               }
             })
 
-            transport.onclose = () => {
-              const sid = transport.sessionId
-              if (sid && transports.has(sid)) {
+            newTransport.onclose = () => {
+              const sid = newTransport.sessionId
+              if (sid && sessions.has(sid)) {
                 console.log(`[MCP] Transport closed for session ${sid}`)
-                transports.delete(sid)
+                sessions.delete(sid)
               }
             }
 
-            const server = createMcpServer()
-            await server.connect(transport)
-            await transport.handleRequest(req, res, body)
+            const server = createMcpServer(client)
+            await server.connect(newTransport)
+            await newTransport.handleRequest(req, res, body)
             return
           }
 
@@ -230,7 +186,7 @@ export async function startMcpServer(port: number = 37777): Promise<void> {
         }
 
         if (req.method === 'GET') {
-          if (!sessionId || !transports.has(sessionId)) {
+          if (!transport) {
             console.log(`[MCP] -> 404 Session not found: ${sessionId ?? 'none'}`)
             res.writeHead(404, { 'Content-Type': 'application/json' })
             res.end(
@@ -242,19 +198,17 @@ export async function startMcpServer(port: number = 37777): Promise<void> {
             )
             return
           }
-          const transport = transports.get(sessionId)!
           await transport.handleRequest(req, res)
           return
         }
 
         if (req.method === 'DELETE') {
-          if (!sessionId || !transports.has(sessionId)) {
+          if (!transport) {
             console.log(`[MCP] -> 200 Session already terminated: ${sessionId ?? 'none'}`)
             res.writeHead(200, { 'Content-Type': 'application/json' })
             res.end(JSON.stringify({ status: 'ok' }))
             return
           }
-          const transport = transports.get(sessionId)!
           await transport.handleRequest(req, res)
           return
         }
@@ -303,7 +257,7 @@ export async function stopMcpServer(): Promise<void> {
   }
 
   try {
-    for (const [sessionId, transport] of transports) {
+    for (const [sessionId, { transport }] of sessions) {
       try {
         console.log(`[MCP] Closing transport for session ${sessionId}`)
         await transport.close()
@@ -311,7 +265,7 @@ export async function stopMcpServer(): Promise<void> {
         console.error(`[MCP] Error closing transport for session ${sessionId}:`, error)
       }
     }
-    transports.clear()
+    sessions.clear()
 
     if (httpServer) {
       await new Promise<void>((resolve, reject) => {
@@ -331,6 +285,18 @@ export async function stopMcpServer(): Promise<void> {
   }
 }
 
+/**
+ * Close the sessions opened with a token, so a revoked client is disconnected right away.
+ */
+export async function closeClientSessions(tokenId: string): Promise<void> {
+  for (const [sessionId, { transport, client }] of sessions) {
+    if (client.tokenId !== tokenId) continue
+    console.log(`[MCP] Closing session ${sessionId} of revoked client ${client.name}`)
+    sessions.delete(sessionId)
+    await transport.close()
+  }
+}
+
 export function isMcpServerRunning(): boolean {
   return isRunning
 }
@@ -0,0 +1,72 @@
+/**
+ * Stdio MCP server
+ *
+ * Serves the tools, resources and prompts of the HTTP server (server.ts) over
+ * stdin/stdout, for clients that launch MCP servers as processes (e.g. Claude Desktop).
+ * It doesn't need the app to be running: the app's binary runs this file as plain Node
+ * (ELECTRON_RUN_AS_NODE=1), so native modules match, and the database is opened read-only.
+ *
+ *   OwnYourChat out/main/mcp-stdio.js [--db <path>] [--providers chatgpt,claude]
+ */
+import path from 'path'
+import { parseArgs } from 'util'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { closeDatabase, openDatabase } from '../db/connection'
+import { stopEmbeddingWorker } from '../embeddings'
+import { DB_FILENAME, getUserDataPath, configureEmbeddingWorker } from '../headless'
+import { createMcpServer } from './server'
+import type { McpClient } from './auth'
+
+// stdout carries the protocol, so logs go to stderr
+console.log = console.error
+console.info = console.error
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      db: { type: 'string' },
+      providers: { type: 'string' }
+    }
+  })
+
+  const userDataPath = getUserDataPath()
+  const dbPath = values.db ?? path.join(userDataPath, DB_FILENAME)
+
+  try {
+    // The app may be writing to it meanwhile; this process never migrates or writes
+    openDatabase(dbPath, { readonly: true, fileMustExist: true })
+  } catch (error) {
+    console.error(`[MCP] Failed to open ${dbPath}. Start OwnYourChat once or pass --db:`, error)
+    process.exit(1)
+  }
+
+  configureEmbeddingWorker(userDataPath)
+
+  // Whoever can launch this process can read the database file, so there is no token
+  const providers = values.providers
+    ?.split(',')
+    .map((provider) => provider.trim())
+    .filter(Boolean)
+  const client: McpClient = {
+    tokenId: 'stdio',
+    name: 'stdio',
+    providers: providers?.length ? providers : null
+  }
+
+  const server = createMcpServer(client)
+  await server.connect(new StdioServerTransport())
+  console.log('[MCP] Stdio server running with', dbPath)
+
+  // The client closes stdin when it stops the server
+  process.stdin.on('end', async () => {
+    await server.close()
+    await stopEmbeddingWorker()
+    closeDatabase()
+    process.exit(0)
+  })
+}
+
+main().catch((error) => {
+  console.error('[MCP] Stdio server failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,79 @@
+import { randomUUID } from 'node:crypto'
+import * as db from '../db/operations'
+import { generateToken, hashToken, parseBearerToken, type McpClient } from './auth'
+import type { McpTokenInfo, ProviderName } from '../../shared/types'
+
+// Characters of a token kept in plain text to tell tokens apart in Settings
+const TOKEN_PREFIX_LENGTH = 10
+
+// lastUsedAt is written at most once a minute per token
+const LAST_USED_INTERVAL_MS = 60_000
+
+// Calls that read data, with the field naming what was read; protocol housekeeping isn't logged
+const AUDITED_METHODS = new Map<string, 'name' | 'uri'>([
+  ['tools/call', 'name'],
+  ['resources/read', 'uri'],
+  ['prompts/get', 'name']
+])
+
+/**
+ * Create a token for a new client. The token is returned once and only its hash is kept.
+ */
+export async function createToken(
+  name: string,
+  providers: ProviderName[] | null
+): Promise<{ token: string; info: McpTokenInfo }> {
+  const token = generateToken()
+  const info = await db.createMcpToken({
+    id: randomUUID(),
+    name: name.trim() || 'MCP client',
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+    providers: providers ? JSON.stringify(providers) : null,
+    createdAt: new Date()
+  })
+  return { token, info }
+}
+
+/**
+ * Client of a request's Authorization header, or null if the token is missing or revoked.
+ */
+export async function authenticate(authorization: string | undefined): Promise<McpClient | null> {
+  const token = parseBearerToken(authorization)
+  if (!token) return null
+
+  const info = await db.getMcpTokenByHash(hashToken(token))
+  if (!info) return null
+
+  const now = new Date()
+  if (!info.lastUsedAt || now.getTime() - info.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+    await db.setMcpTokenLastUsed(info.id, now)
+  }
+
+  return { tokenId: info.id, name: info.name, providers: info.providers }
+}
+
+/**
+ * Add the data-reading calls of a JSON-RPC request body to the audit log.
+ */
+export async function recordCalls(client: McpClient, body: unknown): Promise<void> {
+  const requests = Array.isArray(body) ? body : [body]
+
+  for (const request of requests) {
+    const { method, params } = (request ?? {}) as {
+      method?: string
+      params?: { name?: string; uri?: string; arguments?: unknown }
+    }
+    const targetField = method ? AUDITED_METHODS.get(method) : undefined
+    if (!method || !targetField) continue
+
+    await db.addMcpAuditEntry({
+      tokenId: client.tokenId,
+      clientName: client.name,
+      method,
+      target: params?.[targetField] ?? null,
+      arguments: params?.arguments ? JSON.stringify(params.arguments) : null,
+      createdAt: new Date()
+    })
+  }
+}
@@ -0,0 +1,317 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import * as db from '../db/operations'
+import { semanticSearch } from '../embeddings'
+import { getActiveBranch } from '../../shared/branch-utils'
+import { getProviderName } from './resources'
+import { formatTranscript } from './transcript'
+import { formatConversationList, formatMessageHits, formatSimilarityHits } from './format'
+import { canReadProvider, type McpClient } from './auth'
+
+type ToolResult = { content: Array<{ type: 'text'; text: string }>; isError?: boolean }
+
+const DATE_DESCRIPTION = 'ISO date or date-time, e.g. "2024-06-01" or "2024-06-01T12:00:00Z"'
+
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: `Expected an ${DATE_DESCRIPTION}`
+})
+
+// Filters accepted by the listing and search tools (see db.ConversationFilters)
+const filterSchema = {
+  provider: z
+    .string()
+    .optional()
+    .describe('Only conversations from this provider, e.g. "chatgpt", "claude" or "perplexity"'),
+  model: z
+    .string()
+    .optional()
+    .describe('Only conversations with messages generated by this model, e.g. "gpt-4o"'),
+  createdAfter: isoDate
+    .optional()
+    .describe(`Only conversations created at or after this time. ${DATE_DESCRIPTION}`),
+  createdBefore: isoDate
+    .optional()
+    .describe(`Only conversations created before this time. ${DATE_DESCRIPTION}`),
+  updatedAfter: isoDate
+    .optional()
+    .describe(`Only conversations updated at or after this time. ${DATE_DESCRIPTION}`),
+  updatedBefore: isoDate
+    .optional()
+    .describe(`Only conversations updated before this time. ${DATE_DESCRIPTION}`),
+  tag: z.string().optional().describe('Only conversations with this tag, e.g. "project-x"'),
+  folder: z
+    .string()
+    .optional()
+    .describe(
+      'Only conversations in this folder or its subfolders, by ID or path, e.g. "Work/Clients"'
+    ),
+  starred: z.boolean().optional().describe('Only starred (true) or unstarred (false) conversations')
+}
+
+const formatSchema = {
+  format: z
+    .enum(['text', 'json'])
+    .optional()
+    .describe(
+      'Output format: "text" for a compact plain-text listing (default), "json" for structured data'
+    )
+}
+
+type FilterArgs = {
+  provider?: string
+  model?: string
+  createdAfter?: string
+  createdBefore?: string
+  updatedAfter?: string
+  updatedBefore?: string
+  tag?: string
+  folder?: string
+  starred?: boolean
+}
+
+// Conversations outside the client's provider scope are filtered out
+function toFilters(args: FilterArgs, client: McpClient): db.ConversationFilters {
+  const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined)
+  return {
+    provider: args.provider,
+    providers: client.providers ?? undefined,
+    model: args.model,
+    createdAfter: toDate(args.createdAfter),
+    createdBefore: toDate(args.createdBefore),
+    updatedAfter: toDate(args.updatedAfter),
+    updatedBefore: toDate(args.updatedBefore),
+    tag: args.tag,
+    folder: args.folder,
+    starred: args.starred
+  }
+}
+
+function textResult(text: string): ToolResult {
+  return { content: [{ type: 'text', text }] }
+}
+
+// JSON output is not indented, whitespace only costs the client context
+function jsonResult(value: unknown): ToolResult {
+  return textResult(JSON.stringify(value))
+}
+
+function errorResult(error: string): ToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify({ error }) }], isError: true }
+}
+
+/**
+ * Tools shared by the HTTP server and the stdio server (stdio.ts).
+ */
+export function registerTools(server: McpServer, client: McpClient): void {
+  server.registerTool(
+    'list_conversations',
+    {
+      description:
+        'List conversations synced to the local database, most recently updated first. Supports pagination and filtering by provider, model, creation or update time, tag, folder and starred.',
+      inputSchema: {
+        limit: z
+          .number()
+          .optional()
+          .describe('Maximum number of conversations to return (default: 50)'),
+        offset: z
+          .number()
+          .optional()
+          .describe('Number of conversations to skip for pagination (default: 0)'),
+        ...filterSchema,
+        ...formatSchema
+      }
+    },
+    async ({ limit, offset, format, ...filters }) => {
+      console.log(
+        '[MCP] Tool call: list_conversations',
+        JSON.stringify({ limit, offset, format, ...filters })
+      )
+      const result = await db.listConversations({
+        ...toFilters(filters, client),
+        limit: limit ?? 50,
+        offset: offset ?? 0
+      })
+      if (format === 'json') {
+        return jsonResult(result)
+      }
+      const start = result.items.length > 0 ? (offset ?? 0) + 1 : 0
+      const end = (offset ?? 0) + result.items.length
+      return textResult(
+        formatConversationList(
+          result.items,
+          `Conversations ${start}-${end} of ${result.total}${result.hasMore ? ', use offset for more' : ''}`
+        )
+      )
+    }
+  )
+
+  server.registerTool(
+    'get_conversation_with_messages',
+    {
+      description:
+        'Get a conversation with its messages. By default returns the active branch: the messages shown by the provider, from the first message to the current one. Set branch to "all" to get every message of every branch (edits and regenerations), with parent IDs to rebuild the tree.',
+      inputSchema: {
+        id: z.string().describe('The unique ID of the conversation to retrieve'),
+        limit: z
+          .number()
+          .optional()
+          .describe('Optional limit on number of messages to return, counting from the latest'),
+        branch: z
+          .enum(['active', 'all'])
+          .optional()
+          .describe('"active" for the current branch (default), "all" for the full message tree'),
+        format: z
+          .enum(['text', 'json'])
+          .optional()
+          .describe(
+            'Output format: "text" for a markdown transcript (default), "json" for structured data'
+          )
+      }
+    },
+    async ({ id, limit, branch, format }) => {
+      console.log(
+        '[MCP] Tool call: get_conversation_with_messages',
+        JSON.stringify({ id, limit, branch, format })
+      )
+      const result = await db.getConversationWithMessages(id)
+      if (!result || !canReadProvider(client, result.conversation.provider)) {
+        return errorResult('Conversation not found')
+      }
+
+      const fullTree = branch === 'all'
+      const allMessages = fullTree
+        ? result.messages
+        : getActiveBranch(result.messages, result.conversation.currentNodeId)
+      const messages = limit ? allMessages.slice(-limit) : allMessages
+      const omittedMessages = allMessages.length - messages.length
+
+      if (format === 'json') {
+        return jsonResult({
+          conversation: result.conversation,
+          messages,
+          hasMoreMessages: omittedMessages > 0,
+          branch: fullTree ? 'all' : 'active'
+        })
+      }
+      return textResult(
+        formatTranscript(result.conversation, messages, {
+          providerName: getProviderName(result.conversation.provider),
+          messageIds: fullTree,
+          omittedMessages
+        })
+      )
+    }
+  )
+
+  server.registerTool(
+    'search_conversations',
+    {
+      description:
+        'Search conversations by keywords in their titles. Returns conversations where the title contains ANY of the provided keywords.',
+      inputSchema: {
+        keywords: z
+          .array(z.string())
+          .describe('Array of keywords to search for in conversation titles'),
+        limit: z.number().optional().describe('Maximum number of results to return (default: 50)'),
+        caseInsensitive: z
+          .boolean()
+          .optional()
+          .describe('Whether to perform case-insensitive search (default: true)'),
+        ...filterSchema,
+        ...formatSchema
+      }
+    },
+    async ({ keywords, limit, caseInsensitive, format, ...filters }) => {
+      console.log(
+        '[MCP] Tool call: search_conversations',
+        JSON.stringify({ keywords, limit, caseInsensitive, format, ...filters })
+      )
+      const result = await db.searchConversationsByKeywords(keywords, {
+        ...toFilters(filters, client),
+        limit,
+        caseInsensitive
+      })
+      if (format === 'json') {
+        return jsonResult(result)
+      }
+      return textResult(formatConversationList(result.items, `${result.total} conversations`))
+    }
+  )
+
+  server.registerTool(
+    'search_messages',
+    {
+      description:
+        'Full-text search over message content, ranked by relevance (BM25). Pass either a query, which supports "exact phrases", prefix* matching and AND / OR / NOT with parentheses, or a list of keywords to match messages containing ANY of them. Each result includes the message, its parent conversation and a snippet with matches highlighted. The model filter matches messages generated by that model.',
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe(
+            'Full-text query, e.g. "react hooks" OR useEffect*, or (sqlite OR postgres) NOT mysql'
+          ),
+        keywords: z
+          .array(z.string())
+          .optional()
+          .describe('Array of keywords to search for in message content (used when no query)'),
+        limit: z.number().optional().describe('Maximum number of results to return (default: 50)'),
+        caseInsensitive: z
+          .boolean()
+          .optional()
+          .describe('Whether to perform case-insensitive search (default: true)'),
+        ...filterSchema,
+        ...formatSchema
+      }
+    },
+    async ({ query, keywords, limit, caseInsensitive, format, ...filters }) => {
+      console.log(
+        '[MCP] Tool call: search_messages',
+        JSON.stringify({ query, keywords, limit, caseInsensitive, format, ...filters })
+      )
+      if (!query && !keywords?.length) {
+        return errorResult('Either query or keywords is required')
+      }
+      // Matches are wrapped in <mark></mark> in JSON, in **bold** in text
+      const highlight =
+        format === 'json' ? { start: '<mark>', end: '</mark>' } : { start: '**', end: '**' }
+      const options = { ...toFilters(filters, client), limit, caseInsensitive, highlight }
+      const result = query
+        ? await db.searchMessages(query, options)
+        : await db.searchMessagesByKeywords(keywords ?? [], options)
+      if (format === 'json') {
+        return jsonResult(result)
+      }
+      return textResult(formatMessageHits(result.items, `${result.total} messages`))
+    }
+  )
+
+  server.registerTool(
+    'semantic_search',
+    {
+      description:
+        'Find conversations by meaning rather than exact words, using a local embedding model. Returns conversations ranked by the similarity (cosine, higher is closer) of their closest message chunk to the query, with that chunk as a snippet and the ID of its message. Works across languages.',
+      inputSchema: {
+        query: z
+          .string()
+          .describe('What the conversation was about, e.g. "debugging a memory leak in a worker"'),
+        limit: z.number().optional().describe('Maximum number of results to return (default: 20)'),
+        ...filterSchema,
+        ...formatSchema
+      }
+    },
+    async ({ query, limit, format, ...filters }) => {
+      console.log(
+        '[MCP] Tool call: semantic_search',
+        JSON.stringify({ query, limit, format, ...filters })
+      )
+      const hits = await semanticSearch(query, {
+        ...toFilters(filters, client),
+        limit: limit ?? 20
+      })
+      if (format === 'json') {
+        return jsonResult({ items: hits, total: hits.length })
+      }
+      return textResult(formatSimilarityHits(hits, `${hits.length} conversations`))
+    }
+  )
+}
@@ -0,0 +1,88 @@
+import type { Conversation, Message, MessagePart } from '../../shared/types'
+import { codeBlock, formatDate } from '../export/utils'
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+}
+
+// Reasoning, tool activity and plans are left out; they cost context and rarely help
+function formatPart(part: MessagePart): string | null {
+  switch (part.type) {
+    case 'text':
+      return part.text
+    case 'source-url':
+      return part.title ? `[${part.title}](${part.url})` : part.url
+    case 'artifact': {
+      const title = part.title || part.artifactId
+      if (part.command === 'update') {
+        return `**Updated artifact:** ${title}`
+      }
+      return `**Artifact:** ${title}\n\n${codeBlock(part.content ?? '', part.language)}`
+    }
+    case 'related-queries':
+      return ['**Related:**', ...part.queries.map((query) => `- ${query}`)].join('\n')
+    default:
+      return null
+  }
+}
+
+/**
+ * Markdown transcript of a conversation for MCP clients to read as context.
+ * With `messageIds`, headings carry message and parent IDs so branches can be told apart.
+ */
+export function formatTranscript(
+  conversation: Conversation,
+  messages: Message[],
+  options?: { providerName?: string; messageIds?: boolean; omittedMessages?: number }
+): string {
+  const lines = [
+    `# ${conversation.title || 'Untitled'}`,
+    '',
+    [
+      `Provider: ${options?.providerName ?? conversation.provider}`,
+      `Created: ${formatDate(conversation.createdAt)}`,
+      `Updated: ${formatDate(conversation.updatedAt)}`
+    ].join(' · ')
+  ]
+
+  if (options?.omittedMessages) {
+    lines.push('', `_${options.omittedMessages} earlier messages not shown_`)
+  }
+
+  for (const message of messages) {
+    const label = ROLE_LABELS[message.role]
+    let heading = message.model ? `## ${label} (${message.model})` : `## ${label}`
+    if (options?.messageIds) {
+      heading += message.parentId
+        ? ` [id: ${message.id}, parent: ${message.parentId}]`
+        : ` [id: ${message.id}]`
+    }
+    lines.push('', heading, '')
+
+    // Text and source links run together, other parts become separate blocks
+    const blocks: string[] = []
+    let content = ''
+    for (const part of message.parts) {
+      const text = formatPart(part)
+      if (text === null) continue
+      if (part.type === 'text' || part.type === 'source-url') {
+        content += text
+      } else {
+        if (content) blocks.push(content)
+        content = ''
+        blocks.push(text)
+      }
+    }
+    if (content) blocks.push(content)
+
+    for (const attachment of message.attachments ?? []) {
+      blocks.push(`[Attachment: ${attachment.filename || attachment.type}]`)
+    }
+
+    lines.push(blocks.join('\n\n') || '_(no text)_')
+  }
+
+  return lines.join('\n') + '\n'
+}
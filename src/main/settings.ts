@@ -1,6 +1,7 @@
 import { app } from 'electron'
 import fs from 'fs'
 import path from 'path'
+import type { MarkdownExportOptions } from '../shared/types'
 
 export interface Settings {
   syncIntervalMinutes: number
@@ -8,6 +9,12 @@ export interface Settings {
   exportPath: string
   mcpEnabled: boolean
   mcpPort: number
+  mirrorEnabled: boolean
+  mirrorPath: string
+  mirrorFormat: 'markdown' | 'json'
+  mirrorIncludeAttachments: boolean
+  mirrorDeleteRemoved: boolean
+  mirrorMarkdown: MarkdownExportOptions
 }
 
 const defaultSettings: Settings = {
@@ -15,7 +22,13 @@ const defaultSettings: Settings = {
   autoSync: true,
   exportPath: path.join(app.getPath('documents'), 'OwnYourChat'),
   mcpEnabled: false,
-  mcpPort: 37777
+  mcpPort: 37777,
+  mirrorEnabled: false,
+  mirrorPath: '',
+  mirrorFormat: 'markdown',
+  mirrorIncludeAttachments: true,
+  mirrorDeleteRemoved: false,
+  mirrorMarkdown: {}
 }
 
 let currentSettings: Settings | null = null
@@ -67,3 +80,17 @@ export function getAttachmentsPath(): string {
   }
   return attachmentsPath
 }
+
+// Provider plugins, one folder each (see sync/providers/plugin-loader.ts)
+export function getPluginsPath(): string {
+  const pluginsPath = path.join(app.getPath('userData'), 'plugins')
+  if (!fs.existsSync(pluginsPath)) {
+    fs.mkdirSync(pluginsPath, { recursive: true })
+  }
+  return pluginsPath
+}
+
+// Embedding models that aren't bundled with the app are downloaded here on first use
+export function getModelCachePath(): string {
+  return path.join(app.getPath('userData'), 'models')
+}
@@ -1,10 +1,18 @@
 import { eq, and, isNotNull, lt } from 'drizzle-orm'
-import type { Conversation, ProviderStatus } from '@shared/types'
+import type { Conversation, Project, ProviderStatus } from '@shared/types'
 import type { ProviderName } from '../sync/providers/base'
 import * as dbOps from '../db/operations'
-import { getDatabase } from '../db/index'
+import { getDatabase } from '../db/connection'
 import { providerState, conversations } from '../db/schema'
-import type { NewConversation, NewMessage, NewAttachment } from '../db/schema'
+import type {
+  NewConversation,
+  NewMessage,
+  NewAttachment,
+  NewArtifact,
+  NewProject,
+  NewProjectDocument
+} from '../db/schema'
+import type { RemoteListing, RemoteStatusChanges } from '../db/remote-status'
 import type { IStorage, ProviderStateRecord } from './interface'
 
 export class DrizzleStorageAdapter implements IStorage {
@@ -33,6 +41,14 @@ export class DrizzleStorageAdapter implements IStorage {
     return dbOps.getMaxUpdatedAt(provider)
   }
 
+  async reconcileRemoteConversations(
+    provider: ProviderName,
+    listing: RemoteListing,
+    at: Date
+  ): Promise<RemoteStatusChanges> {
+    return dbOps.reconcileRemoteConversations(provider, listing, at)
+  }
+
   // Message operations
   async upsertMessages(data: NewMessage[]): Promise<void> {
     return dbOps.upsertMessages(data)
@@ -47,6 +63,20 @@ export class DrizzleStorageAdapter implements IStorage {
     return dbOps.upsertAttachments(data)
   }
 
+  // Artifact operations
+  async replaceArtifacts(conversationId: string, data: NewArtifact[]): Promise<void> {
+    return dbOps.replaceArtifacts(conversationId, data)
+  }
+
+  // Project operations
+  async upsertProject(data: NewProject, documents?: NewProjectDocument[]): Promise<void> {
+    return dbOps.upsertProject(data, documents)
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    return dbOps.getProject(id)
+  }
+
   // Provider state operations
   async getProviderState<TMetadata = Record<string, unknown>>(
     providerName: ProviderName
@@ -152,7 +182,7 @@ export class DrizzleStorageAdapter implements IStorage {
     return results.map((row) => ({
       id: row.id,
       title: row.title,
-      provider: row.provider as 'chatgpt' | 'claude',
+      provider: row.provider,
       createdAt: row.createdAt || new Date(),
       updatedAt: row.updatedAt || new Date(),
       syncedAt: row.syncedAt || new Date(),
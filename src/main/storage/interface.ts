@@ -1,6 +1,14 @@
-import type { Conversation, Message } from '../../shared/types'
+import type { Conversation, Message, Project } from '../../shared/types'
 import type { ProviderName, ProviderStatus } from '../sync/providers/base.js'
-import type { NewConversation, NewMessage, NewAttachment } from '../db/schema.js'
+import type {
+  NewConversation,
+  NewMessage,
+  NewAttachment,
+  NewArtifact,
+  NewProject,
+  NewProjectDocument
+} from '../db/schema.js'
+import type { RemoteListing, RemoteStatusChanges } from '../db/remote-status.js'
 
 export interface ProviderStateRecord<TMetadata = Record<string, unknown>> {
   providerName: ProviderName
@@ -30,6 +38,11 @@ export interface IStorage {
   upsertConversation(data: NewConversation): Promise<void>
   deleteConversation(id: string): Promise<void>
   getMaxUpdatedAt(provider: string): Promise<Date | null>
+  reconcileRemoteConversations(
+    provider: ProviderName,
+    listing: RemoteListing,
+    at: Date
+  ): Promise<RemoteStatusChanges>
 
   // Message operations
   upsertMessages(data: NewMessage[]): Promise<void>
@@ -38,6 +51,13 @@ export interface IStorage {
   // Attachment operations
   upsertAttachments(data: NewAttachment[]): Promise<void>
 
+  // Artifact operations
+  replaceArtifacts(conversationId: string, data: NewArtifact[]): Promise<void>
+
+  // Project operations (documents are replaced when given)
+  upsertProject(data: NewProject, documents?: NewProjectDocument[]): Promise<void>
+  getProject(id: string): Promise<Project | null>
+
   // Provider state operations
   getProviderState<TMetadata = Record<string, unknown>>(
     providerName: ProviderName
@@ -2,30 +2,9 @@ import { createStore } from 'zustand/vanilla'
 import type { AppState } from '../shared/types'
 
 export const store = createStore<AppState>((set) => ({
-  // Initial state
-  providers: {
-    chatgpt: {
-      isOnline: false,
-      status: 'disconnected',
-      lastSyncAt: null,
-      errorMessage: null,
-      isSyncing: false
-    },
-    claude: {
-      isOnline: false,
-      status: 'disconnected',
-      lastSyncAt: null,
-      errorMessage: null,
-      isSyncing: false
-    },
-    perplexity: {
-      isOnline: false,
-      status: 'disconnected',
-      lastSyncAt: null,
-      errorMessage: null,
-      isSyncing: false
-    }
-  },
+  // Initial state; providers are added by the registry as they are registered
+  registeredProviders: [],
+  providers: {},
 
   auth: {
     isLoggedIn: false,
@@ -44,7 +23,13 @@ export const store = createStore<AppState>((set) => ({
     autoSync: true,
     exportPath: '',
     mcpEnabled: false,
-    mcpPort: 3000
+    mcpPort: 3000,
+    mirrorEnabled: false,
+    mirrorPath: '',
+    mirrorFormat: 'markdown',
+    mirrorIncludeAttachments: true,
+    mirrorDeleteRemoved: false,
+    mirrorMarkdown: {}
   },
 
   ui: {
@@ -52,6 +37,26 @@ export const store = createStore<AppState>((set) => ({
   },
 
   // Actions
+  registerProvider: (info) => {
+    set((state) => ({
+      ...state,
+      registeredProviders: [
+        ...state.registeredProviders.filter((provider) => provider.id !== info.id),
+        info
+      ],
+      providers: {
+        ...state.providers,
+        [info.id]: state.providers[info.id] ?? {
+          isOnline: false,
+          status: 'disconnected',
+          lastSyncAt: null,
+          errorMessage: null,
+          isSyncing: false
+        }
+      }
+    }))
+  },
+
   updateProviderState: (provider, providerState) => {
     set((state) => {
       const updated = {
@@ -66,10 +71,7 @@ export const store = createStore<AppState>((set) => ({
       }
 
       // Update auth state based on provider connections
-      const anyConnected =
-        updated.providers.chatgpt.isOnline ||
-        updated.providers.claude.isOnline ||
-        updated.providers.perplexity.isOnline
+      const anyConnected = Object.values(updated.providers).some((p) => p.isOnline)
       updated.auth = {
         isLoggedIn: anyConnected,
         errorReason: anyConnected ? null : state.auth.errorReason
@@ -29,19 +29,30 @@ export function findCachedFile(conversationId: string, fileId: string): string |
   return null
 }
 
+const MIME_TO_EXT: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'application/json': '.json'
+}
+
 /**
  * Get file extension from MIME type
  */
 export function getExtensionFromMimeType(mimeType: string): string {
-  const mimeToExt: Record<string, string> = {
-    'image/png': '.png',
-    'image/jpeg': '.jpg',
-    'image/gif': '.gif',
-    'image/webp': '.webp',
-    'image/svg+xml': '.svg',
-    'application/pdf': '.pdf',
-    'text/plain': '.txt',
-    'application/json': '.json'
-  }
-  return mimeToExt[mimeType] || '.bin'
+  return MIME_TO_EXT[mimeType] || '.bin'
+}
+
+/**
+ * Get MIME type from a file extension (with or without the dot), null when unknown
+ */
+export function getMimeTypeFromExtension(extension: string): string | null {
+  const ext = `.${extension.replace(/^\./, '').toLowerCase()}`
+  if (ext === '.jpeg') return 'image/jpeg'
+  const match = Object.entries(MIME_TO_EXT).find(([, value]) => value === ext)
+  return match ? match[0] : null
 }
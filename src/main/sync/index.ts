@@ -1,7 +1,9 @@
-import type { SyncStatus } from '../../shared/types'
+import type { ProviderName, SyncStatus } from '../../shared/types'
 import { providerRegistry } from './providers/registry.js'
+import { scheduleEmbeddingUpdate } from '../embeddings/index.js'
+import { scheduleMirrorUpdate } from '../export/mirror.js'
 
-export type SyncProvider = 'chatgpt' | 'claude'
+export type SyncProvider = ProviderName
 
 export function getSyncStatus(): SyncStatus {
   // Aggregate status from all providers
@@ -48,7 +50,12 @@ export async function startSync(
     return { success: false, error: `Provider ${provider} not found` }
   }
 
-  return providerInstance.sync()
+  const result = await providerInstance.sync()
+  if (result.success) {
+    scheduleEmbeddingUpdate()
+    scheduleMirrorUpdate()
+  }
+  return result
 }
 
 export function stopSync(): { success: boolean } {
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { filterKnownParts, resolveMetadata } from '../plugin'
+import { loadProviderPlugins, parsePluginManifest } from '../plugin-loader'
+
+describe('resolveMetadata', () => {
+  const schema = { defaults: { lastCompletedOffset: 0, nextPageToken: null as string | null } }
+
+  it('should fill fields missing from stored metadata with defaults', () => {
+    expect(resolveMetadata(schema, { lastCompletedOffset: 40 })).toEqual({
+      lastCompletedOffset: 40,
+      nextPageToken: null
+    })
+  })
+
+  it('should use the defaults when nothing usable is stored', () => {
+    expect(resolveMetadata(schema, undefined)).toEqual(schema.defaults)
+    expect(resolveMetadata(schema, ['not', 'an', 'object'])).toEqual(schema.defaults)
+  })
+
+  it("should start over from the defaults when the schema's parse rejects stored metadata", () => {
+    const strict = {
+      ...schema,
+      parse: (stored: unknown) =>
+        typeof (stored as { lastCompletedOffset?: unknown }).lastCompletedOffset === 'number'
+          ? (stored as typeof schema.defaults)
+          : null
+    }
+
+    expect(resolveMetadata(strict, { lastCompletedOffset: 'ten' })).toEqual(schema.defaults)
+    expect(resolveMetadata(strict, { lastCompletedOffset: 10, nextPageToken: 'abc' })).toEqual({
+      lastCompletedOffset: 10,
+      nextPageToken: 'abc'
+    })
+  })
+})
+
+describe('filterKnownParts', () => {
+  it('should drop parts of unknown types', () => {
+    const parts = filterKnownParts([
+      { type: 'text', text: 'Hello' },
+      { type: 'hologram', data: 'x' },
+      null,
+      { type: 'source-url', url: 'https://example.com' }
+    ])
+
+    expect(parts).toEqual([
+      { type: 'text', text: 'Hello' },
+      { type: 'source-url', url: 'https://example.com' }
+    ])
+  })
+})
+
+describe('parsePluginManifest', () => {
+  const manifest = { id: 'le-chat', name: 'Le Chat', version: '0.1.0', main: 'index.js' }
+
+  it('should accept a valid manifest', () => {
+    expect(
+      parsePluginManifest({ ...manifest, conversationUrl: 'https://chat.example/c/{id}' })
+    ).toEqual({ ...manifest, conversationUrl: 'https://chat.example/c/{id}' })
+  })
+
+  it('should reject ids that are not lowercase slugs', () => {
+    expect(() => parsePluginManifest({ ...manifest, id: 'Le Chat' })).toThrow(/"id"/)
+  })
+
+  it('should reject missing required fields', () => {
+    expect(() => parsePluginManifest({ ...manifest, main: undefined })).toThrow(/"main"/)
+    expect(() => parsePluginManifest({ ...manifest, version: 1 })).toThrow(/"version"/)
+  })
+})
+
+describe('loadProviderPlugins', () => {
+  let tempDir: string
+
+  const writePlugin = (
+    folder: string,
+    manifest: Record<string, unknown>,
+    files: Record<string, string> = {}
+  ) => {
+    const pluginDir = path.join(tempDir, folder)
+    fs.mkdirSync(pluginDir, { recursive: true })
+    fs.writeFileSync(path.join(pluginDir, 'manifest.json'), JSON.stringify(manifest))
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(pluginDir, name), content)
+    }
+  }
+
+  const pluginModule = `
+    export const metadata = { defaults: { cursor: null } }
+    export function transformParts(message) {
+      return [{ type: 'text', text: message.text }]
+    }
+    export function createProvider() {
+      return { name: 'le-chat' }
+    }
+  `
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-test-'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    if (tempDir && fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should load a plugin with its manifest, module and icon', async () => {
+    writePlugin(
+      'le-chat',
+      { id: 'le-chat', name: 'Le Chat', version: '0.1.0', main: 'index.mjs', icon: 'icon.svg' },
+      { 'index.mjs': pluginModule, 'icon.svg': '<svg xmlns="http://www.w3.org/2000/svg"/>' }
+    )
+
+    const plugins = await loadProviderPlugins(tempDir, ['chatgpt'])
+
+    expect(plugins).toHaveLength(1)
+    const [plugin] = plugins
+    expect(plugin.manifest).toMatchObject({ id: 'le-chat', name: 'Le Chat', version: '0.1.0' })
+    expect(plugin.manifest.iconUrl).toMatch(/^data:image\/svg\+xml;base64,/)
+    expect(plugin.metadata.defaults).toEqual({ cursor: null })
+    expect(plugin.transformParts({ text: 'Bonjour' } as never)).toEqual([
+      { type: 'text', text: 'Bonjour' }
+    ])
+  })
+
+  it('should skip plugins that take a reserved id or fail to load', async () => {
+    writePlugin(
+      'a-clash',
+      { id: 'chatgpt', name: 'Fake ChatGPT', version: '1.0.0', main: 'index.mjs' },
+      { 'index.mjs': pluginModule }
+    )
+    writePlugin('b-missing-main', {
+      id: 'missing',
+      name: 'Missing',
+      version: '1.0.0',
+      main: 'index.mjs'
+    })
+    writePlugin(
+      'c-outside',
+      { id: 'outside', name: 'Outside', version: '1.0.0', main: '../a-clash/index.mjs' },
+      {}
+    )
+    writePlugin(
+      'd-no-factory',
+      { id: 'no-factory', name: 'No factory', version: '1.0.0', main: 'index.mjs' },
+      { 'index.mjs': 'export const metadata = { defaults: {} }' }
+    )
+    writePlugin(
+      'e-le-chat',
+      { id: 'le-chat', name: 'Le Chat', version: '0.1.0', main: 'index.mjs' },
+      { 'index.mjs': pluginModule }
+    )
+
+    const plugins = await loadProviderPlugins(tempDir, ['chatgpt'])
+
+    expect(plugins.map((p) => p.manifest.id)).toEqual(['le-chat'])
+    expect(console.error).toHaveBeenCalledTimes(4)
+  })
+
+  it('should return nothing when the plugins folder does not exist', async () => {
+    expect(await loadProviderPlugins(path.join(tempDir, 'missing'), [])).toEqual([])
+  })
+})
@@ -1,17 +1,15 @@
 import type { WebContentsView } from 'electron'
 import type { IStorage } from '../../storage/interface.js'
+import type { RemoteListing } from '../../db/remote-status.js'
 import { store } from '../../store.js'
-import type { Conversation, Message } from '../../../shared/types'
+import { scheduleEmbeddingUpdate } from '../../embeddings/index.js'
+import { scheduleMirrorUpdate } from '../../export/mirror.js'
+import type { Conversation, Message, ProviderName } from '../../../shared/types'
 
-export type ProviderName = 'chatgpt' | 'claude' | 'perplexity'
+export type { ProviderName }
 
 export type ProviderStatus =
-  | 'connected'
-  | 'syncing'
-  | 'timeout'
-  | 'logged_out'
-  | 'error'
-  | 'disconnected'
+  'connected' | 'syncing' | 'timeout' | 'logged_out' | 'error' | 'disconnected'
 
 export interface ProviderState {
   name: ProviderName
@@ -32,6 +30,7 @@ export interface IProvider {
   readonly name: ProviderName
 
   // Lifecycle methods
+  initialize(): Promise<void>
   start(): Promise<void>
   stop(): Promise<void>
 
@@ -69,6 +68,9 @@ export interface IProvider {
   ): Promise<string>
 }
 
+// How often the local conversations are checked against the provider's full listing
+const RECONCILE_INTERVAL_MS = 6 * 60 * 60 * 1000
+
 export abstract class BaseProvider<TMetadata = Record<string, unknown>> implements IProvider {
   abstract readonly name: ProviderName
 
@@ -86,6 +88,7 @@ export abstract class BaseProvider<TMetadata = Record<string, unknown>> implemen
     this.pollingIntervalMs = pollingIntervalMs
   }
 
+  abstract initialize(): Promise<void>
   abstract sync(): Promise<SyncResult>
   abstract showLogin(): void
   abstract logout(): Promise<void>
@@ -110,6 +113,43 @@ export abstract class BaseProvider<TMetadata = Record<string, unknown>> implemen
    */
   protected abstract getDefaultMetadata(): TMetadata
 
+  /**
+   * IDs of all the conversations the provider lists, to find the ones archived or deleted
+   * on its side. Providers that can list them override this. Returns null when the listing
+   * is incomplete, since a missing page would mark its conversations deleted.
+   */
+  protected async listRemoteConversations(): Promise<RemoteListing | null> {
+    return null
+  }
+
+  /**
+   * Mark conversations archived or deleted on the provider, at most every
+   * RECONCILE_INTERVAL_MS. Failures are logged; the next sync tries again.
+   */
+  protected async reconcileIfDue(): Promise<void> {
+    const key = `remote-reconciled-at:${this.name}`
+    try {
+      const lastReconciledAt = Number((await this.storage.getSyncState(key)) ?? 0)
+      if (Date.now() - lastReconciledAt < RECONCILE_INTERVAL_MS) return
+
+      const listing = await this.listRemoteConversations()
+      // An empty listing is more likely a broken response than every conversation deleted
+      if (!listing || listing.active.length + listing.archived.length === 0) return
+
+      const changes = await this.storage.reconcileRemoteConversations(
+        this.name,
+        listing,
+        new Date()
+      )
+      await this.storage.setSyncState(key, String(Date.now()))
+      console.log(
+        `[${this.name}] Reconciled: ${changes.archived.length} archived, ${changes.deleted.length} deleted, ${changes.restored.length} restored`
+      )
+    } catch (error) {
+      console.error(`[${this.name}] Reconciliation error:`, error)
+    }
+  }
+
   /**
    * Get current metadata from database, or default if not found.
    */
@@ -209,6 +249,13 @@ export abstract class BaseProvider<TMetadata = Record<string, unknown>> implemen
 
         // Update store
         this.updateStoreState()
+
+        await this.reconcileIfDue()
+
+        // Embed new messages for semantic search in the background
+        scheduleEmbeddingUpdate()
+        // Write new and changed conversations to the mirror folder, if one is set up
+        scheduleMirrorUpdate()
       } else {
         // Check if error indicates logged out (401/403)
         if (
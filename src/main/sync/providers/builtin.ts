@@ -0,0 +1,53 @@
+import { app } from 'electron'
+import { defineProviderPlugin, type ProviderPlugin } from './plugin.js'
+import { ChatGPTProvider } from './chatgpt-provider.js'
+import { ClaudeProvider } from './claude-provider.js'
+import { PerplexityProvider } from './perplexity-provider.js'
+import { GeminiProvider } from './gemini-provider.js'
+import { GrokProvider } from './grok-provider.js'
+import { transformChatGPTMessageToParts } from './chatgpt/utils.js'
+import { transformClaudeMessageToParts } from './claude/utils.js'
+import { transformPerplexityMessageToParts } from './perplexity/utils.js'
+import { transformGeminiMessageToParts } from './gemini/utils.js'
+import { transformGrokMessageToParts } from './grok/utils.js'
+import {
+  CHATGPT_DEFAULT_METADATA,
+  CLAUDE_DEFAULT_METADATA,
+  PERPLEXITY_DEFAULT_METADATA,
+  GEMINI_DEFAULT_METADATA,
+  GROK_DEFAULT_METADATA
+} from './types.js'
+
+// Built-in providers ship with the app; icons and conversation links live in the renderer
+export const BUILTIN_PLUGINS: ProviderPlugin[] = [
+  defineProviderPlugin({
+    manifest: { id: 'chatgpt', name: 'ChatGPT', version: app.getVersion() },
+    metadata: { defaults: CHATGPT_DEFAULT_METADATA },
+    transformParts: transformChatGPTMessageToParts,
+    createProvider: (context) => new ChatGPTProvider(context.storage, context.pollingIntervalMs)
+  }),
+  defineProviderPlugin({
+    manifest: { id: 'claude', name: 'Claude', version: app.getVersion() },
+    metadata: { defaults: CLAUDE_DEFAULT_METADATA },
+    transformParts: transformClaudeMessageToParts,
+    createProvider: (context) => new ClaudeProvider(context.storage, context.pollingIntervalMs)
+  }),
+  defineProviderPlugin({
+    manifest: { id: 'perplexity', name: 'Perplexity', version: app.getVersion() },
+    metadata: { defaults: PERPLEXITY_DEFAULT_METADATA },
+    transformParts: transformPerplexityMessageToParts,
+    createProvider: (context) => new PerplexityProvider(context.storage, context.pollingIntervalMs)
+  }),
+  defineProviderPlugin({
+    manifest: { id: 'gemini', name: 'Gemini', version: app.getVersion() },
+    metadata: { defaults: GEMINI_DEFAULT_METADATA },
+    transformParts: transformGeminiMessageToParts,
+    createProvider: (context) => new GeminiProvider(context.storage, context.pollingIntervalMs)
+  }),
+  defineProviderPlugin({
+    manifest: { id: 'grok', name: 'Grok', version: app.getVersion() },
+    metadata: { defaults: GROK_DEFAULT_METADATA },
+    transformParts: transformGrokMessageToParts,
+    createProvider: (context) => new GrokProvider(context.storage, context.pollingIntervalMs)
+  })
+]
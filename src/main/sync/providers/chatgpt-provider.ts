@@ -1,13 +1,20 @@
 import { WebContentsView, session } from 'electron'
 import { BaseProvider, type SyncResult, type ProviderName } from './base'
 import type { IStorage } from '../../storage/interface'
-import type { ChatGPTMetadata } from './types'
+import type { RemoteListing } from '../../db/remote-status'
+import { CHATGPT_DEFAULT_METADATA, type ChatGPTMetadata } from './types'
 import { getMainWindow } from '../../index'
 import { viewBoundsManager } from '../../view-bounds-manager'
-import { IPC_CHANNELS } from '@shared/types'
+import { IPC_CHANNELS, type MessagePart } from '@shared/types'
 import { findCachedFile, getExtensionFromMimeType } from '../attachment-utils.js'
 import { getAttachmentsPath } from '../../settings.js'
-import { transformChatGPTMessageToParts } from './chatgpt/utils'
+import {
+  extractChatGPTConversation,
+  listChatGPTConversationIds,
+  toChatGPTProject,
+  transformChatGPTMessageToParts,
+  type ChatGPTGizmoData
+} from './chatgpt/utils'
 import fs from 'fs'
 import path from 'path'
 
@@ -22,6 +29,7 @@ export interface ConversationListItem {
   title: string
   createdAt: Date
   updatedAt: Date
+  gizmoId: string | null // Project or custom GPT the conversation belongs to
 }
 
 export interface ExtractedAttachment {
@@ -53,6 +61,7 @@ export interface ExtractedMessage {
   modelSlug?: string
   attachments?: ExtractedAttachment[]
   contentReferences?: ExtractedContentReference[]
+  toolParts?: MessagePart[]
   parentNodeId: string | null
   siblingNodeIds: string[]
   siblingIndex: number
@@ -93,11 +102,7 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
   }
 
   protected getDefaultMetadata(): ChatGPTMetadata {
-    return {
-      lastCompletedOffset: 0,
-      isFullSyncComplete: false,
-      lastSyncPageSize: 50
-    }
+    return { ...CHATGPT_DEFAULT_METADATA }
   }
 
   async initialize(): Promise<void> {
@@ -227,7 +232,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
       const messageInserts = content.messages.map((msg, index) => {
         const parts = transformChatGPTMessageToParts({
           content: msg.content,
-          contentReferences: msg.contentReferences
+          contentReferences: msg.contentReferences,
+          toolParts: msg.toolParts
         })
         return {
           id: msg.nodeId || msg.id || `${conversationId}-${index}`,
@@ -238,7 +244,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
           orderIndex: index,
           parentId: msg.parentNodeId,
           siblingIds: JSON.stringify(msg.siblingNodeIds),
-          siblingIndex: msg.siblingIndex
+          siblingIndex: msg.siblingIndex,
+          model: msg.role === 'assistant' ? msg.modelSlug || null : null
         }
       })
 
@@ -403,6 +410,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
     }
 
     try {
+      await this.syncProjects()
+
       const metadata = await this.getMetadata()
 
       // Choose sync mode based on whether we've completed a full sync
@@ -450,7 +459,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
           id: item.id,
           title: item.title,
           createdAt: new Date(item.createdAt),
-          updatedAt: new Date(item.updatedAt)
+          updatedAt: new Date(item.updatedAt),
+          gizmoId: item.gizmoId
         }))
 
         console.log(
@@ -577,6 +587,152 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
     }
   }
 
+  // ============================================================================
+  // PROJECTS - Projects and their conversations, which the main list leaves out
+  // ============================================================================
+
+  /**
+   * Sync the user's projects, then the project conversations that are new or changed.
+   * Failures are logged and don't fail the sync of the other conversations.
+   */
+  private async syncProjects(): Promise<void> {
+    if (!this.view || !this.capturedHeaders) return
+
+    try {
+      for (const data of await this.fetchProjects()) {
+        const { project, documents } = toChatGPTProject(data, new Date())
+        await this.storage.upsertProject(project, documents)
+        await this.syncProjectConversations(project.id)
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Error syncing projects:`, error)
+    }
+  }
+
+  private async fetchProjects(): Promise<ChatGPTGizmoData[]> {
+    if (!this.view || !this.capturedHeaders) throw new Error('Not connected')
+
+    const projects: ChatGPTGizmoData[] = []
+    let cursor: string | null = null
+    let pageCount = 0
+    do {
+      const result = await this.view.webContents.executeJavaScript(
+        this.makeFetchProjectsPageScript(this.capturedHeaders, cursor)
+      )
+      if (result.error) throw new Error(`API error: ${result.error}`)
+
+      projects.push(...result.items)
+      cursor = result.cursor
+      pageCount++
+    } while (cursor && pageCount < 100)
+    return projects
+  }
+
+  // Newest first, so paging stops at the first conversation that's up to date
+  private async syncProjectConversations(projectId: string): Promise<void> {
+    if (!this.view || !this.capturedHeaders) return
+
+    let cursor: string | null = '0'
+    let pageCount = 0
+    while (cursor && pageCount < 100) {
+      const result = await this.view.webContents.executeJavaScript(
+        this.makeFetchProjectConversationsScript(this.capturedHeaders, projectId, cursor)
+      )
+      if (result.error) throw new Error(`API error: ${result.error}`)
+
+      for (const item of result.items) {
+        const conv: ConversationListItem = {
+          id: item.id,
+          title: item.title,
+          createdAt: new Date(item.createdAt),
+          updatedAt: new Date(item.updatedAt),
+          gizmoId: projectId
+        }
+        // Stored timestamps are in seconds
+        const existing = await this.storage.getConversation(conv.id)
+        if (
+          existing &&
+          Math.floor(existing.updatedAt.getTime() / 1000) >=
+            Math.floor(conv.updatedAt.getTime() / 1000)
+        ) {
+          return
+        }
+
+        try {
+          await this.syncConversationWithRetry(conv)
+        } catch (err) {
+          console.error(`[${this.name}] Error syncing conversation ${conv.id}:`, err)
+        }
+      }
+
+      cursor = result.cursor
+      pageCount++
+    }
+  }
+
+  // Custom GPTs aren't listed with the projects, so they're fetched with their first conversation
+  private async ensureProject(gizmoId: string | null): Promise<void> {
+    if (!gizmoId || !this.view || !this.capturedHeaders) return
+    if (await this.storage.getProject(gizmoId)) return
+
+    try {
+      const data = await this.view.webContents.executeJavaScript(
+        this.makeFetchGizmoScript(gizmoId, this.capturedHeaders)
+      )
+      if (!data) return
+      const { project, documents } = toChatGPTProject(data, new Date())
+      await this.storage.upsertProject(project, documents)
+    } catch (error) {
+      console.error(`[${this.name}] Error fetching gizmo ${gizmoId}:`, error)
+    }
+  }
+
+  // ============================================================================
+  // RECONCILIATION - Full listing, to find conversations archived or deleted on chatgpt.com
+  // ============================================================================
+
+  protected async listRemoteConversations(): Promise<RemoteListing | null> {
+    if (!this.view || !this.capturedHeaders) return null
+
+    try {
+      const active = await this.listConversationIds(false)
+      const archived = await this.listConversationIds(true)
+
+      // Project conversations are only in their project's list
+      for (const { gizmo } of await this.fetchProjects()) {
+        let cursor: string | null = '0'
+        while (cursor) {
+          const result = await this.view.webContents.executeJavaScript(
+            this.makeFetchProjectConversationsScript(this.capturedHeaders, gizmo.id, cursor)
+          )
+          if (result.error) throw new Error(`API error: ${result.error}`)
+          active.push(...result.items.map((item: { id: string }) => item.id))
+          cursor = result.cursor
+        }
+      }
+
+      return { active, archived }
+    } catch (error) {
+      console.error(`[${this.name}] Error listing conversations for reconciliation:`, error)
+      return null
+    }
+  }
+
+  private async listConversationIds(archived: boolean): Promise<string[]> {
+    const view = this.view
+    const headers = this.capturedHeaders
+    if (!view || !headers) throw new Error('Not connected')
+
+    const PAGE_SIZE = 100
+    return listChatGPTConversationIds(
+      (offset, starred) =>
+        view.webContents.executeJavaScript(
+          this.makeFetchConversationPageScript(headers, offset, PAGE_SIZE, archived, starred)
+        ),
+      PAGE_SIZE
+    )
+  }
+
   // ============================================================================
   // RETRY LOGIC - With exponential backoff
   // ============================================================================
@@ -666,7 +822,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
             id: item.id,
             title: item.title,
             createdAt: new Date(item.createdAt),
-            updatedAt: new Date(item.updatedAt)
+            updatedAt: new Date(item.updatedAt),
+            gizmoId: item.gizmoId
           }
 
           const convTimestamp = Math.floor(conv.updatedAt.getTime() / 1000) * 1000
@@ -723,15 +880,17 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
       console.log(
         `[${this.name}] Fetching conversation "${conversation?.title ?? conversationId}" via API...`
       )
-      const result = await this.view.webContents.executeJavaScript(
+      const data = await this.view.webContents.executeJavaScript(
         this.makeFetchConversationScript(conversationId, headers)
       )
 
-      if (!result) {
+      if (!data) {
         console.warn(`[${this.name}] Failed to fetch conversation from API`)
         return { title: 'Untitled', currentNode: null, messages: [] }
       }
 
+      const result = extractChatGPTConversation(data)
+
       console.log(
         `[${this.name}] Fetched conversation "${conversation?.title ?? conversationId}" with ${result.messages.length} messages`
       )
@@ -749,6 +908,7 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
           modelSlug: msg.modelSlug,
           attachments: msg.attachments,
           contentReferences: msg.contentReferences,
+          toolParts: msg.toolParts,
           parentNodeId: msg.parentNodeId || null,
           siblingNodeIds: msg.siblingNodeIds || [],
           siblingIndex: msg.siblingIndex ?? 0
@@ -772,6 +932,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
       await this.storage.deleteMessagesForConversation(conv.id)
     }
 
+    await this.ensureProject(conv.gizmoId)
+
     await this.storage.upsertConversation({
       id: conv.id,
       title: conv.title,
@@ -780,13 +942,15 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
       updatedAt: conv.updatedAt,
       syncedAt: new Date(),
       messageCount: content.messages.length,
-      currentNodeId: content.currentNode
+      currentNodeId: content.currentNode,
+      projectId: conv.gizmoId
     })
 
     const messageInserts = content.messages.map((msg, index) => {
       const parts = transformChatGPTMessageToParts({
         content: msg.content,
-        contentReferences: msg.contentReferences
+        contentReferences: msg.contentReferences,
+        toolParts: msg.toolParts
       })
       return {
         id: msg.nodeId || msg.id || `${conv.id}-${index}`,
@@ -797,7 +961,8 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
         orderIndex: index,
         parentId: msg.parentNodeId,
         siblingIds: JSON.stringify(msg.siblingNodeIds),
-        siblingIndex: msg.siblingIndex
+        siblingIndex: msg.siblingIndex,
+        model: msg.role === 'assistant' ? msg.modelSlug || null : null
       }
     })
 
@@ -831,14 +996,16 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
   private makeFetchConversationPageScript(
     headers: ApiHeaders,
     offset: number,
-    limit: number = 50
+    limit: number = 50,
+    archived: boolean = false,
+    starred: boolean = false
   ): string {
     return `
 (async function() {
   const headers = ${JSON.stringify(headers)};
 
   const response = await fetch(
-    'https://chatgpt.com/backend-api/conversations?offset=${offset}&limit=${limit}&order=updated&is_archived=false&is_starred=false',
+    'https://chatgpt.com/backend-api/conversations?offset=${offset}&limit=${limit}&order=updated&is_archived=${archived}&is_starred=${starred}',
     {
       credentials: 'include',
       headers: headers,
@@ -856,6 +1023,7 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
     title: item.title || 'Untitled',
     createdAt: item.create_time,
     updatedAt: item.update_time,
+    gizmoId: item.gizmo_id || null,
   }));
 
   return {
@@ -868,13 +1036,14 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
 `
   }
 
-  private makeFetchConversationScript(conversationId: string, headers: ApiHeaders): string {
+  private makeFetchProjectsPageScript(headers: ApiHeaders, cursor: string | null): string {
+    const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''
     return `
 (async function() {
   const headers = ${JSON.stringify(headers)};
 
   const response = await fetch(
-    'https://chatgpt.com/backend-api/conversation/${conversationId}',
+    'https://chatgpt.com/backend-api/gizmos/snorlax/sidebar?conversations_per_gizmo=0${cursorParam}',
     {
       credentials: 'include',
       headers: headers,
@@ -882,307 +1051,96 @@ export class ChatGPTProvider extends BaseProvider<ChatGPTMetadata> {
   );
 
   if (!response.ok) {
-    console.error('[ChatGPT API] Failed to fetch conversation:', response.status);
-    return null;
+    console.error('[ChatGPT API] Failed to fetch projects:', response.status);
+    return { items: [], cursor: null, error: response.status };
   }
 
   const data = await response.json();
-  const messages = [];
-  const mapping = data.mapping || {};
-  const messageNodes = Object.values(mapping);
-  const sortedMessages = [];
-  const currentNode = data.current_node;
-
-  // Build a parent->children map
-  const childrenMap = {};
-  for (const node of messageNodes) {
-    const parentId = node.parent;
-    if (parentId) {
-      if (!childrenMap[parentId]) childrenMap[parentId] = [];
-      childrenMap[parentId].push(node.id);
-    }
-  }
-
-  // Sort children by creation time
-  for (const parentId of Object.keys(childrenMap)) {
-    childrenMap[parentId].sort((a, b) => {
-      const timeA = mapping[a]?.message?.create_time || 0;
-      const timeB = mapping[b]?.message?.create_time || 0;
-      return timeA - timeB;
-    });
-  }
-
-  // Find root node
-  let rootId = null;
-  for (const node of messageNodes) {
-    if (!node.parent || !mapping[node.parent]) {
-      rootId = node.id;
-      break;
-    }
+  return {
+    items: (data.items || []).map(item => item.gizmo).filter(Boolean),
+    cursor: data.cursor || null
+  };
+})();
+`
   }
 
-  const seenImageFileIds = new Set();
-
-  // Traverse from root to collect messages
-  function traverse(nodeId) {
-    const node = mapping[nodeId];
-    if (!node) return;
-
-    const msg = node.message;
-    if (msg && msg.content) {
-      if (msg.metadata?.is_visually_hidden_from_conversation) {
-        const children = childrenMap[nodeId] || [];
-        for (const childId of children) {
-          traverse(childId);
-        }
-        return;
-      }
-
-      const contentType = msg.content.content_type;
-      const role = msg.author?.role;
-
-      if (contentType === 'user_editable_context' || contentType === 'model_editable_context') {
-        const children = childrenMap[nodeId] || [];
-        for (const childId of children) {
-          traverse(childId);
-        }
-        return;
-      }
-
-      if (msg.recipient && msg.recipient !== 'all') {
-        const children = childrenMap[nodeId] || [];
-        for (const childId of children) {
-          traverse(childId);
-        }
-        return;
-      }
-
-      if (role === 'tool' && contentType === 'multimodal_text') {
-        const attachments = [];
-
-        if (msg.content.parts) {
-          for (const part of msg.content.parts) {
-            if (part.content_type === 'image_asset_pointer') {
-              let fileId = null;
-              if (part.asset_pointer) {
-                if (part.asset_pointer.startsWith('sediment://')) {
-                  fileId = part.asset_pointer.replace('sediment://', '');
-                } else if (part.asset_pointer.startsWith('file-service://')) {
-                  fileId = part.asset_pointer.replace('file-service://', '');
-                } else {
-                  fileId = part.asset_pointer;
-                }
-              }
-              if (fileId && !seenImageFileIds.has(fileId)) {
-                seenImageFileIds.add(fileId);
-                attachments.push({
-                  type: 'image',
-                  fileId: fileId,
-                  width: part.width,
-                  height: part.height,
-                  size: part.size_bytes,
-                  filename: msg.metadata?.image_gen_title || null,
-                  mimeType: null,
-                });
-              }
-            }
-          }
-        }
-
-        if (attachments.length > 0) {
-          const parentNodeId = node.parent;
-          const siblings = parentNodeId ? (childrenMap[parentNodeId] || [nodeId]) : [nodeId];
-          const siblingIndex = siblings.indexOf(nodeId);
-
-          sortedMessages.push({
-            id: msg.id,
-            nodeId: nodeId,
-            role: 'assistant',
-            content: '',
-            contentType: contentType,
-            createdAt: msg.create_time ? msg.create_time * 1000 : null,
-            modelSlug: undefined,
-            attachments: attachments,
-            contentReferences: undefined,
-            parentNodeId: parentNodeId,
-            siblingNodeIds: siblings,
-            siblingIndex: siblingIndex,
-          });
-        }
-
-        const children = childrenMap[nodeId] || [];
-        for (const childId of children) {
-          traverse(childId);
-        }
-        return;
-      }
-
-      if (role === 'user' || role === 'assistant') {
-        const textParts = [];
-        const attachments = [];
-
-        if (msg.content.parts) {
-          for (const part of msg.content.parts) {
-            if (typeof part === 'string') {
-              textParts.push(part);
-            } else if (part.content_type === 'image_asset_pointer') {
-              let fileId = null;
-              if (part.asset_pointer) {
-                if (part.asset_pointer.startsWith('sediment://')) {
-                  fileId = part.asset_pointer.replace('sediment://', '');
-                } else if (part.asset_pointer.startsWith('file-service://')) {
-                  fileId = part.asset_pointer.replace('file-service://', '');
-                } else {
-                  fileId = part.asset_pointer;
-                }
-              }
-              if (fileId) {
-                attachments.push({
-                  type: 'image',
-                  fileId: fileId,
-                  width: part.width,
-                  height: part.height,
-                  size: part.size_bytes,
-                  filename: null,
-                  mimeType: null,
-                });
-              }
-            }
-          }
-        }
-
-        const metaAttachments = msg.metadata?.attachments || [];
-        for (const att of metaAttachments) {
-          const existing = attachments.find(a => a.fileId === att.id);
-          if (existing) {
-            existing.filename = att.name;
-            existing.mimeType = att.mime_type;
-          } else {
-            attachments.push({
-              type: att.mime_type?.startsWith('image/') ? 'image' : 'file',
-              fileId: att.id,
-              filename: att.name,
-              mimeType: att.mime_type,
-              width: att.width,
-              height: att.height,
-              size: att.size,
-            });
-          }
-        }
-
-        const content = textParts.join('\\n');
-        if (content.trim() || attachments.length > 0) {
-          const parentNodeId = node.parent;
-          const siblings = parentNodeId ? (childrenMap[parentNodeId] || [nodeId]) : [nodeId];
-          const siblingIndex = siblings.indexOf(nodeId);
-
-          let contentReferences = undefined;
-          const rawRefs = msg.metadata?.content_references;
-          if (rawRefs && Array.isArray(rawRefs) && rawRefs.length > 0) {
-            contentReferences = rawRefs
-              .filter(ref => ref.type === 'webpage' || ref.type === 'webpage_extended' || ref.type === 'image_inline')
-              .map(ref => ({
-                matched_text: ref.matched_text,
-                type: ref.type,
-                title: ref.title,
-                url: ref.url,
-                snippet: ref.snippet,
-                attribution: ref.attribution,
-              }));
-            if (contentReferences.length === 0) contentReferences = undefined;
-          }
+  private makeFetchProjectConversationsScript(
+    headers: ApiHeaders,
+    projectId: string,
+    cursor: string
+  ): string {
+    return `
+(async function() {
+  const headers = ${JSON.stringify(headers)};
 
-          sortedMessages.push({
-            id: msg.id,
-            nodeId: nodeId,
-            role: role,
-            content: content,
-            contentType: contentType,
-            createdAt: msg.create_time ? msg.create_time * 1000 : null,
-            modelSlug: msg.metadata?.model_slug,
-            attachments: attachments.length > 0 ? attachments : undefined,
-            contentReferences: contentReferences,
-            parentNodeId: parentNodeId,
-            siblingNodeIds: siblings,
-            siblingIndex: siblingIndex,
-          });
-        }
-      }
+  const response = await fetch(
+    'https://chatgpt.com/backend-api/gizmos/${projectId}/conversations?cursor=${encodeURIComponent(cursor)}',
+    {
+      credentials: 'include',
+      headers: headers,
     }
+  );
 
-    const children = childrenMap[nodeId] || [];
-    for (const childId of children) {
-      traverse(childId);
-    }
+  if (!response.ok) {
+    console.error('[ChatGPT API] Failed to fetch project conversations:', response.status);
+    return { items: [], cursor: null, error: response.status };
   }
 
-  if (rootId) {
-    traverse(rootId);
+  const data = await response.json();
+  const items = (data.items || []).map(item => ({
+    id: item.id,
+    title: item.title || 'Untitled',
+    createdAt: item.create_time,
+    updatedAt: item.update_time,
+  }));
+
+  return { items: items, cursor: data.cursor || null };
+})();
+`
   }
 
-  // Post-process: fix parent references
-  const collectedNodeIds = new Set(sortedMessages.map(m => m.nodeId));
+  private makeFetchGizmoScript(gizmoId: string, headers: ApiHeaders): string {
+    return `
+(async function() {
+  const headers = ${JSON.stringify(headers)};
 
-  function findCollectedAncestor(nodeId) {
-    let current = nodeId;
-    while (current) {
-      if (collectedNodeIds.has(current)) {
-        return current;
-      }
-      current = mapping[current]?.parent;
+  const response = await fetch(
+    'https://chatgpt.com/backend-api/gizmos/${gizmoId}',
+    {
+      credentials: 'include',
+      headers: headers,
     }
-    return null;
-  }
-
-  for (const msg of sortedMessages) {
-    const originalParent = msg.parentNodeId;
-    msg.parentNodeId = originalParent ? findCollectedAncestor(originalParent) : null;
-  }
+  );
 
-  // Rebuild sibling information
-  const correctedChildrenMap = {};
-  for (const msg of sortedMessages) {
-    const parent = msg.parentNodeId || '__root__';
-    if (!correctedChildrenMap[parent]) correctedChildrenMap[parent] = [];
-    correctedChildrenMap[parent].push(msg.nodeId);
+  if (!response.ok) {
+    console.error('[ChatGPT API] Failed to fetch gizmo:', response.status);
+    return null;
   }
 
-  for (const parent of Object.keys(correctedChildrenMap)) {
-    correctedChildrenMap[parent].sort((a, b) => {
-      const msgA = sortedMessages.find(m => m.nodeId === a);
-      const msgB = sortedMessages.find(m => m.nodeId === b);
-      return (msgA?.createdAt || 0) - (msgB?.createdAt || 0);
-    });
+  return await response.json();
+})();
+`
   }
 
-  for (const msg of sortedMessages) {
-    const parent = msg.parentNodeId || '__root__';
-    const siblings = correctedChildrenMap[parent] || [msg.nodeId];
-    msg.siblingNodeIds = siblings;
-    msg.siblingIndex = siblings.indexOf(msg.nodeId);
-  }
+  private makeFetchConversationScript(conversationId: string, headers: ApiHeaders): string {
+    return `
+(async function() {
+  const headers = ${JSON.stringify(headers)};
 
-  // Find valid currentNode
-  let validCurrentNode = currentNode;
-  if (currentNode && !collectedNodeIds.has(currentNode)) {
-    let walkNode = currentNode;
-    while (walkNode) {
-      if (collectedNodeIds.has(walkNode)) {
-        validCurrentNode = walkNode;
-        break;
-      }
-      walkNode = mapping[walkNode]?.parent;
-    }
-    if (!validCurrentNode || !collectedNodeIds.has(validCurrentNode)) {
-      validCurrentNode = sortedMessages.length > 0 ? sortedMessages[sortedMessages.length - 1].nodeId : null;
+  const response = await fetch(
+    'https://chatgpt.com/backend-api/conversation/${conversationId}',
+    {
+      credentials: 'include',
+      headers: headers,
     }
+  );
+
+  if (!response.ok) {
+    console.error('[ChatGPT API] Failed to fetch conversation:', response.status);
+    return null;
   }
 
-  return {
-    title: data.title || 'Untitled',
-    currentNode: validCurrentNode,
-    messages: sortedMessages,
-  };
+  return await response.json();
 })();
 `
   }
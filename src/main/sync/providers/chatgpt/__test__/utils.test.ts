@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { transformChatGPTMessageToParts } from '../utils'
+import {
+  extractChatGPTConversation,
+  toChatGPTProject,
+  transformChatGPTMessageToParts,
+  type ChatGPTConversationData,
+  type ChatGPTMappingNode
+} from '../utils'
 import type { SourceUrlPart, TextPart } from '@shared/types'
 import conversationData from './chatgpt-conversation.json'
 
@@ -198,3 +204,259 @@ describe('transformChatGPTMessageToParts', () => {
     expect(result[1].type).toBe('source-url')
   })
 })
+
+describe('transformChatGPTMessageToParts with tool parts', () => {
+  it('should prepend tool parts to content parts', () => {
+    const result = transformChatGPTMessageToParts({
+      content: 'The answer is 42.',
+      toolParts: [{ type: 'reasoning', text: 'Thinking about it' }]
+    })
+
+    expect(result).toEqual([
+      { type: 'reasoning', text: 'Thinking about it' },
+      { type: 'text', text: 'The answer is 42.' }
+    ])
+  })
+
+  it('should drop the empty text part of tool-only messages', () => {
+    const result = transformChatGPTMessageToParts({
+      content: '',
+      toolParts: [{ type: 'tool-call', toolCallId: 'c1', toolName: 'bio', input: 'Likes cats' }]
+    })
+
+    expect(result).toEqual([
+      { type: 'tool-call', toolCallId: 'c1', toolName: 'bio', input: 'Likes cats' }
+    ])
+  })
+})
+
+describe('extractChatGPTConversation', () => {
+  // Build a linear mapping from [id, message] pairs
+  function linearMapping(
+    nodes: Array<[string, ChatGPTMappingNode['message']]>
+  ): Record<string, ChatGPTMappingNode> {
+    const mapping: Record<string, ChatGPTMappingNode> = {}
+    nodes.forEach(([id, message], index) => {
+      mapping[id] = {
+        id,
+        message,
+        parent: index > 0 ? nodes[index - 1][0] : null,
+        children: index < nodes.length - 1 ? [nodes[index + 1][0]] : []
+      }
+    })
+    return mapping
+  }
+
+  it('should keep visible messages of a real conversation', () => {
+    const result = extractChatGPTConversation(conversationData as ChatGPTConversationData)
+
+    expect(result.title).toBe(conversationData.title)
+    expect(result.currentNode).toBe('7eddf1cd-58b1-4fe7-928a-f39157dd4bc2')
+    expect(result.messages.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'assistant'
+    ])
+    expect(result.messages[0].attachments?.[0].fileId).toBe('file_00000000d40871f4a0c3bd06775b8d3a')
+  })
+
+  it('should attach file search results to the following answer', () => {
+    const result = extractChatGPTConversation(conversationData as ChatGPTConversationData)
+    const answer = result.messages.find((m) => m.nodeId === '9cf5f51d-993f-4e7b-9850-5be3c5c15e77')!
+
+    expect(answer.toolParts?.map((p) => p.type)).toEqual(['tool-result', 'tool-result'])
+    expect(answer.toolParts?.[0]).toMatchObject({ toolName: 'file_search' })
+  })
+
+  it('should keep non-`all` recipient calls as tool-call parts', () => {
+    const result = extractChatGPTConversation(conversationData as ChatGPTConversationData)
+    const report = result.messages[result.messages.length - 1]
+
+    expect(report.parentNodeId).toBe('1d88eddd-e931-4677-bec8-6edcf4ff5806')
+    expect(report.toolParts).toHaveLength(1)
+    expect(report.toolParts?.[0]).toMatchObject({
+      type: 'tool-call',
+      toolCallId: '71e3c1ff-c507-4fe7-a138-46cde38b996c',
+      toolName: 'research_kickoff_tool.start_research_task'
+    })
+  })
+
+  it('should merge python code with its execution output', () => {
+    const result = extractChatGPTConversation({
+      title: 'Math',
+      current_node: 'answer',
+      mapping: linearMapping([
+        ['root', null],
+        [
+          'q',
+          { id: 'q', author: { role: 'user' }, content: { content_type: 'text', parts: ['6*7?'] } }
+        ],
+        [
+          'thoughts',
+          {
+            id: 'thoughts',
+            author: { role: 'assistant' },
+            recipient: 'all',
+            content: {
+              content_type: 'thoughts',
+              thoughts: [{ summary: 'Multiplying', content: 'Use python to be sure.' }]
+            }
+          }
+        ],
+        [
+          'code',
+          {
+            id: 'code',
+            author: { role: 'assistant' },
+            recipient: 'python',
+            content: { content_type: 'code', language: 'unknown', text: 'print(6*7)' }
+          }
+        ],
+        [
+          'out',
+          {
+            id: 'out',
+            author: { role: 'tool', name: 'python' },
+            recipient: 'all',
+            content: { content_type: 'execution_output', text: '42' }
+          }
+        ],
+        [
+          'answer',
+          {
+            id: 'answer',
+            author: { role: 'assistant' },
+            recipient: 'all',
+            metadata: { model_slug: 'o3' },
+            content: { content_type: 'text', parts: ['It is 42.'] }
+          }
+        ]
+      ])
+    })
+
+    expect(result.messages.map((m) => m.nodeId)).toEqual(['q', 'answer'])
+    expect(result.messages[1].parentNodeId).toBe('q')
+    expect(result.messages[1].toolParts).toEqual([
+      { type: 'reasoning', text: '**Multiplying**\n\nUse python to be sure.' },
+      {
+        type: 'code-execution',
+        toolCallId: 'code',
+        language: 'unknown',
+        code: 'print(6*7)',
+        output: '42'
+      }
+    ])
+  })
+
+  it('should keep trailing tool activity as its own message', () => {
+    const result = extractChatGPTConversation({
+      current_node: 'memory-result',
+      mapping: linearMapping([
+        [
+          'q',
+          {
+            id: 'q',
+            author: { role: 'user' },
+            content: { content_type: 'text', parts: ['Remember I like cats'] }
+          }
+        ],
+        [
+          'memory',
+          {
+            id: 'memory',
+            author: { role: 'assistant' },
+            recipient: 'bio',
+            content: { content_type: 'code', text: 'User likes cats' }
+          }
+        ],
+        [
+          'memory-result',
+          {
+            id: 'memory-result',
+            author: { role: 'tool', name: 'bio' },
+            recipient: 'assistant',
+            content: { content_type: 'text', parts: ['Model set context updated.'] }
+          }
+        ]
+      ])
+    })
+
+    expect(result.currentNode).toBe('memory-result')
+    expect(result.messages).toHaveLength(2)
+    expect(result.messages[1]).toMatchObject({
+      nodeId: 'memory-result',
+      role: 'assistant',
+      content: '',
+      parentNodeId: 'q',
+      toolParts: [
+        { type: 'tool-call', toolCallId: 'memory', toolName: 'bio', input: 'User likes cats' },
+        {
+          type: 'tool-result',
+          toolCallId: 'memory',
+          toolName: 'bio',
+          output: 'Model set context updated.'
+        }
+      ]
+    })
+  })
+})
+
+describe('toChatGPTProject', () => {
+  const syncedAt = new Date('2026-01-07T12:00:00Z')
+
+  it('should map a project with its files', () => {
+    const result = toChatGPTProject(
+      {
+        gizmo: {
+          id: 'g-p-123',
+          display: { name: 'Thesis', description: 'Chapter drafts' },
+          instructions: 'Answer in British English',
+          created_at: '2026-01-05T09:00:00Z',
+          updated_at: 1767776400
+        },
+        files: [{ id: 'file-a', file_id: 'file-a', name: 'outline.pdf' }, { name: 'no id' }]
+      },
+      syncedAt
+    )
+
+    expect(result.project).toEqual({
+      id: 'g-p-123',
+      provider: 'chatgpt',
+      kind: 'project',
+      name: 'Thesis',
+      description: 'Chapter drafts',
+      instructions: 'Answer in British English',
+      createdAt: new Date('2026-01-05T09:00:00Z'),
+      updatedAt: new Date(1767776400 * 1000),
+      syncedAt
+    })
+    expect(result.documents).toEqual([
+      {
+        id: 'g-p-123-file-a',
+        projectId: 'g-p-123',
+        filename: 'outline.pdf',
+        content: null,
+        createdAt: null
+      }
+    ])
+  })
+
+  it('should map other gizmos to custom GPTs', () => {
+    const result = toChatGPTProject({ gizmo: { id: 'g-abc', display: null } }, syncedAt)
+
+    expect(result.project).toMatchObject({
+      kind: 'gpt',
+      name: 'Untitled',
+      description: null,
+      instructions: null,
+      createdAt: null
+    })
+    expect(result.documents).toEqual([])
+  })
+})
@@ -1,5 +1,6 @@
-import crypto from 'crypto'
-import type { MessagePart } from '@shared/types'
+import type { MessagePart, ToolCallPart } from '@shared/types'
+import { getSourceId } from '../../source-utils'
+import type { NewProject, NewProjectDocument } from '../../../db/schema'
 
 export interface ChatGPTContentReference {
   matched_text: string
@@ -13,9 +14,22 @@ export interface ChatGPTContentReference {
 export interface ChatGPTMessageInput {
   content: string
   contentReferences?: ChatGPTContentReference[]
+  toolParts?: MessagePart[]
 }
 
 export function transformChatGPTMessageToParts(input: ChatGPTMessageInput): MessagePart[] {
+  const { toolParts = [] } = input
+  const parts = transformContentToParts(input)
+
+  if (toolParts.length === 0) {
+    return parts
+  }
+
+  // Tool-only messages have no text of their own
+  return [...toolParts, ...parts.filter((part) => part.type !== 'text' || part.text)]
+}
+
+function transformContentToParts(input: ChatGPTMessageInput): MessagePart[] {
   const { content, contentReferences } = input
 
   if (!contentReferences || contentReferences.length === 0) {
@@ -52,7 +66,7 @@ export function transformChatGPTMessageToParts(input: ChatGPTMessageInput): Mess
     if (ref?.url) {
       parts.push({
         type: 'source-url',
-        sourceId: crypto.randomUUID(),
+        sourceId: getSourceId(ref.url, parts.length),
         url: ref.url,
         title: ref.title,
         attribution: ref.attribution,
@@ -72,3 +86,553 @@ export function transformChatGPTMessageToParts(input: ChatGPTMessageInput): Mess
 
   return parts
 }
+
+// ============================================================================
+// CONVERSATION TREE
+// ============================================================================
+
+interface ChatGPTRawContentPart {
+  content_type?: string
+  asset_pointer?: string
+  width?: number
+  height?: number
+  size_bytes?: number
+}
+
+interface ChatGPTRawMessage {
+  id: string
+  author?: { role?: string; name?: string | null }
+  create_time?: number | null
+  content?: {
+    content_type?: string
+    parts?: Array<string | ChatGPTRawContentPart>
+    text?: string // code, execution_output, tether_quote
+    language?: string // code
+    result?: string // tether_browsing_display
+    thoughts?: Array<{ summary?: string; content?: string }> // thoughts
+  }
+  recipient?: string
+  metadata?: {
+    is_visually_hidden_from_conversation?: boolean
+    model_slug?: string
+    image_gen_title?: string
+    attachments?: Array<{
+      id: string
+      name?: string
+      mime_type?: string
+      width?: number
+      height?: number
+      size?: number
+    }>
+    content_references?: Array<ChatGPTContentReference & { type: string }>
+  }
+}
+
+export interface ChatGPTMappingNode {
+  id: string
+  message?: ChatGPTRawMessage | null
+  parent?: string | null
+  children?: string[]
+}
+
+/**
+ * Conversation as returned by `/backend-api/conversation/{id}`.
+ * The "Export data" archive uses the same shape in conversations.json.
+ */
+export interface ChatGPTConversationData {
+  id?: string
+  conversation_id?: string
+  title?: string | null
+  create_time?: number | null
+  update_time?: number | null
+  mapping?: Record<string, ChatGPTMappingNode>
+  current_node?: string | null
+}
+
+export interface ChatGPTExtractedAttachment {
+  type: 'image' | 'file'
+  fileId: string
+  filename: string | null
+  mimeType: string | null
+  width?: number
+  height?: number
+  size?: number
+}
+
+export interface ChatGPTExtractedMessage {
+  id: string
+  nodeId: string
+  role: 'user' | 'assistant'
+  content: string
+  contentType?: string
+  createdAt: number | null // ms
+  modelSlug?: string
+  attachments?: ChatGPTExtractedAttachment[]
+  contentReferences?: ChatGPTContentReference[]
+  toolParts?: MessagePart[] // Reasoning and tool activity that preceded this message
+  parentNodeId: string | null
+  siblingNodeIds: string[]
+  siblingIndex: number
+}
+
+function getAssetFileId(assetPointer: string | undefined): string | null {
+  if (!assetPointer) return null
+  if (assetPointer.startsWith('sediment://')) return assetPointer.replace('sediment://', '')
+  if (assetPointer.startsWith('file-service://')) return assetPointer.replace('file-service://', '')
+  return assetPointer
+}
+
+function getContentText(content: NonNullable<ChatGPTRawMessage['content']>): string {
+  if (typeof content.text === 'string') return content.text
+  if (typeof content.result === 'string') return content.result
+  return (content.parts || []).filter((part): part is string => typeof part === 'string').join('\n')
+}
+
+// Reasoning and tool activity collected on the way to the next visible message
+interface PendingToolActivity {
+  nodeId: string
+  msg: ChatGPTRawMessage
+  parts: MessagePart[]
+}
+
+/**
+ * Add a thoughts, tool call or tool output node to the pending activity.
+ * Python runs are merged with their execution output into one code-execution part.
+ */
+function appendToolActivity(
+  pending: PendingToolActivity | null,
+  nodeId: string,
+  msg: ChatGPTRawMessage
+): PendingToolActivity | null {
+  const content = msg.content!
+  const parts = pending ? [...pending.parts] : []
+
+  if (content.content_type === 'thoughts') {
+    const text = (content.thoughts || [])
+      .map((thought) =>
+        [thought.summary && `**${thought.summary}**`, thought.content].filter(Boolean).join('\n\n')
+      )
+      .filter(Boolean)
+      .join('\n\n')
+    if (!text) return pending
+    parts.push({ type: 'reasoning', text })
+  } else if (msg.author?.role === 'assistant') {
+    const recipient = msg.recipient || 'tool'
+    const input = getContentText(content)
+    if (recipient === 'python') {
+      parts.push({
+        type: 'code-execution',
+        toolCallId: msg.id,
+        language: content.language || 'python',
+        code: input
+      })
+    } else {
+      parts.push({ type: 'tool-call', toolCallId: msg.id, toolName: recipient, input })
+    }
+  } else {
+    const toolName = msg.author?.name || 'tool'
+    const output = getContentText(content)
+    if (!output.trim()) return pending
+
+    const runIndex = parts.findLastIndex(
+      (part) => part.type === 'code-execution' && part.output === undefined
+    )
+    const run = parts[runIndex]
+    const call = parts.findLast(
+      (part): part is ToolCallPart => part.type === 'tool-call' && part.toolName === toolName
+    )
+
+    if (content.content_type === 'execution_output' && run?.type === 'code-execution') {
+      parts[runIndex] = { ...run, output }
+    } else {
+      parts.push({
+        type: 'tool-result',
+        toolCallId: call?.toolCallId ?? msg.id,
+        toolName,
+        output
+      })
+    }
+  }
+
+  return { nodeId, msg, parts }
+}
+
+/**
+ * Flatten the conversation `mapping` tree into visible messages.
+ *
+ * Hidden and context nodes are skipped and their children are re-parented to the
+ * nearest collected ancestor. Reasoning, tool calls (non-`all` recipient) and tool
+ * outputs become `toolParts` of the next assistant message on the same branch, or a
+ * message of their own when no assistant reply follows. Tool messages with generated
+ * images are kept as assistant messages. Siblings are ordered by create_time.
+ */
+export function extractChatGPTConversation(data: ChatGPTConversationData): {
+  title: string
+  currentNode: string | null
+  messages: ChatGPTExtractedMessage[]
+} {
+  const mapping = data.mapping || {}
+  const messageNodes = Object.values(mapping)
+  const sortedMessages: ChatGPTExtractedMessage[] = []
+  const currentNode = data.current_node || null
+
+  // Build a parent->children map
+  const childrenMap: Record<string, string[]> = {}
+  for (const node of messageNodes) {
+    const parentId = node.parent
+    if (parentId) {
+      if (!childrenMap[parentId]) childrenMap[parentId] = []
+      childrenMap[parentId].push(node.id)
+    }
+  }
+
+  // Sort children by creation time
+  for (const parentId of Object.keys(childrenMap)) {
+    childrenMap[parentId].sort((a, b) => {
+      const timeA = mapping[a]?.message?.create_time || 0
+      const timeB = mapping[b]?.message?.create_time || 0
+      return timeA - timeB
+    })
+  }
+
+  // Find root node
+  let rootId: string | null = null
+  for (const node of messageNodes) {
+    if (!node.parent || !mapping[node.parent]) {
+      rootId = node.id
+      break
+    }
+  }
+
+  const seenImageFileIds = new Set<string>()
+
+  const pushMessage = (
+    nodeId: string,
+    msg: ChatGPTRawMessage,
+    fields: Pick<
+      ChatGPTExtractedMessage,
+      'role' | 'content' | 'modelSlug' | 'attachments' | 'contentReferences' | 'toolParts'
+    >
+  ): void => {
+    const parentNodeId = mapping[nodeId].parent || null
+    const siblings = parentNodeId ? childrenMap[parentNodeId] || [nodeId] : [nodeId]
+
+    sortedMessages.push({
+      id: msg.id,
+      nodeId,
+      contentType: msg.content?.content_type,
+      createdAt: msg.create_time ? msg.create_time * 1000 : null,
+      parentNodeId,
+      siblingNodeIds: siblings,
+      siblingIndex: siblings.indexOf(nodeId),
+      ...fields
+    })
+  }
+
+  const flushToolActivity = (pending: PendingToolActivity): void => {
+    if (sortedMessages.some((m) => m.nodeId === pending.nodeId)) return
+    pushMessage(pending.nodeId, pending.msg, {
+      role: 'assistant',
+      content: '',
+      modelSlug: pending.msg.metadata?.model_slug,
+      attachments: undefined,
+      contentReferences: undefined,
+      toolParts: pending.parts
+    })
+  }
+
+  // Traverse from root to collect messages
+  const traverse = (nodeId: string, pending: PendingToolActivity | null): void => {
+    const node = mapping[nodeId]
+    if (!node) return
+
+    const msg = node.message
+    const contentType = msg?.content?.content_type
+    const role = msg?.author?.role
+
+    const skip =
+      !msg?.content ||
+      msg.metadata?.is_visually_hidden_from_conversation ||
+      contentType === 'user_editable_context' ||
+      contentType === 'model_editable_context'
+
+    const hasImageAssets = (msg?.content?.parts || []).some(
+      (part) => typeof part !== 'string' && part.content_type === 'image_asset_pointer'
+    )
+    const isToolActivity =
+      (role === 'assistant' && msg?.recipient && msg.recipient !== 'all') ||
+      (role === 'assistant' && contentType === 'thoughts') ||
+      (role === 'tool' && !(contentType === 'multimodal_text' && hasImageAssets))
+
+    let nextPending = pending
+
+    if (msg?.content && !skip && isToolActivity) {
+      nextPending = appendToolActivity(pending, nodeId, msg)
+    } else if (msg?.content && !skip) {
+      const collectedBefore = sortedMessages.length
+
+      if (role === 'tool' && contentType === 'multimodal_text') {
+        const attachments: ChatGPTExtractedAttachment[] = []
+
+        for (const part of msg.content.parts || []) {
+          if (typeof part === 'string' || part.content_type !== 'image_asset_pointer') continue
+          const fileId = getAssetFileId(part.asset_pointer)
+          if (fileId && !seenImageFileIds.has(fileId)) {
+            seenImageFileIds.add(fileId)
+            attachments.push({
+              type: 'image',
+              fileId,
+              width: part.width,
+              height: part.height,
+              size: part.size_bytes,
+              filename: msg.metadata?.image_gen_title || null,
+              mimeType: null
+            })
+          }
+        }
+
+        if (attachments.length > 0) {
+          pushMessage(nodeId, msg, {
+            role: 'assistant',
+            content: '',
+            modelSlug: undefined,
+            attachments,
+            contentReferences: undefined,
+            toolParts: pending?.parts
+          })
+        }
+      } else if (role === 'user' || role === 'assistant') {
+        const textParts: string[] = []
+        const attachments: ChatGPTExtractedAttachment[] = []
+
+        for (const part of msg.content.parts || []) {
+          if (typeof part === 'string') {
+            textParts.push(part)
+          } else if (part.content_type === 'image_asset_pointer') {
+            const fileId = getAssetFileId(part.asset_pointer)
+            if (fileId) {
+              attachments.push({
+                type: 'image',
+                fileId,
+                width: part.width,
+                height: part.height,
+                size: part.size_bytes,
+                filename: null,
+                mimeType: null
+              })
+            }
+          }
+        }
+
+        for (const att of msg.metadata?.attachments || []) {
+          const existing = attachments.find((a) => a.fileId === att.id)
+          if (existing) {
+            existing.filename = att.name ?? null
+            existing.mimeType = att.mime_type ?? null
+          } else {
+            attachments.push({
+              type: att.mime_type?.startsWith('image/') ? 'image' : 'file',
+              fileId: att.id,
+              filename: att.name ?? null,
+              mimeType: att.mime_type ?? null,
+              width: att.width,
+              height: att.height,
+              size: att.size
+            })
+          }
+        }
+
+        const content = textParts.join('\n')
+        if (content.trim() || attachments.length > 0) {
+          const contentReferences = (msg.metadata?.content_references || [])
+            .filter(
+              (ref) =>
+                ref.type === 'webpage' ||
+                ref.type === 'webpage_extended' ||
+                ref.type === 'image_inline'
+            )
+            .map((ref) => ({
+              matched_text: ref.matched_text,
+              type: ref.type,
+              title: ref.title,
+              url: ref.url,
+              snippet: ref.snippet,
+              attribution: ref.attribution
+            }))
+
+          if (role === 'user' && pending) {
+            flushToolActivity(pending)
+          }
+
+          pushMessage(nodeId, msg, {
+            role,
+            content,
+            modelSlug: msg.metadata?.model_slug,
+            attachments: attachments.length > 0 ? attachments : undefined,
+            contentReferences: contentReferences.length > 0 ? contentReferences : undefined,
+            toolParts: role === 'assistant' ? pending?.parts : undefined
+          })
+        }
+      }
+
+      if (sortedMessages.length > collectedBefore) {
+        nextPending = null
+      }
+    }
+
+    const children = childrenMap[nodeId] || []
+    if (children.length === 0 && nextPending) {
+      flushToolActivity(nextPending)
+    }
+
+    for (const childId of children) {
+      traverse(childId, nextPending)
+    }
+  }
+
+  if (rootId) {
+    traverse(rootId, null)
+  }
+
+  // Post-process: fix parent references
+  const collectedNodeIds = new Set(sortedMessages.map((m) => m.nodeId))
+
+  const findCollectedAncestor = (nodeId: string | null): string | null => {
+    let current = nodeId
+    while (current) {
+      if (collectedNodeIds.has(current)) {
+        return current
+      }
+      current = mapping[current]?.parent || null
+    }
+    return null
+  }
+
+  for (const msg of sortedMessages) {
+    msg.parentNodeId = findCollectedAncestor(msg.parentNodeId)
+  }
+
+  // Rebuild sibling information
+  const createdAtByNode = new Map(sortedMessages.map((m) => [m.nodeId, m.createdAt || 0]))
+  const correctedChildrenMap: Record<string, string[]> = {}
+  for (const msg of sortedMessages) {
+    const parent = msg.parentNodeId || '__root__'
+    if (!correctedChildrenMap[parent]) correctedChildrenMap[parent] = []
+    correctedChildrenMap[parent].push(msg.nodeId)
+  }
+
+  for (const parent of Object.keys(correctedChildrenMap)) {
+    correctedChildrenMap[parent].sort(
+      (a, b) => (createdAtByNode.get(a) || 0) - (createdAtByNode.get(b) || 0)
+    )
+  }
+
+  for (const msg of sortedMessages) {
+    const siblings = correctedChildrenMap[msg.parentNodeId || '__root__'] || [msg.nodeId]
+    msg.siblingNodeIds = siblings
+    msg.siblingIndex = siblings.indexOf(msg.nodeId)
+  }
+
+  // Find valid currentNode
+  let validCurrentNode = currentNode
+  if (currentNode && !collectedNodeIds.has(currentNode)) {
+    validCurrentNode = findCollectedAncestor(currentNode)
+    if (!validCurrentNode) {
+      validCurrentNode =
+        sortedMessages.length > 0 ? sortedMessages[sortedMessages.length - 1].nodeId : null
+    }
+  }
+
+  return {
+    title: data.title || 'Untitled',
+    currentNode: validCurrentNode,
+    messages: sortedMessages
+  }
+}
+
+// Gizmo as returned by /backend-api/gizmos/{id} and the project sidebar
+export interface ChatGPTGizmoData {
+  gizmo: {
+    id: string
+    display?: { name?: string | null; description?: string | null } | null
+    instructions?: string | null
+    created_at?: string | number | null
+    updated_at?: string | number | null
+  }
+  files?: Array<{ id?: string; file_id?: string; name?: string | null }> | null
+}
+
+// Gizmo timestamps are ISO strings, some older ones seconds
+function parseGizmoTime(value: string | number | null | undefined): Date | null {
+  if (value === null || value === undefined) return null
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Project or custom GPT of a gizmo. Projects have IDs starting with 'g-p-'. ChatGPT only
+ * lists project files, so the documents have no content; instructions are only shared
+ * for the user's own gizmos.
+ */
+export function toChatGPTProject(
+  data: ChatGPTGizmoData,
+  syncedAt: Date
+): { project: NewProject; documents: NewProjectDocument[] } {
+  const { gizmo } = data
+  const documents = (data.files ?? []).flatMap((file) => {
+    const fileId = file.file_id || file.id
+    if (!fileId) return []
+    return [
+      {
+        id: `${gizmo.id}-${fileId}`,
+        projectId: gizmo.id,
+        filename: file.name || fileId,
+        content: null,
+        createdAt: null
+      }
+    ]
+  })
+
+  return {
+    project: {
+      id: gizmo.id,
+      provider: 'chatgpt',
+      kind: gizmo.id.startsWith('g-p-') ? 'project' : 'gpt',
+      name: gizmo.display?.name || 'Untitled',
+      description: gizmo.display?.description || null,
+      instructions: gizmo.instructions || null,
+      createdAt: parseGizmoTime(gizmo.created_at),
+      updatedAt: parseGizmoTime(gizmo.updated_at),
+      syncedAt
+    },
+    documents
+  }
+}
+
+// Page of /backend-api/conversations as returned by the page script
+export interface ChatGPTListingPage {
+  items: Array<{ id: string }>
+  hasMore: boolean
+  error?: number
+}
+
+/**
+ * IDs of every conversation in a listing (active or archived), pinned ones included:
+ * chatgpt.com leaves them out of the listing with is_starred=false and lists them with
+ * is_starred=true. Throws on any failed page, so a partial listing is never used.
+ */
+export async function listChatGPTConversationIds(
+  fetchPage: (offset: number, starred: boolean) => Promise<ChatGPTListingPage>,
+  pageSize: number
+): Promise<string[]> {
+  const ids = new Set<string>()
+  for (const starred of [false, true]) {
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await fetchPage(offset, starred)
+      if (page.error) throw new Error(`API error: ${page.error}`)
+      for (const item of page.items) ids.add(item.id)
+      if (!page.hasMore) break
+    }
+  }
+  return [...ids]
+}
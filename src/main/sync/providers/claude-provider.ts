@@ -1,16 +1,20 @@
 import { WebContentsView, session } from 'electron'
 import { BaseProvider, type SyncResult, type ProviderName } from './base.js'
 import type { IStorage } from '../../storage/interface.js'
-import type { ClaudeMetadata } from './types'
+import type { RemoteListing } from '../../db/remote-status.js'
+import { CLAUDE_DEFAULT_METADATA, type ClaudeMetadata } from './types'
 import { getMainWindow } from '../../index.js'
 import { viewBoundsManager } from '../../view-bounds-manager'
 import { IPC_CHANNELS } from '../../../shared/types'
 import { findCachedFile, getExtensionFromMimeType } from '../attachment-utils.js'
 import { getAttachmentsPath } from '../../settings.js'
 import {
+  toClaudeProject,
   transformClaudeMessageToParts,
-  type ClaudeContentBlock as UtilsClaudeContentBlock
+  type ClaudeContentBlock as UtilsClaudeContentBlock,
+  type ClaudeProjectData
 } from './claude/utils'
+import { resolveArtifactVersionsFromRows } from '../../db/artifacts'
 import fs from 'fs'
 import path from 'path'
 
@@ -27,6 +31,7 @@ export interface ClaudeConversationListItem {
   created_at: string
   updated_at: string
   current_leaf_message_uuid: string | null
+  project_uuid: string | null
 }
 
 export interface ClaudeContentBlock {
@@ -79,6 +84,7 @@ export interface ClaudeConversation {
   created_at: string
   updated_at: string
   current_leaf_message_uuid: string | null
+  model: string | null
   chat_messages: ClaudeMessage[]
 }
 
@@ -106,11 +112,7 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
   }
 
   protected getDefaultMetadata(): ClaudeMetadata {
-    return {
-      lastCompletedOffset: 0,
-      isFullSyncComplete: false,
-      lastSyncPageSize: 30
-    }
+    return { ...CLAUDE_DEFAULT_METADATA }
   }
 
   async initialize(): Promise<void> {
@@ -407,25 +409,15 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
       })
 
       // Upsert messages
-      const messageInserts = content.chat_messages.map((msg) => {
-        const parts = transformClaudeMessageToParts({
-          content: msg.content as UtilsClaudeContentBlock[]
-        })
-
-        return {
-          id: msg.uuid,
-          conversationId,
-          role: msg.sender === 'human' ? ('user' as const) : ('assistant' as const),
-          parts: JSON.stringify(parts),
-          createdAt: msg.created_at ? new Date(msg.created_at) : undefined,
-          orderIndex: msg.index,
-          parentId: msg.parent_message_uuid,
-          siblingIds: JSON.stringify([]),
-          siblingIndex: 0
-        }
-      })
+      const messageInserts = content.chat_messages.map((msg) =>
+        this.convertClaudeMessage(msg, conversationId, content.model)
+      )
 
       await this.storage.upsertMessages(messageInserts)
+      await this.storage.replaceArtifacts(
+        conversationId,
+        resolveArtifactVersionsFromRows(conversationId, messageInserts)
+      )
 
       // Upsert attachments (use deterministic ID based on messageId + file_uuid)
       const allAttachments = content.chat_messages.flatMap((msg) => {
@@ -552,6 +544,8 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
     }
 
     try {
+      await this.syncProjects()
+
       const metadata = await this.getMetadata()
 
       // Choose sync mode based on whether we've completed a full sync
@@ -610,7 +604,8 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
             summary: item.summary || '',
             created_at: item.created_at,
             updated_at: item.updated_at,
-            current_leaf_message_uuid: item.current_leaf_message_uuid || null
+            current_leaf_message_uuid: item.current_leaf_message_uuid || null,
+            project_uuid: item.project_uuid || null
           })
         )
 
@@ -714,6 +709,82 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
     }
   }
 
+  // ============================================================================
+  // PROJECTS - Their conversations come with the others, in the main list
+  // ============================================================================
+
+  /**
+   * Sync the projects of the organization. Knowledge files are fetched for new projects
+   * and ones updated since the last sync. Failures are logged and don't fail the sync of
+   * the conversations.
+   */
+  private async syncProjects(): Promise<void> {
+    if (!this.view || !this.capturedHeaders || !this.organizationId) return
+
+    try {
+      const result = await this.view.webContents.executeJavaScript(
+        this.makeFetchProjectsScript(this.organizationId, this.capturedHeaders)
+      )
+      if (result.error) throw new Error(`API error: ${result.error}`)
+
+      for (const data of result.items as ClaudeProjectData[]) {
+        const existing = await this.storage.getProject(data.uuid)
+        const updatedAt = data.updated_at ? new Date(data.updated_at) : null
+        // Stored timestamps are in seconds
+        const isUnchanged =
+          existing?.updatedAt &&
+          updatedAt &&
+          Math.floor(existing.updatedAt.getTime() / 1000) >= Math.floor(updatedAt.getTime() / 1000)
+
+        if (isUnchanged) {
+          const { project } = toClaudeProject(data, [], new Date())
+          await this.storage.upsertProject(project)
+          continue
+        }
+
+        const docs = await this.view.webContents.executeJavaScript(
+          this.makeFetchProjectDocsScript(this.organizationId, data.uuid, this.capturedHeaders)
+        )
+        if (docs.error) throw new Error(`API error: ${docs.error}`)
+        const { project, documents } = toClaudeProject(data, docs.items, new Date())
+        await this.storage.upsertProject(project, documents)
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Error syncing projects:`, error)
+    }
+  }
+
+  // ============================================================================
+  // RECONCILIATION - Full listing, to find conversations deleted on claude.ai
+  // ============================================================================
+
+  // claude.ai has no archive, and project conversations are in the main list
+  protected async listRemoteConversations(): Promise<RemoteListing | null> {
+    if (!this.view || !this.capturedHeaders || !this.organizationId) return null
+
+    try {
+      const active: string[] = []
+      const PAGE_SIZE = 100
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const result = await this.view.webContents.executeJavaScript(
+          this.makeFetchConversationPageScript(
+            this.organizationId,
+            this.capturedHeaders,
+            PAGE_SIZE,
+            offset
+          )
+        )
+        // A failed page would mark its conversations deleted
+        if (result.error) throw new Error(`API error: ${result.error}`)
+        active.push(...result.items.map((item: ClaudeConversationListItem) => item.uuid))
+        if (!result.has_more) return { active, archived: [] }
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Error listing conversations for reconciliation:`, error)
+      return null
+    }
+  }
+
   // ============================================================================
   // RETRY LOGIC - With exponential backoff
   // ============================================================================
@@ -832,7 +903,8 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
             summary: item.summary || '',
             created_at: item.created_at,
             updated_at: item.updated_at,
-            current_leaf_message_uuid: item.current_leaf_message_uuid || null
+            current_leaf_message_uuid: item.current_leaf_message_uuid || null,
+            project_uuid: item.project_uuid || null
           }
 
           const convTimestamp = new Date(conv.updated_at).getTime()
@@ -902,6 +974,7 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
           current_leaf_message_uuid: null,
+          model: null,
           chat_messages: []
         }
       }
@@ -917,6 +990,7 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
         created_at: result.created_at,
         updated_at: result.updated_at,
         current_leaf_message_uuid: result.current_leaf_message_uuid || null,
+        model: result.model || null,
         chat_messages: (result.chat_messages || []).map((msg: ClaudeMessage) => ({
           uuid: msg.uuid,
           text: msg.text || '',
@@ -957,14 +1031,19 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
       updatedAt: new Date(conv.updated_at),
       syncedAt: new Date(),
       messageCount: content.chat_messages.length,
-      currentNodeId: content.current_leaf_message_uuid
+      currentNodeId: content.current_leaf_message_uuid,
+      projectId: conv.project_uuid
     })
 
     const messageInserts = content.chat_messages.map((msg) =>
-      this.convertClaudeMessage(msg, conv.uuid)
+      this.convertClaudeMessage(msg, conv.uuid, content.model)
     )
 
     await this.storage.upsertMessages(messageInserts)
+    await this.storage.replaceArtifacts(
+      conv.uuid,
+      resolveArtifactVersionsFromRows(conv.uuid, messageInserts)
+    )
 
     for (const msg of content.chat_messages) {
       // Deduplicate files (Claude returns same file in both files and files_v2)
@@ -1011,7 +1090,8 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
     }
   }
 
-  private convertClaudeMessage(msg: ClaudeMessage, conversationId: string) {
+  // Claude only reports the conversation's model, so every response gets it
+  private convertClaudeMessage(msg: ClaudeMessage, conversationId: string, model: string | null) {
     const parts = transformClaudeMessageToParts({
       content: msg.content as UtilsClaudeContentBlock[]
     })
@@ -1025,7 +1105,8 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
       orderIndex: msg.index,
       parentId: msg.parent_message_uuid,
       siblingIds: JSON.stringify([]),
-      siblingIndex: 0
+      siblingIndex: 0,
+      model: msg.sender === 'assistant' ? model : null
     }
   }
 
@@ -1100,6 +1181,64 @@ export class ClaudeProvider extends BaseProvider<ClaudeMetadata> {
 `
   }
 
+  private makeFetchProjectsScript(organizationId: string, headers: ClaudeApiHeaders): string {
+    return `
+(async function() {
+  const headers = ${JSON.stringify({
+    ...headers,
+    'content-type': 'application/json'
+  })};
+
+  const response = await fetch(
+    'https://claude.ai/api/organizations/${organizationId}/projects',
+    {
+      credentials: 'include',
+      headers: headers,
+    }
+  );
+
+  if (!response.ok) {
+    console.error('[Claude API] Failed to fetch projects:', response.status);
+    return { items: [], error: response.status };
+  }
+
+  const data = await response.json();
+  return { items: data || [] };
+})();
+`
+  }
+
+  private makeFetchProjectDocsScript(
+    organizationId: string,
+    projectId: string,
+    headers: ClaudeApiHeaders
+  ): string {
+    return `
+(async function() {
+  const headers = ${JSON.stringify({
+    ...headers,
+    'content-type': 'application/json'
+  })};
+
+  const response = await fetch(
+    'https://claude.ai/api/organizations/${organizationId}/projects/${projectId}/docs',
+    {
+      credentials: 'include',
+      headers: headers,
+    }
+  );
+
+  if (!response.ok) {
+    console.error('[Claude API] Failed to fetch project docs:', response.status);
+    return { items: [], error: response.status };
+  }
+
+  const data = await response.json();
+  return { items: data || [] };
+})();
+`
+  }
+
   private makeFetchTotalCountScript(organizationId: string, headers: ClaudeApiHeaders): string {
     return `
 (async function() {
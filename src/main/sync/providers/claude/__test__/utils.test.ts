@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { transformClaudeMessageToParts } from '../utils'
-import type { SourceUrlPart, TextPart } from '@shared/types'
+import { toClaudeProject, transformClaudeMessageToParts } from '../utils'
+import type {
+  ArtifactPart,
+  SourceUrlPart,
+  TextPart,
+  ToolCallPart,
+  ToolResultPart
+} from '@shared/types'
 import conversationData from './claude-conversation.json'
 
 describe('transformClaudeMessageToParts', () => {
@@ -46,14 +52,19 @@ describe('transformClaudeMessageToParts', () => {
     expect((result[1] as TextPart).text).toBe('Second paragraph.')
   })
 
-  it('should handle artifacts without citations', () => {
+  it('should transform artifacts into artifact parts', () => {
     const input = {
       content: [
         {
           type: 'tool_use',
           name: 'artifacts',
           input: {
-            content: 'This is markdown content without citations.'
+            id: 'fizzbuzz',
+            command: 'create',
+            type: 'application/vnd.ant.code',
+            title: 'FizzBuzz',
+            language: 'python',
+            content: 'for i in range(1, 16):\n    print(i)'
           }
         }
       ]
@@ -61,12 +72,74 @@ describe('transformClaudeMessageToParts', () => {
 
     const result = transformClaudeMessageToParts(input)
 
-    expect(result).toHaveLength(1)
-    expect(result[0].type).toBe('text')
-    expect((result[0] as TextPart).text).toBe('This is markdown content without citations.')
+    expect(result).toEqual([
+      {
+        type: 'artifact',
+        artifactId: 'fizzbuzz',
+        command: 'create',
+        artifactType: 'application/vnd.ant.code',
+        title: 'FizzBuzz',
+        language: 'python',
+        content: 'for i in range(1, 16):\n    print(i)',
+        oldStr: undefined,
+        newStr: undefined
+      }
+    ])
+  })
+
+  it('should keep update and rewrite commands of artifacts', () => {
+    const input = {
+      content: [
+        {
+          type: 'tool_use',
+          name: 'artifacts',
+          input: { id: 'doc', command: 'update', old_str: 'cats', new_str: 'Bengal cats' }
+        },
+        {
+          type: 'tool_use',
+          name: 'artifacts',
+          input: { id: 'doc', command: 'rewrite', content: 'All about Bengal cats.' }
+        }
+      ]
+    }
+
+    const result = transformClaudeMessageToParts(input) as ArtifactPart[]
+
+    expect(result).toHaveLength(2)
+    expect(result[0]).toMatchObject({
+      type: 'artifact',
+      artifactId: 'doc',
+      command: 'update',
+      oldStr: 'cats',
+      newStr: 'Bengal cats'
+    })
+    expect(result[1]).toMatchObject({
+      type: 'artifact',
+      artifactId: 'doc',
+      command: 'rewrite',
+      content: 'All about Bengal cats.'
+    })
+  })
+
+  it('should default the command and id of artifacts', () => {
+    const input = {
+      content: [
+        { type: 'text', text: 'Here is the report.' },
+        { type: 'tool_use', name: 'artifacts', input: { content: 'Report' } }
+      ]
+    }
+
+    const result = transformClaudeMessageToParts(input)
+
+    expect(result[1]).toMatchObject({
+      type: 'artifact',
+      artifactId: 'artifact-1',
+      command: 'create',
+      content: 'Report'
+    })
   })
 
-  it('should split markdown and citations using start_index and end_index', () => {
+  it('should keep artifact citations as sources after the artifact', () => {
     const markdown = 'Bengal cats are popular. They appeared in films and became famous.'
     const input = {
       content: [
@@ -74,6 +147,7 @@ describe('transformClaudeMessageToParts', () => {
           type: 'tool_use',
           name: 'artifacts',
           input: {
+            id: 'report',
             content: markdown,
             md_citations: [
               {
@@ -95,13 +169,12 @@ describe('transformClaudeMessageToParts', () => {
 
     const result = transformClaudeMessageToParts(input)
 
-    expect(result).toHaveLength(3)
+    expect(result).toHaveLength(2)
 
-    // First text part (0-48) - includes cited text "They appeared in films " (note trailing space)
-    expect(result[0].type).toBe('text')
-    expect((result[0] as TextPart).text).toBe('Bengal cats are popular. They appeared in films ')
+    // The artifact keeps the whole document, cited text included
+    expect(result[0].type).toBe('artifact')
+    expect((result[0] as ArtifactPart).content).toBe(markdown)
 
-    // Source citation marker after cited text
     expect(result[1].type).toBe('source-url')
     const source = result[1] as SourceUrlPart
     expect(source.sourceId).toBe('citation-1')
@@ -109,37 +182,16 @@ describe('transformClaudeMessageToParts', () => {
     expect(source.title).toBe('Bengal Cat History')
     expect(source.attribution).toBe('Example Source')
     expect(source.icon_url).toBe('https://example.com/icon.png')
-
-    // Final text part (48-end) - "and became famous."
-    expect(result[2].type).toBe('text')
-    expect((result[2] as TextPart).text).toBe('and became famous.')
   })
 
-  it('should handle multiple citations in artifacts', () => {
-    const markdown = 'First second third.'
+  it('should keep non-artifacts tool_use blocks as tool calls', () => {
     const input = {
       content: [
         {
           type: 'tool_use',
-          name: 'artifacts',
+          name: 'some_other_tool',
           input: {
-            content: markdown,
-            md_citations: [
-              {
-                uuid: 'cite-1',
-                title: 'Source One',
-                url: 'https://one.com',
-                start_index: 6,
-                end_index: 12
-              },
-              {
-                uuid: 'cite-2',
-                title: 'Source Two',
-                url: 'https://two.com',
-                start_index: 13,
-                end_index: 18
-              }
-            ]
+            data: 'some data'
           }
         }
       ]
@@ -147,37 +199,114 @@ describe('transformClaudeMessageToParts', () => {
 
     const result = transformClaudeMessageToParts(input)
 
-    // 'First second' + citation + 'third' + citation + '.'
-    expect(result).toHaveLength(5)
-    expect(result[0].type).toBe('text')
-    expect((result[0] as TextPart).text).toBe('First second')
-    expect(result[1].type).toBe('source-url')
-    expect(result[2].type).toBe('text')
-    expect((result[2] as TextPart).text).toBe(' third')
-    expect(result[3].type).toBe('source-url')
-    expect(result[4].type).toBe('text')
-    expect((result[4] as TextPart).text).toBe('.')
+    expect(result).toEqual([
+      {
+        type: 'tool-call',
+        toolCallId: 'some_other_tool-0',
+        toolName: 'some_other_tool',
+        input: JSON.stringify({ data: 'some data' }, null, 2)
+      }
+    ])
+  })
+
+  it('should transform thinking blocks into reasoning parts', () => {
+    const input = {
+      content: [
+        { type: 'thinking', thinking: 'The user wants a short answer.' },
+        { type: 'text', text: 'Yes.' }
+      ]
+    }
+
+    const result = transformClaudeMessageToParts(input)
+
+    expect(result).toEqual([
+      { type: 'reasoning', text: 'The user wants a short answer.' },
+      { type: 'text', text: 'Yes.' }
+    ])
   })
 
-  it('should ignore non-artifacts tool_use blocks', () => {
+  it('should pair tool results with the latest call of the same tool', () => {
     const input = {
       content: [
+        { type: 'tool_use', name: 'web_search', input: { query: 'bengal cats' } },
         {
-          type: 'tool_use',
-          name: 'some_other_tool',
-          input: {
-            data: 'some data'
-          }
-        }
+          type: 'tool_result',
+          name: 'web_search',
+          content: [
+            {
+              type: 'knowledge',
+              title: 'Bengal cat - Wikipedia',
+              url: 'https://en.wikipedia.org/wiki/Bengal_cat'
+            },
+            { type: 'text', text: 'No more results' }
+          ],
+          is_error: false
+        },
+        { type: 'text', text: 'Bengals are a hybrid breed.' }
+      ]
+    }
+
+    const result = transformClaudeMessageToParts(input)
+
+    expect(result).toHaveLength(3)
+    const call = result[0] as ToolCallPart
+    expect(call.type).toBe('tool-call')
+    expect(call.toolName).toBe('web_search')
+    expect(result[1]).toEqual({
+      type: 'tool-result',
+      toolCallId: call.toolCallId,
+      toolName: 'web_search',
+      output: 'Bengal cat - Wikipedia\nhttps://en.wikipedia.org/wiki/Bengal_cat\n\nNo more results'
+    })
+  })
+
+  it('should use tool ids when they are present', () => {
+    const input = {
+      content: [
+        { type: 'tool_use', id: 'toolu_1', name: 'web_fetch', input: { url: 'https://a.com' } },
+        { type: 'tool_use', id: 'toolu_2', name: 'web_fetch', input: { url: 'https://b.com' } },
+        { type: 'tool_result', tool_use_id: 'toolu_1', name: 'web_fetch', content: 'Page A' }
+      ]
+    }
+
+    const result = transformClaudeMessageToParts(input)
+
+    expect((result[2] as ToolResultPart).toolCallId).toBe('toolu_1')
+  })
+
+  it('should merge analysis tool output into a code execution part', () => {
+    const input = {
+      content: [
+        { type: 'tool_use', name: 'repl', input: { code: 'console.log(1 + 1)' } },
+        { type: 'tool_result', name: 'repl', content: [{ type: 'text', text: '2' }] }
+      ]
+    }
+
+    const result = transformClaudeMessageToParts(input)
+
+    expect(result).toEqual([
+      {
+        type: 'code-execution',
+        toolCallId: 'repl-0',
+        language: 'javascript',
+        code: 'console.log(1 + 1)',
+        output: '2'
+      }
+    ])
+  })
+
+  it('should skip the result of artifacts calls', () => {
+    const input = {
+      content: [
+        { type: 'tool_use', name: 'artifacts', input: { id: 'report', content: 'Report' } },
+        { type: 'tool_result', name: 'artifacts', content: [{ type: 'text', text: 'OK' }] }
       ]
     }
 
     const result = transformClaudeMessageToParts(input)
 
-    // Should return empty text part since no processable content
     expect(result).toHaveLength(1)
-    expect(result[0].type).toBe('text')
-    expect((result[0] as TextPart).text).toBe('')
+    expect(result[0]).toMatchObject({ type: 'artifact', artifactId: 'report', content: 'Report' })
   })
 
   it('should handle mix of text and artifacts blocks', () => {
@@ -191,6 +320,7 @@ describe('transformClaudeMessageToParts', () => {
           type: 'tool_use',
           name: 'artifacts',
           input: {
+            id: 'notes',
             content: 'Artifact content.'
           }
         }
@@ -202,8 +332,8 @@ describe('transformClaudeMessageToParts', () => {
     expect(result).toHaveLength(2)
     expect(result[0].type).toBe('text')
     expect((result[0] as TextPart).text).toBe('Introduction text.')
-    expect(result[1].type).toBe('text')
-    expect((result[1] as TextPart).text).toBe('Artifact content.')
+    expect(result[1].type).toBe('artifact')
+    expect((result[1] as ArtifactPart).content).toBe('Artifact content.')
   })
 
   it('should use preview_title as fallback for title', () => {
@@ -255,13 +385,13 @@ describe('transformClaudeMessageToParts', () => {
 
     const result = transformClaudeMessageToParts(input)
 
-    // Should have mixed text and source-url parts
-    expect(result.length).toBeGreaterThan(1)
-
-    const textParts = result.filter((p) => p.type === 'text')
+    // The report is an artifact part followed by its sources
+    const artifact = result.find((p) => p.type === 'artifact') as ArtifactPart
     const sourceParts = result.filter((p) => p.type === 'source-url')
 
-    expect(textParts.length).toBeGreaterThan(0)
+    expect(artifact.command).toBe('create')
+    expect(artifact.title).toBeDefined()
+    expect(artifact.content).toContain('Bengal cats have carved a distinctive niche')
     expect(sourceParts.length).toBeGreaterThan(0)
 
     // Verify source parts have proper structure
@@ -271,28 +401,37 @@ describe('transformClaudeMessageToParts', () => {
       expect(source.url).toBeDefined()
       expect(source.url).toMatch(/^https?:\/\//)
     })
+  })
 
-    // The artifact should contain the deep research report about Bengal cats
-    const artifactBlock = assistantMessage!.content.find(
-      (block) => block.type === 'tool_use' && 'name' in block && block.name === 'artifacts'
-    ) as { type: 'tool_use'; name: string; input: { content: string; md_citations: unknown[] } }
+  it('should keep the research task call from real conversation data', () => {
+    const assistantMessage = conversationData.chat_messages.find((msg) =>
+      msg.content.some(
+        (block) =>
+          block.type === 'tool_use' &&
+          'name' in block &&
+          block.name === 'launch_extended_search_task'
+      )
+    )
 
-    expect(artifactBlock.input.content).toContain('Bengal cats have carved a distinctive niche')
+    const result = transformClaudeMessageToParts({ content: assistantMessage!.content })
 
-    // Verify we have citations
-    expect(artifactBlock.input.md_citations).toBeDefined()
-    expect(artifactBlock.input.md_citations.length).toBeGreaterThan(0)
+    const call = result.find((p) => p.type === 'tool-call') as ToolCallPart
+    const toolResult = result.find((p) => p.type === 'tool-result') as ToolResultPart
+    expect(call.toolName).toBe('launch_extended_search_task')
+    expect(call.input).toContain('Bengal cats')
+    expect(toolResult.toolCallId).toBe(call.toolCallId)
+    expect(toolResult.output).toContain('task_id')
   })
 
-  it('should sort citations by start_index before processing', () => {
-    const markdown = 'ABC DEF GHI'
+  it('should sort citations by start_index', () => {
     const input = {
       content: [
         {
           type: 'tool_use',
           name: 'artifacts',
           input: {
-            content: markdown,
+            id: 'abc',
+            content: 'ABC DEF GHI',
             md_citations: [
               // Intentionally out of order
               {
@@ -317,118 +456,55 @@ describe('transformClaudeMessageToParts', () => {
 
     const result = transformClaudeMessageToParts(input)
 
-    // Should process in correct order despite unsorted input
-    expect(result).toHaveLength(4)
-    expect((result[0] as TextPart).text).toBe('ABC DEF')
-    expect((result[1] as SourceUrlPart).url).toBe('https://one.com')
-    expect((result[2] as TextPart).text).toBe(' GHI')
-    expect((result[3] as SourceUrlPart).url).toBe('https://two.com')
-  })
-
-  it('should handle citation at start of markdown', () => {
-    const markdown = 'Starting text and more.'
-    const input = {
-      content: [
-        {
-          type: 'tool_use',
-          name: 'artifacts',
-          input: {
-            content: markdown,
-            md_citations: [
-              {
-                uuid: 'cite-1',
-                title: 'Source',
-                url: 'https://example.com',
-                start_index: 0,
-                end_index: 13
-              }
-            ]
-          }
-        }
-      ]
-    }
-
-    const result = transformClaudeMessageToParts(input)
-
     expect(result).toHaveLength(3)
-    expect(result[0].type).toBe('text')
-    expect((result[0] as TextPart).text).toBe('Starting text')
-    expect(result[1].type).toBe('source-url')
-    expect(result[2].type).toBe('text')
-    expect((result[2] as TextPart).text).toBe(' and more.')
-  })
-
-  it('should handle citation at end of markdown', () => {
-    const markdown = 'Text ending with citation'
-    const input = {
-      content: [
-        {
-          type: 'tool_use',
-          name: 'artifacts',
-          input: {
-            content: markdown,
-            md_citations: [
-              {
-                uuid: 'cite-1',
-                title: 'Source',
-                url: 'https://example.com',
-                start_index: 17,
-                end_index: 25
-              }
-            ]
-          }
-        }
-      ]
-    }
-
-    const result = transformClaudeMessageToParts(input)
-
-    expect(result).toHaveLength(2)
-    expect(result[0].type).toBe('text')
-    expect((result[0] as TextPart).text).toBe('Text ending with citation')
-    expect(result[1].type).toBe('source-url')
+    expect(result[0].type).toBe('artifact')
+    expect((result[1] as SourceUrlPart).url).toBe('https://one.com')
+    expect((result[2] as SourceUrlPart).url).toBe('https://two.com')
   })
+})
 
-  it('should preserve cited text in output', () => {
-    // This test verifies the cited text itself appears in the output
-    // Problem: current implementation skips from start_index to end_index
-    const markdown =
-      'Bengals have achieved remarkable visibility. Their striking leopard-like appearance and personalities have made them famous.'
-    const input = {
-      content: [
+describe('toClaudeProject', () => {
+  it('should keep the prompt template as instructions and the docs with their text', () => {
+    const syncedAt = new Date('2026-01-07T12:00:00Z')
+    const result = toClaudeProject(
+      {
+        uuid: 'project-1',
+        name: 'Garden',
+        description: '',
+        prompt_template: 'Suggest plants for a shady balcony',
+        created_at: '2026-01-05T09:00:00Z',
+        updated_at: '2026-01-06T09:00:00Z'
+      },
+      [
         {
-          type: 'tool_use',
-          name: 'artifacts',
-          input: {
-            content: markdown,
-            md_citations: [
-              {
-                uuid: 'cite-1',
-                title: 'Cat Browser',
-                url: 'https://example.com/bengals',
-                start_index: 46, // Start of "Their striking leopard-like appearance"
-                end_index: 84 // End of "Their striking leopard-like appearance"
-              }
-            ]
-          }
+          uuid: 'doc-1',
+          file_name: 'balcony.md',
+          content: 'North facing, 4 m²',
+          created_at: '2026-01-05T10:00:00Z'
         }
-      ]
-    }
-
-    const result = transformClaudeMessageToParts(input)
-
-    // Reconstruct full text from parts
-    const fullText = result
-      .map((part) => {
-        if (part.type === 'text') return part.text
-        return ''
-      })
-      .join('')
-
-    // The cited text "Their striking leopard-like appearance" MUST appear in output
-    expect(fullText).toContain('Their striking leopard-like appearance')
+      ],
+      syncedAt
+    )
 
-    // Full text should be complete
-    expect(fullText).toBe(markdown)
+    expect(result.project).toEqual({
+      id: 'project-1',
+      provider: 'claude',
+      kind: 'project',
+      name: 'Garden',
+      description: null,
+      instructions: 'Suggest plants for a shady balcony',
+      createdAt: new Date('2026-01-05T09:00:00Z'),
+      updatedAt: new Date('2026-01-06T09:00:00Z'),
+      syncedAt
+    })
+    expect(result.documents).toEqual([
+      {
+        id: 'doc-1',
+        projectId: 'project-1',
+        filename: 'balcony.md',
+        content: 'North facing, 4 m²',
+        createdAt: new Date('2026-01-05T10:00:00Z')
+      }
+    ])
   })
 })
@@ -1,4 +1,5 @@
-import type { MessagePart } from '@shared/types'
+import type { CodeExecutionPart, MessagePart } from '@shared/types'
+import type { NewProject, NewProjectDocument } from '../../../db/schema'
 
 export interface ClaudeMdCitation {
   uuid: string
@@ -21,66 +22,147 @@ export interface ClaudeContentBlock {
   [key: string]: unknown
 }
 
+export interface ClaudeThinkingContent {
+  type: 'thinking'
+  thinking?: string
+}
+
 export interface ClaudeToolUseContent {
   type: 'tool_use'
+  id?: string
   name: string
   input?: {
-    content?: string
-    md_citations?: ClaudeMdCitation[]
+    code?: string
+    [key: string]: unknown
   }
 }
 
+// Input of the `artifacts` tool. `update` replaces old_str with new_str in the current version
+export interface ClaudeArtifactInput {
+  id?: string
+  command?: 'create' | 'update' | 'rewrite'
+  type?: string
+  title?: string
+  language?: string
+  content?: string
+  old_str?: string
+  new_str?: string
+  md_citations?: ClaudeMdCitation[]
+}
+
+export interface ClaudeToolResultContent {
+  type: 'tool_result'
+  tool_use_id?: string
+  name: string
+  content?: string | Array<{ type: string; text?: string; title?: string; url?: string }>
+  is_error?: boolean
+}
+
 export interface ClaudeMessageInput {
   content: ClaudeContentBlock[]
 }
 
+// Web search results come back as "knowledge" blocks; keep their title and URL
+function formatToolResultContent(content: ClaudeToolResultContent['content']): string {
+  if (typeof content === 'string') return content
+
+  return (content || [])
+    .map((block) =>
+      block.type === 'knowledge'
+        ? [block.title, block.url].filter(Boolean).join('\n')
+        : (block.text ?? '')
+    )
+    .filter(Boolean)
+    .join('\n\n')
+}
+
 export function transformClaudeMessageToParts(input: ClaudeMessageInput): MessagePart[] {
   const { content } = input
   const parts: MessagePart[] = []
+  // claude.ai omits tool ids, so results are matched to the latest call of the same tool
+  const lastCallIds = new Map<string, string>()
 
   for (const block of content) {
     if (block.type === 'text' && block.text) {
       parts.push({ type: 'text', text: block.text })
+    } else if (block.type === 'thinking') {
+      const thinking = (block as unknown as ClaudeThinkingContent).thinking
+      if (thinking) {
+        parts.push({ type: 'reasoning', text: thinking })
+      }
+    } else if (block.type === 'tool_result') {
+      const toolResult = block as unknown as ClaudeToolResultContent
+      // Artifacts are kept from the call itself, their result is just "OK"
+      if (toolResult.name === 'artifacts') continue
+
+      const toolCallId = toolResult.tool_use_id ?? lastCallIds.get(toolResult.name)
+      const output = formatToolResultContent(toolResult.content)
+      const execution = parts.find(
+        (part): part is CodeExecutionPart =>
+          part.type === 'code-execution' && part.toolCallId === toolCallId
+      )
+
+      if (execution) {
+        execution.output = output
+      } else {
+        parts.push({
+          type: 'tool-result',
+          toolCallId: toolCallId ?? `${toolResult.name}-result-${parts.length}`,
+          toolName: toolResult.name,
+          output
+        })
+      }
     } else if (block.type === 'tool_use') {
       const toolUse = block as unknown as ClaudeToolUseContent
 
-      if (toolUse.name === 'artifacts' && toolUse.input?.content) {
-        const markdown = toolUse.input.content
-        const citations = toolUse.input.md_citations || []
+      if (toolUse.name !== 'artifacts') {
+        const toolCallId = toolUse.id ?? `${toolUse.name}-${parts.length}`
+        lastCallIds.set(toolUse.name, toolCallId)
 
-        if (citations.length === 0) {
-          parts.push({ type: 'text', text: markdown })
+        // The analysis tool runs JavaScript in the browser
+        if (toolUse.name === 'repl' && typeof toolUse.input?.code === 'string') {
+          parts.push({
+            type: 'code-execution',
+            toolCallId,
+            language: 'javascript',
+            code: toolUse.input.code
+          })
         } else {
-          const sortedCitations = [...citations].sort((a, b) => a.start_index - b.start_index)
-
-          let lastIndex = 0
-
-          for (const citation of sortedCitations) {
-            // Include text up to and INCLUDING the cited portion
-            const textContent = markdown.slice(lastIndex, citation.end_index)
-            if (textContent) {
-              parts.push({ type: 'text', text: textContent })
-            }
-
-            parts.push({
-              type: 'source-url',
-              sourceId: citation.uuid,
-              url: citation.url,
-              title: citation.title || citation.metadata?.preview_title,
-              attribution: citation.metadata?.source,
-              icon_url: citation.metadata?.icon_url,
-              snippet: citation.metadata?.content_body
-            })
-
-            lastIndex = citation.end_index
-          }
-
-          if (lastIndex < markdown.length) {
-            const textContent = markdown.slice(lastIndex)
-            if (textContent) {
-              parts.push({ type: 'text', text: textContent })
-            }
-          }
+          parts.push({
+            type: 'tool-call',
+            toolCallId,
+            toolName: toolUse.name,
+            input: JSON.stringify(toolUse.input ?? {}, null, 2)
+          })
+        }
+      } else if (toolUse.input) {
+        const artifact = toolUse.input as ClaudeArtifactInput
+        parts.push({
+          type: 'artifact',
+          artifactId: artifact.id || `artifact-${parts.length}`,
+          command: artifact.command || 'create',
+          artifactType: artifact.type,
+          title: artifact.title,
+          language: artifact.language,
+          content: artifact.content,
+          oldStr: artifact.old_str,
+          newStr: artifact.new_str
+        })
+
+        // Research reports cite their sources; keep them as sources of the message
+        const citations = [...(artifact.md_citations || [])].sort(
+          (a, b) => a.start_index - b.start_index
+        )
+        for (const citation of citations) {
+          parts.push({
+            type: 'source-url',
+            sourceId: citation.uuid,
+            url: citation.url,
+            title: citation.title || citation.metadata?.preview_title,
+            attribution: citation.metadata?.source,
+            icon_url: citation.metadata?.icon_url,
+            snippet: citation.metadata?.content_body
+          })
         }
       }
     }
@@ -92,3 +174,52 @@ export function transformClaudeMessageToParts(input: ClaudeMessageInput): Messag
 
   return parts
 }
+
+// Project as returned by /api/organizations/{org}/projects
+export interface ClaudeProjectData {
+  uuid: string
+  name: string
+  description?: string | null
+  prompt_template?: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+// Knowledge file as returned by /api/organizations/{org}/projects/{uuid}/docs
+export interface ClaudeProjectDocData {
+  uuid: string
+  file_name: string
+  content?: string | null
+  created_at?: string | null
+}
+
+/**
+ * Project with its knowledge files. The prompt template holds the project's custom
+ * instructions.
+ */
+export function toClaudeProject(
+  data: ClaudeProjectData,
+  docs: ClaudeProjectDocData[],
+  syncedAt: Date
+): { project: NewProject; documents: NewProjectDocument[] } {
+  return {
+    project: {
+      id: data.uuid,
+      provider: 'claude',
+      kind: 'project',
+      name: data.name || 'Untitled',
+      description: data.description || null,
+      instructions: data.prompt_template || null,
+      createdAt: data.created_at ? new Date(data.created_at) : null,
+      updatedAt: data.updated_at ? new Date(data.updated_at) : null,
+      syncedAt
+    },
+    documents: docs.map((doc) => ({
+      id: doc.uuid,
+      projectId: data.uuid,
+      filename: doc.file_name,
+      content: doc.content ?? null,
+      createdAt: doc.created_at ? new Date(doc.created_at) : null
+    }))
+  }
+}
@@ -0,0 +1,971 @@
+import { WebContentsView, session } from 'electron'
+import { BaseProvider, type SyncResult, type ProviderName } from './base.js'
+import type { IStorage } from '../../storage/interface.js'
+import { GEMINI_DEFAULT_METADATA, type GeminiMetadata } from './types'
+import { getMainWindow } from '../../index.js'
+import { viewBoundsManager } from '../../view-bounds-manager'
+import { IPC_CHANNELS } from '../../../shared/types'
+import { findCachedFile, getExtensionFromMimeType } from '../attachment-utils.js'
+import { getAttachmentsPath } from '../../settings.js'
+import {
+  parseBatchExecuteResponse,
+  parseGeminiConversationList,
+  parseGeminiConversationTurns,
+  transformGeminiMessageToParts,
+  type GeminiConversationListItem,
+  type GeminiTurn
+} from './gemini/utils'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// TYPES - Exported for external use
+// ============================================================================
+
+export type GeminiApiHeaders = Record<string, string>
+
+/**
+ * Per-session values the Gemini web app embeds in `WIZ_global_data`.
+ * All batchexecute requests must include them.
+ */
+export interface GeminiSessionParams {
+  at: string // XSRF token (SNlM0e)
+  bl: string // Frontend build label (cfb2h)
+  sid: string // Session id (FdrFJe)
+}
+
+export interface GeminiConversation {
+  id: string
+  turns: GeminiTurn[]
+}
+
+interface FetchConversationsOptions {
+  stopBeforeTimestamp?: number | null
+  onPage?: (conversations: GeminiConversationListItem[], pageNumber: number) => Promise<void>
+}
+
+// batchexecute RPC ids used by the Gemini web app
+const RPC_LIST_CONVERSATIONS = 'MaZiqc'
+const RPC_READ_CONVERSATION = 'hNvQHb'
+
+// Upper bound of turns requested per conversation (the web app asks for the last 10)
+const MAX_TURNS = 1000
+
+// ============================================================================
+// PROVIDER CLASS
+// ============================================================================
+
+export class GeminiProvider extends BaseProvider<GeminiMetadata> {
+  readonly name: ProviderName = 'gemini'
+
+  private view: WebContentsView | null = null
+  private capturedHeaders: GeminiApiHeaders | null = null
+  private sessionParams: GeminiSessionParams | null = null
+  private lastApiAuthSuccess: boolean = false
+  private isViewVisible: boolean = false
+  private loginCheckInterval: NodeJS.Timeout | null = null
+  private requestCounter: number = 0
+
+  constructor(storage: IStorage, pollingIntervalMs: number = 60000) {
+    super(storage, pollingIntervalMs)
+  }
+
+  protected getDefaultMetadata(): GeminiMetadata {
+    return { ...GEMINI_DEFAULT_METADATA }
+  }
+
+  async initialize(): Promise<void> {
+    await this.loadPersistedState()
+    this.createView()
+    // Update Zustand store with loaded state
+    this.updateStoreState()
+  }
+
+  isConnected(): boolean {
+    return this.capturedHeaders !== null && this.sessionParams !== null
+  }
+
+  getView(): WebContentsView | null {
+    return this.view
+  }
+
+  getHeaders(): Record<string, string> | null {
+    return this.capturedHeaders
+  }
+
+  toggleView(): boolean {
+    if (this.isViewVisible) {
+      this.hideView()
+      return false
+    } else {
+      this.showLogin()
+      return true
+    }
+  }
+
+  showLogin(): void {
+    if (!this.view) return
+
+    viewBoundsManager.attachView(this.view, this.name)
+    this.view.webContents.loadURL('https://gemini.google.com/app')
+    this.isViewVisible = true
+
+    this.startLoginMonitor()
+  }
+
+  hideView(): void {
+    if (!this.view) return
+
+    viewBoundsManager.detachView(this.view)
+    this.isViewVisible = false
+  }
+
+  async logout(): Promise<void> {
+    const geminiSession = session.fromPartition('persist:gemini')
+    await geminiSession.clearStorageData()
+    this.hideView()
+    this.capturedHeaders = null
+    this.sessionParams = null
+    this.lastApiAuthSuccess = false
+
+    this._status = 'logged_out'
+    await this.storage.setProviderState({
+      providerName: this.name,
+      isOnline: false,
+      lastSyncAt: this._lastSyncAt,
+      status: this._status,
+      errorMessage: null
+    })
+
+    this.updateStoreState()
+    console.log(`[${this.name}] Logged out, cleared session data`)
+  }
+
+  async restoreConnection(): Promise<void> {
+    if (!this.view) {
+      console.log(`[${this.name}] Cannot restore connection: view not initialized`)
+      return
+    }
+
+    console.log(`[${this.name}] Restoring connection by loading provider page in background...`)
+
+    return new Promise((resolve) => {
+      this.view!.webContents.loadURL('https://gemini.google.com/app')
+
+      const timeout = setTimeout(() => {
+        if (this.capturedHeaders && this.sessionParams) {
+          console.log(`[${this.name}] Connection restored successfully`)
+        } else {
+          console.log(
+            `[${this.name}] Connection restoration timed out, but session may still be valid`
+          )
+        }
+        resolve()
+      }, 10000)
+
+      const checkInterval = setInterval(() => {
+        if (this.capturedHeaders && this.sessionParams) {
+          clearInterval(checkInterval)
+          clearTimeout(timeout)
+          console.log(`[${this.name}] Connection restored successfully`)
+          resolve()
+        }
+      }, 500)
+    })
+  }
+
+  // ============================================================================
+  // PUBLIC API METHODS - For external use (ipc.ts, etc.)
+  // ============================================================================
+
+  /**
+   * Refresh a single conversation from the Gemini API
+   */
+  async refreshConversation(conversationId: string): Promise<GeminiConversation | null> {
+    if (!this.view || !this.capturedHeaders || !this.sessionParams) {
+      return null
+    }
+
+    try {
+      return await this.extractConversationContent(conversationId)
+    } catch (error) {
+      console.error(`[${this.name}] Error refreshing conversation:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Download an attachment using the URL stored with it.
+   * Files are cached by fileId - if the file already exists, returns the cached path.
+   */
+  async downloadAttachment(
+    fileId: string,
+    filename: string | null,
+    conversationId: string
+  ): Promise<string> {
+    // Check if file is already cached
+    const cachedPath = findCachedFile(conversationId, fileId)
+    if (cachedPath) {
+      return cachedPath
+    }
+
+    if (!this.view) {
+      throw new Error('Gemini provider not initialized')
+    }
+
+    // Get attachment metadata from database to determine download URL
+    const conversationData = await this.storage.getConversationWithMessages(conversationId)
+    if (!conversationData) {
+      throw new Error(`Conversation ${conversationId} not found`)
+    }
+
+    let downloadUrl: string | null = null
+    let mimeType = 'application/octet-stream'
+
+    // Find the attachment in the messages
+    for (const message of conversationData.messages) {
+      if (!message.attachments) continue
+      for (const att of message.attachments) {
+        if (att.fileId === fileId) {
+          downloadUrl = att.originalUrl
+          mimeType = att.mimeType || mimeType
+          break
+        }
+      }
+      if (downloadUrl) break
+    }
+
+    if (!downloadUrl) {
+      throw new Error(`Could not find attachment metadata for fileId ${fileId}`)
+    }
+
+    console.log(`[Attachments] Downloading Gemini file ${fileId} from ${downloadUrl}`)
+
+    // Download via webContents (uses session cookies)
+    const downloaded = await this.downloadFileViaScript(downloadUrl)
+
+    // Ensure conversation directory exists
+    const attachmentsPath = getAttachmentsPath()
+    const conversationDir = path.join(attachmentsPath, conversationId)
+    if (!fs.existsSync(conversationDir)) {
+      fs.mkdirSync(conversationDir, { recursive: true })
+    }
+
+    // Generate filename: {fileId}_{displayName}.{ext}
+    let displayName = filename || 'attachment'
+
+    // Add extension based on mime type if missing
+    if (!path.extname(displayName)) {
+      const ext = getExtensionFromMimeType(downloaded.mimeType || mimeType)
+      displayName += ext
+    }
+
+    // Filename format: fileId_displayName (allows lookup by fileId prefix)
+    const uniqueFilename = `${fileId}_${displayName}`
+    const localPath = path.join(conversationDir, uniqueFilename)
+
+    // Write file to disk
+    fs.writeFileSync(localPath, downloaded.data)
+
+    console.log(`[Attachments] Downloaded ${fileId} to ${localPath}`)
+    return localPath
+  }
+
+  /**
+   * Download a file via webContents and return as Buffer
+   */
+  private async downloadFileViaScript(
+    downloadUrl: string
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    if (!this.view) {
+      throw new Error('View not initialized')
+    }
+
+    await this.ensureOnGemini()
+
+    const script = `
+(async function() {
+  const response = await fetch(${JSON.stringify(downloadUrl)}, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    console.error('[Gemini API] Failed to download file:', response.status);
+    return { error: 'Failed to download: ' + response.status };
+  }
+
+  const blob = await response.blob();
+  const arrayBuffer = await blob.arrayBuffer();
+  const bytes = new Uint8Array(arrayBuffer);
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return {
+    data: btoa(binary),
+    mimeType: response.headers.get('content-type') || 'application/octet-stream',
+  };
+})();
+`
+    const result = await this.view.webContents.executeJavaScript(script)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    return {
+      data: Buffer.from(result.data, 'base64'),
+      mimeType: result.mimeType
+    }
+  }
+
+  /**
+   * Refresh and persist a conversation (stale-while-revalidate pattern)
+   * Fetches from API and updates database only if successful
+   */
+  async refreshAndPersistConversation(conversationId: string) {
+    try {
+      // Get existing conversation to ensure it exists
+      const existing = await this.storage.getConversation(conversationId)
+      if (!existing) {
+        return null
+      }
+
+      // If provider not available, return stale data
+      if (!this.view || !this.capturedHeaders || !this.sessionParams) {
+        return this.storage.getConversationWithMessages(conversationId)
+      }
+
+      // Try to refresh from API
+      const content = await this.refreshConversation(conversationId)
+      if (!content || content.turns.length === 0) {
+        // Refresh failed, return stale data
+        return this.storage.getConversationWithMessages(conversationId)
+      }
+
+      const { messages, currentNodeId } = this.convertGeminiTurns(content.turns, conversationId)
+      const lastTurn = content.turns[content.turns.length - 1]
+
+      // Refresh successful - update database
+      await this.storage.upsertConversation({
+        id: conversationId,
+        title: existing.title,
+        provider: 'gemini',
+        createdAt: existing.createdAt,
+        updatedAt: new Date(lastTurn.createdAt),
+        syncedAt: new Date(),
+        messageCount: messages.length,
+        currentNodeId
+      })
+
+      await this.storage.upsertMessages(messages)
+
+      // Return updated data
+      const result = await this.storage.getConversationWithMessages(conversationId)
+      return result ? { conversation: result.conversation, messages: result.messages } : null
+    } catch (error) {
+      console.error('[Gemini] Error in refreshAndPersistConversation:', error)
+      // On any error, return stale data
+      const result = await this.storage.getConversationWithMessages(conversationId)
+      return result ? { conversation: result.conversation, messages: result.messages } : null
+    }
+  }
+
+  // ============================================================================
+  // SYNC METHOD
+  // ============================================================================
+
+  async sync(): Promise<SyncResult> {
+    if (!this.view || !this.capturedHeaders || !this.sessionParams) {
+      return { success: false, error: 'Not connected' }
+    }
+
+    try {
+      const metadata = await this.getMetadata()
+
+      // Choose sync mode based on whether we've completed a full sync
+      if (!metadata.isFullSyncComplete) {
+        console.log(`[${this.name}] Starting full sync from offset ${metadata.lastCompletedOffset}`)
+        return await this.fullSync(metadata)
+      } else {
+        console.log(`[${this.name}] Starting incremental sync`)
+        return await this.incrementalSync()
+      }
+    } catch (error) {
+      const errorMessage = (error as Error).message
+      console.error(`[${this.name}] Sync error:`, error)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  // ============================================================================
+  // FULL SYNC - Resume from page token until pagination complete
+  // ============================================================================
+
+  private async fullSync(metadata: GeminiMetadata): Promise<SyncResult> {
+    if (!this.view || !this.capturedHeaders || !this.sessionParams) {
+      return { success: false, error: 'Not connected' }
+    }
+
+    let offset = metadata.lastCompletedOffset
+    let pageToken = metadata.nextPageToken
+    let newChatsFound = 0
+    const PAGE_SIZE = 20
+
+    try {
+      while (true) {
+        console.log(`[${this.name}] Fetching page at offset ${offset}...`)
+
+        const page = await this.fetchConversationPage(PAGE_SIZE, pageToken)
+
+        console.log(
+          `[${this.name}] Processing ${page.items.length} conversations at offset ${offset}`
+        )
+
+        // Gemini doesn't report a total, so progress only shows the current position
+        this.updateSyncProgress(offset, 0, newChatsFound)
+
+        // Process entire page atomically
+        for (const conv of page.items) {
+          await this.syncConversationWithRetry(conv)
+          newChatsFound++
+        }
+
+        // Only mark page complete after ALL conversations succeed
+        offset += page.items.length
+        pageToken = page.nextPageToken
+        await this.setMetadata({
+          ...metadata,
+          lastCompletedOffset: offset,
+          nextPageToken: pageToken
+        })
+
+        console.log(`[${this.name}] Completed offset ${offset}`)
+
+        // Check if last page
+        if (!pageToken || page.items.length === 0) {
+          console.log(`[${this.name}] Reached end of pagination at offset ${offset}`)
+          await this.setMetadata({
+            ...metadata,
+            lastCompletedOffset: offset,
+            nextPageToken: null,
+            isFullSyncComplete: true
+          })
+          break
+        }
+
+        // Safety limit
+        if (offset > 10000) {
+          console.warn(`[${this.name}] Reached safety limit of 10000 conversations`)
+          break
+        }
+      }
+
+      console.log(`[${this.name}] Full sync complete! Synced ${newChatsFound} conversations`)
+      return { success: true, newChatsFound }
+    } catch (error) {
+      console.error(`[${this.name}] Full sync error:`, error)
+      return { success: false, error: (error as Error).message }
+    }
+  }
+
+  // ============================================================================
+  // INCREMENTAL SYNC - Keep existing timestamp logic
+  // ============================================================================
+
+  private async incrementalSync(): Promise<SyncResult> {
+    if (!this.view || !this.capturedHeaders || !this.sessionParams) {
+      return { success: false, error: 'Not connected' }
+    }
+
+    try {
+      const maxLocalUpdatedAt = await this.storage.getMaxUpdatedAt(this.name)
+      console.log(
+        `[${this.name}] Max local updated_at: ${maxLocalUpdatedAt?.toISOString() ?? 'none'}`
+      )
+
+      let newChatsFound = 0
+
+      const truncateToSeconds = (date: Date): number => {
+        return Math.floor(date.getTime() / 1000) * 1000
+      }
+
+      await this.extractConversationList({
+        stopBeforeTimestamp: maxLocalUpdatedAt ? truncateToSeconds(maxLocalUpdatedAt) : null,
+        onPage: async (pageConversations, pageNumber) => {
+          console.log(
+            `[${this.name}] Processing page ${pageNumber} with ${pageConversations.length} conversations`
+          )
+
+          for (const conv of pageConversations) {
+            newChatsFound++
+            console.log(`[${this.name}] Syncing conversation ${newChatsFound}: ${conv.title}`)
+
+            try {
+              await this.syncConversationWithRetry(conv)
+            } catch (err) {
+              console.error(`[${this.name}] Error syncing conversation ${conv.id}:`, err)
+            }
+          }
+        }
+      })
+
+      console.log(`[${this.name}] Incremental sync complete! Synced ${newChatsFound} conversations`)
+      return { success: true, newChatsFound }
+    } catch (error) {
+      const errorMessage = (error as Error).message
+      console.error(`[${this.name}] Incremental sync error:`, error)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  // ============================================================================
+  // RETRY LOGIC - With exponential backoff
+  // ============================================================================
+
+  private async syncConversationWithRetry(
+    conv: GeminiConversationListItem,
+    maxRetries = 3
+  ): Promise<void> {
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        await this.syncConversation(conv)
+
+        // Clear error on success
+        await this.storage.updateConversationSyncError(conv.id, null, 0)
+        return
+      } catch (error) {
+        if (attempt === maxRetries - 1) {
+          // Final failure - persist error
+          console.error(
+            `[${this.name}] Failed to sync conversation ${conv.id} after ${maxRetries} attempts:`,
+            error
+          )
+          await this.storage.updateConversationSyncError(
+            conv.id,
+            (error as Error).message,
+            attempt + 1
+          )
+          throw error
+        }
+
+        // Exponential backoff: 1s, 2s, 4s
+        const backoffMs = Math.pow(2, attempt) * 1000
+        console.log(
+          `[${this.name}] Retry ${attempt + 1}/${maxRetries} for conversation ${conv.id} after ${backoffMs}ms`
+        )
+        await new Promise((r) => setTimeout(r, backoffMs))
+      }
+    }
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS - API interaction
+  // ============================================================================
+
+  private async ensureOnGemini(): Promise<void> {
+    if (!this.view) throw new Error('View not initialized')
+
+    const url = this.view.webContents.getURL()
+    if (!url.includes('gemini.google.com')) {
+      await this.view.webContents.loadURL('https://gemini.google.com/app')
+      await new Promise((r) => setTimeout(r, 2000))
+    }
+  }
+
+  /**
+   * Call a batchexecute RPC from inside the page and return its decoded payload
+   */
+  private async callRpc(rpcId: string, payload: unknown): Promise<unknown> {
+    if (!this.view || !this.sessionParams) throw new Error('View not initialized')
+
+    await this.ensureOnGemini()
+
+    this.requestCounter++
+    const result = await this.view.webContents.executeJavaScript(
+      this.makeBatchExecuteScript(rpcId, payload, this.sessionParams, this.requestCounter)
+    )
+
+    if (result.error) {
+      throw new Error(`API error: ${result.error}`)
+    }
+
+    const decoded = parseBatchExecuteResponse(result.body, rpcId)
+    if (decoded === null) {
+      throw new Error(`Empty response for ${rpcId}`)
+    }
+
+    return decoded
+  }
+
+  private async fetchConversationPage(
+    pageSize: number,
+    pageToken: string | null
+  ): Promise<{ items: GeminiConversationListItem[]; nextPageToken: string | null }> {
+    const payload = await this.callRpc(RPC_LIST_CONVERSATIONS, [pageSize, pageToken, [0, null, 1]])
+    return parseGeminiConversationList(payload)
+  }
+
+  private async extractConversationList(
+    options?: FetchConversationsOptions
+  ): Promise<GeminiConversationListItem[]> {
+    if (!this.view) throw new Error('View not initialized')
+
+    try {
+      console.log(`[${this.name}] Fetching conversations via API...`)
+
+      const allConversations: GeminiConversationListItem[] = []
+      const stopBeforeTimestamp = options?.stopBeforeTimestamp ?? null
+      const pageSize = 20
+      let pageToken: string | null = null
+      let hasMore = true
+      let pageNumber = 0
+
+      while (hasMore) {
+        let page: { items: GeminiConversationListItem[]; nextPageToken: string | null }
+        try {
+          page = await this.fetchConversationPage(pageSize, pageToken)
+        } catch (error) {
+          console.error(`[${this.name}] API error on page ${pageNumber}:`, error)
+          break
+        }
+
+        const pageConversations: GeminiConversationListItem[] = []
+
+        for (const conv of page.items) {
+          const convTimestamp = new Date(conv.updatedAt).getTime()
+          if (stopBeforeTimestamp && convTimestamp <= stopBeforeTimestamp) {
+            console.log(`[${this.name}] Reached timestamp threshold, stopping pagination`)
+            hasMore = false
+            break
+          }
+
+          pageConversations.push(conv)
+          allConversations.push(conv)
+        }
+
+        if (pageConversations.length > 0 && options?.onPage) {
+          await options.onPage(pageConversations, pageNumber)
+        }
+
+        console.log(
+          `[${this.name}] Page ${pageNumber}: fetched ${pageConversations.length} conversations (total: ${allConversations.length})`
+        )
+
+        pageToken = page.nextPageToken
+        if (hasMore) {
+          hasMore = pageToken !== null
+        }
+        pageNumber++
+
+        if (allConversations.length > 10000) break
+      }
+
+      console.log(`[${this.name}] Finished fetching ${allConversations.length} conversations`)
+      return allConversations
+    } catch (error) {
+      console.error(`[${this.name}] Error fetching conversation list:`, error)
+      throw error
+    }
+  }
+
+  private async extractConversationContent(conversationId: string): Promise<GeminiConversation> {
+    if (!this.view) throw new Error('View not initialized')
+
+    try {
+      const conversation = await this.storage.getConversation(conversationId)
+
+      console.log(
+        `[${this.name}] Fetching conversation "${conversation?.title ?? conversationId}" via API...`
+      )
+      const payload = await this.callRpc(RPC_READ_CONVERSATION, [
+        conversationId,
+        MAX_TURNS,
+        null,
+        1,
+        [0],
+        [4],
+        null,
+        1
+      ])
+      const turns = parseGeminiConversationTurns(payload)
+
+      console.log(
+        `[${this.name}] Fetched conversation "${conversation?.title ?? conversationId}" with ${turns.length} turns`
+      )
+
+      return { id: conversationId, turns }
+    } catch (error) {
+      console.error(`[${this.name}] Error fetching conversation content:`, error)
+      throw error
+    }
+  }
+
+  private async syncConversation(conv: GeminiConversationListItem): Promise<void> {
+    if (!this.view || !this.capturedHeaders || !this.sessionParams) {
+      throw new Error('Not connected')
+    }
+
+    const content = await this.extractConversationContent(conv.id)
+
+    const existing = await this.storage.getConversation(conv.id)
+    if (existing) {
+      await this.storage.deleteMessagesForConversation(conv.id)
+    }
+
+    const { messages, currentNodeId } = this.convertGeminiTurns(content.turns, conv.id)
+
+    await this.storage.upsertConversation({
+      id: conv.id,
+      title: conv.title || 'Untitled',
+      provider: 'gemini',
+      createdAt: content.turns[0] ? new Date(content.turns[0].createdAt) : new Date(conv.updatedAt),
+      updatedAt: new Date(conv.updatedAt),
+      syncedAt: new Date(),
+      messageCount: messages.length,
+      currentNodeId
+    })
+
+    await this.storage.upsertMessages(messages)
+  }
+
+  /**
+   * Convert turns into a message tree. Every draft becomes an assistant message
+   * (siblings of each other under the prompt); the next prompt continues from
+   * the selected draft.
+   */
+  private convertGeminiTurns(turns: GeminiTurn[], conversationId: string) {
+    const messages: Array<{
+      id: string
+      conversationId: string
+      role: 'user' | 'assistant'
+      parts: string
+      createdAt: Date
+      orderIndex: number
+      parentId: string | null
+      siblingIds: string
+      siblingIndex: number
+    }> = []
+    let parentId: string | null = null
+    let orderIndex = 0
+
+    for (const turn of turns) {
+      const createdAt = new Date(turn.createdAt)
+      const userMessageId = `${turn.responseId}-query`
+
+      messages.push({
+        id: userMessageId,
+        conversationId,
+        role: 'user',
+        parts: JSON.stringify([{ type: 'text', text: turn.userText }]),
+        createdAt,
+        orderIndex: orderIndex++,
+        parentId,
+        siblingIds: JSON.stringify([]),
+        siblingIndex: 0
+      })
+
+      const candidateIds = turn.candidates.map((candidate) => candidate.id)
+
+      turn.candidates.forEach((candidate, index) => {
+        messages.push({
+          id: candidate.id,
+          conversationId,
+          role: 'assistant',
+          parts: JSON.stringify(transformGeminiMessageToParts(candidate)),
+          createdAt,
+          orderIndex: orderIndex++,
+          parentId: userMessageId,
+          siblingIds: JSON.stringify(candidateIds.length > 1 ? candidateIds : []),
+          siblingIndex: index
+        })
+      })
+
+      parentId = turn.selectedCandidateId ?? userMessageId
+    }
+
+    return { messages, currentNodeId: parentId }
+  }
+
+  // ============================================================================
+  // JAVASCRIPT INJECTION SCRIPTS
+  // ============================================================================
+
+  private makeBatchExecuteScript(
+    rpcId: string,
+    payload: unknown,
+    params: GeminiSessionParams,
+    requestNumber: number
+  ): string {
+    const query = new URLSearchParams({
+      rpcids: rpcId,
+      'source-path': '/app',
+      bl: params.bl,
+      'f.sid': params.sid,
+      hl: 'en',
+      _reqid: String(100000 + requestNumber * 100000),
+      rt: 'c'
+    })
+    const body = new URLSearchParams({
+      'f.req': JSON.stringify([[[rpcId, JSON.stringify(payload), null, 'generic']]]),
+      at: params.at
+    })
+
+    return `
+(async function() {
+  const response = await fetch(
+    'https://gemini.google.com/_/BardChatUi/data/batchexecute?${query.toString()}',
+    {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded;charset=UTF-8',
+        'x-same-domain': '1',
+      },
+      body: ${JSON.stringify(body.toString())},
+    }
+  );
+
+  if (!response.ok) {
+    console.error('[Gemini API] Failed to call ${rpcId}:', response.status);
+    return { error: response.status };
+  }
+
+  return { body: await response.text() };
+})();
+`
+  }
+
+  private makeExtractSessionParamsScript(): string {
+    return `
+(function() {
+  const data = window.WIZ_global_data;
+  if (!data || !data.SNlM0e) return null;
+  return { at: data.SNlM0e, bl: data.cfb2h || '', sid: data.FdrFJe || '' };
+})();
+`
+  }
+
+  // ============================================================================
+  // VIEW MANAGEMENT
+  // ============================================================================
+
+  private createView(): void {
+    if (this.view) return
+
+    this.view = new WebContentsView({
+      webPreferences: {
+        contextIsolation: true,
+        nodeIntegration: false,
+        partition: 'persist:gemini'
+      }
+    })
+
+    const geminiSession = session.fromPartition('persist:gemini')
+    geminiSession.setPermissionRequestHandler((_webContents, permission, callback) => {
+      const allowedPermissions = ['clipboard-read', 'clipboard-sanitized-write']
+      callback(allowedPermissions.includes(permission))
+    })
+
+    geminiSession.setPermissionCheckHandler((_webContents, permission) => {
+      const allowedPermissions = ['clipboard-read', 'clipboard-sanitized-write']
+      return allowedPermissions.includes(permission)
+    })
+
+    geminiSession.webRequest.onBeforeSendHeaders(
+      { urls: ['*://gemini.google.com/_/BardChatUi/*'] },
+      (details, callback) => {
+        if (details.requestHeaders['Cookie'] || details.requestHeaders['cookie']) {
+          const hadHeaders = this.capturedHeaders !== null
+          this.capturedHeaders = details.requestHeaders
+          if (!hadHeaders) {
+            console.log(`[${this.name}] Captured API headers (cookies)`)
+          }
+
+          if (!this.sessionParams) {
+            this.extractSessionParams()
+          }
+        }
+        callback({ requestHeaders: details.requestHeaders })
+      }
+    )
+
+    geminiSession.webRequest.onCompleted(
+      { urls: ['*://gemini.google.com/_/BardChatUi/data/batchexecute*'] },
+      (details) => {
+        if (details.statusCode === 200) {
+          this.lastApiAuthSuccess = true
+        }
+      }
+    )
+
+    // Session params change on every page load
+    this.view.webContents.on('did-finish-load', () => {
+      this.extractSessionParams()
+    })
+  }
+
+  private async extractSessionParams(): Promise<void> {
+    if (!this.view) return
+
+    try {
+      const url = this.view.webContents.getURL()
+      if (!url.includes('gemini.google.com')) return
+
+      const params = await this.view.webContents.executeJavaScript(
+        this.makeExtractSessionParamsScript()
+      )
+      if (params?.at) {
+        this.sessionParams = params
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Error extracting session params:`, error)
+    }
+  }
+
+  private startLoginMonitor(): void {
+    if (this.loginCheckInterval) {
+      clearInterval(this.loginCheckInterval)
+    }
+
+    console.log(`[${this.name}] Starting login monitor...`)
+
+    this.loginCheckInterval = setInterval(async () => {
+      const isLoggedIn = await this.checkLoggedIn()
+      if (isLoggedIn) {
+        console.log(`[${this.name}] Login detected! Hiding view...`)
+        this.stopLoginMonitor()
+        this.hideView()
+
+        const mainWindow = getMainWindow()
+        mainWindow?.webContents.send(IPC_CHANNELS.AUTH_STATUS_CHANGED, { isLoggedIn: true })
+
+        await this.storage.setProviderState({
+          providerName: this.name,
+          isOnline: true,
+          lastSyncAt: null,
+          status: 'connected',
+          errorMessage: null
+        })
+
+        this._status = 'connected'
+        this.updateStoreState()
+        await this.start()
+      }
+    }, 1000)
+  }
+
+  private stopLoginMonitor(): void {
+    if (this.loginCheckInterval) {
+      clearInterval(this.loginCheckInterval)
+      this.loginCheckInterval = null
+      console.log(`[${this.name}] Stopped login monitor`)
+    }
+  }
+
+  private async checkLoggedIn(): Promise<boolean> {
+    if (!this.view) return false
+    // The logged-out landing page doesn't expose an XSRF token
+    return this.lastApiAuthSuccess && this.sessionParams !== null
+  }
+}
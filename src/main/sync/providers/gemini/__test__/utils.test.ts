@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import {
+  transformGeminiMessageToParts,
+  parseBatchExecuteResponse,
+  parseGeminiConversationList,
+  parseGeminiConversationTurns
+} from '../utils'
+import type { SourceUrlPart, TextPart } from '@shared/types'
+import conversationData from './gemini-conversation.json'
+
+describe('transformGeminiMessageToParts', () => {
+  it('should transform message without citations into single text part', () => {
+    const result = transformGeminiMessageToParts({ text: 'Hello! How can I help you today?' })
+
+    expect(result).toEqual([{ type: 'text', text: 'Hello! How can I help you today?' }])
+  })
+
+  it('should return empty text part for empty message', () => {
+    const result = transformGeminiMessageToParts({ text: '' })
+
+    expect(result).toEqual([{ type: 'text', text: '' }])
+  })
+
+  it('should place inline citations as source-url parts', () => {
+    const result = transformGeminiMessageToParts({
+      text: '[cite_start]Cats sleep a lot [cite: 1]. They also purr.',
+      citations: [{ url: 'https://www.example.com/cats', title: 'Cat Facts', snippet: 'Sleepy' }]
+    })
+
+    expect(result).toHaveLength(3)
+    expect(result[0]).toEqual({ type: 'text', text: 'Cats sleep a lot' })
+
+    const source = result[1] as SourceUrlPart
+    expect(source.type).toBe('source-url')
+    expect(source.url).toBe('https://www.example.com/cats')
+    expect(source.title).toBe('Cat Facts')
+    expect(source.attribution).toBe('example.com')
+    expect(source.snippet).toBe('Sleepy')
+    expect(source.sourceId).toBeDefined()
+
+    expect(result[2]).toEqual({ type: 'text', text: '. They also purr.' })
+  })
+
+  it('should append citations that are not referenced inline', () => {
+    const result = transformGeminiMessageToParts({
+      text: 'Answer without markers.',
+      citations: [{ url: 'https://one.com' }, { url: 'https://two.com' }]
+    })
+
+    expect(result.map((p) => p.type)).toEqual(['text', 'source-url', 'source-url'])
+    expect((result[1] as SourceUrlPart).url).toBe('https://one.com')
+    expect((result[2] as SourceUrlPart).url).toBe('https://two.com')
+  })
+
+  it('should ignore citation indexes that do not exist', () => {
+    const result = transformGeminiMessageToParts({
+      text: 'Claim [cite: 5].',
+      citations: []
+    })
+
+    expect(result).toEqual([
+      { type: 'text', text: 'Claim' },
+      { type: 'text', text: '.' }
+    ])
+  })
+
+  it('should transform fixture conversation with citations and placeholders', () => {
+    const turns = parseGeminiConversationTurns(conversationData)
+    const candidate = turns[1].candidates[0]
+
+    const result = transformGeminiMessageToParts(candidate)
+
+    const textParts = result.filter((p): p is TextPart => p.type === 'text')
+    const sourceParts = result.filter((p): p is SourceUrlPart => p.type === 'source-url')
+
+    expect(sourceParts.map((p) => p.url)).toEqual([
+      'https://www.example-vets.com/bengal-lifespan',
+      'https://catfacts.example.org/bengal'
+    ])
+
+    const text = textParts.map((p) => p.text).join('')
+    expect(text).toContain('Bengal cats typically live **12 to 16 years**')
+    expect(text).not.toContain('[cite')
+    expect(text).not.toContain('googleusercontent.com')
+  })
+})
+
+describe('parseGeminiConversationTurns', () => {
+  it('should return turns oldest first', () => {
+    const turns = parseGeminiConversationTurns(conversationData)
+
+    expect(turns).toHaveLength(2)
+    expect(turns[0].userText).toBe('What is a Bengal cat?')
+    expect(turns[1].userText).toBe('How long do Bengal cats usually live?')
+    expect(turns[0].createdAt).toBe('2026-01-14T12:00:48.903Z')
+  })
+
+  it('should keep all drafts and the selected candidate', () => {
+    const [firstTurn] = parseGeminiConversationTurns(conversationData)
+
+    expect(firstTurn.responseId).toBe('r_a31f6e2c8b7d0945')
+    expect(firstTurn.candidates.map((c) => c.id)).toEqual([
+      'rc_e95a0f3d27c1b648',
+      'rc_7c4b2e19f0a3d856'
+    ])
+    expect(firstTurn.selectedCandidateId).toBe('rc_7c4b2e19f0a3d856')
+    expect(firstTurn.candidates[0].citations).toEqual([])
+  })
+
+  it('should return empty array for unexpected payloads', () => {
+    expect(parseGeminiConversationTurns(null)).toEqual([])
+    expect(parseGeminiConversationTurns({})).toEqual([])
+    expect(parseGeminiConversationTurns([[null, 'x']])).toEqual([])
+  })
+})
+
+describe('parseGeminiConversationList', () => {
+  it('should parse conversations and next page token', () => {
+    const result = parseGeminiConversationList([
+      null,
+      'next-token',
+      [
+        ['c_1', 'First chat', null, null, null, [1768392048, 0]],
+        ['c_2', '', null, null, null, [1768300000, 500000000]]
+      ]
+    ])
+
+    expect(result.nextPageToken).toBe('next-token')
+    expect(result.items).toEqual([
+      { id: 'c_1', title: 'First chat', updatedAt: '2026-01-14T12:00:48.000Z' },
+      { id: 'c_2', title: 'Untitled', updatedAt: '2026-01-13T10:26:40.500Z' }
+    ])
+  })
+
+  it('should handle the last page without token', () => {
+    const result = parseGeminiConversationList([null, null, []])
+
+    expect(result).toEqual({ items: [], nextPageToken: null })
+  })
+})
+
+describe('parseBatchExecuteResponse', () => {
+  it('should extract the payload for the requested rpc id', () => {
+    const payload = JSON.stringify([null, null, [['c_1', 'Chat']]])
+    const body = [
+      ")]}'",
+      '',
+      '120',
+      JSON.stringify([
+        ['wrb.fr', 'MaZiqc', payload, null, null, null, 'generic'],
+        ['di', 58]
+      ]),
+      '25',
+      JSON.stringify([['e', 4, null, null, 187]])
+    ].join('\n')
+
+    expect(parseBatchExecuteResponse(body, 'MaZiqc')).toEqual([null, null, [['c_1', 'Chat']]])
+    expect(parseBatchExecuteResponse(body, 'hNvQHb')).toBeNull()
+  })
+})
@@ -0,0 +1,261 @@
+import type { MessagePart } from '@shared/types'
+import { getDomain, getSourceId } from '../../source-utils'
+
+// ============================================================================
+// BATCHEXECUTE PARSING
+// ============================================================================
+
+/**
+ * Gemini's web client talks to `/_/BardChatUi/data/batchexecute`, which returns
+ * length-prefixed JSON chunks after an anti-XSSI prefix:
+ *
+ *   )]}'
+ *
+ *   123
+ *   [["wrb.fr","MaZiqc","<payload as JSON string>",null,null,null,"generic"]]
+ *
+ * Returns the decoded payload for the given RPC id, or null if it's missing.
+ */
+export function parseBatchExecuteResponse(body: string, rpcId: string): unknown | null {
+  for (const line of body.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('[')) continue
+
+    let chunk: unknown
+    try {
+      chunk = JSON.parse(trimmed)
+    } catch {
+      continue
+    }
+
+    if (!Array.isArray(chunk)) continue
+
+    for (const entry of chunk) {
+      if (
+        Array.isArray(entry) &&
+        entry[0] === 'wrb.fr' &&
+        entry[1] === rpcId &&
+        typeof entry[2] === 'string'
+      ) {
+        try {
+          return JSON.parse(entry[2])
+        } catch {
+          return null
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+// ============================================================================
+// CONVERSATION LIST (MaZiqc)
+// ============================================================================
+
+export interface GeminiConversationListItem {
+  id: string // e.g. 'c_4c1fa0e0b1d2e3f4'
+  title: string
+  updatedAt: string // ISO timestamp
+}
+
+/**
+ * Payload layout: [_, nextPageToken, [[id, title, _, _, _, [seconds, nanos]], ...]]
+ */
+export function parseGeminiConversationList(payload: unknown): {
+  items: GeminiConversationListItem[]
+  nextPageToken: string | null
+} {
+  if (!Array.isArray(payload)) {
+    return { items: [], nextPageToken: null }
+  }
+
+  const nextPageToken = typeof payload[1] === 'string' && payload[1] ? payload[1] : null
+  const rows: unknown[] = Array.isArray(payload[2]) ? payload[2] : []
+
+  const items = rows
+    .filter((row): row is unknown[] => Array.isArray(row) && typeof row[0] === 'string')
+    .map((row) => ({
+      id: row[0] as string,
+      title: typeof row[1] === 'string' && row[1] ? row[1] : 'Untitled',
+      updatedAt: toIsoTimestamp(row[5])
+    }))
+
+  return { items, nextPageToken }
+}
+
+// ============================================================================
+// CONVERSATION TURNS (hNvQHb)
+// ============================================================================
+
+export interface GeminiCitation {
+  url: string
+  title?: string
+  snippet?: string
+}
+
+export interface GeminiCandidate {
+  id: string // response candidate id, e.g. 'rc_...'
+  text: string
+  citations: GeminiCitation[]
+}
+
+/**
+ * One prompt/response exchange. Gemini can generate several drafts (candidates)
+ * per prompt; `selectedCandidateId` is the draft the conversation continued from.
+ */
+export interface GeminiTurn {
+  responseId: string // e.g. 'r_...'
+  userText: string
+  candidates: GeminiCandidate[]
+  selectedCandidateId: string | null
+  createdAt: string // ISO timestamp
+}
+
+/**
+ * Payload layout (turns are returned newest first):
+ *   [[turn, ...]]
+ *   turn = [[conversationId, responseId], [conversationId, responseId, selectedCandidateId],
+ *           [[userText]], [[candidate, ...]], [seconds, nanos]]
+ *   candidate = [candidateId, [text], [[url, title, snippet], ...]]
+ *
+ * Returns turns oldest first.
+ */
+export function parseGeminiConversationTurns(payload: unknown): GeminiTurn[] {
+  if (!Array.isArray(payload) || !Array.isArray(payload[0])) {
+    return []
+  }
+
+  const turns: GeminiTurn[] = []
+
+  for (const turn of payload[0] as unknown[]) {
+    if (!Array.isArray(turn)) continue
+
+    const ids = Array.isArray(turn[1]) ? turn[1] : Array.isArray(turn[0]) ? turn[0] : []
+    const responseId = typeof ids[1] === 'string' ? ids[1] : null
+    if (!responseId) continue
+
+    const prompt = Array.isArray(turn[2]) && Array.isArray(turn[2][0]) ? turn[2][0] : []
+    const candidateRows: unknown[] =
+      Array.isArray(turn[3]) && Array.isArray(turn[3][0]) ? turn[3][0] : []
+
+    const candidates = candidateRows
+      .filter((row): row is unknown[] => Array.isArray(row) && typeof row[0] === 'string')
+      .map((row) => ({
+        id: row[0] as string,
+        text: Array.isArray(row[1]) && typeof row[1][0] === 'string' ? row[1][0] : '',
+        citations: parseCitations(row[2])
+      }))
+
+    const selectedCandidateId =
+      typeof ids[2] === 'string' && candidates.some((c) => c.id === ids[2])
+        ? (ids[2] as string)
+        : (candidates[0]?.id ?? null)
+
+    turns.push({
+      responseId,
+      userText: typeof prompt[0] === 'string' ? prompt[0] : '',
+      candidates,
+      selectedCandidateId,
+      createdAt: toIsoTimestamp(turn[4])
+    })
+  }
+
+  return turns.reverse()
+}
+
+function parseCitations(value: unknown): GeminiCitation[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter((row): row is unknown[] => Array.isArray(row) && typeof row[0] === 'string')
+    .map((row) => ({
+      url: row[0] as string,
+      ...(typeof row[1] === 'string' && row[1] && { title: row[1] }),
+      ...(typeof row[2] === 'string' && row[2] && { snippet: row[2] })
+    }))
+}
+
+function toIsoTimestamp(value: unknown): string {
+  if (Array.isArray(value) && typeof value[0] === 'number') {
+    const nanos = typeof value[1] === 'number' ? value[1] : 0
+    return new Date(value[0] * 1000 + Math.floor(nanos / 1e6)).toISOString()
+  }
+  return new Date().toISOString()
+}
+
+// ============================================================================
+// MESSAGE PARTS
+// ============================================================================
+
+export interface GeminiMessageInput {
+  text: string
+  citations?: GeminiCitation[]
+}
+
+// Placeholders Gemini leaves in the text for generated images and widgets
+const CONTENT_PLACEHOLDER_REGEX = /https?:\/\/googleusercontent\.com\/[a-z_]+_content\/\d+\n?/g
+
+/**
+ * Transform a Gemini response into message parts.
+ *
+ * Inline `[cite: 1, 2]` markers (1-based indexes into citations) become
+ * source-url parts at the marker position; `[cite_start]` markers are dropped.
+ * Citations that are never referenced inline are appended at the end.
+ */
+export function transformGeminiMessageToParts(input: GeminiMessageInput): MessagePart[] {
+  const citations = input.citations ?? []
+  const text = input.text
+    .replace(CONTENT_PLACEHOLDER_REGEX, '')
+    .replace(/\[cite_start\]/g, '')
+    .trim()
+
+  const parts: MessagePart[] = []
+  const referenced = new Set<number>()
+
+  const toSourcePart = (citation: GeminiCitation): MessagePart => ({
+    type: 'source-url',
+    sourceId: getSourceId(citation.url, parts.length),
+    url: citation.url,
+    title: citation.title,
+    attribution: getDomain(citation.url),
+    snippet: citation.snippet
+  })
+
+  const CITE_REGEX = /\s?\[cite:\s*([\d,\s]+)\]/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = CITE_REGEX.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ type: 'text', text: text.slice(lastIndex, match.index) })
+    }
+
+    for (const num of match[1].split(',')) {
+      const index = parseInt(num.trim(), 10) - 1
+      const citation = citations[index]
+      if (citation && !referenced.has(index)) {
+        referenced.add(index)
+        parts.push(toSourcePart(citation))
+      }
+    }
+
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+
+  citations.forEach((citation, index) => {
+    if (!referenced.has(index)) {
+      parts.push(toSourcePart(citation))
+    }
+  })
+
+  if (parts.length === 0) {
+    parts.push({ type: 'text', text: '' })
+  }
+
+  return parts
+}
@@ -0,0 +1,941 @@
+import { WebContentsView, session } from 'electron'
+import { BaseProvider, type SyncResult, type ProviderName } from './base.js'
+import type { IStorage } from '../../storage/interface.js'
+import { GROK_DEFAULT_METADATA, type GrokMetadata } from './types'
+import { getMainWindow } from '../../index.js'
+import { viewBoundsManager } from '../../view-bounds-manager'
+import { IPC_CHANNELS } from '../../../shared/types'
+import { findCachedFile, getExtensionFromMimeType } from '../attachment-utils.js'
+import { getAttachmentsPath } from '../../settings.js'
+import {
+  buildGrokResponseTree,
+  getGrokImageAttachments,
+  transformGrokMessageToParts,
+  type GrokResponse
+} from './grok/utils'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// TYPES - Exported for external use
+// ============================================================================
+
+export type GrokApiHeaders = Record<string, string>
+
+export interface GrokConversationListItem {
+  conversationId: string
+  title: string
+  createTime: string
+  modifyTime: string
+}
+
+export interface GrokConversation {
+  conversationId: string
+  responses: GrokResponse[]
+}
+
+interface FetchConversationsOptions {
+  stopBeforeTimestamp?: number | null
+  onPage?: (conversations: GrokConversationListItem[], pageNumber: number) => Promise<void>
+}
+
+// ============================================================================
+// PROVIDER CLASS
+// ============================================================================
+
+export class GrokProvider extends BaseProvider<GrokMetadata> {
+  readonly name: ProviderName = 'grok'
+
+  private view: WebContentsView | null = null
+  private capturedHeaders: GrokApiHeaders | null = null
+  private lastApiAuthSuccess: boolean = false
+  private isViewVisible: boolean = false
+  private loginCheckInterval: NodeJS.Timeout | null = null
+
+  constructor(storage: IStorage, pollingIntervalMs: number = 60000) {
+    super(storage, pollingIntervalMs)
+  }
+
+  protected getDefaultMetadata(): GrokMetadata {
+    return { ...GROK_DEFAULT_METADATA }
+  }
+
+  async initialize(): Promise<void> {
+    await this.loadPersistedState()
+    this.createView()
+    // Update Zustand store with loaded state
+    this.updateStoreState()
+  }
+
+  isConnected(): boolean {
+    return this.capturedHeaders !== null
+  }
+
+  getView(): WebContentsView | null {
+    return this.view
+  }
+
+  getHeaders(): Record<string, string> | null {
+    return this.capturedHeaders
+  }
+
+  toggleView(): boolean {
+    if (this.isViewVisible) {
+      this.hideView()
+      return false
+    } else {
+      this.showLogin()
+      return true
+    }
+  }
+
+  showLogin(): void {
+    if (!this.view) return
+
+    viewBoundsManager.attachView(this.view, this.name)
+    this.view.webContents.loadURL('https://grok.com/')
+    this.isViewVisible = true
+
+    this.startLoginMonitor()
+  }
+
+  hideView(): void {
+    if (!this.view) return
+
+    viewBoundsManager.detachView(this.view)
+    this.isViewVisible = false
+  }
+
+  async logout(): Promise<void> {
+    const grokSession = session.fromPartition('persist:grok')
+    await grokSession.clearStorageData()
+    this.hideView()
+    this.capturedHeaders = null
+    this.lastApiAuthSuccess = false
+
+    this._status = 'logged_out'
+    await this.storage.setProviderState({
+      providerName: this.name,
+      isOnline: false,
+      lastSyncAt: this._lastSyncAt,
+      status: this._status,
+      errorMessage: null
+    })
+
+    this.updateStoreState()
+    console.log(`[${this.name}] Logged out, cleared session data`)
+  }
+
+  async restoreConnection(): Promise<void> {
+    if (!this.view) {
+      console.log(`[${this.name}] Cannot restore connection: view not initialized`)
+      return
+    }
+
+    console.log(`[${this.name}] Restoring connection by loading provider page in background...`)
+
+    return new Promise((resolve) => {
+      this.view!.webContents.loadURL('https://grok.com/')
+
+      const timeout = setTimeout(() => {
+        if (this.capturedHeaders) {
+          console.log(`[${this.name}] Connection restored successfully`)
+        } else {
+          console.log(
+            `[${this.name}] Connection restoration timed out, but session may still be valid`
+          )
+        }
+        resolve()
+      }, 10000)
+
+      const checkInterval = setInterval(() => {
+        if (this.capturedHeaders) {
+          clearInterval(checkInterval)
+          clearTimeout(timeout)
+          console.log(`[${this.name}] Connection restored successfully`)
+          resolve()
+        }
+      }, 500)
+    })
+  }
+
+  // ============================================================================
+  // PUBLIC API METHODS - For external use (ipc.ts, etc.)
+  // ============================================================================
+
+  /**
+   * Refresh a single conversation from the Grok API
+   */
+  async refreshConversation(conversationId: string): Promise<GrokConversation | null> {
+    if (!this.view || !this.capturedHeaders) {
+      return null
+    }
+
+    try {
+      return await this.extractConversationContent(conversationId)
+    } catch (error) {
+      console.error(`[${this.name}] Error refreshing conversation:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Download a generated image from assets.grok.com.
+   * Files are cached by fileId - if the file already exists, returns the cached path.
+   */
+  async downloadAttachment(
+    fileId: string,
+    filename: string | null,
+    conversationId: string
+  ): Promise<string> {
+    // Check if file is already cached
+    const cachedPath = findCachedFile(conversationId, fileId)
+    if (cachedPath) {
+      return cachedPath
+    }
+
+    if (!this.view) {
+      throw new Error('Grok provider not initialized')
+    }
+
+    // Get attachment metadata from database to determine download URL
+    const conversationData = await this.storage.getConversationWithMessages(conversationId)
+    if (!conversationData) {
+      throw new Error(`Conversation ${conversationId} not found`)
+    }
+
+    let downloadUrl: string | null = null
+    let mimeType = 'image/jpeg'
+
+    // Find the attachment in the messages
+    for (const message of conversationData.messages) {
+      if (!message.attachments) continue
+      for (const att of message.attachments) {
+        if (att.fileId === fileId) {
+          downloadUrl = att.originalUrl
+          mimeType = att.mimeType || mimeType
+          break
+        }
+      }
+      if (downloadUrl) break
+    }
+
+    if (!downloadUrl) {
+      throw new Error(`Could not find attachment metadata for fileId ${fileId}`)
+    }
+
+    console.log(`[Attachments] Downloading Grok file ${fileId} from ${downloadUrl}`)
+
+    // Download via webContents (assets require session cookies)
+    const downloaded = await this.downloadFileViaScript(downloadUrl)
+
+    // Ensure conversation directory exists
+    const attachmentsPath = getAttachmentsPath()
+    const conversationDir = path.join(attachmentsPath, conversationId)
+    if (!fs.existsSync(conversationDir)) {
+      fs.mkdirSync(conversationDir, { recursive: true })
+    }
+
+    // Generate filename: {fileId}_{displayName}.{ext}
+    let displayName = filename || 'image'
+
+    // Add extension based on mime type if missing
+    if (!path.extname(displayName)) {
+      const ext = getExtensionFromMimeType(downloaded.mimeType || mimeType)
+      displayName += ext
+    }
+
+    // Filename format: fileId_displayName (allows lookup by fileId prefix)
+    const uniqueFilename = `${fileId}_${displayName}`
+    const localPath = path.join(conversationDir, uniqueFilename)
+
+    // Write file to disk
+    fs.writeFileSync(localPath, downloaded.data)
+
+    console.log(`[Attachments] Downloaded ${fileId} to ${localPath}`)
+    return localPath
+  }
+
+  /**
+   * Download a file via webContents and return as Buffer
+   */
+  private async downloadFileViaScript(
+    downloadUrl: string
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    if (!this.view) {
+      throw new Error('View not initialized')
+    }
+
+    await this.ensureOnGrok()
+
+    const script = `
+(async function() {
+  const response = await fetch(${JSON.stringify(downloadUrl)}, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    console.error('[Grok API] Failed to download file:', response.status);
+    return { error: 'Failed to download: ' + response.status };
+  }
+
+  const blob = await response.blob();
+  const arrayBuffer = await blob.arrayBuffer();
+  const bytes = new Uint8Array(arrayBuffer);
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return {
+    data: btoa(binary),
+    mimeType: response.headers.get('content-type') || 'application/octet-stream',
+  };
+})();
+`
+    const result = await this.view.webContents.executeJavaScript(script)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    return {
+      data: Buffer.from(result.data, 'base64'),
+      mimeType: result.mimeType
+    }
+  }
+
+  /**
+   * Refresh and persist a conversation (stale-while-revalidate pattern)
+   * Fetches from API and updates database only if successful
+   */
+  async refreshAndPersistConversation(conversationId: string) {
+    try {
+      // Get existing conversation to ensure it exists
+      const existing = await this.storage.getConversation(conversationId)
+      if (!existing) {
+        return null
+      }
+
+      // If provider not available, return stale data
+      if (!this.view || !this.capturedHeaders) {
+        return this.storage.getConversationWithMessages(conversationId)
+      }
+
+      // Try to refresh from API
+      const content = await this.refreshConversation(conversationId)
+      if (!content || content.responses.length === 0) {
+        // Refresh failed, return stale data
+        return this.storage.getConversationWithMessages(conversationId)
+      }
+
+      const { messages, attachments, currentNodeId } = this.convertGrokResponses(
+        content.responses,
+        conversationId
+      )
+      const updatedAt = messages.reduce(
+        (latest, m) => (m.createdAt > latest ? m.createdAt : latest),
+        existing.updatedAt
+      )
+
+      // Refresh successful - update database
+      await this.storage.upsertConversation({
+        id: conversationId,
+        title: existing.title,
+        provider: 'grok',
+        createdAt: existing.createdAt,
+        updatedAt,
+        syncedAt: new Date(),
+        messageCount: messages.length,
+        currentNodeId
+      })
+
+      await this.storage.upsertMessages(messages)
+
+      if (attachments.length > 0) {
+        await this.storage.upsertAttachments(attachments)
+      }
+
+      // Return updated data
+      const result = await this.storage.getConversationWithMessages(conversationId)
+      return result ? { conversation: result.conversation, messages: result.messages } : null
+    } catch (error) {
+      console.error('[Grok] Error in refreshAndPersistConversation:', error)
+      // On any error, return stale data
+      const result = await this.storage.getConversationWithMessages(conversationId)
+      return result ? { conversation: result.conversation, messages: result.messages } : null
+    }
+  }
+
+  // ============================================================================
+  // SYNC METHOD
+  // ============================================================================
+
+  async sync(): Promise<SyncResult> {
+    if (!this.view || !this.capturedHeaders) {
+      return { success: false, error: 'Not connected' }
+    }
+
+    try {
+      const metadata = await this.getMetadata()
+
+      // Choose sync mode based on whether we've completed a full sync
+      if (!metadata.isFullSyncComplete) {
+        console.log(`[${this.name}] Starting full sync from offset ${metadata.lastCompletedOffset}`)
+        return await this.fullSync(metadata)
+      } else {
+        console.log(`[${this.name}] Starting incremental sync`)
+        return await this.incrementalSync()
+      }
+    } catch (error) {
+      const errorMessage = (error as Error).message
+      console.error(`[${this.name}] Sync error:`, error)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  // ============================================================================
+  // FULL SYNC - Resume from page token until pagination complete
+  // ============================================================================
+
+  private async fullSync(metadata: GrokMetadata): Promise<SyncResult> {
+    if (!this.view || !this.capturedHeaders) {
+      return { success: false, error: 'Not connected' }
+    }
+
+    let offset = metadata.lastCompletedOffset
+    let pageToken = metadata.nextPageToken
+    let newChatsFound = 0
+    const PAGE_SIZE = 60
+
+    try {
+      while (true) {
+        console.log(`[${this.name}] Fetching page at offset ${offset}...`)
+
+        const page = await this.fetchConversationPage(PAGE_SIZE, pageToken)
+
+        console.log(
+          `[${this.name}] Processing ${page.conversations.length} conversations at offset ${offset}`
+        )
+
+        // Grok doesn't report a total, so progress only shows the current position
+        this.updateSyncProgress(offset, 0, newChatsFound)
+
+        // Process entire page atomically
+        for (const conv of page.conversations) {
+          await this.syncConversationWithRetry(conv)
+          newChatsFound++
+        }
+
+        // Only mark page complete after ALL conversations succeed
+        offset += page.conversations.length
+        pageToken = page.nextPageToken
+        await this.setMetadata({
+          ...metadata,
+          lastCompletedOffset: offset,
+          nextPageToken: pageToken
+        })
+
+        console.log(`[${this.name}] Completed offset ${offset}`)
+
+        // Check if last page
+        if (!pageToken || page.conversations.length === 0) {
+          console.log(`[${this.name}] Reached end of pagination at offset ${offset}`)
+          await this.setMetadata({
+            ...metadata,
+            lastCompletedOffset: offset,
+            nextPageToken: null,
+            isFullSyncComplete: true
+          })
+          break
+        }
+
+        // Safety limit
+        if (offset > 10000) {
+          console.warn(`[${this.name}] Reached safety limit of 10000 conversations`)
+          break
+        }
+      }
+
+      console.log(`[${this.name}] Full sync complete! Synced ${newChatsFound} conversations`)
+      return { success: true, newChatsFound }
+    } catch (error) {
+      console.error(`[${this.name}] Full sync error:`, error)
+      return { success: false, error: (error as Error).message }
+    }
+  }
+
+  // ============================================================================
+  // INCREMENTAL SYNC - Keep existing timestamp logic
+  // ============================================================================
+
+  private async incrementalSync(): Promise<SyncResult> {
+    if (!this.view || !this.capturedHeaders) {
+      return { success: false, error: 'Not connected' }
+    }
+
+    try {
+      const maxLocalUpdatedAt = await this.storage.getMaxUpdatedAt(this.name)
+      console.log(
+        `[${this.name}] Max local updated_at: ${maxLocalUpdatedAt?.toISOString() ?? 'none'}`
+      )
+
+      let newChatsFound = 0
+
+      const truncateToSeconds = (date: Date): number => {
+        return Math.floor(date.getTime() / 1000) * 1000
+      }
+
+      await this.extractConversationList({
+        stopBeforeTimestamp: maxLocalUpdatedAt ? truncateToSeconds(maxLocalUpdatedAt) : null,
+        onPage: async (pageConversations, pageNumber) => {
+          console.log(
+            `[${this.name}] Processing page ${pageNumber} with ${pageConversations.length} conversations`
+          )
+
+          for (const conv of pageConversations) {
+            newChatsFound++
+            console.log(`[${this.name}] Syncing conversation ${newChatsFound}: ${conv.title}`)
+
+            try {
+              await this.syncConversationWithRetry(conv)
+            } catch (err) {
+              console.error(
+                `[${this.name}] Error syncing conversation ${conv.conversationId}:`,
+                err
+              )
+            }
+          }
+        }
+      })
+
+      console.log(`[${this.name}] Incremental sync complete! Synced ${newChatsFound} conversations`)
+      return { success: true, newChatsFound }
+    } catch (error) {
+      const errorMessage = (error as Error).message
+      console.error(`[${this.name}] Incremental sync error:`, error)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  // ============================================================================
+  // RETRY LOGIC - With exponential backoff
+  // ============================================================================
+
+  private async syncConversationWithRetry(
+    conv: GrokConversationListItem,
+    maxRetries = 3
+  ): Promise<void> {
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        await this.syncConversation(conv)
+
+        // Clear error on success
+        await this.storage.updateConversationSyncError(conv.conversationId, null, 0)
+        return
+      } catch (error) {
+        if (attempt === maxRetries - 1) {
+          // Final failure - persist error
+          console.error(
+            `[${this.name}] Failed to sync conversation ${conv.conversationId} after ${maxRetries} attempts:`,
+            error
+          )
+          await this.storage.updateConversationSyncError(
+            conv.conversationId,
+            (error as Error).message,
+            attempt + 1
+          )
+          throw error
+        }
+
+        // Exponential backoff: 1s, 2s, 4s
+        const backoffMs = Math.pow(2, attempt) * 1000
+        console.log(
+          `[${this.name}] Retry ${attempt + 1}/${maxRetries} for conversation ${conv.conversationId} after ${backoffMs}ms`
+        )
+        await new Promise((r) => setTimeout(r, backoffMs))
+      }
+    }
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS - API interaction
+  // ============================================================================
+
+  private async ensureOnGrok(): Promise<void> {
+    if (!this.view) throw new Error('View not initialized')
+
+    const url = this.view.webContents.getURL()
+    if (!url.includes('grok.com')) {
+      await this.view.webContents.loadURL('https://grok.com/')
+      await new Promise((r) => setTimeout(r, 2000))
+    }
+  }
+
+  private async fetchConversationPage(
+    pageSize: number,
+    pageToken: string | null
+  ): Promise<{ conversations: GrokConversationListItem[]; nextPageToken: string | null }> {
+    if (!this.view) throw new Error('View not initialized')
+
+    await this.ensureOnGrok()
+
+    const result = await this.view.webContents.executeJavaScript(
+      this.makeFetchConversationsScript(pageSize, pageToken)
+    )
+
+    if (result.error) {
+      throw new Error(`API error: ${result.error}`)
+    }
+
+    return {
+      conversations: result.conversations || [],
+      nextPageToken: result.nextPageToken || null
+    }
+  }
+
+  private async extractConversationList(
+    options?: FetchConversationsOptions
+  ): Promise<GrokConversationListItem[]> {
+    if (!this.view) throw new Error('View not initialized')
+
+    try {
+      console.log(`[${this.name}] Fetching conversations via API...`)
+
+      const allConversations: GrokConversationListItem[] = []
+      const stopBeforeTimestamp = options?.stopBeforeTimestamp ?? null
+      const pageSize = 60
+      let pageToken: string | null = null
+      let hasMore = true
+      let pageNumber = 0
+
+      while (hasMore) {
+        let page: { conversations: GrokConversationListItem[]; nextPageToken: string | null }
+        try {
+          page = await this.fetchConversationPage(pageSize, pageToken)
+        } catch (error) {
+          console.error(`[${this.name}] API error on page ${pageNumber}:`, error)
+          break
+        }
+
+        const pageConversations: GrokConversationListItem[] = []
+
+        for (const conv of page.conversations) {
+          const convTimestamp = new Date(conv.modifyTime).getTime()
+          if (stopBeforeTimestamp && convTimestamp <= stopBeforeTimestamp) {
+            console.log(`[${this.name}] Reached timestamp threshold, stopping pagination`)
+            hasMore = false
+            break
+          }
+
+          pageConversations.push(conv)
+          allConversations.push(conv)
+        }
+
+        if (pageConversations.length > 0 && options?.onPage) {
+          await options.onPage(pageConversations, pageNumber)
+        }
+
+        console.log(
+          `[${this.name}] Page ${pageNumber}: fetched ${pageConversations.length} conversations (total: ${allConversations.length})`
+        )
+
+        pageToken = page.nextPageToken
+        if (hasMore) {
+          hasMore = pageToken !== null
+        }
+        pageNumber++
+
+        if (allConversations.length > 10000) break
+      }
+
+      console.log(`[${this.name}] Finished fetching ${allConversations.length} conversations`)
+      return allConversations
+    } catch (error) {
+      console.error(`[${this.name}] Error fetching conversation list:`, error)
+      throw error
+    }
+  }
+
+  private async extractConversationContent(conversationId: string): Promise<GrokConversation> {
+    if (!this.view) throw new Error('View not initialized')
+
+    try {
+      await this.ensureOnGrok()
+
+      const conversation = await this.storage.getConversation(conversationId)
+
+      console.log(
+        `[${this.name}] Fetching conversation "${conversation?.title ?? conversationId}" via API...`
+      )
+      const result = await this.view.webContents.executeJavaScript(
+        this.makeFetchConversationScript(conversationId)
+      )
+
+      if (result.error) {
+        throw new Error(`API error: ${result.error}`)
+      }
+
+      console.log(
+        `[${this.name}] Fetched conversation "${conversation?.title ?? conversationId}" with ${result.responses.length} responses`
+      )
+
+      return { conversationId, responses: result.responses }
+    } catch (error) {
+      console.error(`[${this.name}] Error fetching conversation content:`, error)
+      throw error
+    }
+  }
+
+  private async syncConversation(conv: GrokConversationListItem): Promise<void> {
+    if (!this.view || !this.capturedHeaders) {
+      throw new Error('Not connected')
+    }
+
+    const content = await this.extractConversationContent(conv.conversationId)
+
+    const existing = await this.storage.getConversation(conv.conversationId)
+    if (existing) {
+      await this.storage.deleteMessagesForConversation(conv.conversationId)
+    }
+
+    const { messages, attachments, currentNodeId } = this.convertGrokResponses(
+      content.responses,
+      conv.conversationId
+    )
+
+    await this.storage.upsertConversation({
+      id: conv.conversationId,
+      title: conv.title || 'Untitled',
+      provider: 'grok',
+      createdAt: new Date(conv.createTime),
+      updatedAt: new Date(conv.modifyTime),
+      syncedAt: new Date(),
+      messageCount: messages.length,
+      currentNodeId
+    })
+
+    await this.storage.upsertMessages(messages)
+
+    if (attachments.length > 0) {
+      await this.storage.upsertAttachments(attachments)
+    }
+  }
+
+  private convertGrokResponses(responses: GrokResponse[], conversationId: string) {
+    const { nodes, currentNodeId } = buildGrokResponseTree(responses)
+
+    const messages = nodes.map((node, index) => ({
+      id: node.response.responseId,
+      conversationId,
+      role: node.role,
+      parts: JSON.stringify(
+        node.role === 'user'
+          ? [{ type: 'text', text: node.response.message }]
+          : transformGrokMessageToParts(node.response)
+      ),
+      createdAt: new Date(node.response.createTime),
+      orderIndex: index,
+      parentId: node.parentId,
+      siblingIds: JSON.stringify(node.siblingIds),
+      siblingIndex: node.siblingIndex,
+      model: node.role === 'assistant' ? node.response.model || null : null
+    }))
+
+    const attachments = nodes.flatMap((node) =>
+      getGrokImageAttachments(node.response).map((image) => ({
+        id: `${node.response.responseId}-att-${image.fileId}`,
+        messageId: node.response.responseId,
+        type: 'image' as const,
+        fileId: image.fileId,
+        originalUrl: image.url,
+        localPath: '',
+        filename: null,
+        mimeType: 'image/jpeg',
+        size: 0
+      }))
+    )
+
+    return { messages, attachments, currentNodeId }
+  }
+
+  // ============================================================================
+  // JAVASCRIPT INJECTION SCRIPTS
+  // ============================================================================
+
+  private makeFetchConversationsScript(pageSize: number, pageToken: string | null): string {
+    const query = new URLSearchParams({ pageSize: String(pageSize) })
+    if (pageToken) query.set('pageToken', pageToken)
+
+    return `
+(async function() {
+  const response = await fetch('https://grok.com/rest/app-chat/conversations?${query.toString()}', {
+    credentials: 'include',
+    headers: { 'accept': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error('[Grok API] Failed to fetch conversations:', response.status);
+    return { error: response.status };
+  }
+
+  return await response.json();
+})();
+`
+  }
+
+  private makeFetchConversationScript(conversationId: string): string {
+    return `
+(async function() {
+  const base = 'https://grok.com/rest/app-chat/conversations/${conversationId}';
+
+  const nodesResponse = await fetch(base + '/response-node?includeThreads=true', {
+    credentials: 'include',
+    headers: { 'accept': 'application/json' },
+  });
+
+  if (!nodesResponse.ok) {
+    console.error('[Grok API] Failed to fetch response nodes:', nodesResponse.status);
+    return { error: nodesResponse.status };
+  }
+
+  const { responseNodes = [] } = await nodesResponse.json();
+  const parents = {};
+  for (const node of responseNodes) {
+    parents[node.responseId] = node.parentResponseId || null;
+  }
+
+  if (responseNodes.length === 0) {
+    return { responses: [] };
+  }
+
+  const response = await fetch(base + '/load-responses', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'accept': 'application/json', 'content-type': 'application/json' },
+    body: JSON.stringify({ responseIds: responseNodes.map((node) => node.responseId) }),
+  });
+
+  if (!response.ok) {
+    console.error('[Grok API] Failed to load responses:', response.status);
+    return { error: response.status };
+  }
+
+  const { responses = [] } = await response.json();
+  return {
+    responses: responses.map((r) => ({
+      responseId: r.responseId,
+      message: r.message || '',
+      sender: r.sender,
+      createTime: r.createTime,
+      parentResponseId: r.parentResponseId || parents[r.responseId] || null,
+      webSearchResults: (r.webSearchResults || []).map((w) => ({
+        url: w.url,
+        title: w.title,
+        preview: w.preview,
+      })),
+      generatedImageUrls: r.generatedImageUrls || [],
+      model: r.model,
+      partial: r.partial,
+    })),
+  };
+})();
+`
+  }
+
+  // ============================================================================
+  // VIEW MANAGEMENT
+  // ============================================================================
+
+  private createView(): void {
+    if (this.view) return
+
+    this.view = new WebContentsView({
+      webPreferences: {
+        contextIsolation: true,
+        nodeIntegration: false,
+        partition: 'persist:grok'
+      }
+    })
+
+    const grokSession = session.fromPartition('persist:grok')
+    grokSession.setPermissionRequestHandler((_webContents, permission, callback) => {
+      const allowedPermissions = ['clipboard-read', 'clipboard-sanitized-write']
+      callback(allowedPermissions.includes(permission))
+    })
+
+    grokSession.setPermissionCheckHandler((_webContents, permission) => {
+      const allowedPermissions = ['clipboard-read', 'clipboard-sanitized-write']
+      return allowedPermissions.includes(permission)
+    })
+
+    grokSession.webRequest.onBeforeSendHeaders(
+      { urls: ['*://grok.com/rest/*'] },
+      (details, callback) => {
+        // Grok uses cookie-based auth, capture headers for API calls
+        if (details.requestHeaders['Cookie'] || details.requestHeaders['cookie']) {
+          const hadHeaders = this.capturedHeaders !== null
+          this.capturedHeaders = details.requestHeaders
+          if (!hadHeaders) {
+            console.log(`[${this.name}] Captured API headers (cookies)`)
+          }
+        }
+        callback({ requestHeaders: details.requestHeaders })
+      }
+    )
+
+    grokSession.webRequest.onCompleted(
+      { urls: ['*://grok.com/rest/app-chat/conversations*'] },
+      (details) => {
+        if (details.statusCode === 200) {
+          this.lastApiAuthSuccess = true
+        }
+      }
+    )
+  }
+
+  private startLoginMonitor(): void {
+    if (this.loginCheckInterval) {
+      clearInterval(this.loginCheckInterval)
+    }
+
+    console.log(`[${this.name}] Starting login monitor...`)
+
+    this.loginCheckInterval = setInterval(async () => {
+      const isLoggedIn = await this.checkLoggedIn()
+      if (isLoggedIn) {
+        console.log(`[${this.name}] Login detected! Hiding view...`)
+        this.stopLoginMonitor()
+        this.hideView()
+
+        const mainWindow = getMainWindow()
+        mainWindow?.webContents.send(IPC_CHANNELS.AUTH_STATUS_CHANGED, { isLoggedIn: true })
+
+        await this.storage.setProviderState({
+          providerName: this.name,
+          isOnline: true,
+          lastSyncAt: null,
+          status: 'connected',
+          errorMessage: null
+        })
+
+        this._status = 'connected'
+        this.updateStoreState()
+        await this.start()
+      }
+    }, 1000)
+  }
+
+  private stopLoginMonitor(): void {
+    if (this.loginCheckInterval) {
+      clearInterval(this.loginCheckInterval)
+      this.loginCheckInterval = null
+      console.log(`[${this.name}] Stopped login monitor`)
+    }
+  }
+
+  private async checkLoggedIn(): Promise<boolean> {
+    if (!this.view) return false
+    // The conversation list only loads for signed-in users
+    return this.lastApiAuthSuccess
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildGrokResponseTree,
+  getGrokImageAttachments,
+  transformGrokMessageToParts,
+  type GrokResponse
+} from '../utils'
+import type { SourceUrlPart, TextPart } from '@shared/types'
+import conversationData from './grok-conversation.json'
+
+const responses = conversationData.responses as GrokResponse[]
+
+describe('transformGrokMessageToParts', () => {
+  it('should transform message without search results into single text part', () => {
+    const result = transformGrokMessageToParts({ message: 'Hello! How can I help?' })
+
+    expect(result).toEqual([{ type: 'text', text: 'Hello! How can I help?' }])
+  })
+
+  it('should return empty text part for empty message', () => {
+    expect(transformGrokMessageToParts({ message: '' })).toEqual([{ type: 'text', text: '' }])
+  })
+
+  it('should place inline citations as source-url parts', () => {
+    const result = transformGrokMessageToParts({
+      message:
+        'Cats sleep a lot <grok:render type="render_inline_citation"><argument name="citation_id">0</argument></grok:render>. They purr.',
+      webSearchResults: [
+        { url: 'https://www.example.com/cats', title: 'Cat Facts', preview: 'Sleepy' }
+      ]
+    })
+
+    expect(result).toHaveLength(3)
+    expect(result[0]).toEqual({ type: 'text', text: 'Cats sleep a lot' })
+
+    const source = result[1] as SourceUrlPart
+    expect(source.type).toBe('source-url')
+    expect(source.url).toBe('https://www.example.com/cats')
+    expect(source.title).toBe('Cat Facts')
+    expect(source.attribution).toBe('example.com')
+    expect(source.snippet).toBe('Sleepy')
+    expect(source.sourceId).toBeDefined()
+
+    expect(result[2]).toEqual({ type: 'text', text: '. They purr.' })
+  })
+
+  it('should cite each search result only once', () => {
+    const tag =
+      '<grok:render type="render_inline_citation"><argument name="citation_id">0</argument></grok:render>'
+    const result = transformGrokMessageToParts({
+      message: `One ${tag} two ${tag}`,
+      webSearchResults: [{ url: 'https://one.com' }]
+    })
+
+    expect(result.filter((p) => p.type === 'source-url')).toHaveLength(1)
+  })
+
+  it('should append search results that are not cited inline', () => {
+    const result = transformGrokMessageToParts({
+      message: 'Answer without citations.',
+      webSearchResults: [{ url: 'https://one.com' }, { url: 'https://two.com' }]
+    })
+
+    expect(result.map((p) => p.type)).toEqual(['text', 'source-url', 'source-url'])
+  })
+
+  it('should transform fixture response with citations and image render tags', () => {
+    const result = transformGrokMessageToParts(responses[4])
+
+    const text = result
+      .filter((p): p is TextPart => p.type === 'text')
+      .map((p) => p.text)
+      .join('')
+    const sources = result.filter((p): p is SourceUrlPart => p.type === 'source-url')
+
+    expect(text).toContain('Bengal cats typically live **12 to 16 years**')
+    expect(text).not.toContain('grok:render')
+    // Cited result first, then the uncited one
+    expect(sources.map((p) => p.url)).toEqual([
+      'https://www.example-vets.com/bengal-lifespan',
+      'https://catfacts.example.org/bengal'
+    ])
+  })
+})
+
+describe('buildGrokResponseTree', () => {
+  it('should order parents before children', () => {
+    const { nodes } = buildGrokResponseTree([...responses].reverse())
+
+    const ids = nodes.map((n) => n.response.responseId)
+    for (const node of nodes) {
+      if (node.parentId) {
+        expect(ids.indexOf(node.parentId)).toBeLessThan(ids.indexOf(node.response.responseId))
+      }
+    }
+  })
+
+  it('should map regenerated responses to siblings', () => {
+    const { nodes } = buildGrokResponseTree(responses)
+    const [first, second] = nodes.filter((n) => n.parentId === responses[0].responseId)
+
+    expect(first.role).toBe('assistant')
+    expect(first.siblingIds).toEqual([responses[1].responseId, responses[2].responseId])
+    expect(first.siblingIndex).toBe(0)
+    expect(second.siblingIndex).toBe(1)
+  })
+
+  it('should map human sender to user role and root to null parent', () => {
+    const { nodes } = buildGrokResponseTree(responses)
+
+    expect(nodes[0].role).toBe('user')
+    expect(nodes[0].parentId).toBeNull()
+    expect(nodes[0].siblingIds).toEqual([responses[0].responseId])
+  })
+
+  it('should use the most recent response as current node', () => {
+    const { currentNodeId } = buildGrokResponseTree(responses)
+
+    expect(currentNodeId).toBe(responses[4].responseId)
+  })
+
+  it('should treat responses with unknown parents as roots', () => {
+    const { nodes } = buildGrokResponseTree([{ ...responses[3], parentResponseId: 'missing' }])
+
+    expect(nodes[0].parentId).toBeNull()
+  })
+
+  it('should handle empty conversations', () => {
+    expect(buildGrokResponseTree([])).toEqual({ nodes: [], currentNodeId: null })
+  })
+})
+
+describe('getGrokImageAttachments', () => {
+  it('should build asset URLs and use the image id as fileId', () => {
+    expect(getGrokImageAttachments(responses[4])).toEqual([
+      {
+        fileId: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+        url: 'https://assets.grok.com/users/7f3e9a2b-1c4d-4e5f-8a6b-9c0d1e2f3a4b/generated/0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d/image.jpg'
+      }
+    ])
+  })
+
+  it('should return empty array when there are no generated images', () => {
+    expect(getGrokImageAttachments(responses[0])).toEqual([])
+  })
+})
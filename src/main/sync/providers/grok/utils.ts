@@ -0,0 +1,206 @@
+import crypto from 'crypto'
+import type { MessagePart } from '@shared/types'
+import { getDomain, getSourceId } from '../../source-utils'
+
+export interface GrokWebSearchResult {
+  url: string
+  title?: string
+  preview?: string
+}
+
+/**
+ * A single node of a Grok conversation, as returned by `load-responses`.
+ * `parentResponseId` comes from the `response-node` endpoint.
+ */
+export interface GrokResponse {
+  responseId: string
+  message: string
+  sender: string // 'human' | 'ASSISTANT' (casing varies between endpoints)
+  createTime: string // ISO timestamp
+  parentResponseId?: string | null
+  webSearchResults?: GrokWebSearchResult[]
+  generatedImageUrls?: string[] // Relative to https://assets.grok.com/
+  model?: string
+  partial?: boolean
+}
+
+// ============================================================================
+// RESPONSE TREE
+// ============================================================================
+
+export interface GrokResponseNode {
+  response: GrokResponse
+  role: 'user' | 'assistant'
+  parentId: string | null
+  siblingIds: string[] // All siblings including self, ordered by createTime
+  siblingIndex: number
+}
+
+/**
+ * Arrange responses into a tree: parents before children, siblings
+ * (regenerations and edited prompts) ordered by creation time.
+ *
+ * Grok doesn't report which branch is active, so the current node is the most
+ * recently created response - that's the branch the web app opens.
+ * Responses whose parent is missing are treated as roots.
+ */
+export function buildGrokResponseTree(responses: GrokResponse[]): {
+  nodes: GrokResponseNode[]
+  currentNodeId: string | null
+} {
+  const byId = new Map(responses.map((r) => [r.responseId, r]))
+  const childrenMap = new Map<string | null, GrokResponse[]>()
+
+  for (const response of responses) {
+    const parentId =
+      response.parentResponseId && byId.has(response.parentResponseId)
+        ? response.parentResponseId
+        : null
+    const children = childrenMap.get(parentId) ?? []
+    children.push(response)
+    childrenMap.set(parentId, children)
+  }
+
+  for (const children of childrenMap.values()) {
+    children.sort((a, b) => toTime(a.createTime) - toTime(b.createTime))
+  }
+
+  const nodes: GrokResponseNode[] = []
+
+  const traverse = (parentId: string | null): void => {
+    const children = childrenMap.get(parentId) ?? []
+    const siblingIds = children.map((c) => c.responseId)
+
+    children.forEach((response, index) => {
+      nodes.push({
+        response,
+        role: response.sender.toLowerCase() === 'human' ? 'user' : 'assistant',
+        parentId,
+        siblingIds,
+        siblingIndex: index
+      })
+      traverse(response.responseId)
+    })
+  }
+
+  traverse(null)
+
+  let currentNodeId: string | null = null
+  let latest = -Infinity
+  for (const response of responses) {
+    const time = toTime(response.createTime)
+    if (time >= latest) {
+      latest = time
+      currentNodeId = response.responseId
+    }
+  }
+
+  return { nodes, currentNodeId }
+}
+
+function toTime(value: string): number {
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? 0 : time
+}
+
+// ============================================================================
+// GENERATED IMAGES
+// ============================================================================
+
+export interface GrokImageAttachment {
+  fileId: string
+  url: string
+}
+
+/**
+ * Generated image paths look like `users/{userId}/generated/{imageId}/image.jpg`.
+ * The image id is used as fileId so re-syncs map to the same cached file.
+ */
+export function getGrokImageAttachments(response: GrokResponse): GrokImageAttachment[] {
+  return (response.generatedImageUrls ?? []).map((imagePath) => {
+    const segments = imagePath.split('/').filter(Boolean)
+    const fileId =
+      segments.length >= 2
+        ? segments[segments.length - 2]
+        : crypto.createHash('sha1').update(imagePath).digest('hex').slice(0, 16)
+
+    return {
+      fileId,
+      url: imagePath.startsWith('http') ? imagePath : `https://assets.grok.com/${imagePath}`
+    }
+  })
+}
+
+// ============================================================================
+// MESSAGE PARTS
+// ============================================================================
+
+export interface GrokMessageInput {
+  message: string
+  webSearchResults?: GrokWebSearchResult[]
+}
+
+// <grok:render type="render_inline_citation"><argument name="citation_id">3</argument></grok:render>
+const RENDER_TAG_REGEX = /\s?<grok:render\b[^>]*type="([^"]*)"[^>]*>([\s\S]*?)<\/grok:render>/g
+const CITATION_ID_REGEX = /<argument name="citation_id">\s*(\d+)\s*<\/argument>/
+
+/**
+ * Transform a Grok response into message parts.
+ *
+ * Inline citation render tags (0-based indexes into webSearchResults) become
+ * source-url parts at the tag position; other render tags are dropped.
+ * Search results that are never cited inline are appended at the end.
+ */
+export function transformGrokMessageToParts(input: GrokMessageInput): MessagePart[] {
+  const results = input.webSearchResults ?? []
+  const text = input.message
+  const parts: MessagePart[] = []
+  const referenced = new Set<number>()
+
+  const toSourcePart = (result: GrokWebSearchResult): MessagePart => ({
+    type: 'source-url',
+    sourceId: getSourceId(result.url, parts.length),
+    url: result.url,
+    title: result.title,
+    attribution: getDomain(result.url),
+    snippet: result.preview
+  })
+
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  RENDER_TAG_REGEX.lastIndex = 0
+
+  while ((match = RENDER_TAG_REGEX.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ type: 'text', text: text.slice(lastIndex, match.index) })
+    }
+
+    if (match[1] === 'render_inline_citation') {
+      const citationId = match[2].match(CITATION_ID_REGEX)
+      const index = citationId ? parseInt(citationId[1], 10) : -1
+      const result = results[index]
+      if (result && !referenced.has(index)) {
+        referenced.add(index)
+        parts.push(toSourcePart(result))
+      }
+    }
+
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+
+  results.forEach((result, index) => {
+    if (!referenced.has(index) && result.url) {
+      parts.push(toSourcePart(result))
+    }
+  })
+
+  if (parts.length === 0) {
+    parts.push({ type: 'text', text: '' })
+  }
+
+  return parts
+}
@@ -1,13 +1,23 @@
 import { WebContentsView, session, net } from 'electron'
 import { BaseProvider, type SyncResult, type ProviderName } from './base.js'
 import type { IStorage } from '../../storage/interface.js'
-import type { PerplexityMetadata } from './types'
+import { PERPLEXITY_DEFAULT_METADATA, type PerplexityMetadata } from './types'
 import { getMainWindow } from '../../index.js'
 import { viewBoundsManager } from '../../view-bounds-manager'
 import { IPC_CHANNELS } from '../../../shared/types'
-import { findCachedFile, getExtensionFromMimeType } from '../attachment-utils.js'
+import {
+  findCachedFile,
+  getExtensionFromMimeType,
+  getMimeTypeFromExtension
+} from '../attachment-utils.js'
 import { getAttachmentsPath } from '../../settings.js'
-import { transformPerplexityMessageToParts, type PerplexityWebResult } from './perplexity/utils'
+import {
+  getPerplexityPlanSteps,
+  parsePerplexityAttachmentUrl,
+  transformPerplexityMessageToParts,
+  type PerplexityPlanGoal,
+  type PerplexityWebResult
+} from './perplexity/utils'
 import fs from 'fs'
 import path from 'path'
 
@@ -60,12 +70,7 @@ export interface PerplexityBlock {
   intended_usage: string
   plan_block?: {
     progress: string
-    goals: Array<{
-      id: string
-      description: string
-      final: boolean
-      todo_task_status: string
-    }>
+    goals: PerplexityPlanGoal[]
     final: boolean
   }
   markdown_block?: {
@@ -146,11 +151,7 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
   }
 
   protected getDefaultMetadata(): PerplexityMetadata {
-    return {
-      lastCompletedOffset: 0,
-      isFullSyncComplete: false,
-      lastSyncPageSize: 20
-    }
+    return { ...PERPLEXITY_DEFAULT_METADATA }
   }
 
   async initialize(): Promise<void> {
@@ -755,7 +756,10 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
       updatedAt: new Date(thread.last_query_datetime),
       syncedAt: new Date(),
       messageCount: content.entries.length * 2, // Each entry has query + answer
-      currentNodeId: null // Perplexity doesn't have branching
+      currentNodeId: null, // Perplexity doesn't have branching
+      // Pro Search / Deep Research etc. The thread list reports the mode of the first entry
+      mode: thread.mode || content.entries[0]?.mode || null,
+      searchFocus: thread.search_focus || content.entries[0]?.search_focus || null
     })
 
     // Convert entries to messages (user query + assistant response pairs)
@@ -769,6 +773,7 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
       parentId: string | null
       siblingIds: string
       siblingIndex: number
+      model: string | null
     }> = []
 
     const attachmentInserts: Array<{
@@ -798,23 +803,25 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
         orderIndex: orderIndex++,
         parentId: null,
         siblingIds: JSON.stringify([]),
-        siblingIndex: 0
+        siblingIndex: 0,
+        model: null
       })
 
-      // Process attachments in user query
+      // Process attachments in user query. They are downloaded on demand through
+      // downloadAttachment, which looks up the (signed) originalUrl stored here
       if (entry.attachments && entry.attachments.length > 0) {
         for (const attUrl of entry.attachments) {
-          // Extract fileId from URL
-          const fileId = this.extractFileIdFromUrl(attUrl)
+          const { fileId, filename } = parsePerplexityAttachmentUrl(attUrl)
+          const mimeType = getMimeTypeFromExtension(path.extname(filename))
           attachmentInserts.push({
             id: `${userMessageId}-att-${fileId}`,
             messageId: userMessageId,
-            type: 'image', // Perplexity attachments are typically images
+            type: mimeType?.startsWith('image/') ? 'image' : 'file',
             fileId: fileId,
             originalUrl: attUrl,
             localPath: '',
-            filename: null,
-            mimeType: 'image/jpeg',
+            filename,
+            mimeType,
             size: 0,
             width: undefined,
             height: undefined
@@ -829,7 +836,11 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
       if (answerBlock?.markdown_block) {
         const parts = transformPerplexityMessageToParts({
           markdown: answerBlock.markdown_block.answer,
-          webResults: webResultBlock?.web_result_block?.web_results || []
+          webResults: webResultBlock?.web_result_block?.web_results || [],
+          planSteps: getPerplexityPlanSteps(
+            entry.blocks.flatMap((b) => (b.plan_block ? [b.plan_block] : []))
+          ),
+          relatedQueries: entry.related_queries
         })
 
         messageInserts.push({
@@ -841,7 +852,8 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
           orderIndex: orderIndex++,
           parentId: null,
           siblingIds: JSON.stringify([]),
-          siblingIndex: 0
+          siblingIndex: 0,
+          model: entry.display_model || entry.user_selected_model || null
         })
       }
     }
@@ -865,19 +877,6 @@ export class PerplexityProvider extends BaseProvider<PerplexityMetadata> {
     return threadUrlSlug.substring(lastDashIndex + 1)
   }
 
-  /**
-   * Extract file ID from Perplexity S3 URL
-   */
-  private extractFileIdFromUrl(url: string): string {
-    // URL format: https://ppl-ai-file-upload.s3.amazonaws.com/web/direct-files/attachments/images/{userId}/{fileId}/image.jpg?...
-    const match = url.match(/\/([^/]+)\/[^/?]+\.(jpg|jpeg|png|gif|webp)/i)
-    if (match) {
-      return match[1]
-    }
-    // Fallback: use hash of URL
-    return Buffer.from(url).toString('base64').substring(0, 16)
-  }
-
   // ============================================================================
   // JAVASCRIPT INJECTION SCRIPTS
   // ============================================================================
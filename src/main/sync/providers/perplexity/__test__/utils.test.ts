@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest'
-import { transformPerplexityMessageToParts } from '../utils'
+import {
+  getPerplexityPlanSteps,
+  parsePerplexityAttachmentUrl,
+  transformPerplexityMessageToParts
+} from '../utils'
 import type { SourceUrlPart, TextPart } from '@shared/types'
 import conversationData from './perplexity-conversation.json'
 
@@ -321,4 +325,89 @@ describe('transformPerplexityMessageToParts', () => {
     expect(reconstructed).toContain('- List item')
     expect(reconstructed).toContain('- Another item')
   })
+
+  it('should add plan steps and related queries after the answer', () => {
+    const result = transformPerplexityMessageToParts({
+      markdown: 'Bengals are a hybrid breed.',
+      planSteps: ['Search breed history', ''],
+      relatedQueries: ['Are Bengal cats hypoallergenic?', 'How big do Bengals get?']
+    })
+
+    expect(result).toEqual([
+      { type: 'text', text: 'Bengals are a hybrid breed.' },
+      { type: 'plan', steps: ['Search breed history'] },
+      {
+        type: 'related-queries',
+        queries: ['Are Bengal cats hypoallergenic?', 'How big do Bengals get?']
+      }
+    ])
+  })
+
+  it('should skip empty plans and related queries', () => {
+    const result = transformPerplexityMessageToParts({
+      markdown: 'Answer',
+      planSteps: [],
+      relatedQueries: []
+    })
+
+    expect(result).toEqual([{ type: 'text', text: 'Answer' }])
+  })
+})
+
+describe('getPerplexityPlanSteps', () => {
+  it('should keep goals in order without repeating streamed ones', () => {
+    const goal = (id: string, description: string) => ({
+      id,
+      description,
+      final: true,
+      todo_task_status: 'INCOMPLETE'
+    })
+
+    const steps = getPerplexityPlanSteps([
+      { goals: [goal('0', 'Search the web')] },
+      { goals: [goal('0', 'Search the web'), goal('1', 'Compare sources')] },
+      {}
+    ])
+
+    expect(steps).toEqual(['Search the web', 'Compare sources'])
+  })
+
+  it('should read plan steps from real conversation data', () => {
+    const entry = conversationData.entries[1]
+    const steps = getPerplexityPlanSteps(
+      entry.blocks.flatMap((b) => ('plan_block' in b && b.plan_block ? [b.plan_block] : []))
+    )
+
+    expect(steps).toHaveLength(1)
+    expect(steps[0]).toContain('Bengal cats')
+  })
+})
+
+describe('parsePerplexityAttachmentUrl', () => {
+  it('should read file id and name from an image upload URL', () => {
+    const url = conversationData.entries[0].attachments[0]
+
+    expect(parsePerplexityAttachmentUrl(url)).toEqual({
+      fileId: '48ba2321-8c41-4ee0-8ea3-a1272c566944',
+      filename: 'image.jpg'
+    })
+  })
+
+  it('should decode file names of document uploads', () => {
+    const url =
+      'https://ppl-ai-file-upload.s3.amazonaws.com/web/direct-files/attachments/64807259/abc-123/Annual%20Report.pdf?Expires=1'
+
+    expect(parsePerplexityAttachmentUrl(url)).toEqual({
+      fileId: 'abc-123',
+      filename: 'Annual Report.pdf'
+    })
+  })
+
+  it('should derive a stable id when the URL has no path', () => {
+    const first = parsePerplexityAttachmentUrl('not a url?Signature=1')
+    const second = parsePerplexityAttachmentUrl('not a url?Signature=2')
+
+    expect(first.fileId).toBe(second.fileId)
+    expect(first.filename).toBe('attachment')
+  })
 })
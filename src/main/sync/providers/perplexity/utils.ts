@@ -1,5 +1,6 @@
 import crypto from 'crypto'
 import type { MessagePart } from '@shared/types'
+import { getSourceId } from '../../source-utils'
 
 export interface PerplexityWebResult {
   name: string
@@ -13,11 +14,74 @@ export interface PerplexityWebResult {
 export interface PerplexityMessageInput {
   markdown: string
   webResults?: PerplexityWebResult[]
+  planSteps?: string[]
+  relatedQueries?: string[]
+}
+
+export interface PerplexityPlanGoal {
+  id: string
+  description: string
+  final: boolean
+  todo_task_status: string
 }
 
 export function transformPerplexityMessageToParts(input: PerplexityMessageInput): MessagePart[] {
-  const { markdown, webResults } = input
+  const parts = transformPerplexityAnswer(input.markdown, input.webResults)
+
+  // The plan and follow-up suggestions are shown under the answer
+  const planSteps = input.planSteps?.filter(Boolean) ?? []
+  if (planSteps.length > 0) {
+    parts.push({ type: 'plan', steps: planSteps })
+  }
+
+  const relatedQueries = input.relatedQueries?.filter(Boolean) ?? []
+  if (relatedQueries.length > 0) {
+    parts.push({ type: 'related-queries', queries: relatedQueries })
+  }
+
+  return parts
+}
+
+/**
+ * Descriptions of the research plan goals, in order. Plans are streamed, so
+ * several plan blocks can repeat the same goal.
+ */
+export function getPerplexityPlanSteps(plans: Array<{ goals?: PerplexityPlanGoal[] }>): string[] {
+  const steps = new Map<string, string>()
+  for (const plan of plans) {
+    for (const goal of plan.goals ?? []) {
+      if (goal.description) steps.set(goal.id, goal.description)
+    }
+  }
+  return [...steps.values()]
+}
+
+/**
+ * File id and name from a Perplexity upload URL.
+ * URL format: https://ppl-ai-file-upload.s3.amazonaws.com/web/direct-files/attachments/images/{userId}/{fileId}/image.jpg?...
+ */
+export function parsePerplexityAttachmentUrl(url: string): { fileId: string; filename: string } {
+  let segments: string[]
+  try {
+    segments = new URL(url).pathname.split('/').filter(Boolean)
+  } catch {
+    segments = []
+  }
+
+  const filename = segments.length > 0 ? decodeURIComponent(segments[segments.length - 1]) : ''
+  // The query string holds an expiring signature, so ids are derived from the path only
+  const fileId =
+    segments.length >= 2
+      ? segments[segments.length - 2]
+      : crypto.createHash('sha256').update(url.split('?')[0]).digest('hex').slice(0, 16)
+
+  return { fileId, filename: filename || 'attachment' }
+}
 
+function transformPerplexityAnswer(
+  markdown: string,
+  webResults: PerplexityWebResult[] | undefined
+): MessagePart[] {
   if (!webResults || webResults.length === 0) {
     return [{ type: 'text', text: markdown }]
   }
@@ -64,7 +128,7 @@ export function transformPerplexityMessageToParts(input: PerplexityMessageInput)
       if (result?.url) {
         parts.push({
           type: 'source-url',
-          sourceId: crypto.randomUUID(),
+          sourceId: getSourceId(result.url, parts.length),
           url: result.url,
           title: result.name,
           attribution: result.meta_data?.citation_domain_name,
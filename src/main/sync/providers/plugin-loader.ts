@@ -0,0 +1,161 @@
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import type { ProviderManifest, ProviderPlugin } from './plugin.js'
+import type { ProviderName } from '../../../shared/types'
+
+/**
+ * Provider plugins from the plugins directory
+ *
+ * Each plugin is a folder with a `manifest.json` and the module it names in `main`:
+ *
+ *   plugins/my-provider/manifest.json  {"id", "name", "version", "main", "icon"?, ...}
+ *   plugins/my-provider/index.js       exports metadata, transformParts and createProvider
+ *
+ * A plugin that fails to load is skipped; it never keeps other providers from starting.
+ */
+
+export interface PluginManifestFile extends Omit<ProviderManifest, 'iconUrl'> {
+  // Module with the plugin, relative to the plugin folder
+  main: string
+  // Image file relative to the plugin folder
+  icon?: string
+}
+
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+const ICON_MIME_TYPES: Record<string, string> = {
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png'
+}
+
+function assertString(value: unknown, field: string): asserts value is string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${field}" must be a non-empty string`)
+  }
+}
+
+function assertOptionalString(value: unknown, field: string): asserts value is string | undefined {
+  if (value !== undefined) assertString(value, field)
+}
+
+/**
+ * Validate a parsed manifest.json.
+ */
+export function parsePluginManifest(json: unknown): PluginManifestFile {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('manifest.json must contain an object')
+  }
+  const manifest = json as Record<string, unknown>
+
+  assertString(manifest.id, 'id')
+  if (!PLUGIN_ID_PATTERN.test(manifest.id)) {
+    throw new Error(`"id" must be lowercase letters, digits and dashes, got "${manifest.id}"`)
+  }
+  assertString(manifest.name, 'name')
+  assertString(manifest.version, 'version')
+  assertString(manifest.main, 'main')
+  assertOptionalString(manifest.description, 'description')
+  assertOptionalString(manifest.icon, 'icon')
+  assertOptionalString(manifest.conversationUrl, 'conversationUrl')
+
+  return {
+    id: manifest.id,
+    name: manifest.name,
+    version: manifest.version,
+    main: manifest.main,
+    ...(manifest.description && { description: manifest.description }),
+    ...(manifest.icon && { icon: manifest.icon }),
+    ...(manifest.conversationUrl && { conversationUrl: manifest.conversationUrl })
+  }
+}
+
+// Resolve a manifest path and make sure it stays inside the plugin folder
+function resolvePluginFile(pluginDir: string, relativePath: string, field: string): string {
+  const filePath = path.resolve(pluginDir, relativePath)
+  if (path.relative(pluginDir, filePath).startsWith('..') || path.isAbsolute(relativePath)) {
+    throw new Error(`"${field}" must point inside the plugin folder`)
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`"${field}" file not found: ${relativePath}`)
+  }
+  return filePath
+}
+
+function readIconUrl(iconPath: string): string {
+  const mimeType = ICON_MIME_TYPES[path.extname(iconPath).toLowerCase()]
+  if (!mimeType) {
+    throw new Error(`"icon" must be an SVG or PNG file`)
+  }
+  return `data:${mimeType};base64,${fs.readFileSync(iconPath).toString('base64')}`
+}
+
+async function loadPlugin(pluginDir: string): Promise<ProviderPlugin> {
+  const manifestPath = path.join(pluginDir, 'manifest.json')
+  const manifestFile = parsePluginManifest(JSON.parse(fs.readFileSync(manifestPath, 'utf-8')))
+  const { main, icon, ...manifest } = manifestFile
+
+  const mainPath = resolvePluginFile(pluginDir, main, 'main')
+  const module = await import(/* @vite-ignore */ pathToFileURL(mainPath).href)
+  // CommonJS plugins end up on `default`
+  const exports = (module.default ?? module) as Partial<ProviderPlugin>
+
+  if (typeof exports.createProvider !== 'function') {
+    throw new Error('plugin must export a createProvider function')
+  }
+  if (typeof exports.transformParts !== 'function') {
+    throw new Error('plugin must export a transformParts function')
+  }
+  if (!exports.metadata || typeof exports.metadata.defaults !== 'object') {
+    throw new Error('plugin must export metadata with defaults')
+  }
+
+  return {
+    manifest: {
+      ...manifest,
+      ...(icon && { iconUrl: readIconUrl(resolvePluginFile(pluginDir, icon, 'icon')) })
+    },
+    metadata: exports.metadata,
+    transformParts: exports.transformParts,
+    createProvider: exports.createProvider
+  }
+}
+
+/**
+ * Load every plugin folder in `pluginsDir`, in alphabetical order.
+ * Plugins can't take the id of a built-in provider or of a plugin loaded before them.
+ */
+export async function loadProviderPlugins(
+  pluginsDir: string,
+  reservedIds: ProviderName[]
+): Promise<ProviderPlugin[]> {
+  if (!fs.existsSync(pluginsDir)) {
+    return []
+  }
+
+  const takenIds = new Set(reservedIds)
+  const plugins: ProviderPlugin[] = []
+
+  const entries = fs
+    .readdirSync(pluginsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort()
+
+  for (const entry of entries) {
+    const pluginDir = path.join(pluginsDir, entry)
+    try {
+      const plugin = await loadPlugin(pluginDir)
+      if (takenIds.has(plugin.manifest.id)) {
+        throw new Error(`provider id "${plugin.manifest.id}" is already taken`)
+      }
+      takenIds.add(plugin.manifest.id)
+      plugins.push(plugin)
+      console.log(`[Plugins] Loaded ${plugin.manifest.id} ${plugin.manifest.version} from ${entry}`)
+    } catch (error) {
+      console.error(`[Plugins] Skipping ${entry}:`, (error as Error).message)
+    }
+  }
+
+  return plugins
+}
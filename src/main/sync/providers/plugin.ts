@@ -0,0 +1,110 @@
+import type { IStorage } from '../../storage/interface.js'
+import type { BaseProvider, IProvider } from './base.js'
+import type { MessagePart, ProviderInfo, ProviderName } from '../../../shared/types'
+
+/**
+ * Provider plugin contract
+ *
+ * Built-in providers and plugins loaded from `<userData>/plugins` are registered
+ * the same way: the registry reads the manifest, reconciles stored metadata with
+ * the schema and asks the factory for a provider instance.
+ */
+
+export interface ProviderManifest {
+  // Stored as `conversations.provider`; lowercase letters, digits and dashes
+  id: ProviderName
+  name: string
+  version: string
+  description?: string
+  // Data URL shown in the UI; plugins point to an image file in manifest.json instead
+  iconUrl?: string
+  // URL of a conversation on the provider's website, `{id}` is replaced with its ID
+  conversationUrl?: string
+}
+
+export interface MetadataSchema<TMetadata extends object> {
+  // Metadata of a provider that has never synced
+  defaults: TMetadata
+  // Turn stored metadata into the current shape, or null to start over from the defaults.
+  // Without it, stored fields are kept and missing ones are filled from the defaults.
+  parse?: (stored: unknown) => TMetadata | null
+}
+
+export interface ProviderPluginContext<TMetadata extends object, TMessage> {
+  storage: IStorage
+  pollingIntervalMs: number
+  metadata: MetadataSchema<TMetadata>
+  // The plugin's transformer; parts of unknown types are dropped
+  transformParts: (message: TMessage) => MessagePart[]
+  // Polling, persisted state and store updates; plugins extend it for their provider
+  BaseProvider: typeof BaseProvider
+}
+
+// Without type arguments this is any plugin, whatever its metadata and message types
+export interface ProviderPlugin<TMetadata extends object = object, TMessage = never> {
+  manifest: ProviderManifest
+  metadata: MetadataSchema<TMetadata>
+  // Convert one provider message into parts the renderer, search and export understand
+  transformParts(message: TMessage): MessagePart[]
+  createProvider(context: ProviderPluginContext<TMetadata, TMessage>): IProvider
+}
+
+/**
+ * Type helper for plugin definitions.
+ */
+export function defineProviderPlugin<TMetadata extends object, TMessage>(
+  plugin: ProviderPlugin<TMetadata, TMessage>
+): ProviderPlugin<TMetadata, TMessage> {
+  return plugin
+}
+
+/**
+ * Reconcile stored provider metadata with the plugin's schema.
+ */
+export function resolveMetadata<TMetadata extends object>(
+  schema: MetadataSchema<TMetadata>,
+  stored: unknown
+): TMetadata {
+  if (schema.parse) {
+    return schema.parse(stored) ?? { ...schema.defaults }
+  }
+  if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+    return { ...schema.defaults, ...(stored as Partial<TMetadata>) }
+  }
+  return { ...schema.defaults }
+}
+
+// Every part type the app knows how to render, search and export
+const KNOWN_PART_TYPES: Record<MessagePart['type'], true> = {
+  text: true,
+  'source-url': true,
+  reasoning: true,
+  'tool-call': true,
+  'tool-result': true,
+  'code-execution': true,
+  artifact: true,
+  plan: true,
+  'related-queries': true
+}
+
+/**
+ * Drop parts of types the app doesn't know, e.g. from a plugin built for a newer version.
+ */
+export function filterKnownParts(parts: unknown[]): MessagePart[] {
+  return parts.filter(
+    (part): part is MessagePart =>
+      !!part &&
+      typeof part === 'object' &&
+      Object.hasOwn(KNOWN_PART_TYPES, (part as { type?: unknown }).type as string)
+  )
+}
+
+export function getProviderInfo(plugin: ProviderPlugin, builtin: boolean): ProviderInfo {
+  return {
+    id: plugin.manifest.id,
+    name: plugin.manifest.name,
+    builtin,
+    iconUrl: plugin.manifest.iconUrl ?? null,
+    conversationUrl: plugin.manifest.conversationUrl ?? null
+  }
+}
@@ -1,9 +1,19 @@
-import type { IProvider, ProviderName, ProviderState } from './base.js'
-import { ChatGPTProvider } from './chatgpt-provider.js'
-import { ClaudeProvider } from './claude-provider.js'
-import { PerplexityProvider } from './perplexity-provider.js'
+import { BaseProvider, type IProvider, type ProviderName, type ProviderState } from './base.js'
+import { BUILTIN_PLUGINS } from './builtin.js'
+import { loadProviderPlugins } from './plugin-loader.js'
+import {
+  filterKnownParts,
+  getProviderInfo,
+  resolveMetadata,
+  type ProviderPlugin,
+  type ProviderPluginContext
+} from './plugin.js'
 import { DrizzleStorageAdapter } from '../../storage/drizzle-adapter.js'
 import type { IStorage } from '../../storage/interface.js'
+import { getPluginsPath } from '../../settings.js'
+import { store } from '../../store.js'
+import { scheduleEmbeddingUpdate } from '../../embeddings/index.js'
+import { scheduleMirrorUpdate } from '../../export/mirror.js'
 
 class ProviderRegistry {
   private providers: Map<ProviderName, IProvider> = new Map()
@@ -22,20 +32,22 @@ class ProviderRegistry {
 
     console.log('[ProviderRegistry] Initializing providers...')
 
-    // Create provider instances
-    const chatgptProvider = new ChatGPTProvider(this.storage, 60000) // 1 minute polling
-    const claudeProvider = new ClaudeProvider(this.storage, 60000)
-    const perplexityProvider = new PerplexityProvider(this.storage, 60000)
-
-    // Initialize each provider
-    await chatgptProvider.initialize()
-    await claudeProvider.initialize()
-    await perplexityProvider.initialize()
+    // Built-in providers first, then plugins from the user data folder
+    for (const plugin of BUILTIN_PLUGINS) {
+      await this.register(plugin, true)
+    }
 
-    // Register providers
-    this.providers.set('chatgpt', chatgptProvider)
-    this.providers.set('claude', claudeProvider)
-    this.providers.set('perplexity', perplexityProvider)
+    const plugins = await loadProviderPlugins(
+      getPluginsPath(),
+      BUILTIN_PLUGINS.map((plugin) => plugin.manifest.id)
+    )
+    for (const plugin of plugins) {
+      try {
+        await this.register(plugin, false)
+      } catch (error) {
+        console.error(`[ProviderRegistry] Failed to register ${plugin.manifest.id}:`, error)
+      }
+    }
 
     // Restore connections for providers that were previously connected
     console.log('[ProviderRegistry] Checking for providers to restore...')
@@ -50,6 +62,39 @@ class ProviderRegistry {
     console.log('[ProviderRegistry] Initialized with providers:', Array.from(this.providers.keys()))
   }
 
+  /**
+   * Create and initialize the provider of a plugin and show it in the UI.
+   */
+  private async register(plugin: ProviderPlugin, builtin: boolean): Promise<void> {
+    const { id } = plugin.manifest
+
+    // Bring metadata stored by an older version to the current shape
+    const state = await this.storage.getProviderState(id)
+    if (state?.metadata) {
+      const metadata = resolveMetadata(plugin.metadata, state.metadata)
+      if (JSON.stringify(metadata) !== JSON.stringify(state.metadata)) {
+        await this.storage.setProviderState({ ...state, metadata })
+      }
+    }
+
+    const context: ProviderPluginContext<object, never> = {
+      storage: this.storage,
+      pollingIntervalMs: 60000, // 1 minute polling
+      metadata: plugin.metadata,
+      transformParts: (message) => filterKnownParts(plugin.transformParts(message)),
+      BaseProvider
+    }
+    const provider = plugin.createProvider(context)
+    if (provider.name !== id) {
+      throw new Error(`Provider name "${provider.name}" doesn't match manifest id "${id}"`)
+    }
+
+    await provider.initialize()
+
+    this.providers.set(id, provider)
+    store.getState().registerProvider(getProviderInfo(plugin, builtin))
+  }
+
   getProvider(name: ProviderName): IProvider | undefined {
     return this.providers.get(name)
   }
@@ -105,6 +150,10 @@ class ProviderRegistry {
     }
 
     const anySuccess = results.some((r) => r.success)
+    if (anySuccess) {
+      scheduleEmbeddingUpdate()
+      scheduleMirrorUpdate()
+    }
     return { success: anySuccess, results }
   }
 
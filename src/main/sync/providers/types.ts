@@ -25,6 +25,12 @@ export type ChatGPTMetadata = {
   lastSyncPageSize: number
 }
 
+export const CHATGPT_DEFAULT_METADATA: ChatGPTMetadata = {
+  lastCompletedOffset: 0,
+  isFullSyncComplete: false,
+  lastSyncPageSize: 50
+}
+
 export type ClaudeMetadata = {
   /**
    * Highest offset that has been fully processed during full sync.
@@ -45,6 +51,12 @@ export type ClaudeMetadata = {
   lastSyncPageSize: number
 }
 
+export const CLAUDE_DEFAULT_METADATA: ClaudeMetadata = {
+  lastCompletedOffset: 0,
+  isFullSyncComplete: false,
+  lastSyncPageSize: 30
+}
+
 export type PerplexityMetadata = {
   /**
    * Highest offset that has been fully processed during full sync.
@@ -64,3 +76,76 @@ export type PerplexityMetadata = {
    */
   lastSyncPageSize: number
 }
+
+export const PERPLEXITY_DEFAULT_METADATA: PerplexityMetadata = {
+  lastCompletedOffset: 0,
+  isFullSyncComplete: false,
+  lastSyncPageSize: 20
+}
+
+export type GeminiMetadata = {
+  /**
+   * Number of conversations fully processed during full sync.
+   * Used for progress reporting when resuming interrupted full syncs.
+   */
+  lastCompletedOffset: number
+
+  /**
+   * Page token for the first page that hasn't been fully processed yet.
+   * Gemini paginates with opaque tokens instead of offsets, so this is
+   * what actually lets a full sync resume. Null means start from the beginning.
+   */
+  nextPageToken: string | null
+
+  /**
+   * Whether we've completed a full sync (no more page tokens).
+   * Once true, we switch to incremental sync mode.
+   */
+  isFullSyncComplete: boolean
+
+  /**
+   * The page size used in the last sync.
+   * If API changes page size, we can detect and handle it.
+   */
+  lastSyncPageSize: number
+}
+
+export const GEMINI_DEFAULT_METADATA: GeminiMetadata = {
+  lastCompletedOffset: 0,
+  nextPageToken: null,
+  isFullSyncComplete: false,
+  lastSyncPageSize: 20
+}
+
+export type GrokMetadata = {
+  /**
+   * Number of conversations fully processed during full sync.
+   * Used for progress reporting when resuming interrupted full syncs.
+   */
+  lastCompletedOffset: number
+
+  /**
+   * Page token for the first page that hasn't been fully processed yet.
+   * Null means start from the beginning.
+   */
+  nextPageToken: string | null
+
+  /**
+   * Whether we've completed a full sync (no more page tokens).
+   * Once true, we switch to incremental sync mode.
+   */
+  isFullSyncComplete: boolean
+
+  /**
+   * The page size used in the last sync.
+   * If API changes page size, we can detect and handle it.
+   */
+  lastSyncPageSize: number
+}
+
+export const GROK_DEFAULT_METADATA: GrokMetadata = {
+  lastCompletedOffset: 0,
+  nextPageToken: null,
+  isFullSyncComplete: false,
+  lastSyncPageSize: 60
+}
@@ -0,0 +1,21 @@
+/**
+ * Helpers for the source-url parts providers build from citations
+ */
+import { createHash } from 'node:crypto'
+
+// Site name of a cited page: its hostname without 'www.'
+export function getDomain(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * ID of a source-url part: a hash of its URL and position in the message. A resync gives
+ * the same IDs, so an unchanged message stays unchanged (see db/revisions.ts).
+ */
+export function getSourceId(url: string, index: number): string {
+  return createHash('sha256').update(`${index}:${url}`).digest('hex').slice(0, 16)
+}
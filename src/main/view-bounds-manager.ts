@@ -2,12 +2,11 @@ import type { WebContentsView, Rectangle } from 'electron'
 import { getMainWindow } from './index'
 import { getUserPreferences } from './db/operations'
 import { store } from './store'
+import type { ProviderName } from '../shared/types'
 
 const CONNECTION_BAR_HEIGHT = 40
 const DEBUG_TOOLBAR_HEIGHT = 40
 
-type ProviderName = 'chatgpt' | 'claude' | 'perplexity'
-
 /**
  * Manages WebContentsView bounds for provider login views.
  * Centralizes the logic for calculating view bounds based on UI state.
@@ -15,7 +14,10 @@ type ProviderName = 'chatgpt' | 'claude' | 'perplexity'
  */
 class ViewBoundsManager {
   private debugPanelVisible = false
-  private managedViews = new Map<WebContentsView, { resizeHandler: () => void; provider: ProviderName }>()
+  private managedViews = new Map<
+    WebContentsView,
+    { resizeHandler: () => void; provider: ProviderName }
+  >()
   private initialized = false
 
   /**
@@ -3,11 +3,33 @@ import { electronAPI } from '@electron-toolkit/preload'
 import {
   IPC_CHANNELS,
   type Conversation,
+  type ConversationSearchResult,
   type Message,
   type ExportOptions,
   type ExportProgress,
+  type ImportResult,
+  type MirrorResult,
+  type MarkdownExportOptions,
+  type ModelCount,
+  type ModeCount,
+  type ArtifactVersion,
+  type ConversationRevision,
+  type ConversationRevisionSummary,
+  type ConversationSnapshot,
+  type Folder,
+  type OrganizeFilters,
+  type Project,
+  type ProjectDocument,
+  type TagCount,
+  type ConversationLink,
+  type ConversationLinks,
+  type LinkGraph,
+  type McpTokenInfo,
+  type McpAuditEntry,
+  type McpStdioConfig,
   type ElectronAPI,
-  type AppState
+  type AppState,
+  type ProviderName
 } from '@shared/types'
 import { preloadBridge } from '@zubridge/electron/preload'
 
@@ -16,11 +38,15 @@ import { preloadBridge } from '@zubridge/electron/preload'
 const api: ElectronAPI = {
   // Conversation operations
   conversations: {
-    list: (options?: {
-      limit?: number
-      offset?: number
-      provider?: 'chatgpt' | 'claude' | 'perplexity'
-    }) =>
+    list: (
+      options?: {
+        limit?: number
+        offset?: number
+        provider?: ProviderName
+        model?: string
+        mode?: string
+      } & OrganizeFilters
+    ) =>
       ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_LIST, options) as Promise<{
         items: Conversation[]
         total: number
@@ -49,26 +75,73 @@ const api: ElectronAPI = {
     search: (
       query: string,
       options?: {
-        provider?: 'chatgpt' | 'claude' | 'perplexity'
+        provider?: ProviderName
+        model?: string
+        mode?: string
         caseInsensitive?: boolean
         searchInMessages?: boolean
-      }
+        semantic?: boolean
+      } & OrganizeFilters
     ) =>
       ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_SEARCH, query, options) as Promise<{
-        items: Conversation[]
+        items: ConversationSearchResult[]
         total: number
         hasMore: boolean
       }>,
     getProviderCounts: () =>
-      ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_PROVIDER_COUNTS) as Promise<{
-        chatgpt: number
-        claude: number
-        perplexity: number
-      }>,
+      ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_PROVIDER_COUNTS) as Promise<
+        Record<ProviderName, number>
+      >,
+    getModels: () => ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_MODELS) as Promise<ModelCount[]>,
+    getModes: () => ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_MODES) as Promise<ModeCount[]>,
     refresh: (id: string) =>
       ipcRenderer.invoke(IPC_CHANNELS.CONVERSATIONS_REFRESH, id) as Promise<{
         conversation: Conversation
         messages: Message[]
+      } | null>,
+    setStarred: (id: string, starred: boolean) =>
+      ipcRenderer.invoke(
+        IPC_CHANNELS.CONVERSATIONS_SET_STARRED,
+        id,
+        starred
+      ) as Promise<Conversation | null>,
+    setFolder: (id: string, folderId: string | null) =>
+      ipcRenderer.invoke(
+        IPC_CHANNELS.CONVERSATIONS_SET_FOLDER,
+        id,
+        folderId
+      ) as Promise<Conversation | null>,
+    setTags: (id: string, tags: string[]) =>
+      ipcRenderer.invoke(
+        IPC_CHANNELS.CONVERSATIONS_SET_TAGS,
+        id,
+        tags
+      ) as Promise<Conversation | null>
+  },
+
+  // Tags and folders the user organizes conversations with
+  tags: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.TAGS_LIST) as Promise<TagCount[]>,
+    rename: (tag: string, newName: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAGS_RENAME, tag, newName) as Promise<void>,
+    delete: (tag: string) => ipcRenderer.invoke(IPC_CHANNELS.TAGS_DELETE, tag) as Promise<void>
+  },
+  folders: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.FOLDERS_LIST) as Promise<Folder[]>,
+    create: (name: string, parentId?: string | null) =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDERS_CREATE, name, parentId) as Promise<Folder>,
+    rename: (id: string, name: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.FOLDERS_RENAME, id, name) as Promise<void>,
+    delete: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.FOLDERS_DELETE, id) as Promise<void>
+  },
+
+  // Projects and custom GPTs, synced by the providers
+  projects: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.PROJECTS_LIST) as Promise<Project[]>,
+    get: (id: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.PROJECTS_GET, id) as Promise<{
+        project: Project
+        documents: ProjectDocument[]
       } | null>
   },
 
@@ -80,8 +153,8 @@ const api: ElectronAPI = {
         path?: string
         error?: string
       }>,
-    all: (options: ExportOptions) =>
-      ipcRenderer.invoke(IPC_CHANNELS.EXPORT_ALL, options) as Promise<{
+    all: (options: ExportOptions, filters?: OrganizeFilters) =>
+      ipcRenderer.invoke(IPC_CHANNELS.EXPORT_ALL, options, filters) as Promise<{
         success: boolean
         path?: string
         error?: string
@@ -92,15 +165,70 @@ const api: ElectronAPI = {
       ipcRenderer.on(IPC_CHANNELS.EXPORT_PROGRESS, handler)
       return () => ipcRenderer.removeListener(IPC_CHANNELS.EXPORT_PROGRESS, handler)
     },
-    cancel: () => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_CANCEL) as Promise<void>
+    cancel: () => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_CANCEL) as Promise<void>,
+    mirror: () =>
+      ipcRenderer.invoke(IPC_CHANNELS.EXPORT_MIRROR) as Promise<{
+        success: boolean
+        result?: MirrorResult
+        error?: string
+      }>
+  },
+
+  // Import operations
+  import: {
+    archive: () =>
+      ipcRenderer.invoke(IPC_CHANNELS.IMPORT_ARCHIVE) as Promise<{
+        success: boolean
+        result?: ImportResult
+        error?: string
+        canceled?: boolean
+      }>
+  },
+
+  // Artifact operations
+  artifacts: {
+    list: (conversationId: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.ARTIFACTS_LIST, conversationId) as Promise<ArtifactVersion[]>,
+    export: (versionId: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.ARTIFACTS_EXPORT, versionId) as Promise<{
+        success: boolean
+        filePath?: string
+        error?: string
+        canceled?: boolean
+      }>
+  },
+
+  // Earlier states of a conversation
+  revisions: {
+    list: (conversationId: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.REVISIONS_LIST, conversationId) as Promise<
+        ConversationRevisionSummary[]
+      >,
+    get: (id: number) =>
+      ipcRenderer.invoke(IPC_CHANNELS.REVISIONS_GET, id) as Promise<{
+        revision: ConversationRevision
+        current: ConversationSnapshot
+      } | null>
+  },
+
+  // Links between conversations
+  links: {
+    list: (conversationId: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.LINKS_LIST, conversationId) as Promise<ConversationLinks>,
+    create: (link: {
+      sourceConversationId: string
+      sourceMessageId: string
+      targetConversationId: string
+      targetMessageId?: string | null
+    }) => ipcRenderer.invoke(IPC_CHANNELS.LINKS_CREATE, link) as Promise<ConversationLink>,
+    delete: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.LINKS_DELETE, id) as Promise<void>,
+    graph: () => ipcRenderer.invoke(IPC_CHANNELS.LINKS_GRAPH) as Promise<LinkGraph>
   },
 
   // Auth operations
   auth: {
-    login: (provider: 'chatgpt' | 'claude' | 'perplexity') =>
-      ipcRenderer.invoke(IPC_CHANNELS.AUTH_LOGIN, provider),
-    logout: (provider?: 'chatgpt' | 'claude' | 'perplexity') =>
-      ipcRenderer.invoke(IPC_CHANNELS.AUTH_LOGOUT, provider),
+    login: (provider: ProviderName) => ipcRenderer.invoke(IPC_CHANNELS.AUTH_LOGIN, provider),
+    logout: (provider?: ProviderName) => ipcRenderer.invoke(IPC_CHANNELS.AUTH_LOGOUT, provider),
     cancelConnection: () => ipcRenderer.invoke(IPC_CHANNELS.AUTH_CANCEL_CONNECTION)
   },
 
@@ -113,6 +241,12 @@ const api: ElectronAPI = {
         exportPath: string
         mcpEnabled: boolean
         mcpPort: number
+        mirrorEnabled: boolean
+        mirrorPath: string
+        mirrorFormat: 'markdown' | 'json'
+        mirrorIncludeAttachments: boolean
+        mirrorDeleteRemoved: boolean
+        mirrorMarkdown: MarkdownExportOptions
       }>,
     set: (
       settings: Partial<{
@@ -121,10 +255,32 @@ const api: ElectronAPI = {
         exportPath: string
         mcpEnabled: boolean
         mcpPort: number
+        mirrorEnabled: boolean
+        mirrorPath: string
+        mirrorFormat: 'markdown' | 'json'
+        mirrorIncludeAttachments: boolean
+        mirrorDeleteRemoved: boolean
+        mirrorMarkdown: MarkdownExportOptions
       }>
     ) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_SET, settings)
   },
 
+  // MCP client tokens, audit log and stdio configuration
+  mcp: {
+    listTokens: () => ipcRenderer.invoke(IPC_CHANNELS.MCP_TOKENS_LIST) as Promise<McpTokenInfo[]>,
+    createToken: (name: string, providers: ProviderName[] | null) =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_TOKENS_CREATE, name, providers) as Promise<{
+        token: string
+        info: McpTokenInfo
+      }>,
+    revokeToken: (id: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_TOKENS_REVOKE, id) as Promise<void>,
+    getAuditLog: (limit?: number) =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_AUDIT_LOG, limit) as Promise<McpAuditEntry[]>,
+    getStdioConfig: () =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_STDIO_CONFIG) as Promise<McpStdioConfig>
+  },
+
   // User preferences operations
   userPreferences: {
     get: () =>
@@ -147,17 +303,12 @@ const api: ElectronAPI = {
 
   // Debug operations
   debug: {
-    toggleChatGPTView: () =>
-      ipcRenderer.invoke(IPC_CHANNELS.DEBUG_TOGGLE_CHATGPT_VIEW) as Promise<{ isVisible: boolean }>,
-    openChatGPTDevTools: () => ipcRenderer.invoke(IPC_CHANNELS.DEBUG_OPEN_CHATGPT_DEVTOOLS),
-    toggleClaudeView: () =>
-      ipcRenderer.invoke(IPC_CHANNELS.DEBUG_TOGGLE_CLAUDE_VIEW) as Promise<{ isVisible: boolean }>,
-    openClaudeDevTools: () => ipcRenderer.invoke(IPC_CHANNELS.DEBUG_OPEN_CLAUDE_DEVTOOLS),
-    togglePerplexityView: () =>
-      ipcRenderer.invoke(IPC_CHANNELS.DEBUG_TOGGLE_PERPLEXITY_VIEW) as Promise<{
+    toggleView: (provider: ProviderName) =>
+      ipcRenderer.invoke(IPC_CHANNELS.DEBUG_TOGGLE_VIEW, provider) as Promise<{
         isVisible: boolean
       }>,
-    openPerplexityDevTools: () => ipcRenderer.invoke(IPC_CHANNELS.DEBUG_OPEN_PERPLEXITY_DEVTOOLS)
+    openDevTools: (provider: ProviderName) =>
+      ipcRenderer.invoke(IPC_CHANNELS.DEBUG_OPEN_DEVTOOLS, provider) as Promise<void>
   },
 
   // Attachment operations
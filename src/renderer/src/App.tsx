@@ -1,20 +1,56 @@
 'use client'
 
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
-import { FunnelIcon } from '@phosphor-icons/react'
+import {
+  ArchiveIcon,
+  CaretDownIcon,
+  FunnelIcon,
+  GraphIcon,
+  StackIcon,
+  StarIcon
+} from '@phosphor-icons/react'
 import { ChatList } from './components/ChatList'
 import { ChatView } from './components/ChatView'
 import { ConnectionBar } from './components/ConnectionBar'
+import { ProviderIcon } from './components/ProviderIcon'
 import { ExportModal } from './components/ExportModal'
+import { LinkGraphView } from './components/LinkGraphView'
+import { OrganizeDialog } from './components/OrganizeDialog'
 import { SettingsModal } from './components/SettingsModal'
 import { OnboardingScreen } from './components/OnboardingScreen'
 import { SearchInput } from './components/SearchInput'
 import { Button } from './components/ui/button'
 import { Tooltip, TooltipTrigger, TooltipContent } from './components/ui/tooltip'
-import type { Conversation, Message, ElectronAPI } from '@shared/types'
-import { buildMessageTree, getDisplayPath, updateBranchSelection } from './lib/branch-utils'
-import { useAuthState, useProvidersState, useSyncState, useUIState } from './lib/store'
-import { AI_PROVIDERS } from './constants'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './components/ui/dropdown-menu'
+import type {
+  Conversation,
+  ConversationSearchResult,
+  Folder,
+  Message,
+  ModelCount,
+  ModeCount,
+  OrganizeFilters,
+  ProviderName,
+  TagCount,
+  ElectronAPI
+} from '@shared/types'
+import { buildMessageTree, getDisplayPath, updateBranchSelection } from '@shared/branch-utils'
+import {
+  useAuthState,
+  useProvidersState,
+  useRegisteredProviders,
+  useSyncState,
+  useUIState
+} from './lib/store'
+import { getProviderName } from './lib/providers'
 
 // Type augmentation for window.api
 declare global {
@@ -23,16 +59,27 @@ declare global {
   }
 }
 
+// Display names of provider search modes (upper case); unknown modes are shown as reported
+const SEARCH_MODE_LABELS: Record<string, string> = {
+  CONCISE: 'Search',
+  COPILOT: 'Pro Search',
+  RESEARCH: 'Deep Research',
+  STUDIO: 'Labs'
+}
+
+const formatSearchMode = (mode: string): string => SEARCH_MODE_LABELS[mode.toUpperCase()] ?? mode
+
 export default function App() {
   // Store state
   const authState = useAuthState()
+  const registeredProviders = useRegisteredProviders()
   const providersState = useProvidersState()
   const syncState = useSyncState()
   const uiState = useUIState()
 
   // Local state
   const [conversations, setConversations] = useState<{
-    items: Conversation[]
+    items: ConversationSearchResult[]
     total: number
     hasMore: boolean
   }>({ items: [], total: 0, hasMore: false })
@@ -43,23 +90,30 @@ export default function App() {
   const [showExportModal, setShowExportModal] = useState(false)
   const [exportScope, setExportScope] = useState<'current' | 'all' | null>(null)
   const [showSettingsModal, setShowSettingsModal] = useState(false)
+  const [showLinkGraph, setShowLinkGraph] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
-  const [selectedProvider, setSelectedProvider] = useState<
-    'chatgpt' | 'claude' | 'perplexity' | null
-  >(null)
-  const [totalProviderCounts, setTotalProviderCounts] = useState<{
-    chatgpt: number
-    claude: number
-    perplexity: number
-  }>({ chatgpt: 0, claude: 0, perplexity: 0 })
+  const [selectedProvider, setSelectedProvider] = useState<ProviderName | null>(null)
+  const [models, setModels] = useState<ModelCount[]>([])
+  const [selectedModel, setSelectedModel] = useState<string | null>(null)
+  const [modes, setModes] = useState<ModeCount[]>([])
+  const [selectedMode, setSelectedMode] = useState<string | null>(null)
+  const [tags, setTags] = useState<TagCount[]>([])
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [selectedFolder, setSelectedFolder] = useState<string | null>(null)
+  const [starredOnly, setStarredOnly] = useState(false)
+  const [groupedByProject, setGroupedByProject] = useState(false)
+  // Only conversations archived or deleted on the provider
+  const [removedRemotelyOnly, setRemovedRemotelyOnly] = useState(false)
+  const [showOrganizeDialog, setShowOrganizeDialog] = useState(false)
+  const [totalProviderCounts, setTotalProviderCounts] = useState<Record<ProviderName, number>>({})
   // Stores counts from search results (before provider filtering)
-  const [searchResultCounts, setSearchResultCounts] = useState<{
-    chatgpt: number
-    claude: number
-    perplexity: number
-  } | null>(null)
+  const [searchResultCounts, setSearchResultCounts] = useState<Record<ProviderName, number> | null>(
+    null
+  )
   const [caseSensitiveSearch, setCaseSensitiveSearch] = useState(false)
   const [searchInMessages, setSearchInMessages] = useState(false)
+  const [semanticSearch, setSemanticSearch] = useState(false)
   const [showProviderFilters, setShowProviderFilters] = useState(false)
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false)
   const [showDebugPanel, setShowDebugPanel] = useState(false)
@@ -74,19 +128,17 @@ export default function App() {
 
   // Get connected providers
   const connectedProviders = useMemo(() => {
-    return (Object.keys(AI_PROVIDERS) as Array<'chatgpt' | 'claude' | 'perplexity'>).filter(
-      (id) => providersState[id].isOnline
-    )
-  }, [providersState])
+    return registeredProviders
+      .map((provider) => provider.id)
+      .filter((id) => providersState[id]?.isOnline)
+  }, [registeredProviders, providersState])
 
   // Track sync state changes across all providers - stringify to detect any change
   const providersSyncKey = useMemo(() => {
-    return `${providersState.chatgpt.lastSyncAt}-${providersState.claude.lastSyncAt}-${providersState.perplexity.lastSyncAt}`
-  }, [
-    providersState.chatgpt.lastSyncAt,
-    providersState.claude.lastSyncAt,
-    providersState.perplexity.lastSyncAt
-  ])
+    return Object.entries(providersState)
+      .map(([id, state]) => `${id}:${state.lastSyncAt}`)
+      .join('-')
+  }, [providersState])
 
   // Compute display counts: when searching, show counts from search results (before provider filter)
   // Otherwise show total counts
@@ -98,6 +150,38 @@ export default function App() {
     return totalProviderCounts
   }, [searchQuery, searchResultCounts, totalProviderCounts])
 
+  // Models offered in the filter, narrowed to the selected provider
+  const modelOptions = useMemo(
+    () => (selectedProvider ? models.filter((m) => m.provider === selectedProvider) : models),
+    [models, selectedProvider]
+  )
+  const modeOptions = useMemo(
+    () => (selectedProvider ? modes.filter((m) => m.provider === selectedProvider) : modes),
+    [modes, selectedProvider]
+  )
+
+  // Tag, folder and starred filters, also offered to the export of all conversations
+  const organizeFilters = useMemo<OrganizeFilters>(
+    () => ({
+      tag: selectedTag ?? undefined,
+      folder: selectedFolder ?? undefined,
+      starred: starredOnly || undefined
+    }),
+    [selectedTag, selectedFolder, starredOnly]
+  )
+  const selectedFolderPath = folders.find((f) => f.id === selectedFolder)?.path
+  const exportFilters = useMemo(() => {
+    if (!selectedTag && !selectedFolder && !starredOnly) return null
+    const label = [
+      starredOnly ? 'starred conversations' : 'conversations',
+      selectedTag && `tagged #${selectedTag}`,
+      selectedFolderPath && `in ${selectedFolderPath}`
+    ]
+      .filter(Boolean)
+      .join(' ')
+    return { filters: organizeFilters, label }
+  }, [organizeFilters, selectedTag, selectedFolder, selectedFolderPath, starredOnly])
+
   // Build message tree and compute display path
   const messageTree = useMemo(() => buildMessageTree(allMessages), [allMessages])
   const displayedMessages = useMemo(
@@ -223,7 +307,14 @@ export default function App() {
     // If user is at top, fetch fresh conversations and replace state
     if (isUserAtTop) {
       Promise.all([
-        window.api!.conversations.list({ limit: 200 }),
+        window.api!.conversations.list({
+          limit: 200,
+          provider: selectedProvider ?? undefined,
+          model: selectedModel ?? undefined,
+          mode: selectedMode ?? undefined,
+          remoteStatus: removedRemotelyOnly ? 'any' : undefined,
+          ...organizeFilters
+        }),
         window.api!.conversations.getProviderCounts()
       ]).then(([fresh, counts]) => {
         setConversations(fresh)
@@ -231,7 +322,26 @@ export default function App() {
       })
     }
     // If user scrolled down, do nothing (no jarring updates)
-  }, [isElectron, isUserAtTop, searchQuery, providersSyncKey])
+  }, [
+    isElectron,
+    isUserAtTop,
+    searchQuery,
+    providersSyncKey,
+    selectedProvider,
+    selectedModel,
+    selectedMode,
+    removedRemotelyOnly,
+    organizeFilters
+  ])
+
+  // Refresh the filter options when the filters are opened or a sync finishes
+  useEffect(() => {
+    if (!isElectron || !showProviderFilters) return
+    window.api!.conversations.getModels().then(setModels)
+    window.api!.conversations.getModes().then(setModes)
+    window.api!.tags.list().then(setTags)
+    window.api!.folders.list().then(setFolders)
+  }, [isElectron, showProviderFilters, providersSyncKey])
 
   const handleOnboardingComplete = async () => {
     if (!isElectron) return
@@ -248,12 +358,27 @@ export default function App() {
     }
   }
 
+  const handleImportComplete = async () => {
+    if (!isElectron) return
+    const [result, counts] = await Promise.all([
+      window.api!.conversations.list({ limit: 200 }),
+      window.api!.conversations.getProviderCounts()
+    ])
+    setConversations(result)
+    setTotalProviderCounts(counts)
+  }
+
   const handleLoadMoreConversations = useCallback(async () => {
     if (!isElectron || !conversations.hasMore) return
 
     const result = await window.api!.conversations.list({
       limit: 200,
-      offset: conversations.items.length
+      offset: conversations.items.length,
+      provider: selectedProvider ?? undefined,
+      model: selectedModel ?? undefined,
+      mode: selectedMode ?? undefined,
+      remoteStatus: removedRemotelyOnly ? 'any' : undefined,
+      ...organizeFilters
     })
 
     setConversations((prev) => ({
@@ -261,7 +386,16 @@ export default function App() {
       total: result.total,
       hasMore: result.hasMore
     }))
-  }, [isElectron, conversations.hasMore, conversations.items.length])
+  }, [
+    isElectron,
+    conversations.hasMore,
+    conversations.items.length,
+    selectedProvider,
+    selectedModel,
+    selectedMode,
+    removedRemotelyOnly,
+    organizeFilters
+  ])
 
   const handleSelectConversation = async (conv: Conversation) => {
     if (!isElectron) return
@@ -310,34 +444,76 @@ export default function App() {
     }
   }
 
+  // Open a conversation picked in the link graph, which only knows its ID
+  const handleSelectConversationById = async (id: string) => {
+    if (!isElectron) return
+    const data = await window.api!.conversations.get(id, { limit: 1 })
+    if (data) {
+      handleSelectConversation(data.conversation)
+    }
+  }
+
+  // Keep the open conversation and its list item in step after it's starred, moved or tagged
+  const handleConversationChange = (conversation: Conversation) => {
+    setSelectedConversation(conversation)
+    setConversations((prev) => ({
+      ...prev,
+      items: prev.items.map((item) =>
+        item.id === conversation.id ? { ...item, ...conversation } : item
+      )
+    }))
+  }
+
   const handleSearch = async (
     query: string,
     options?: {
-      provider?: 'chatgpt' | 'claude' | 'perplexity' | null
+      provider?: ProviderName | null
+      model?: string | null
+      mode?: string | null
+      tag?: string | null
+      folder?: string | null
+      starred?: boolean
+      removedRemotely?: boolean
       caseSensitive?: boolean
       searchInMessages?: boolean
+      semantic?: boolean
     }
   ) => {
     setSearchQuery(query)
     if (!isElectron) return
 
     const providerFilter = options?.provider !== undefined ? options.provider : selectedProvider
+    const modelFilter = options?.model !== undefined ? options.model : selectedModel
+    const modeFilter = options?.mode !== undefined ? options.mode : selectedMode
+    const tagFilter = options?.tag !== undefined ? options.tag : selectedTag
+    const folderFilter = options?.folder !== undefined ? options.folder : selectedFolder
+    const starredFilter = options?.starred ?? starredOnly
+    const remoteStatusFilter = (options?.removedRemotely ?? removedRemotelyOnly) ? 'any' : undefined
     const isCaseSensitive = options?.caseSensitive ?? caseSensitiveSearch
     const includeMessages = options?.searchInMessages ?? searchInMessages
+    const isSemantic = options?.semantic ?? semanticSearch
     // Only search messages if query is 3+ chars (performance optimization)
     const shouldSearchMessages = includeMessages && query.trim().length >= 3
+    const shouldSearchSemantic = isSemantic && query.trim().length >= 3
 
     if (query.trim()) {
       // First, get all search results without provider filter to compute counts
       const allResults = await window.api!.conversations.search(query, {
+        model: modelFilter ?? undefined,
+        mode: modeFilter ?? undefined,
+        tag: tagFilter ?? undefined,
+        folder: folderFilter ?? undefined,
+        starred: starredFilter || undefined,
+        remoteStatus: remoteStatusFilter,
         caseInsensitive: !isCaseSensitive,
-        searchInMessages: shouldSearchMessages
+        searchInMessages: shouldSearchMessages,
+        semantic: shouldSearchSemantic
       })
 
       // Compute counts from all search results
-      const counts = { chatgpt: 0, claude: 0, perplexity: 0 }
+      const counts: Record<ProviderName, number> = {}
       for (const conv of allResults.items) {
-        counts[conv.provider]++
+        counts[conv.provider] = (counts[conv.provider] ?? 0) + 1
       }
       setSearchResultCounts(counts)
 
@@ -357,18 +533,79 @@ export default function App() {
       setSearchResultCounts(null)
       const result = await window.api!.conversations.list({
         limit: 200,
-        provider: providerFilter ?? undefined
+        provider: providerFilter ?? undefined,
+        model: modelFilter ?? undefined,
+        mode: modeFilter ?? undefined,
+        tag: tagFilter ?? undefined,
+        folder: folderFilter ?? undefined,
+        starred: starredFilter || undefined,
+        remoteStatus: remoteStatusFilter
       })
       setConversations(result)
     }
   }
 
-  const handleProviderFilter = (provider: 'chatgpt' | 'claude' | 'perplexity') => {
+  const handleProviderFilter = (provider: ProviderName) => {
     const newProvider = selectedProvider === provider ? null : provider
     setSelectedProvider(newProvider)
     handleSearch(searchQuery, { provider: newProvider })
   }
 
+  const handleModelFilter = (model: string | null) => {
+    setSelectedModel(model)
+    handleSearch(searchQuery, { model })
+  }
+
+  const handleModeFilter = (mode: string | null) => {
+    setSelectedMode(mode)
+    handleSearch(searchQuery, { mode })
+  }
+
+  const handleTagFilter = (tag: string | null) => {
+    setSelectedTag(tag)
+    handleSearch(searchQuery, { tag })
+  }
+
+  const handleFolderFilter = (folder: string | null) => {
+    setSelectedFolder(folder)
+    handleSearch(searchQuery, { folder })
+  }
+
+  const handleToggleStarredOnly = () => {
+    const newValue = !starredOnly
+    setStarredOnly(newValue)
+    handleSearch(searchQuery, { starred: newValue })
+  }
+
+  const handleToggleRemovedRemotelyOnly = () => {
+    const newValue = !removedRemotelyOnly
+    setRemovedRemotelyOnly(newValue)
+    handleSearch(searchQuery, { removedRemotely: newValue })
+  }
+
+  // After folders or tags are renamed or deleted, drop filters on ones that are gone
+  const handleOrganizeChange = async () => {
+    const [folderList, tagList] = await Promise.all([
+      window.api!.folders.list(),
+      window.api!.tags.list()
+    ])
+    setFolders(folderList)
+    setTags(tagList)
+    const folder = folderList.some((f) => f.id === selectedFolder) ? selectedFolder : null
+    const tag = tagList.some((t) => t.tag === selectedTag) ? selectedTag : null
+    setSelectedFolder(folder)
+    setSelectedTag(tag)
+    handleSearch(searchQuery, { folder, tag })
+
+    // The folder path and tags of the open conversation may have changed
+    const conversationId = selectedConversation?.id
+    if (!conversationId) return
+    const data = await window.api!.conversations.get(conversationId, { limit: 1 })
+    if (data && pendingConversationIdRef.current === conversationId) {
+      setSelectedConversation(data.conversation)
+    }
+  }
+
   const handleToggleCaseSensitive = (newValue: boolean) => {
     setCaseSensitiveSearch(newValue)
     // Re-run search with new setting if there's a query
@@ -426,6 +663,13 @@ export default function App() {
                     handleSearch(searchQuery, { searchInMessages: newValue })
                   }
                 }}
+                semantic={semanticSearch}
+                onSemanticChange={(newValue) => {
+                  setSemanticSearch(newValue)
+                  if (searchQuery.trim()) {
+                    handleSearch(searchQuery, { semantic: newValue })
+                  }
+                }}
               />
               <Tooltip disableHoverablePopup>
                 <TooltipTrigger
@@ -441,30 +685,199 @@ export default function App() {
                 />
                 <TooltipContent side="bottom">Toggle filters</TooltipContent>
               </Tooltip>
+              <Tooltip disableHoverablePopup>
+                <TooltipTrigger
+                  render={
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowLinkGraph(true)}
+                      className="px-1.5"
+                    >
+                      <GraphIcon size={14} />
+                    </Button>
+                  }
+                />
+                <TooltipContent side="bottom">Linked conversations</TooltipContent>
+              </Tooltip>
             </div>
             {/* Provider filters */}
             {showProviderFilters && (
               <div className="flex gap-1.5 mt-2 flex-wrap">
-                {(Object.keys(AI_PROVIDERS) as Array<'chatgpt' | 'claude' | 'perplexity'>).map(
-                  (providerId) => {
-                    const provider = AI_PROVIDERS[providerId]
-                    const Icon = provider.icon
-                    const count = displayCounts[providerId]
-                    const isSelected = selectedProvider === providerId
-                    return (
-                      <Button
-                        key={providerId}
-                        onClick={() => handleProviderFilter(providerId)}
-                        variant={isSelected ? 'default' : 'outline'}
-                        size="xs"
-                        title={`Filter by ${provider.name}`}
+                {registeredProviders.map((provider) => {
+                  const count = displayCounts[provider.id] ?? 0
+                  const isSelected = selectedProvider === provider.id
+                  return (
+                    <Button
+                      key={provider.id}
+                      onClick={() => handleProviderFilter(provider.id)}
+                      variant={isSelected ? 'default' : 'outline'}
+                      size="xs"
+                      title={`Filter by ${provider.name}`}
+                    >
+                      <ProviderIcon provider={provider.id} size={14} />
+                      <span>{count}</span>
+                    </Button>
+                  )
+                })}
+                {modelOptions.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      render={
+                        <Button
+                          variant={selectedModel ? 'default' : 'outline'}
+                          size="xs"
+                          title="Filter by model"
+                        />
+                      }
+                    >
+                      <span className="max-w-32 truncate">{selectedModel ?? 'All models'}</span>
+                      <CaretDownIcon size={12} />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" sideOffset={4} className="w-56">
+                      <DropdownMenuRadioGroup
+                        value={selectedModel ?? ''}
+                        onValueChange={(value) => handleModelFilter((value as string) || null)}
                       >
-                        <Icon size={14} />
-                        <span>{count}</span>
-                      </Button>
-                    )
-                  }
+                        <DropdownMenuRadioItem value="">All models</DropdownMenuRadioItem>
+                        {modelOptions.map((m) => (
+                          <DropdownMenuRadioItem key={`${m.provider}-${m.model}`} value={m.model}>
+                            <span className="flex-1 truncate">{m.model}</span>
+                            <span className="text-muted-foreground">{m.count}</span>
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 )}
+                {modeOptions.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      render={
+                        <Button
+                          variant={selectedMode ? 'default' : 'outline'}
+                          size="xs"
+                          title="Filter by search mode"
+                        />
+                      }
+                    >
+                      <span className="max-w-32 truncate">
+                        {selectedMode ? formatSearchMode(selectedMode) : 'All modes'}
+                      </span>
+                      <CaretDownIcon size={12} />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" sideOffset={4} className="w-56">
+                      <DropdownMenuRadioGroup
+                        value={selectedMode ?? ''}
+                        onValueChange={(value) => handleModeFilter((value as string) || null)}
+                      >
+                        <DropdownMenuRadioItem value="">All modes</DropdownMenuRadioItem>
+                        {modeOptions.map((m) => (
+                          <DropdownMenuRadioItem key={`${m.provider}-${m.mode}`} value={m.mode}>
+                            <span className="flex-1 truncate">{formatSearchMode(m.mode)}</span>
+                            <span className="text-muted-foreground">{m.count}</span>
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                <Button
+                  onClick={handleToggleStarredOnly}
+                  variant={starredOnly ? 'default' : 'outline'}
+                  size="xs"
+                  title="Only starred conversations"
+                  aria-pressed={starredOnly}
+                >
+                  <StarIcon size={14} weight={starredOnly ? 'fill' : 'regular'} />
+                </Button>
+                <Button
+                  onClick={() => setGroupedByProject(!groupedByProject)}
+                  variant={groupedByProject ? 'default' : 'outline'}
+                  size="xs"
+                  title="Group by project"
+                  aria-pressed={groupedByProject}
+                >
+                  <StackIcon size={14} weight={groupedByProject ? 'fill' : 'regular'} />
+                </Button>
+                <Button
+                  onClick={handleToggleRemovedRemotelyOnly}
+                  variant={removedRemotelyOnly ? 'default' : 'outline'}
+                  size="xs"
+                  title="Only conversations archived or deleted on the provider"
+                  aria-pressed={removedRemotelyOnly}
+                >
+                  <ArchiveIcon size={14} weight={removedRemotelyOnly ? 'fill' : 'regular'} />
+                </Button>
+                {tags.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      render={
+                        <Button
+                          variant={selectedTag ? 'default' : 'outline'}
+                          size="xs"
+                          title="Filter by tag"
+                        />
+                      }
+                    >
+                      <span className="max-w-32 truncate">
+                        {selectedTag ? `#${selectedTag}` : 'All tags'}
+                      </span>
+                      <CaretDownIcon size={12} />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" sideOffset={4} className="w-56">
+                      <DropdownMenuRadioGroup
+                        value={selectedTag ?? ''}
+                        onValueChange={(value) => handleTagFilter((value as string) || null)}
+                      >
+                        <DropdownMenuRadioItem value="">All tags</DropdownMenuRadioItem>
+                        {tags.map((t) => (
+                          <DropdownMenuRadioItem key={t.tag} value={t.tag}>
+                            <span className="flex-1 truncate">#{t.tag}</span>
+                            <span className="text-muted-foreground">{t.count}</span>
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                <DropdownMenu>
+                  <DropdownMenuTrigger
+                    render={
+                      <Button
+                        variant={selectedFolder ? 'default' : 'outline'}
+                        size="xs"
+                        title="Filter by folder"
+                      />
+                    }
+                  >
+                    <span className="max-w-32 truncate">{selectedFolderPath ?? 'All folders'}</span>
+                    <CaretDownIcon size={12} />
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" sideOffset={4} className="w-56">
+                    <DropdownMenuRadioGroup
+                      value={selectedFolder ?? ''}
+                      onValueChange={(value) => handleFolderFilter((value as string) || null)}
+                    >
+                      <DropdownMenuRadioItem value="">All folders</DropdownMenuRadioItem>
+                      {folders.map((f) => (
+                        <DropdownMenuRadioItem key={f.id} value={f.id}>
+                          {/* Subfolders are indented under their parent */}
+                          <span
+                            className="flex-1 truncate"
+                            style={{ paddingLeft: (f.path.split('/').length - 1) * 12 }}
+                          >
+                            {f.name}
+                          </span>
+                          <span className="text-muted-foreground">{f.conversationCount}</span>
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setShowOrganizeDialog(true)}>
+                      Manage folders and tags...
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             )}
           </div>
@@ -484,6 +897,7 @@ export default function App() {
                 onSelect={handleSelectConversation}
                 onScrollPositionChange={setIsUserAtTop}
                 onLoadMore={handleLoadMoreConversations}
+                groupedByProject={groupedByProject}
               />
             )}
           </div>
@@ -493,10 +907,10 @@ export default function App() {
             <div className="px-3 py-2 border-t border-border text-xs text-muted-foreground">
               {(() => {
                 // Check if any provider is syncing
-                const syncingProvider = connectedProviders.find((p) => providersState[p].isSyncing)
+                const syncingProvider = connectedProviders.find((p) => providersState[p]?.isSyncing)
                 // Get most recent sync time across all providers
                 const lastSyncTimes = connectedProviders
-                  .map((p) => providersState[p].lastSyncAt)
+                  .map((p) => providersState[p]?.lastSyncAt ?? null)
                   .filter((t): t is Date => t !== null)
                 const mostRecentSync =
                   lastSyncTimes.length > 0
@@ -507,7 +921,9 @@ export default function App() {
                   return (
                     <span className="flex items-center gap-1.5">
                       <span className="inline-block w-1.5 h-1.5 bg-primary rounded-full animate-pulse corner-shape-round" />
-                      Syncing{syncingProvider && ` ${AI_PROVIDERS[syncingProvider].name}`}
+                      Syncing
+                      {syncingProvider &&
+                        ` ${getProviderName(registeredProviders, syncingProvider)}`}
                       {syncState.progress && syncState.progress.total > 0 && (
                         <span className="tabular-nums">
                           {syncState.progress.current}/{syncState.progress.total}
@@ -557,6 +973,9 @@ export default function App() {
                 setExportScope('current')
                 setShowExportModal(true)
               }}
+              onSelectConversation={handleSelectConversation}
+              onConversationChange={handleConversationChange}
+              onManageFolders={() => setShowOrganizeDialog(true)}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
@@ -573,50 +992,27 @@ export default function App() {
             <span className="font-semibold text-sm">Debug Mode</span>
           </div>
           <div className="no-drag flex items-center gap-2">
-            <button
-              onClick={() => window.api?.debug.toggleChatGPTView()}
-              className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
-              title="Toggle ChatGPT WebContentsView visibility"
-            >
-              View ChatGPT
-            </button>
-            <button
-              onClick={() => window.api?.debug.toggleClaudeView()}
-              className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
-              title="Toggle Claude WebContentsView visibility"
-            >
-              View Claude
-            </button>
-            <button
-              onClick={() => window.api?.debug.togglePerplexityView()}
-              className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
-              title="Toggle Perplexity WebContentsView visibility"
-            >
-              View Perplexity
-            </button>
-
-            <button
-              onClick={() => window.api?.debug.openChatGPTDevTools()}
-              className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
-              title="Open DevTools for ChatGPT WebContentsView"
-            >
-              DevTools (ChatGPT)
-            </button>
-
-            <button
-              onClick={() => window.api?.debug.openClaudeDevTools()}
-              className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
-              title="Open DevTools for Claude WebContentsView"
-            >
-              DevTools (Claude)
-            </button>
-            <button
-              onClick={() => window.api?.debug.openPerplexityDevTools()}
-              className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
-              title="Open DevTools for Perplexity WebContentsView"
-            >
-              DevTools (Perplexity)
-            </button>
+            {registeredProviders.map((provider) => (
+              <button
+                key={provider.id}
+                onClick={() => window.api?.debug.toggleView(provider.id)}
+                className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
+                title={`Toggle ${provider.name} WebContentsView visibility`}
+              >
+                View {provider.name}
+              </button>
+            ))}
+
+            {registeredProviders.map((provider) => (
+              <button
+                key={provider.id}
+                onClick={() => window.api?.debug.openDevTools(provider.id)}
+                className="text-xs px-2 py-1 bg-foreground text-background rounded active:bg-foreground/90"
+                title={`Open DevTools for ${provider.name} WebContentsView`}
+              >
+                DevTools ({provider.name})
+              </button>
+            ))}
           </div>
         </div>
       )}
@@ -624,6 +1020,7 @@ export default function App() {
       {/* Export modal */}
       <ExportModal
         conversationId={selectedConversation?.id}
+        sidebarFilters={exportFilters}
         open={showExportModal}
         onOpenChange={(open) => {
           setShowExportModal(open)
@@ -634,8 +1031,25 @@ export default function App() {
         preferredScope={exportScope ?? undefined}
       />
 
+      {/* Graph of linked conversations */}
+      <LinkGraphView
+        open={showLinkGraph}
+        onOpenChange={setShowLinkGraph}
+        onSelect={handleSelectConversationById}
+      />
+
+      <OrganizeDialog
+        open={showOrganizeDialog}
+        onOpenChange={setShowOrganizeDialog}
+        onChange={handleOrganizeChange}
+      />
+
       {/* Settings modal */}
-      <SettingsModal open={showSettingsModal} onOpenChange={setShowSettingsModal} />
+      <SettingsModal
+        open={showSettingsModal}
+        onOpenChange={setShowSettingsModal}
+        onImportComplete={handleImportComplete}
+      />
 
       {/* Onboarding screen */}
       {!hasCompletedOnboarding && <OnboardingScreen onComplete={handleOnboardingComplete} />}
@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  ArrowLineDownIcon,
+  CaretLeftIcon,
+  CaretRightIcon,
+  CodeIcon,
+  EyeIcon,
+  GitDiffIcon,
+  XIcon
+} from '@phosphor-icons/react'
+import type { ArtifactVersion } from '../../../shared/types'
+import { PartsRenderer } from './PartsRenderer'
+import { Button } from './ui/button'
+import { cn } from '@/lib/cn'
+import { diffLines, getArtifactPreviewKind, highlightCode } from '@/lib/artifact-utils'
+
+type ArtifactView = 'preview' | 'code' | 'diff'
+
+interface ArtifactPanelProps {
+  conversationId: string
+  artifactId: string
+  // Message the artifact was opened from; its version is shown first
+  messageId: string
+  onClose: () => void
+}
+
+function CodeView({ content, language }: { content: string; language: string | null }) {
+  const html = useMemo(() => highlightCode(content, language), [content, language])
+
+  return (
+    <pre className="whitespace-pre-wrap break-words p-4 text-xs">
+      {html !== null ? (
+        // highlight.js escapes the code, only its own spans are markup
+        <code className="hljs" dangerouslySetInnerHTML={{ __html: html }} />
+      ) : (
+        <code>{content}</code>
+      )}
+    </pre>
+  )
+}
+
+function DiffView({ before, after }: { before: string; after: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after])
+
+  return (
+    <pre className="py-4 text-xs">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'whitespace-pre-wrap break-words px-4',
+            line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+            line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400'
+          )}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+function PreviewView({ version }: { version: ArtifactVersion }) {
+  if (getArtifactPreviewKind(version) === 'svg') {
+    return (
+      <div className="flex justify-center p-4">
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(version.content)}`}
+          alt={version.title || 'SVG artifact'}
+          className="max-w-full"
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="prose prose-sm max-w-none p-4">
+      <PartsRenderer parts={[{ type: 'text', text: version.content }]} messageId={version.id} />
+    </div>
+  )
+}
+
+/**
+ * Side panel showing one artifact with its version history.
+ */
+export function ArtifactPanel({
+  conversationId,
+  artifactId,
+  messageId,
+  onClose
+}: ArtifactPanelProps) {
+  const [versions, setVersions] = useState<ArtifactVersion[] | null>(null)
+  const [versionIndex, setVersionIndex] = useState(0)
+  const [view, setView] = useState<ArtifactView>('preview')
+
+  useEffect(() => {
+    let cancelled = false
+
+    window.api?.artifacts.list(conversationId).then((all) => {
+      if (cancelled) return
+      const artifactVersions = all.filter((v) => v.artifactId === artifactId)
+      // Open on the version produced by the clicked message, or the latest one
+      const fromMessage = artifactVersions.findLastIndex((v) => v.messageId === messageId)
+      setVersions(artifactVersions)
+      setVersionIndex(fromMessage >= 0 ? fromMessage : artifactVersions.length - 1)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [conversationId, artifactId, messageId])
+
+  const version = versions?.[versionIndex]
+  const previous = versionIndex > 0 ? versions?.[versionIndex - 1] : undefined
+  const canPreview = version ? getArtifactPreviewKind(version) !== null : false
+  // Fall back to code when the selected view isn't available for this version
+  const activeView: ArtifactView =
+    (view === 'preview' && !canPreview) || (view === 'diff' && !previous) ? 'code' : view
+
+  const handleExport = async () => {
+    if (!version) return
+    const result = await window.api?.artifacts.export(version.id)
+    if (result && !result.success && !result.canceled) {
+      console.error('Failed to export artifact:', result.error)
+    }
+  }
+
+  const viewButtons: Array<{
+    id: ArtifactView
+    label: string
+    icon: React.ReactNode
+    disabled: boolean
+  }> = [
+    { id: 'preview', label: 'Preview', icon: <EyeIcon />, disabled: !canPreview },
+    { id: 'code', label: 'Code', icon: <CodeIcon />, disabled: false },
+    { id: 'diff', label: 'Changes', icon: <GitDiffIcon />, disabled: !previous }
+  ]
+
+  return (
+    <div className="flex h-full w-[45%] min-w-80 flex-col border-l border-border">
+      {/* Header */}
+      <div className="flex items-center gap-1 border-b border-border px-4 py-2">
+        <h3 className="flex-1 truncate font-semibold" title={version?.title ?? undefined}>
+          {version?.title || artifactId}
+        </h3>
+        <Button variant="ghost" size="icon" aria-label="Export" onClick={handleExport}>
+          <ArrowLineDownIcon />
+        </Button>
+        <Button variant="ghost" size="icon" aria-label="Close" onClick={onClose}>
+          <XIcon />
+        </Button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-1 border-b border-border px-4 py-1">
+        {viewButtons.map((button) => (
+          <Button
+            key={button.id}
+            variant={activeView === button.id ? 'secondary' : 'ghost'}
+            size="sm"
+            disabled={button.disabled}
+            onClick={() => setView(button.id)}
+          >
+            {button.icon}
+            {button.label}
+          </Button>
+        ))}
+        {versions && versions.length > 1 && (
+          <div className="ml-auto flex items-center text-xs text-muted-foreground select-none">
+            <button
+              onClick={() => setVersionIndex(versionIndex - 1)}
+              disabled={versionIndex === 0}
+              className="flex py-1.5 px-0.5 items-center justify-center rounded active:bg-accent disabled:opacity-30 disabled:cursor-default"
+              aria-label="Previous version"
+            >
+              <CaretLeftIcon className="w-5 h-5" />
+            </button>
+            <span className="px-0.5 text-sm font-semibold tabular-nums">
+              v{versionIndex + 1}/{versions.length}
+            </span>
+            <button
+              onClick={() => setVersionIndex(versionIndex + 1)}
+              disabled={versionIndex === versions.length - 1}
+              className="flex py-1.5 px-0.5 items-center justify-center rounded active:bg-accent disabled:opacity-30 disabled:cursor-default"
+              aria-label="Next version"
+            >
+              <CaretRightIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto">
+        {!versions ? null : !version ? (
+          <div className="p-4 text-sm text-muted-foreground">Artifact not found</div>
+        ) : activeView === 'preview' ? (
+          <PreviewView version={version} />
+        ) : activeView === 'diff' && previous ? (
+          <DiffView before={previous.content} after={version.content} />
+        ) : (
+          <CodeView content={version.content} language={version.language} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { memo, useState, useEffect } from 'react'
 import type { Message, Attachment } from '../../../shared/types'
 import { PartsRenderer } from './PartsRenderer'
 import { SourcesList } from './SourcesList'
+import { RelatedQueries } from './RelatedQueries'
 import { cn } from '@/lib/cn'
 import { FileIcon, ArrowLineDownIcon } from '@phosphor-icons/react'
 
@@ -33,13 +34,15 @@ interface AssistantMessageProps {
   conversationId: string
   downloadedPaths: Record<string, string>
   onDownloaded: (attachmentId: string, localPath: string) => void
+  onOpenArtifact?: (artifactId: string, messageId: string) => void
 }
 
 export const AssistantMessage = memo(function AssistantMessage({
   message,
   conversationId,
   downloadedPaths,
-  onDownloaded
+  onDownloaded,
+  onOpenArtifact
 }: AssistantMessageProps) {
   const [downloadingFiles, setDownloadingFiles] = useState<Set<string>>(new Set())
   const [existingFiles, setExistingFiles] = useState<Set<string>>(new Set())
@@ -203,16 +206,26 @@ export const AssistantMessage = memo(function AssistantMessage({
       snippet: part.snippet
     }))
 
+  const relatedQueries = message.parts.flatMap((part) =>
+    part.type === 'related-queries' ? part.queries : []
+  )
+
   return (
     <div className="w-full">
       {renderImageAttachments()}
       {message.parts.length > 0 && (
         <div className="prose prose-sm max-w-none">
-          <PartsRenderer parts={message.parts} messageId={message.id} />
+          <PartsRenderer
+            parts={message.parts}
+            messageId={message.id}
+            onOpenArtifact={onOpenArtifact}
+          />
         </div>
       )}
       {renderFileAttachments()}
       {sources.length > 0 && <SourcesList references={sources} />}
+      {relatedQueries.length > 0 && <RelatedQueries queries={relatedQueries} />}
+      {message.model && <div className="mt-1 text-xs text-muted-foreground">{message.model}</div>}
     </div>
   )
 })
@@ -1,18 +1,54 @@
 'use client'
 
-import { useRef } from 'react'
+import { useMemo, useRef, useState } from 'react'
 import { VList } from 'virtua'
+import {
+  CaretDownIcon,
+  CaretRightIcon,
+  RobotIcon,
+  StackIcon,
+  StarIcon
+} from '@phosphor-icons/react'
 import type { VListHandle } from 'virtua'
-import type { Conversation } from '@shared/types'
+import {
+  SNIPPET_HIGHLIGHT_START,
+  SNIPPET_HIGHLIGHT_END,
+  type Conversation,
+  type ConversationSearchResult
+} from '@shared/types'
 import { cn } from '@/lib/cn'
-import { AI_PROVIDERS } from '@/constants'
+import { groupByProject, type ChatListRow } from '@/lib/project-groups'
+import { ProviderIcon } from '@/components/ProviderIcon'
+import { RemoteStatusBadge } from '@/components/RemoteStatusBadge'
 
 interface ChatListProps {
-  conversations: Conversation[]
+  conversations: ConversationSearchResult[]
   selectedId?: string
   onSelect: (conversation: Conversation) => void
   onScrollPositionChange: (isAtTop: boolean) => void
   onLoadMore: () => void
+  // Show the conversations under collapsible project headers
+  groupedByProject?: boolean
+}
+
+// Render a search snippet, highlighting the segments wrapped in highlight markers
+function SearchSnippet({ snippet }: { snippet: string }) {
+  const [before, ...rest] = snippet.split(SNIPPET_HIGHLIGHT_START)
+
+  return (
+    <div className="text-xs text-muted-foreground mt-1 line-clamp-2 break-words">
+      {before}
+      {rest.map((segment, index) => {
+        const [match, after] = segment.split(SNIPPET_HIGHLIGHT_END)
+        return (
+          <span key={index}>
+            <mark className="bg-primary/20 text-foreground rounded-sm">{match}</mark>
+            {after}
+          </span>
+        )
+      })}
+    </div>
+  )
 }
 
 export function ChatList({
@@ -20,9 +56,28 @@ export function ChatList({
   selectedId,
   onSelect,
   onScrollPositionChange,
-  onLoadMore
+  onLoadMore,
+  groupedByProject = false
 }: ChatListProps) {
   const listRef = useRef<VListHandle>(null)
+  const [collapsedProjects, setCollapsedProjects] = useState<ReadonlySet<string>>(new Set())
+
+  const rows = useMemo<ChatListRow<ConversationSearchResult>[]>(
+    () =>
+      groupedByProject
+        ? groupByProject(conversations, collapsedProjects)
+        : conversations.map((conversation) => ({ type: 'conversation', conversation })),
+    [conversations, groupedByProject, collapsedProjects]
+  )
+
+  const toggleProject = (key: string) => {
+    setCollapsedProjects((current) => {
+      const next = new Set(current)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
 
   const formatDate = (date: Date) => {
     const now = new Date()
@@ -53,16 +108,32 @@ export function ChatList({
 
     // Check if near bottom (within 200px) to trigger load more
     const bottomItemIndex = listRef.current.findItemIndex(scrollOffset + viewportSize)
-    if (bottomItemIndex + 10 > conversations.length) {
+    if (bottomItemIndex + 10 > rows.length) {
       onLoadMore()
     }
   }
 
   return (
     <VList ref={listRef} className="flex-1" onScroll={handleScroll}>
-      {conversations.map((conv) => {
-        const Icon = AI_PROVIDERS[conv.provider].icon
+      {rows.map((row) => {
+        if (row.type === 'project') {
+          const ProjectIcon = row.project?.kind === 'gpt' ? RobotIcon : StackIcon
+          return (
+            <button
+              key={`project-${row.key}`}
+              onClick={() => toggleProject(row.key)}
+              aria-expanded={!row.collapsed}
+              className="w-full flex items-center gap-1.5 px-3 py-2 border-b border-border bg-muted/50 text-xs font-medium text-muted-foreground outline-none focus-visible:bg-accent"
+            >
+              {row.collapsed ? <CaretRightIcon size={12} /> : <CaretDownIcon size={12} />}
+              {row.project && <ProjectIcon size={14} className="shrink-0" />}
+              <span className="truncate flex-1 text-left">{row.project?.name ?? 'No project'}</span>
+              <span className="tabular-nums">{row.count}</span>
+            </button>
+          )
+        }
 
+        const conv = row.conversation
         return (
           <button
             key={conv.id}
@@ -73,16 +144,27 @@ export function ChatList({
             )}
           >
             <div className="flex items-center gap-1 w-full">
-              <Icon size={16} />
+              <ProviderIcon provider={conv.provider} size={16} />
               <h3 className="font-medium text-sm truncate flex-1 text-ellipsis">
                 {conv.title || 'Untitled'}
               </h3>
+              {conv.starred && (
+                <StarIcon size={12} weight="fill" className="text-yellow-500 shrink-0" />
+              )}
+              <RemoteStatusBadge conversation={conv} />
 
               <span className="text-xs text-muted-foreground whitespace-nowrap">
                 {formatDate(conv.updatedAt)}
               </span>
             </div>
-            <div className="text-xs text-muted-foreground mt-1">{conv.messageCount} messages</div>
+            {conv.snippet ? (
+              <SearchSnippet snippet={conv.snippet} />
+            ) : (
+              <div className="text-xs text-muted-foreground mt-1 truncate">
+                {conv.messageCount} messages
+                {conv.tags?.map((tag) => ` #${tag}`)}
+              </div>
+            )}
           </button>
         )
       })}
@@ -2,23 +2,44 @@
 
 import { useRef, useEffect, useState, useCallback } from 'react'
 import { VList, VListHandle } from 'virtua'
-import type { Conversation, Message, MessagePart, SourceUrlPart } from '@shared/types'
+import type { Conversation, Folder, Message, MessagePart, SourceUrlPart } from '@shared/types'
 import { UserMessageBubble } from './UserMessageBubble'
 import { AssistantMessage } from './AssistantMessage'
 import { BranchNavigation } from './BranchNavigation'
-import { AI_PROVIDERS } from '@/constants'
+import { ArtifactPanel } from './ArtifactPanel'
+import { LinksPanel } from './LinksPanel'
+import { LinkDialog } from './LinkDialog'
+import { TagsDialog } from './TagsDialog'
+import { ProjectDialog } from './ProjectDialog'
+import { RevisionsDialog } from './RevisionsDialog'
+import { RemoteStatusBadge } from './RemoteStatusBadge'
+import { ProviderIcon } from './ProviderIcon'
+import { useRegisteredProviders } from '@/lib/store'
+import { canOpenConversation, openConversation } from '@/lib/providers'
+import { cn } from '@/lib/cn'
 import { HugeiconsIcon } from '@hugeicons/react'
 import {
   Copy01Icon,
   Copy02Icon,
   FileExportIcon,
-  MoreVerticalCircle01Icon
+  Folder01Icon,
+  Link01Icon,
+  MoreVerticalCircle01Icon,
+  StarIcon,
+  Tag01Icon,
+  WorkHistoryIcon
 } from '@hugeicons/core-free-icons'
 import { Button } from './ui/button'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger
 } from './ui/dropdown-menu'
 
@@ -32,6 +53,10 @@ interface ChatViewProps {
   isLoadingMore?: boolean
   onLoadMore?: () => void
   onOpenExport?: () => void
+  onSelectConversation?: (conversation: Conversation) => void
+  // Called with the conversation after it's starred, moved or tagged
+  onConversationChange?: (conversation: Conversation) => void
+  onManageFolders?: () => void
 }
 
 const formatDateTime = (date: Date | string | null | undefined): string => {
@@ -90,7 +115,8 @@ const buildMarkdownExport = (conversation: Conversation, messages: Message[]): s
       })
       .join('')
 
-    return [`## ${roleLabel}`, '', ...(content ? [content, ''] : [])]
+    const heading = msg.model ? `## ${roleLabel} (${msg.model})` : `## ${roleLabel}`
+    return [heading, '', ...(content ? [content, ''] : [])]
   })
 
   return [...headerLines, ...messageLines].join('\n')
@@ -107,6 +133,10 @@ const buildJsonExport = (conversation: Conversation, messages: Message[]): strin
       parent_id: msg.parentId
     }
 
+    if (msg.model) {
+      messageObj.model = msg.model
+    }
+
     if (sources.length > 0) {
       messageObj.sources = sources
     }
@@ -135,7 +165,10 @@ export function ChatView({
   hasMoreMessages = false,
   isLoadingMore = false,
   onLoadMore,
-  onOpenExport
+  onOpenExport,
+  onSelectConversation,
+  onConversationChange,
+  onManageFolders
 }: ChatViewProps) {
   const listRef = useRef<VListHandle>(null)
   // Track downloaded attachment paths: { attachmentId: localPath }
@@ -144,10 +177,30 @@ export function ChatView({
   // Track which attachment IDs are currently being downloaded to prevent duplicate requests
   const downloadingRef = useRef<Set<string>>(new Set())
 
-  // Reset downloaded paths when conversation changes
+  // Artifact shown in the side panel, with the message it was opened from
+  const [openArtifact, setOpenArtifact] = useState<{
+    artifactId: string
+    messageId: string
+  } | null>(null)
+
+  // Links panel; it shares the side of the view with the artifact panel
+  const [showLinks, setShowLinks] = useState(false)
+  // Message a link is being made from, and a counter bumped after each new link
+  const [linkingMessageId, setLinkingMessageId] = useState<string | null>(null)
+  const [linksVersion, setLinksVersion] = useState(0)
+
+  // Folders offered in the options menu, loaded when it opens
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [showTagsDialog, setShowTagsDialog] = useState(false)
+  const [showProjectDialog, setShowProjectDialog] = useState(false)
+  const [showRevisionsDialog, setShowRevisionsDialog] = useState(false)
+
+  // Reset downloaded paths and the side panels when conversation changes
   useEffect(() => {
     // eslint-disable-next-line
     setDownloadedPaths({})
+    setOpenArtifact(null)
+    setLinkingMessageId(null)
     downloadingRef.current.clear()
   }, [conversation.id])
 
@@ -199,7 +252,12 @@ export function ChatView({
     setDownloadedPaths((prev) => ({ ...prev, [attId]: path }))
   }, [])
 
-  const Icon = AI_PROVIDERS[conversation.provider].icon
+  const handleOpenArtifact = useCallback((artifactId: string, messageId: string) => {
+    setOpenArtifact({ artifactId, messageId })
+    setShowLinks(false)
+  }, [])
+
+  const provider = useRegisteredProviders().find((p) => p.id === conversation.provider)
 
   const handleCopy = useCallback(
     async (format: 'markdown' | 'json') => {
@@ -216,98 +274,250 @@ export function ChatView({
     [conversation, messages]
   )
 
+  const handleToggleStarred = async () => {
+    const updated = await window.api?.conversations.setStarred(
+      conversation.id,
+      !conversation.starred
+    )
+    if (updated) onConversationChange?.(updated)
+  }
+
+  const handleMoveToFolder = async (folderId: string | null) => {
+    const updated = await window.api?.conversations.setFolder(conversation.id, folderId)
+    if (updated) onConversationChange?.(updated)
+  }
+
   return (
-    <div className="flex flex-col h-full">
-      {/* Header */}
-      <div className="px-4 py-2 border-b border-border flex items-center">
-        <h2 className="font-semibold text-lg truncate-gradient flex-1" title={conversation.title}>
-          {conversation.title}
-        </h2>
-        <DropdownMenu>
-          <DropdownMenuTrigger
-            aria-label="Options"
-            className="focus-visible:border-ring focus-visible:ring-ring/50 aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive dark:aria-invalid:border-destructive/50 rounded-lg border border-transparent bg-clip-padding text-sm font-medium focus-visible:ring-[3px] aria-invalid:ring-[3px] [&_svg:not([class*='size-'])]:size-4 inline-flex items-center justify-center whitespace-nowrap disabled:pointer-events-none disabled:opacity-50 [&_svg]:pointer-events-none shrink-0 [&_svg]:shrink-0 outline-none group/button select-none aria-expanded:bg-popover aria-expanded:text-foreground transition-none active:bg-muted active:text-foreground dark:active:bg-muted/50 size-8"
+    <div className="flex h-full">
+      <div className="flex flex-col h-full flex-1 min-w-0">
+        {/* Header */}
+        <div className="px-4 py-2 border-b border-border flex items-center">
+          <h2 className="font-semibold text-lg truncate-gradient flex-1" title={conversation.title}>
+            {conversation.title}
+          </h2>
+          <RemoteStatusBadge conversation={conversation} className="mr-1.5" />
+          {conversation.project && (
+            <Button
+              variant="outline"
+              size="xs"
+              className="max-w-40 shrink-0"
+              title={conversation.project.kind === 'gpt' ? 'Custom GPT' : 'Project'}
+              onClick={() => setShowProjectDialog(true)}
+            >
+              <span className="truncate">{conversation.project.name}</span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={conversation.starred ? 'Unstar' : 'Star'}
+            aria-pressed={conversation.starred ?? false}
+            onClick={handleToggleStarred}
           >
-            <HugeiconsIcon size={16} icon={MoreVerticalCircle01Icon} strokeWidth={2} />
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" sideOffset={4} className="w-44">
-            <DropdownMenuItem onClick={() => onOpenExport?.()}>
-              <HugeiconsIcon icon={FileExportIcon} />
-              Export
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => handleCopy('markdown')}>
-              <HugeiconsIcon icon={Copy01Icon} />
-              Copy as Markdown
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => handleCopy('json')}>
-              <HugeiconsIcon icon={Copy02Icon} />
-              Copy as JSON
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      </div>
+            <HugeiconsIcon
+              size={16}
+              icon={StarIcon}
+              strokeWidth={2}
+              className={cn(conversation.starred && 'fill-yellow-500 text-yellow-500')}
+            />
+          </Button>
+          <Button
+            variant={showLinks ? 'secondary' : 'ghost'}
+            size="icon"
+            aria-label="Links"
+            aria-pressed={showLinks}
+            onClick={() => {
+              setShowLinks(!showLinks)
+              setOpenArtifact(null)
+            }}
+          >
+            <HugeiconsIcon size={16} icon={Link01Icon} strokeWidth={2} />
+          </Button>
+          <DropdownMenu
+            onOpenChange={(open) => {
+              if (open) window.api?.folders.list().then(setFolders)
+            }}
+          >
+            <DropdownMenuTrigger
+              aria-label="Options"
+              className="focus-visible:border-ring focus-visible:ring-ring/50 aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive dark:aria-invalid:border-destructive/50 rounded-lg border border-transparent bg-clip-padding text-sm font-medium focus-visible:ring-[3px] aria-invalid:ring-[3px] [&_svg:not([class*='size-'])]:size-4 inline-flex items-center justify-center whitespace-nowrap disabled:pointer-events-none disabled:opacity-50 [&_svg]:pointer-events-none shrink-0 [&_svg]:shrink-0 outline-none group/button select-none aria-expanded:bg-popover aria-expanded:text-foreground transition-none active:bg-muted active:text-foreground dark:active:bg-muted/50 size-8"
+            >
+              <HugeiconsIcon size={16} icon={MoreVerticalCircle01Icon} strokeWidth={2} />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" sideOffset={4} className="w-44">
+              <DropdownMenuItem onClick={() => onOpenExport?.()}>
+                <HugeiconsIcon icon={FileExportIcon} />
+                Export
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleCopy('markdown')}>
+                <HugeiconsIcon icon={Copy01Icon} />
+                Copy as Markdown
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleCopy('json')}>
+                <HugeiconsIcon icon={Copy02Icon} />
+                Copy as JSON
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <HugeiconsIcon icon={Folder01Icon} />
+                  Move to folder
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-56">
+                  <DropdownMenuRadioGroup
+                    value={conversation.folder?.id ?? ''}
+                    onValueChange={(value) => handleMoveToFolder((value as string) || null)}
+                  >
+                    <DropdownMenuRadioItem value="">No folder</DropdownMenuRadioItem>
+                    {folders.map((folder) => (
+                      <DropdownMenuRadioItem key={folder.id} value={folder.id}>
+                        <span className="truncate">{folder.path}</span>
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => onManageFolders?.()}>
+                    Manage folders...
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem onClick={() => setShowTagsDialog(true)}>
+                <HugeiconsIcon icon={Tag01Icon} />
+                Edit tags...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setShowRevisionsDialog(true)}>
+                <HugeiconsIcon icon={WorkHistoryIcon} />
+                History...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
 
-      {/* Messages */}
-      <VList ref={listRef} className="flex-1 px-4" onScroll={handleScroll} shift={true}>
-        {/* Loading indicator at top */}
-        {hasMoreMessages && (
-          <div className="py-4 text-center max-w-3xl mx-auto">
-            {isLoadingMore ? (
-              <span className="text-sm text-muted-foreground">Loading older messages...</span>
-            ) : (
-              <button
-                onClick={onLoadMore}
-                className="text-sm text-muted-foreground hover:text-foreground"
+        {/* Messages */}
+        <VList ref={listRef} className="flex-1 px-4" onScroll={handleScroll} shift={true}>
+          {/* Loading indicator at top */}
+          {hasMoreMessages && (
+            <div className="py-4 text-center max-w-3xl mx-auto">
+              {isLoadingMore ? (
+                <span className="text-sm text-muted-foreground">Loading older messages...</span>
+              ) : (
+                <button
+                  onClick={onLoadMore}
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Load more messages
+                </button>
+              )}
+            </div>
+          )}
+          {messages.map((msg) => (
+            <div key={msg.id} className="group relative py-3 max-w-3xl mx-auto">
+              <Button
+                variant="ghost"
+                size="icon-xs"
+                aria-label="Link to another conversation"
+                className={cn(
+                  'absolute top-3 opacity-0 group-hover:opacity-100 focus-visible:opacity-100',
+                  msg.role === 'user' ? 'left-0' : 'right-0'
+                )}
+                onClick={() => setLinkingMessageId(msg.id)}
               >
-                Load more messages
-              </button>
-            )}
-          </div>
-        )}
-        {messages.map((msg) => (
-          <div key={msg.id} className="py-3 max-w-3xl mx-auto">
-            {msg.role === 'user' ? (
-              <>
-                <UserMessageBubble
+                <HugeiconsIcon icon={Link01Icon} strokeWidth={2} />
+              </Button>
+              {msg.role === 'user' ? (
+                <>
+                  <UserMessageBubble
+                    message={msg}
+                    conversationId={conversation.id}
+                    downloadedPaths={downloadedPaths}
+                    onDownloaded={handleDownloaded}
+                  />
+                  {msg.siblingIds && msg.siblingIds.length > 1 && onBranchSelect && (
+                    <div className="mt-1 flex justify-end">
+                      <BranchNavigation
+                        message={msg}
+                        onSelectSibling={(siblingId) => {
+                          if (msg.parentId) {
+                            onBranchSelect(msg.parentId, siblingId)
+                          }
+                        }}
+                      />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <AssistantMessage
                   message={msg}
                   conversationId={conversation.id}
                   downloadedPaths={downloadedPaths}
                   onDownloaded={handleDownloaded}
+                  onOpenArtifact={handleOpenArtifact}
                 />
-                {msg.siblingIds && msg.siblingIds.length > 1 && onBranchSelect && (
-                  <div className="mt-1 flex justify-end">
-                    <BranchNavigation
-                      message={msg}
-                      onSelectSibling={(siblingId) => {
-                        if (msg.parentId) {
-                          onBranchSelect(msg.parentId, siblingId)
-                        }
-                      }}
-                    />
-                  </div>
-                )}
-              </>
-            ) : (
-              <AssistantMessage
-                message={msg}
-                conversationId={conversation.id}
-                downloadedPaths={downloadedPaths}
-                onDownloaded={handleDownloaded}
-              />
-            )}
-          </div>
-        ))}
-        <div className="max-w-3xl mx-auto pt-4 pb-12 flex justify-center">
-          <Button
-            onClick={() => AI_PROVIDERS[conversation.provider].openConversation(conversation.id)}
-            variant="outline"
-            className="gap-2 rounded-xl "
-          >
-            <Icon size={24} />
-            <span>Continue conversation in {AI_PROVIDERS[conversation.provider].name}</span>
-          </Button>
-        </div>
-      </VList>
+              )}
+            </div>
+          ))}
+          {provider && canOpenConversation(provider) && (
+            <div className="max-w-3xl mx-auto pt-4 pb-12 flex justify-center">
+              <Button
+                onClick={() => openConversation(provider, conversation.id)}
+                variant="outline"
+                className="gap-2 rounded-xl "
+              >
+                <ProviderIcon provider={provider.id} size={24} />
+                <span>Continue conversation in {provider.name}</span>
+              </Button>
+            </div>
+          )}
+        </VList>
+      </div>
+      {openArtifact && (
+        <ArtifactPanel
+          key={`${openArtifact.artifactId}:${openArtifact.messageId}`}
+          conversationId={conversation.id}
+          artifactId={openArtifact.artifactId}
+          messageId={openArtifact.messageId}
+          onClose={() => setOpenArtifact(null)}
+        />
+      )}
+      {showLinks && (
+        <LinksPanel
+          conversationId={conversation.id}
+          version={linksVersion}
+          onSelectConversation={(linked) => onSelectConversation?.(linked)}
+          onClose={() => setShowLinks(false)}
+        />
+      )}
+      <LinkDialog
+        conversationId={conversation.id}
+        messageId={linkingMessageId}
+        onOpenChange={(open) => {
+          if (!open) setLinkingMessageId(null)
+        }}
+        onLinked={() => {
+          setLinksVersion((value) => value + 1)
+          setShowLinks(true)
+          setOpenArtifact(null)
+        }}
+      />
+      <TagsDialog
+        conversation={conversation}
+        open={showTagsDialog}
+        onOpenChange={setShowTagsDialog}
+        onConversationChange={(updated) => onConversationChange?.(updated)}
+      />
+      <RevisionsDialog
+        conversationId={conversation.id}
+        open={showRevisionsDialog}
+        onOpenChange={setShowRevisionsDialog}
+      />
+      {conversation.project && (
+        <ProjectDialog
+          projectId={conversation.project.id}
+          open={showProjectDialog}
+          onOpenChange={setShowProjectDialog}
+        />
+      )}
     </div>
   )
 }
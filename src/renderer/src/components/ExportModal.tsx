@@ -16,26 +16,54 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Progress } from '@/components/ui/progress'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { Tick02Icon, Folder01Icon } from '@hugeicons/core-free-icons'
-import type { ExportSettings, ExportProgress } from '@shared/types'
+import type {
+  ExportBranches,
+  ExportFormat,
+  ExportSettings,
+  ExportProgress,
+  MarkdownExportOptions,
+  OrganizeFilters
+} from '@shared/types'
+import { MarkdownStyleOptions } from './MarkdownStyleOptions'
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'json', label: 'JSON' },
+  { value: 'html', label: 'HTML (single file with math, code and images)' },
+  { value: 'pdf', label: 'PDF' }
+]
+
+const BRANCH_OPTIONS: Array<{ value: ExportBranches; label: string }> = [
+  { value: 'all', label: 'All messages, in the order they were written' },
+  { value: 'active', label: 'Current branch only' },
+  { value: 'each', label: 'Each branch as a separate file' },
+  { value: 'tree', label: 'Message tree (replies nested under their parent)' }
+]
 
 interface ExportModalProps {
   conversationId?: string
   open: boolean
   onOpenChange: (open: boolean) => void
   preferredScope?: 'current' | 'all'
+  // Tag, folder and starred filters of the sidebar, offered to narrow down "All conversations"
+  sidebarFilters?: { filters: OrganizeFilters; label: string } | null
 }
 
 export function ExportModal({
   conversationId,
   open,
   onOpenChange,
-  preferredScope
+  preferredScope,
+  sidebarFilters
 }: ExportModalProps) {
-  const [format, setFormat] = useState<'markdown' | 'json'>('markdown')
+  const [format, setFormat] = useState<ExportFormat>('markdown')
   const [includeAttachments, setIncludeAttachments] = useState(true)
   const [prefixTimestamp, setPrefixTimestamp] = useState(false)
+  const [markdownStyle, setMarkdownStyle] = useState<MarkdownExportOptions>({})
+  const [branches, setBranches] = useState<ExportBranches>('all')
   const [outputPath, setOutputPath] = useState('')
   const [exportAll, setExportAll] = useState(!conversationId)
+  const [applySidebarFilters, setApplySidebarFilters] = useState(true)
   const [isExporting, setIsExporting] = useState(false)
   const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
   const [isLoadingPrefs, setIsLoadingPrefs] = useState(true)
@@ -54,6 +82,8 @@ export function ExportModal({
           setIncludeAttachments(prefs.exportSettings.includeAttachments)
           setPrefixTimestamp(prefs.exportSettings.prefixTimestamp)
           setOutputPath(prefs.exportSettings.outputPath)
+          setMarkdownStyle(prefs.exportSettings.markdown ?? {})
+          setBranches(prefs.exportSettings.branches ?? 'all')
         }
       } catch (error) {
         console.error('Failed to load export settings:', error)
@@ -111,12 +141,23 @@ export function ExportModal({
         format,
         includeAttachments,
         prefixTimestamp,
-        outputPath
+        outputPath,
+        branches,
+        markdown: markdownStyle
       })
     }, 500)
 
     return () => clearTimeout(timeoutId)
-  }, [format, includeAttachments, prefixTimestamp, outputPath, saveSettings, isLoadingPrefs])
+  }, [
+    format,
+    includeAttachments,
+    prefixTimestamp,
+    outputPath,
+    markdownStyle,
+    branches,
+    saveSettings,
+    isLoadingPrefs
+  ])
 
   // Reset result and progress when modal closes
   useEffect(() => {
@@ -147,18 +188,25 @@ export function ExportModal({
     try {
       let response: { success: boolean; path?: string; error?: string } | undefined
       if (exportAll) {
-        response = await api.export.all({
-          format,
-          includeAttachments,
-          prefixTimestamp,
-          outputPath
-        })
+        response = await api.export.all(
+          {
+            format,
+            includeAttachments,
+            prefixTimestamp,
+            outputPath,
+            branches,
+            markdown: markdownStyle
+          },
+          sidebarFilters && applySidebarFilters ? sidebarFilters.filters : undefined
+        )
       } else if (conversationId) {
         response = await api.export.conversation(conversationId, {
           format,
           includeAttachments,
           prefixTimestamp,
-          outputPath
+          outputPath,
+          branches,
+          markdown: markdownStyle
         })
       }
 
@@ -263,6 +311,18 @@ export function ExportModal({
                     </Label>
                   </div>
                 </RadioGroup>
+                {exportAll && sidebarFilters && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="sidebarFilters"
+                      checked={applySidebarFilters}
+                      onCheckedChange={(checked) => setApplySidebarFilters(checked as boolean)}
+                    />
+                    <Label htmlFor="sidebarFilters" className="font-normal">
+                      Only {sidebarFilters.label}
+                    </Label>
+                  </div>
+                )}
               </div>
 
               {/* Export folder */}
@@ -285,20 +345,16 @@ export function ExportModal({
                 <Label className="text-base font-medium">Format</Label>
                 <RadioGroup
                   value={format}
-                  onValueChange={(value) => setFormat(value as 'markdown' | 'json')}
+                  onValueChange={(value) => setFormat(value as ExportFormat)}
                 >
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="markdown" id="markdown" />
-                    <Label htmlFor="markdown" className="font-normal">
-                      Markdown
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="json" id="json" />
-                    <Label htmlFor="json" className="font-normal">
-                      JSON
-                    </Label>
-                  </div>
+                  {FORMAT_OPTIONS.map((option) => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <RadioGroupItem value={option.value} id={option.value} />
+                      <Label htmlFor={option.value} className="font-normal">
+                        {option.label}
+                      </Label>
+                    </div>
+                  ))}
                 </RadioGroup>
               </div>
 
@@ -338,6 +394,38 @@ export function ExportModal({
                   </p>
                 </div>
               </div>
+
+              {/* Branches */}
+              <div className="space-y-3">
+                <Label className="text-base font-medium">Branches</Label>
+                <RadioGroup
+                  value={format !== 'json' && branches === 'tree' ? 'all' : branches}
+                  onValueChange={(value) => setBranches(value as ExportBranches)}
+                >
+                  {BRANCH_OPTIONS.filter(
+                    (option) => format === 'json' || option.value !== 'tree'
+                  ).map((option) => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <RadioGroupItem value={option.value} id={`branches-${option.value}`} />
+                      <Label htmlFor={`branches-${option.value}`} className="font-normal">
+                        {option.label}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              {/* Markdown style */}
+              {format === 'markdown' && (
+                <div className="space-y-3">
+                  <Label className="text-base font-medium">Markdown</Label>
+                  <MarkdownStyleOptions
+                    id="export"
+                    value={markdownStyle}
+                    onChange={setMarkdownStyle}
+                  />
+                </div>
+              )}
             </>
           )}
 
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react'
+import { CaretLeftIcon } from '@phosphor-icons/react'
+import type { Conversation, Message } from '@shared/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { ProviderIcon } from './ProviderIcon'
+
+interface LinkDialogProps {
+  conversationId: string
+  // Message the link is made from; the dialog is closed while it's null
+  messageId: string | null
+  onOpenChange: (open: boolean) => void
+  onLinked: () => void
+}
+
+const getMessageText = (message: Message): string =>
+  message.parts
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+/**
+ * Picks the conversation, and optionally the message in it, that a message links to.
+ */
+export function LinkDialog({ conversationId, messageId, onOpenChange, onLinked }: LinkDialogProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<Conversation[]>([])
+  const [target, setTarget] = useState<{ conversation: Conversation; messages: Message[] } | null>(
+    null
+  )
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    // eslint-disable-next-line
+    setQuery('')
+    setTarget(null)
+  }, [messageId])
+
+  useEffect(() => {
+    if (!messageId) return
+    let cancelled = false
+
+    const load = async () => {
+      const api = window.api
+      if (!api) return
+      const trimmed = query.trim()
+      const { items } = trimmed
+        ? await api.conversations.search(trimmed, { caseInsensitive: true })
+        : await api.conversations.list({ limit: 20 })
+      if (!cancelled) setResults(items.filter((item) => item.id !== conversationId))
+    }
+
+    // Wait for a pause in typing before searching
+    const timeout = setTimeout(load, query ? 200 : 0)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [conversationId, messageId, query])
+
+  const handleSelectConversation = async (conversation: Conversation) => {
+    const result = await window.api?.conversations.get(conversation.id)
+    setTarget({ conversation, messages: result?.messages ?? [] })
+  }
+
+  const handleLink = async (targetMessageId: string | null) => {
+    if (!messageId || !target) return
+    await window.api?.links.create({
+      sourceConversationId: conversationId,
+      sourceMessageId: messageId,
+      targetConversationId: target.conversation.id,
+      targetMessageId
+    })
+    onLinked()
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={messageId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md p-0 gap-0">
+        <div className="p-4">
+          <DialogHeader>
+            <DialogTitle>Link to a conversation</DialogTitle>
+          </DialogHeader>
+        </div>
+
+        {target ? (
+          <div className="px-4 pb-4">
+            <div className="flex items-center gap-1 pb-2">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Back"
+                onClick={() => setTarget(null)}
+              >
+                <CaretLeftIcon />
+              </Button>
+              <span className="truncate font-medium">
+                {target.conversation.title || 'Untitled'}
+              </span>
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto">
+              <button
+                onClick={() => handleLink(null)}
+                className="w-full rounded-md px-2 py-2 text-left font-medium outline-none active:bg-accent focus-visible:bg-accent"
+              >
+                Whole conversation
+              </button>
+              {target.messages.map((message) => {
+                const text = getMessageText(message)
+                if (!text) return null
+                return (
+                  <button
+                    key={message.id}
+                    onClick={() => handleLink(message.id)}
+                    className="w-full rounded-md px-2 py-2 text-left outline-none active:bg-accent focus-visible:bg-accent"
+                  >
+                    <span className="text-xs text-muted-foreground">
+                      {message.role === 'user' ? 'User' : 'Assistant'}
+                    </span>
+                    <p className="line-clamp-2 text-sm">{text}</p>
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="px-4 pb-4">
+            <Input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search conversations..."
+            />
+            <div className="mt-2 max-h-[50vh] overflow-y-auto">
+              {results.length === 0 && (
+                <p className="px-2 py-4 text-center text-muted-foreground">
+                  No conversations found
+                </p>
+              )}
+              {results.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  onClick={() => handleSelectConversation(conversation)}
+                  className="flex w-full items-center gap-2 rounded-md px-2 py-2 text-left outline-none active:bg-accent focus-visible:bg-accent"
+                >
+                  <ProviderIcon provider={conversation.provider} size={16} />
+                  <span className="truncate">{conversation.title || 'Untitled'}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
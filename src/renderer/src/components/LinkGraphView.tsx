@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { LinkGraph } from '@shared/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { layoutLinkGraph } from '@/lib/link-graph'
+
+interface LinkGraphViewProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSelect: (conversationId: string) => void
+}
+
+const WIDTH = 880
+const HEIGHT = 560
+
+// Titles are drawn under every node up to this many nodes; past it only on hover
+const LABELED_NODES_MAX = 40
+
+// Hues the clusters cycle through
+const CLUSTER_HUES = [210, 150, 30, 280, 0, 95, 330, 180, 55, 250]
+
+const clusterColor = (cluster: number): string =>
+  `hsl(${CLUSTER_HUES[cluster % CLUSTER_HUES.length]} 65% 50%)`
+
+/**
+ * Graph of the conversations that are linked or cite the same sources. Clusters of connected
+ * conversations share a color; clicking a conversation opens it.
+ */
+export function LinkGraphView({ open, onOpenChange, onSelect }: LinkGraphViewProps) {
+  const [graph, setGraph] = useState<LinkGraph | null>(null)
+  const [showSources, setShowSources] = useState(true)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    window.api?.links.graph().then((result) => {
+      if (!cancelled) setGraph(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  const layout = useMemo(() => {
+    if (!graph) return null
+    const edges = showSources ? graph.edges : graph.edges.filter((edge) => edge.kind === 'link')
+    // Leave out conversations the shown edges don't connect
+    const connected = new Set(edges.flatMap((edge) => [edge.source, edge.target]))
+    const nodes = graph.nodes.filter((node) => connected.has(node.id))
+    return layoutLinkGraph({ nodes, edges }, { width: WIDTH, height: HEIGHT })
+  }, [graph, showSources])
+
+  const positions = useMemo(
+    () => new Map(layout?.nodes.map((node) => [node.id, node]) ?? []),
+    [layout]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100%-2rem)] sm:max-w-[920px]">
+        <DialogHeader>
+          <DialogTitle>Linked conversations</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="graph-sources"
+            checked={showSources}
+            onCheckedChange={(checked) => setShowSources(checked as boolean)}
+          />
+          <Label htmlFor="graph-sources" className="font-normal">
+            Connect conversations that cite the same sources
+          </Label>
+          {layout && (
+            <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+              {layout.nodes.length} conversations, {layout.clusterCount} clusters
+            </span>
+          )}
+        </div>
+
+        {layout && layout.nodes.length === 0 ? (
+          <div className="flex h-40 items-center justify-center text-muted-foreground">
+            No linked conversations yet
+          </div>
+        ) : (
+          layout && (
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full rounded-lg border border-border bg-muted/30"
+            >
+              {layout.edges.map((edge) => {
+                const source = positions.get(edge.source)
+                const target = positions.get(edge.target)
+                if (!source || !target) return null
+                return (
+                  <line
+                    key={`${edge.kind}:${edge.source}:${edge.target}`}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    stroke="currentColor"
+                    strokeWidth={edge.kind === 'link' ? 1.5 : 1}
+                    strokeDasharray={edge.kind === 'link' ? undefined : '4 3'}
+                    className={edge.kind === 'link' ? 'text-foreground/60' : 'text-foreground/25'}
+                  />
+                )
+              })}
+              {layout.nodes.map((node) => (
+                <g
+                  key={node.id}
+                  transform={`translate(${node.x} ${node.y})`}
+                  onClick={() => {
+                    onSelect(node.id)
+                    onOpenChange(false)
+                  }}
+                  className="cursor-pointer"
+                >
+                  <title>{node.title || 'Untitled'}</title>
+                  <circle
+                    r={5 + Math.min(node.degree, 6)}
+                    fill={clusterColor(node.cluster)}
+                    className="stroke-background"
+                    strokeWidth={1.5}
+                  />
+                  {layout.nodes.length <= LABELED_NODES_MAX && (
+                    <text
+                      y={20}
+                      textAnchor="middle"
+                      className="fill-muted-foreground text-[10px]"
+                      pointerEvents="none"
+                    >
+                      {truncate(node.title || 'Untitled', 28)}
+                    </text>
+                  )}
+                </g>
+              ))}
+            </svg>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
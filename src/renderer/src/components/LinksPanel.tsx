@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react'
+import { XIcon } from '@phosphor-icons/react'
+import type { Conversation, ConversationLinks, LinkedConversation } from '../../../shared/types'
+import { ProviderIcon } from './ProviderIcon'
+import { Button } from './ui/button'
+
+interface LinksPanelProps {
+  conversationId: string
+  // Changes when a link is added, to load the links again
+  version: number
+  onSelectConversation: (conversation: Conversation) => void
+  onClose: () => void
+}
+
+function ConversationButton({
+  conversation,
+  detail,
+  onSelect
+}: {
+  conversation: Conversation
+  detail: string | null
+  onSelect: (conversation: Conversation) => void
+}) {
+  return (
+    <button
+      onClick={() => onSelect(conversation)}
+      className="min-w-0 flex-1 text-left outline-none rounded-md px-2 py-1.5 active:bg-accent focus-visible:bg-accent"
+    >
+      <div className="flex items-center gap-1.5">
+        <ProviderIcon provider={conversation.provider} size={14} />
+        <span className="truncate text-sm font-medium">{conversation.title || 'Untitled'}</span>
+      </div>
+      {detail && <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">{detail}</p>}
+    </button>
+  )
+}
+
+function LinkList({
+  title,
+  items,
+  empty,
+  onSelect,
+  onRemove
+}: {
+  title: string
+  items: LinkedConversation[]
+  empty: string
+  onSelect: (conversation: Conversation) => void
+  onRemove: (linkId: string) => void
+}) {
+  return (
+    <section className="space-y-1">
+      <h4 className="px-2 text-xs font-medium uppercase text-muted-foreground">
+        {title} <span className="tabular-nums">{items.length}</span>
+      </h4>
+      {items.length === 0 && <p className="px-2 text-xs text-muted-foreground">{empty}</p>}
+      {items.map(({ link, conversation, snippet }) => (
+        <div key={link.id} className="group flex items-start gap-1">
+          <ConversationButton conversation={conversation} detail={snippet} onSelect={onSelect} />
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            aria-label="Remove link"
+            className="mt-1 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+            onClick={() => onRemove(link.id)}
+          >
+            <XIcon />
+          </Button>
+        </div>
+      ))}
+    </section>
+  )
+}
+
+/**
+ * Side panel with the links of a conversation: the ones it makes, the ones made to it
+ * (backlinks) and conversations that cite the same sources.
+ */
+export function LinksPanel({
+  conversationId,
+  version,
+  onSelectConversation,
+  onClose
+}: LinksPanelProps) {
+  const [links, setLinks] = useState<ConversationLinks | null>(null)
+  const [removedVersion, setRemovedVersion] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    window.api?.links.list(conversationId).then((result) => {
+      if (!cancelled) setLinks(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [conversationId, version, removedVersion])
+
+  const handleRemove = async (linkId: string) => {
+    await window.api?.links.delete(linkId)
+    setRemovedVersion((value) => value + 1)
+  }
+
+  return (
+    <div className="flex h-full w-80 shrink-0 flex-col border-l border-border">
+      {/* Header */}
+      <div className="flex items-center gap-1 border-b border-border px-4 py-2">
+        <h3 className="flex-1 truncate font-semibold">Links</h3>
+        <Button variant="ghost" size="icon" aria-label="Close" onClick={onClose}>
+          <XIcon />
+        </Button>
+      </div>
+
+      {links && (
+        <div className="flex-1 space-y-5 overflow-y-auto px-2 py-3">
+          <LinkList
+            title="Links"
+            items={links.outgoing}
+            empty="Link a message to another conversation from its link button."
+            onSelect={onSelectConversation}
+            onRemove={handleRemove}
+          />
+          <LinkList
+            title="Backlinks"
+            items={links.backlinks}
+            empty="No conversation links here yet."
+            onSelect={onSelectConversation}
+            onRemove={handleRemove}
+          />
+          <section className="space-y-1">
+            <h4 className="px-2 text-xs font-medium uppercase text-muted-foreground">
+              Shared sources <span className="tabular-nums">{links.related.length}</span>
+            </h4>
+            {links.related.length === 0 && (
+              <p className="px-2 text-xs text-muted-foreground">
+                No other conversation cites the same pages.
+              </p>
+            )}
+            {links.related.map(({ conversation, urls }) => (
+              <ConversationButton
+                key={conversation.id}
+                conversation={conversation}
+                detail={urls.length === 1 ? urls[0] : `${urls.length} shared sources`}
+                onSelect={onSelectConversation}
+              />
+            ))}
+          </section>
+        </div>
+      )}
+    </div>
+  )
+}
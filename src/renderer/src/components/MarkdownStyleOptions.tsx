@@ -0,0 +1,82 @@
+'use client'
+
+import type { MarkdownExportOptions } from '@shared/types'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+type MarkdownStyleOptionsProps = {
+  // Prefix of the element IDs, so the options can appear twice in Settings and Export
+  id: string
+  value: MarkdownExportOptions
+  onChange: (value: MarkdownExportOptions) => void
+}
+
+const CHECKBOXES: Array<{
+  key: 'frontmatter' | 'footnotes' | 'wikilinks'
+  label: string
+  description: string
+}> = [
+  {
+    key: 'frontmatter',
+    label: 'YAML frontmatter',
+    description: 'ID, provider, dates, model, tags and source link as properties for Dataview.'
+  },
+  {
+    key: 'footnotes',
+    label: 'Sources as footnotes',
+    description: 'Cited links become numbered footnotes at the end of the file.'
+  },
+  {
+    key: 'wikilinks',
+    label: 'Wikilinks for attachments',
+    description: 'Link attachments as [[attachments/file]] so they resolve inside a vault.'
+  }
+]
+
+// Markdown options for Obsidian and other note apps, shared by Export and Mirror
+export function MarkdownStyleOptions({ id, value, onChange }: MarkdownStyleOptionsProps) {
+  const setRoleHeading = (role: 'user' | 'assistant', heading: string) => {
+    onChange({ ...value, roleHeadings: { ...value.roleHeadings, [role]: heading || undefined } })
+  }
+
+  return (
+    <div className="space-y-3">
+      {CHECKBOXES.map(({ key, label, description }) => (
+        <div key={key} className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`${id}-${key}`}
+              checked={value[key] ?? false}
+              onCheckedChange={(checked) => onChange({ ...value, [key]: checked as boolean })}
+            />
+            <Label htmlFor={`${id}-${key}`} className="font-normal">
+              {label}
+            </Label>
+          </div>
+          <p className="text-xs text-muted-foreground pl-6">{description}</p>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`${id}-user-heading`} className="font-normal shrink-0">
+          Headings
+        </Label>
+        <Input
+          id={`${id}-user-heading`}
+          placeholder="User"
+          value={value.roleHeadings?.user ?? ''}
+          onChange={(e) => setRoleHeading('user', e.target.value)}
+          className="h-8"
+        />
+        <Input
+          id={`${id}-assistant-heading`}
+          placeholder="Assistant"
+          value={value.roleHeadings?.assistant ?? ''}
+          onChange={(e) => setRoleHeading('assistant', e.target.value)}
+          className="h-8"
+        />
+      </div>
+    </div>
+  )
+}
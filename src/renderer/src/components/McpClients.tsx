@@ -0,0 +1,203 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckIcon, CopyIcon, PlusIcon } from '@phosphor-icons/react'
+import type { McpAuditEntry, McpTokenInfo, ProviderName } from '@shared/types'
+import { useRegisteredProviders } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+type McpClientsProps = {
+  // Called with a new token, so the configuration can include it
+  onTokenCreated: (token: string | null) => void
+}
+
+// Audit log entries shown under Recent activity
+const RECENT_ACTIVITY_LIMIT = 20
+
+function formatDateTime(date: Date | null): string {
+  if (!date) return 'never'
+  return new Date(date).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export function McpClients({ onTokenCreated }: McpClientsProps) {
+  const providers = useRegisteredProviders()
+  const [tokens, setTokens] = useState<McpTokenInfo[]>([])
+  const [activity, setActivity] = useState<McpAuditEntry[]>([])
+  const [name, setName] = useState('')
+  const [allProviders, setAllProviders] = useState(true)
+  const [selectedProviders, setSelectedProviders] = useState<ProviderName[]>([])
+  // Shown until the settings are closed; only its hash is stored
+  const [newToken, setNewToken] = useState<{ id: string; token: string } | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [revoking, setRevoking] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.api.mcp.listTokens().then(setTokens)
+    window.api.mcp.getAuditLog(RECENT_ACTIVITY_LIMIT).then(setActivity)
+  }, [])
+
+  const getProviderName = (id: ProviderName) =>
+    providers.find((provider) => provider.id === id)?.name ?? id
+
+  const toggleProvider = (id: ProviderName, checked: boolean) => {
+    setSelectedProviders((current) =>
+      checked ? [...current, id] : current.filter((provider) => provider !== id)
+    )
+  }
+
+  const handleCreate = async () => {
+    const { token, info } = await window.api.mcp.createToken(
+      name,
+      allProviders ? null : selectedProviders
+    )
+    setTokens((current) => [...current, info])
+    setNewToken({ id: info.id, token })
+    setName('')
+    onTokenCreated(token)
+  }
+
+  const handleRevoke = async (id: string) => {
+    try {
+      setRevoking(id)
+      await window.api.mcp.revokeToken(id)
+      setTokens((current) => current.filter((token) => token.id !== id))
+      if (newToken?.id === id) {
+        setNewToken(null)
+        onTokenCreated(null)
+      }
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  const handleCopyToken = () => {
+    if (!newToken) return
+    navigator.clipboard.writeText(newToken.token)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Clients */}
+      <div className="space-y-2">
+        <Label>Clients</Label>
+        {tokens.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No clients yet. Every MCP client needs a token to connect.
+          </p>
+        )}
+        {tokens.map((token) => (
+          <div
+            key={token.id}
+            className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted/50 border border-border"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{token.name}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {token.tokenPrefix}… ·{' '}
+                {token.providers
+                  ? token.providers.map(getProviderName).join(', ')
+                  : 'All providers'}{' '}
+                · Last used {formatDateTime(token.lastUsedAt)}
+              </div>
+            </div>
+            <Button
+              onClick={() => handleRevoke(token.id)}
+              size="xs"
+              variant="outline"
+              disabled={revoking === token.id}
+            >
+              {revoking === token.id ? 'Revoking...' : 'Revoke'}
+            </Button>
+          </div>
+        ))}
+
+        {newToken && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate text-xs bg-muted border border-border rounded px-2 py-1.5">
+                {newToken.token}
+              </code>
+              <Button onClick={handleCopyToken} variant="outline" size="xs">
+                {copied ? <CheckIcon size={14} /> : <CopyIcon size={14} />}
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy the token now, it won&apos;t be shown again.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* New client */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Client name, e.g. Cursor"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button
+            onClick={handleCreate}
+            variant="outline"
+            size="sm"
+            disabled={!allProviders && selectedProviders.length === 0}
+          >
+            <PlusIcon size={14} />
+            Create token
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="mcp-all-providers"
+              checked={allProviders}
+              onCheckedChange={(checked) => setAllProviders(checked as boolean)}
+            />
+            <Label htmlFor="mcp-all-providers" className="font-normal">
+              All providers
+            </Label>
+          </div>
+          {!allProviders &&
+            providers.map((provider) => (
+              <div key={provider.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`mcp-provider-${provider.id}`}
+                  checked={selectedProviders.includes(provider.id)}
+                  onCheckedChange={(checked) => toggleProvider(provider.id, checked as boolean)}
+                />
+                <Label htmlFor={`mcp-provider-${provider.id}`} className="font-normal">
+                  {provider.name}
+                </Label>
+              </div>
+            ))}
+        </div>
+      </div>
+
+      {/* Audit log */}
+      {activity.length > 0 && (
+        <div className="space-y-2">
+          <Label>Recent activity</Label>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {activity.map((entry) => (
+              <li key={entry.id} className="truncate">
+                {formatDateTime(entry.createdAt)} · {entry.clientName} ·{' '}
+                <span className="text-foreground">{entry.target ?? entry.method}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowsClockwiseIcon, FolderOpenIcon, SpinnerIcon } from '@phosphor-icons/react'
+import type { MarkdownExportOptions } from '@shared/types'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Switch } from '@/components/ui/switch'
+import { MarkdownStyleOptions } from './MarkdownStyleOptions'
+
+type MirrorOptions = {
+  mirrorEnabled: boolean
+  mirrorPath: string
+  mirrorFormat: 'markdown' | 'json'
+  mirrorIncludeAttachments: boolean
+  mirrorDeleteRemoved: boolean
+  mirrorMarkdown: MarkdownExportOptions
+}
+
+// Keeps a folder (e.g. an Obsidian vault) up to date after every sync
+export function MirrorSettings() {
+  const [options, setOptions] = useState<MirrorOptions | null>(null)
+  const [isMirroring, setIsMirroring] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.api.settings.get().then(setOptions)
+  }, [])
+
+  if (!options) return null
+
+  const update = async (updates: Partial<MirrorOptions>) => {
+    setOptions({ ...options, ...updates })
+    await window.api.settings.set(updates)
+  }
+
+  const handlePickFolder = async () => {
+    const path = await window.api.dialog.pickFolder()
+    if (path) {
+      await update({ mirrorPath: path })
+    }
+  }
+
+  const handleMirrorNow = async () => {
+    setIsMirroring(true)
+    setStatus(null)
+    try {
+      const response = await window.api.export.mirror()
+      if (!response.success || !response.result) {
+        setStatus(response.error || 'Mirror failed')
+        return
+      }
+
+      const { written, removed, unchanged } = response.result
+      setStatus(
+        `Wrote ${written} conversations, ${unchanged} unchanged` +
+          (removed > 0 ? `, removed ${removed}` : '')
+      )
+    } finally {
+      setIsMirroring(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-base font-medium">Mirror</h3>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Write new and changed conversations to a folder after every sync.
+        </p>
+        <Switch
+          id="mirror-enabled"
+          checked={options.mirrorEnabled}
+          disabled={!options.mirrorPath}
+          onCheckedChange={(checked) => update({ mirrorEnabled: checked })}
+        />
+      </div>
+
+      <Button
+        variant="outline"
+        className="w-full justify-start font-normal text-sm h-auto py-2 px-3"
+        onClick={handlePickFolder}
+      >
+        <FolderOpenIcon size={14} className="flex-shrink-0" />
+        <span className="truncate">{options.mirrorPath || 'Select folder'}</span>
+      </Button>
+
+      <RadioGroup
+        value={options.mirrorFormat}
+        onValueChange={(value) => update({ mirrorFormat: value as 'markdown' | 'json' })}
+        className="flex gap-4"
+      >
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="markdown" id="mirror-markdown" />
+          <Label htmlFor="mirror-markdown" className="font-normal">
+            Markdown
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="json" id="mirror-json" />
+          <Label htmlFor="mirror-json" className="font-normal">
+            JSON
+          </Label>
+        </div>
+      </RadioGroup>
+
+      {options.mirrorFormat === 'markdown' && (
+        <MarkdownStyleOptions
+          id="mirror"
+          value={options.mirrorMarkdown}
+          onChange={(mirrorMarkdown) => update({ mirrorMarkdown })}
+        />
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="mirror-attachments"
+            checked={options.mirrorIncludeAttachments}
+            onCheckedChange={(checked) => update({ mirrorIncludeAttachments: checked as boolean })}
+          />
+          <Label htmlFor="mirror-attachments" className="font-normal">
+            Include downloaded attachments
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="mirror-delete"
+            checked={options.mirrorDeleteRemoved}
+            onCheckedChange={(checked) => update({ mirrorDeleteRemoved: checked as boolean })}
+          />
+          <Label htmlFor="mirror-delete" className="font-normal">
+            Remove folders of deleted conversations
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        {status ? <p className="text-xs text-muted-foreground">{status}</p> : <span />}
+        <Button
+          onClick={handleMirrorNow}
+          variant="outline"
+          size="sm"
+          disabled={!options.mirrorPath || isMirroring}
+        >
+          {isMirroring ? (
+            <SpinnerIcon size={14} className="animate-spin" />
+          ) : (
+            <ArrowsClockwiseIcon size={14} />
+          )}
+          Mirror now
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  FolderIcon,
+  FolderPlusIcon,
+  PencilSimpleIcon,
+  TrashIcon,
+  XIcon
+} from '@phosphor-icons/react'
+import type { Folder, TagCount } from '@shared/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+interface OrganizeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called after folders or tags change, to refresh the sidebar
+  onChange: () => void
+}
+
+// Saves on Enter, cancels on Escape or when focus leaves
+function RenameInput({
+  value,
+  onSubmit,
+  onCancel
+}: {
+  value: string
+  onSubmit: (value: string) => void
+  onCancel: () => void
+}) {
+  return (
+    <Input
+      autoFocus
+      defaultValue={value}
+      className="h-7 flex-1"
+      onBlur={onCancel}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && e.currentTarget.value.trim()) onSubmit(e.currentTarget.value)
+        if (e.key === 'Escape') {
+          e.stopPropagation()
+          onCancel()
+        }
+      }}
+    />
+  )
+}
+
+function RowActions({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Creates, renames and deletes folders, and renames and deletes tags. Deleting a folder
+ * deletes its subfolders; the conversations in them are kept, outside any folder.
+ */
+export function OrganizeDialog({ open, onOpenChange, onChange }: OrganizeDialogProps) {
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [tags, setTags] = useState<TagCount[]>([])
+  const [newFolderName, setNewFolderName] = useState('')
+  const [newFolderParent, setNewFolderParent] = useState<Folder | null>(null)
+  // Folder ID, or tag with its #, being renamed
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const newFolderInputRef = useRef<HTMLInputElement>(null)
+
+  const load = async () => {
+    const api = window.api
+    if (!api) return
+    const [folderList, tagList] = await Promise.all([api.folders.list(), api.tags.list()])
+    setFolders(folderList)
+    setTags(tagList)
+  }
+
+  useEffect(() => {
+    if (!open) return
+    // eslint-disable-next-line
+    setNewFolderName('')
+    setNewFolderParent(null)
+    setRenaming(null)
+    load()
+  }, [open])
+
+  const applyChange = async (change: Promise<unknown> | undefined) => {
+    setRenaming(null)
+    try {
+      await change
+    } catch (error) {
+      console.error('Failed to update folders and tags:', error)
+    }
+    await load()
+    onChange()
+  }
+
+  const handleCreateFolder = () => {
+    if (!newFolderName.trim()) return
+    applyChange(window.api?.folders.create(newFolderName, newFolderParent?.id))
+    setNewFolderName('')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Folders and tags</DialogTitle>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+          <section className="space-y-1">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">Folders</h4>
+            <form
+              className="flex gap-1.5"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleCreateFolder()
+              }}
+            >
+              <Input
+                ref={newFolderInputRef}
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                placeholder={
+                  newFolderParent ? `New folder in ${newFolderParent.path}` : 'New folder'
+                }
+              />
+              {newFolderParent && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Create at the top level"
+                  onClick={() => setNewFolderParent(null)}
+                >
+                  <XIcon />
+                </Button>
+              )}
+              <Button type="submit" variant="outline" disabled={!newFolderName.trim()}>
+                Add
+              </Button>
+            </form>
+            {folders.length === 0 && <p className="text-muted-foreground">No folders yet</p>}
+            {folders.map((folder) => (
+              <div
+                key={folder.id}
+                className="group flex h-8 items-center gap-1.5"
+                style={{ paddingLeft: (folder.path.split('/').length - 1) * 16 }}
+              >
+                <FolderIcon size={14} className="shrink-0 text-muted-foreground" />
+                {renaming === folder.id ? (
+                  <RenameInput
+                    value={folder.name}
+                    onSubmit={(name) => applyChange(window.api?.folders.rename(folder.id, name))}
+                    onCancel={() => setRenaming(null)}
+                  />
+                ) : (
+                  <>
+                    <span className="flex-1 truncate">{folder.name}</span>
+                    <span className="text-muted-foreground tabular-nums">
+                      {folder.conversationCount}
+                    </span>
+                    <RowActions>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        aria-label="New subfolder"
+                        onClick={() => {
+                          setNewFolderParent(folder)
+                          newFolderInputRef.current?.focus()
+                        }}
+                      >
+                        <FolderPlusIcon />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        aria-label="Rename"
+                        onClick={() => setRenaming(folder.id)}
+                      >
+                        <PencilSimpleIcon />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        aria-label="Delete"
+                        onClick={() => applyChange(window.api?.folders.delete(folder.id))}
+                      >
+                        <TrashIcon />
+                      </Button>
+                    </RowActions>
+                  </>
+                )}
+              </div>
+            ))}
+          </section>
+
+          <section className="space-y-1">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">Tags</h4>
+            {tags.length === 0 && (
+              <p className="text-muted-foreground">Tags added to conversations show up here</p>
+            )}
+            {tags.map(({ tag, count }) => (
+              <div key={tag} className="group flex h-8 items-center gap-1.5">
+                {renaming === `#${tag}` ? (
+                  <RenameInput
+                    value={tag}
+                    onSubmit={(name) => applyChange(window.api?.tags.rename(tag, name))}
+                    onCancel={() => setRenaming(null)}
+                  />
+                ) : (
+                  <>
+                    <span className="flex-1 truncate">#{tag}</span>
+                    <span className="text-muted-foreground tabular-nums">{count}</span>
+                    <RowActions>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        aria-label="Rename"
+                        onClick={() => setRenaming(`#${tag}`)}
+                      >
+                        <PencilSimpleIcon />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        aria-label="Delete"
+                        onClick={() => applyChange(window.api?.tags.delete(tag))}
+                      >
+                        <TrashIcon />
+                      </Button>
+                    </RowActions>
+                  </>
+                )}
+              </div>
+            ))}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
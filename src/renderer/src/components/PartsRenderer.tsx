@@ -1,12 +1,29 @@
 import type { Schema } from 'hast-util-sanitize'
-import { memo, Children, isValidElement, cloneElement } from 'react'
+import { memo, useState, Children, isValidElement, cloneElement } from 'react'
+import {
+  BrainIcon,
+  CaretDownIcon,
+  CaretRightIcon,
+  FileTextIcon,
+  ListChecksIcon,
+  TerminalIcon,
+  WrenchIcon
+} from '@phosphor-icons/react'
 import ReactMarkdown from 'react-markdown'
 import rehypeKatex from 'rehype-katex'
 import rehypeSanitize from 'rehype-sanitize'
 import remarkGfm from 'remark-gfm'
 import remarkMath from 'remark-math'
 import 'katex/dist/katex.min.css'
-import type { MessagePart } from '../../../shared/types'
+import type {
+  ArtifactPart,
+  CodeExecutionPart,
+  MessagePart,
+  PlanPart,
+  ReasoningPart,
+  ToolCallPart,
+  ToolResultPart
+} from '../../../shared/types'
 
 // Custom sanitization schema
 const sanitizeSchema: Schema = {
@@ -54,6 +71,7 @@ const sanitizeSchema: Schema = {
 interface PartsRendererProps {
   parts: MessagePart[]
   messageId: string
+  onOpenArtifact?: (artifactId: string, messageId: string) => void
 }
 
 // Render a single markdown text part
@@ -155,14 +173,160 @@ const MarkdownPart = memo(
 
 MarkdownPart.displayName = 'MarkdownPart'
 
-export const PartsRenderer = memo(({ parts }: PartsRendererProps) => {
-  // First filter out source-url parts, keeping only text parts
-  const textParts = parts.filter((part) => part.type === 'text')
+// Collapsed-by-default block for reasoning and tool activity
+function CollapsibleBlock({
+  icon,
+  title,
+  children
+}: {
+  icon: React.ReactNode
+  title: string
+  children: React.ReactNode
+}) {
+  const [isExpanded, setIsExpanded] = useState(false)
 
-  // Join all consecutive text parts into one string with newlines
-  const combinedText = textParts.map((part) => part.text).join('\n')
+  return (
+    <div className="not-prose my-2 rounded-md border border-border">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-2 px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground active:text-foreground"
+      >
+        {isExpanded ? (
+          <CaretDownIcon className="h-4 w-4 shrink-0" />
+        ) : (
+          <CaretRightIcon className="h-4 w-4 shrink-0" />
+        )}
+        {icon}
+        <span className="truncate font-medium">{title}</span>
+      </button>
+      {isExpanded && <div className="space-y-2 border-t border-border px-3 py-2">{children}</div>}
+    </div>
+  )
+}
+
+function RawBlock({ label, text }: { label?: string; text: string }) {
+  return (
+    <div>
+      {label && <div className="mb-1 text-xs text-muted-foreground">{label}</div>}
+      <pre className="max-h-80 overflow-auto whitespace-pre-wrap break-words rounded-md bg-accent/50 px-2 py-1 text-xs">
+        {text}
+      </pre>
+    </div>
+  )
+}
+
+const ReasoningBlock = ({ part }: { part: ReasoningPart }) => (
+  <CollapsibleBlock icon={<BrainIcon className="h-4 w-4 shrink-0" />} title="Reasoning">
+    <div className="prose prose-sm max-w-none text-muted-foreground">
+      <MarkdownPart content={part.text} />
+    </div>
+  </CollapsibleBlock>
+)
+
+const ToolCallBlock = ({ call, result }: { call?: ToolCallPart; result?: ToolResultPart }) => (
+  <CollapsibleBlock
+    icon={<WrenchIcon className="h-4 w-4 shrink-0" />}
+    title={`Used ${call?.toolName ?? result?.toolName}`}
+  >
+    {call?.input && <RawBlock label="Input" text={call.input} />}
+    {result?.output && <RawBlock label="Output" text={result.output} />}
+  </CollapsibleBlock>
+)
+
+const CodeExecutionBlock = ({ part }: { part: CodeExecutionPart }) => (
+  <CollapsibleBlock
+    icon={<TerminalIcon className="h-4 w-4 shrink-0" />}
+    title={`Ran ${part.language} code`}
+  >
+    <RawBlock text={part.code} />
+    {part.output !== undefined && <RawBlock label="Output" text={part.output} />}
+  </CollapsibleBlock>
+)
+
+const PlanBlock = ({ part }: { part: PlanPart }) => (
+  <CollapsibleBlock icon={<ListChecksIcon className="h-4 w-4 shrink-0" />} title="Plan">
+    <ol className="list-decimal space-y-1 pl-5 text-sm text-muted-foreground">
+      {part.steps.map((step, index) => (
+        <li key={index}>{step}</li>
+      ))}
+    </ol>
+  </CollapsibleBlock>
+)
+
+const ARTIFACT_COMMAND_LABELS: Record<ArtifactPart['command'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  rewrite: 'Rewrote'
+}
+
+// Artifact content lives in the side panel; the message only links to it
+const ArtifactCard = ({ part, onOpen }: { part: ArtifactPart; onOpen?: () => void }) => (
+  <button
+    onClick={onOpen}
+    disabled={!onOpen}
+    className="not-prose my-2 flex w-full items-center gap-3 rounded-md border border-border px-3 py-2 text-left active:bg-accent disabled:cursor-default"
+  >
+    <FileTextIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+    <div className="min-w-0 flex-1">
+      <div className="truncate text-sm font-medium">{part.title || part.artifactId}</div>
+      <div className="truncate text-xs text-muted-foreground">
+        {ARTIFACT_COMMAND_LABELS[part.command]} artifact
+        {part.language ? ` · ${part.language}` : ''}
+      </div>
+    </div>
+  </button>
+)
+
+export const PartsRenderer = memo(({ parts, messageId, onOpenArtifact }: PartsRendererProps) => {
+  const blocks: React.ReactNode[] = []
+  const renderedResults = new Set<ToolResultPart>()
+  let textBuffer: string[] = []
+
+  // Join consecutive text parts into one markdown block (source-url parts are shown separately)
+  const flushText = () => {
+    if (textBuffer.length > 0) {
+      blocks.push(<MarkdownPart key={blocks.length} content={textBuffer.join('\n')} />)
+      textBuffer = []
+    }
+  }
+
+  for (const part of parts) {
+    if (part.type === 'text') {
+      textBuffer.push(part.text)
+      continue
+    }
+    // Sources and related queries are listed under the message
+    if (part.type === 'source-url' || part.type === 'related-queries') continue
+
+    flushText()
+    if (part.type === 'reasoning') {
+      blocks.push(<ReasoningBlock key={blocks.length} part={part} />)
+    } else if (part.type === 'code-execution') {
+      blocks.push(<CodeExecutionBlock key={blocks.length} part={part} />)
+    } else if (part.type === 'plan') {
+      blocks.push(<PlanBlock key={blocks.length} part={part} />)
+    } else if (part.type === 'artifact') {
+      blocks.push(
+        <ArtifactCard
+          key={blocks.length}
+          part={part}
+          onOpen={onOpenArtifact && (() => onOpenArtifact(part.artifactId, messageId))}
+        />
+      )
+    } else if (part.type === 'tool-call') {
+      // Show the call and its result in one block
+      const result = parts.find(
+        (p): p is ToolResultPart => p.type === 'tool-result' && p.toolCallId === part.toolCallId
+      )
+      if (result) renderedResults.add(result)
+      blocks.push(<ToolCallBlock key={blocks.length} call={part} result={result} />)
+    } else if (!renderedResults.has(part)) {
+      blocks.push(<ToolCallBlock key={blocks.length} result={part} />)
+    }
+  }
+  flushText()
 
-  return <MarkdownPart content={combinedText} />
+  return <>{blocks}</>
 })
 
 PartsRenderer.displayName = 'PartsRenderer'
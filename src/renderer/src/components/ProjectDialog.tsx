@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { FileTextIcon } from '@phosphor-icons/react'
+import type { Project, ProjectDocument } from '@shared/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { ProviderIcon } from '@/components/ProviderIcon'
+
+interface ProjectDialogProps {
+  projectId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Description, custom instructions and knowledge files of a project or custom GPT, as
+ * last synced. ChatGPT only lists project files, so their text isn't shown.
+ */
+export function ProjectDialog({ projectId, open, onOpenChange }: ProjectDialogProps) {
+  const [data, setData] = useState<{ project: Project; documents: ProjectDocument[] } | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    window.api?.projects.get(projectId).then(setData)
+  }, [open, projectId])
+
+  const project = data?.project.id === projectId ? data.project : null
+  const documents = project ? data!.documents : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {project && <ProviderIcon provider={project.provider} size={16} />}
+            <span className="truncate">{project?.name ?? 'Project'}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {project && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            <p className="text-muted-foreground">
+              {project.kind === 'gpt' ? 'Custom GPT' : 'Project'} · {project.conversationCount}{' '}
+              conversations
+            </p>
+            {project.description && <p>{project.description}</p>}
+
+            <section className="space-y-1">
+              <h4 className="text-xs font-medium uppercase text-muted-foreground">Instructions</h4>
+              {project.instructions ? (
+                <p className="whitespace-pre-wrap rounded-md bg-muted p-2 text-sm">
+                  {project.instructions}
+                </p>
+              ) : (
+                <p className="text-muted-foreground">None synced</p>
+              )}
+            </section>
+
+            <section className="space-y-1">
+              <h4 className="text-xs font-medium uppercase text-muted-foreground">Files</h4>
+              {documents.length === 0 && <p className="text-muted-foreground">No files</p>}
+              {documents.map((document) =>
+                document.content ? (
+                  <details key={document.id} className="group">
+                    <summary className="flex cursor-pointer items-center gap-1.5">
+                      <FileTextIcon size={14} className="shrink-0 text-muted-foreground" />
+                      <span className="truncate">{document.filename}</span>
+                    </summary>
+                    <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">
+                      {document.content}
+                    </pre>
+                  </details>
+                ) : (
+                  <div key={document.id} className="flex items-center gap-1.5">
+                    <FileTextIcon size={14} className="shrink-0 text-muted-foreground" />
+                    <span className="truncate">{document.filename}</span>
+                  </div>
+                )
+              )}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
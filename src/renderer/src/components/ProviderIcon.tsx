@@ -0,0 +1,29 @@
+import { PlugIcon } from '@phosphor-icons/react'
+import type { ProviderName } from '@shared/types'
+import { useRegisteredProviders } from '@/lib/store'
+import { getBuiltinProvider } from '@/lib/providers'
+
+type ProviderIconProps = {
+  provider: ProviderName
+  size?: number
+}
+
+/**
+ * Bundled icon of a built-in provider, the icon from a plugin's manifest, or a plug.
+ */
+export function ProviderIcon({ provider, size = 24 }: ProviderIconProps) {
+  const providers = useRegisteredProviders()
+  const builtin = getBuiltinProvider(provider)
+
+  if (builtin) {
+    const Icon = builtin.icon
+    return <Icon size={size} />
+  }
+
+  const iconUrl = providers.find((p) => p.id === provider)?.iconUrl
+  if (iconUrl) {
+    return <img src={iconUrl} width={size} height={size} alt="" className="shrink-0" />
+  }
+
+  return <PlugIcon size={size} />
+}
@@ -1,29 +1,30 @@
 'use client'
 
 import { useState } from 'react'
-import { useProvidersState } from '@/lib/store'
-import { AI_PROVIDERS } from '@/constants'
+import type { ProviderName } from '@shared/types'
+import { useProvidersState, useRegisteredProviders } from '@/lib/store'
 import { Button } from '@/components/ui/button'
+import { ProviderIcon } from '@/components/ProviderIcon'
 
 type ProvidersListProps = {
   showTitle?: boolean
-  onConnect?: (accountId: 'chatgpt' | 'claude' | 'perplexity') => void
+  onConnect?: (accountId: ProviderName) => void
 }
 
 export function ProvidersList({ showTitle = true, onConnect }: ProvidersListProps) {
-  // Get provider states from store
+  // Get registered providers and their states from store
+  const providers = useRegisteredProviders()
   const providersState = useProvidersState()
   const [disconnecting, setDisconnecting] = useState<string | null>(null)
 
   // Build accounts list from store state
-  const accounts = Object.values(AI_PROVIDERS).map((provider) => ({
+  const accounts = providers.map((provider) => ({
     id: provider.id,
     name: provider.name,
-    status: providersState[provider.id].isOnline ? 'connected' : 'disconnected',
-    icon: provider.icon
+    status: providersState[provider.id]?.isOnline ? 'connected' : 'disconnected'
   }))
 
-  const handleConnect = async (providerId: 'chatgpt' | 'claude' | 'perplexity') => {
+  const handleConnect = async (providerId: ProviderName) => {
     try {
       await window.api!.auth.login(providerId)
 
@@ -36,7 +37,7 @@ export function ProvidersList({ showTitle = true, onConnect }: ProvidersListProp
     }
   }
 
-  const handleDisconnect = async (providerId: 'chatgpt' | 'claude' | 'perplexity') => {
+  const handleDisconnect = async (providerId: ProviderName) => {
     try {
       setDisconnecting(providerId)
       await window.api!.auth.logout(providerId)
@@ -52,7 +53,6 @@ export function ProvidersList({ showTitle = true, onConnect }: ProvidersListProp
       {showTitle && <h3 className="text-base font-medium mb-3">Connected Accounts</h3>}
       <div className="space-y-2">
         {accounts.map((account) => {
-          const Icon = AI_PROVIDERS[account.id].icon
           const isDisconnecting = disconnecting === account.id
           return (
             <div
@@ -61,7 +61,7 @@ export function ProvidersList({ showTitle = true, onConnect }: ProvidersListProp
             >
               <div className="flex items-center gap-2">
                 <div className="text-xs text-muted-foreground">
-                  <Icon size={24} />
+                  <ProviderIcon provider={account.id} size={24} />
                 </div>
                 <div className="text-sm font-medium">{account.name}</div>
               </div>
@@ -0,0 +1,27 @@
+'use client'
+
+import { memo } from 'react'
+import { ArrowBendDownRightIcon } from '@phosphor-icons/react'
+
+interface RelatedQueriesProps {
+  queries: string[]
+}
+
+// Follow-up questions suggested by the provider under an answer
+export const RelatedQueries = memo(function RelatedQueries({ queries }: RelatedQueriesProps) {
+  if (queries.length === 0) return null
+
+  return (
+    <div className="mt-4 border-t border-border pt-3">
+      <div className="text-sm font-medium text-muted-foreground">Related</div>
+      <ul className="mt-2 divide-y divide-border">
+        {queries.map((query, index) => (
+          <li key={index} className="flex items-start gap-2 py-2 text-sm">
+            <ArrowBendDownRightIcon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+            <span>{query}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+})
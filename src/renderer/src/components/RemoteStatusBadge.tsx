@@ -0,0 +1,30 @@
+import type { Conversation } from '@shared/types'
+import { cn } from '@/lib/cn'
+
+type RemoteStatusBadgeProps = {
+  conversation: Pick<Conversation, 'remoteStatus' | 'remoteDeletedAt'>
+  className?: string
+}
+
+/**
+ * "Archived" or "Deleted" on conversations the provider no longer lists, with the date
+ * it was noticed. Nothing otherwise.
+ */
+export function RemoteStatusBadge({ conversation, className }: RemoteStatusBadgeProps) {
+  const { remoteStatus, remoteDeletedAt } = conversation
+  if (!remoteStatus) return null
+
+  const label = remoteStatus === 'archived' ? 'Archived' : 'Deleted'
+  const since = remoteDeletedAt ? ` since ${new Date(remoteDeletedAt).toLocaleDateString()}` : ''
+  return (
+    <span
+      className={cn(
+        'shrink-0 rounded px-1 text-[10px] font-medium uppercase bg-muted text-muted-foreground',
+        className
+      )}
+      title={`${label} on the provider${since}. The local copy is kept.`}
+    >
+      {label}
+    </span>
+  )
+}
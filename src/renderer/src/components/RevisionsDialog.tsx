@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react'
+import type {
+  ConversationRevision,
+  ConversationRevisionSummary,
+  ConversationSnapshot
+} from '@shared/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { diffMessages, getRevisionMessageText, type MessageChange } from '@/lib/revision-diff'
+import { diffLines, type DiffLine } from '@/lib/artifact-utils'
+import { cn } from '@/lib/cn'
+
+interface RevisionsDialogProps {
+  conversationId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const CHANGE_LABELS: Record<Exclude<MessageChange['type'], 'unchanged'>, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed'
+}
+
+function Lines({ lines }: { lines: DiffLine[] }) {
+  return (
+    <pre className="max-h-80 overflow-auto rounded-md bg-muted py-2 text-xs">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'whitespace-pre-wrap break-words px-2',
+            line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+            line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400'
+          )}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+function MessageDiff({ change }: { change: Exclude<MessageChange, { type: 'unchanged' }> }) {
+  const message = change.type === 'removed' ? change.before : change.after
+  const lines: DiffLine[] =
+    change.type === 'changed'
+      ? diffLines(getRevisionMessageText(change.before), getRevisionMessageText(change.after))
+      : getRevisionMessageText(message)
+          .split('\n')
+          .map((text) => ({ type: change.type === 'added' ? 'added' : 'removed', text }))
+
+  return (
+    <section className="space-y-1">
+      <h4 className="text-xs font-medium uppercase text-muted-foreground">
+        {CHANGE_LABELS[change.type]} · {message.role}
+        {message.model && ` (${message.model})`}
+      </h4>
+      <Lines lines={lines} />
+    </section>
+  )
+}
+
+/**
+ * Earlier states of a conversation, kept when a sync changed its title or messages, each
+ * compared with the current one: renamed title, and added, removed and changed messages
+ * with a line diff of their text.
+ */
+export function RevisionsDialog({ conversationId, open, onOpenChange }: RevisionsDialogProps) {
+  const [revisions, setRevisions] = useState<ConversationRevisionSummary[] | null>(null)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [data, setData] = useState<{
+    revision: ConversationRevision
+    current: ConversationSnapshot
+  } | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    // eslint-disable-next-line
+    setRevisions(null)
+    setData(null)
+    window.api?.revisions.list(conversationId).then((list) => {
+      setRevisions(list)
+      setSelectedId(list[0]?.id ?? null)
+    })
+  }, [open, conversationId])
+
+  useEffect(() => {
+    if (selectedId === null) return
+    window.api?.revisions.get(selectedId).then(setData)
+  }, [selectedId])
+
+  const revision = data?.revision.id === selectedId ? data.revision : null
+  const changes =
+    revision && data
+      ? diffMessages(revision.messages, data.current.messages).filter(
+          (change): change is Exclude<MessageChange, { type: 'unchanged' }> =>
+            change.type !== 'unchanged'
+        )
+      : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+        </DialogHeader>
+
+        {revisions?.length === 0 && (
+          <p className="text-muted-foreground">
+            No earlier versions. One is kept each time a sync finds the conversation changed.
+          </p>
+        )}
+
+        {revisions && revisions.length > 0 && (
+          <div className="flex max-h-[70vh] gap-4">
+            <div className="w-56 shrink-0 space-y-0.5 overflow-y-auto">
+              {revisions.map((item) => (
+                <button
+                  key={item.id}
+                  onClick={() => setSelectedId(item.id)}
+                  className={cn(
+                    'w-full rounded-md px-2 py-1.5 text-left hover:bg-muted',
+                    item.id === selectedId && 'bg-muted'
+                  )}
+                >
+                  <div className="truncate">{item.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(item.syncedAt ?? item.recordedAt).toLocaleString()} ·{' '}
+                    {item.messageCount} messages
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="min-w-0 flex-1 space-y-4 overflow-y-auto">
+              {revision && data && (
+                <>
+                  <p className="text-muted-foreground">
+                    Replaced on {new Date(revision.recordedAt).toLocaleString()}. Compared with the
+                    current version:
+                  </p>
+                  {revision.title !== data.current.title && (
+                    <section className="space-y-1">
+                      <h4 className="text-xs font-medium uppercase text-muted-foreground">Title</h4>
+                      <Lines
+                        lines={[
+                          { type: 'removed', text: revision.title },
+                          { type: 'added', text: data.current.title }
+                        ]}
+                      />
+                    </section>
+                  )}
+                  {changes.length === 0 && revision.title === data.current.title && (
+                    <p className="text-muted-foreground">
+                      The messages are the same; only their branches differ.
+                    </p>
+                  )}
+                  {changes.map((change) => (
+                    <MessageDiff
+                      key={`${change.type}:${change.type === 'removed' ? change.before.id : change.after.id}`}
+                      change={change}
+                    />
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
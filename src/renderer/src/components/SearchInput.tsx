@@ -1,6 +1,6 @@
 import * as React from 'react'
 import { cn } from '@/lib/cn'
-import { ChatTextIcon } from '@phosphor-icons/react'
+import { ChatTextIcon, SparkleIcon } from '@phosphor-icons/react'
 import { Tooltip, TooltipTrigger, TooltipContent } from './ui/tooltip'
 
 type SearchInputProps = {
@@ -11,6 +11,8 @@ type SearchInputProps = {
   onCaseSensitiveChange?: (value: boolean) => void
   searchInMessages?: boolean
   onSearchInMessagesChange?: (value: boolean) => void
+  semantic?: boolean
+  onSemanticChange?: (value: boolean) => void
   className?: string
 }
 
@@ -22,6 +24,8 @@ export function SearchInput({
   onCaseSensitiveChange,
   searchInMessages = false,
   onSearchInMessagesChange,
+  semantic = false,
+  onSemanticChange,
   className
 }: SearchInputProps) {
   const [isFocused, setIsFocused] = React.useState(false)
@@ -98,7 +102,30 @@ export function SearchInput({
             >
               <ChatTextIcon size={12} />
             </TooltipTrigger>
-            <TooltipContent side="bottom">Search in Messages</TooltipContent>
+            <TooltipContent side="bottom">
+              Search in Messages (supports &quot;phrases&quot;, prefix*, AND / OR / NOT)
+            </TooltipContent>
+          </Tooltip>
+        )}
+        {onSemanticChange && (
+          <Tooltip disableHoverablePopup>
+            <TooltipTrigger
+              onClick={(e) => {
+                e.stopPropagation()
+                onSemanticChange(!semantic)
+              }}
+              className={cn(
+                'size-6 rounded-sm corner-round flex items-center justify-center border',
+                semantic
+                  ? 'text-foreground border-foreground bg-foreground/10'
+                  : 'text-muted-foreground border-transparent hover:text-muted-foreground hover:text-foreground hover:bg-muted/50'
+              )}
+            >
+              <SparkleIcon size={12} />
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              Semantic Search (find conversations by meaning)
+            </TooltipContent>
           </Tooltip>
         )}
       </div>
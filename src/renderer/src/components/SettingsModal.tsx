@@ -1,8 +1,11 @@
 'use client'
 
 import { ProvidersList } from './ProvidersList'
+import { McpClients } from './McpClients'
+import { MirrorSettings } from './MirrorSettings'
 import { useState, useEffect } from 'react'
-import { CopyIcon, CheckIcon } from '@phosphor-icons/react'
+import type { McpStdioConfig } from '@shared/types'
+import { CopyIcon, CheckIcon, SpinnerIcon, UploadSimpleIcon } from '@phosphor-icons/react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
@@ -12,12 +15,17 @@ import { Label } from '@/components/ui/label'
 type SettingsModalProps = {
   open: boolean
   onOpenChange: (open: boolean) => void
+  onImportComplete?: () => void
 }
 
-export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
+export function SettingsModal({ open, onOpenChange, onImportComplete }: SettingsModalProps) {
   const [mcpEnabled, setMcpEnabled] = useState(false)
   const [mcpPort, setMcpPort] = useState(3000)
-  const [copied, setCopied] = useState(false)
+  const [mcpToken, setMcpToken] = useState<string | null>(null)
+  const [stdioConfig, setStdioConfig] = useState<McpStdioConfig | null>(null)
+  const [copied, setCopied] = useState<'http' | 'stdio' | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importStatus, setImportStatus] = useState<string | null>(null)
 
   useEffect(() => {
     // Load settings on mount
@@ -25,6 +33,7 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       setMcpEnabled(settings.mcpEnabled)
       setMcpPort(settings.mcpPort)
     })
+    window.api.mcp.getStdioConfig().then(setStdioConfig)
   }, [])
 
   const handleConnect = () => {
@@ -47,7 +56,10 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       {
         mcpServers: {
           ownyourchat: {
-            url: `http://localhost:${mcpPort}/mcp`
+            url: `http://localhost:${mcpPort}/mcp`,
+            headers: {
+              Authorization: `Bearer ${mcpToken ?? '<token>'}`
+            }
           }
         }
       },
@@ -56,10 +68,38 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     )
   }
 
-  const handleCopyConfig = () => {
-    navigator.clipboard.writeText(getMcpConfig())
-    setCopied(true)
-    setTimeout(() => setCopied(false), 2000)
+  // For clients that launch servers as processes; works while the app is closed
+  const getStdioConfig = () => {
+    return JSON.stringify({ mcpServers: { ownyourchat: stdioConfig } }, null, 2)
+  }
+
+  const handleCopyConfig = (config: 'http' | 'stdio') => {
+    navigator.clipboard.writeText(config === 'http' ? getMcpConfig() : getStdioConfig())
+    setCopied(config)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    setImportStatus(null)
+    try {
+      const response = await window.api.import.archive()
+      if (response.canceled) return
+      if (!response.success || !response.result) {
+        setImportStatus(response.error || 'Import failed')
+        return
+      }
+
+      const { imported, skipped, attachments } = response.result
+      setImportStatus(
+        `Imported ${imported} conversations` +
+          (skipped > 0 ? `, skipped ${skipped} already up to date` : '') +
+          (attachments > 0 ? `, ${attachments} attachments` : '')
+      )
+      onImportComplete?.()
+    } finally {
+      setIsImporting(false)
+    }
   }
 
   return (
@@ -75,6 +115,28 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
           {/* Connected Accounts Section */}
           <ProvidersList onConnect={handleConnect} />
 
+          {/* Import Section */}
+          <div className="space-y-2">
+            <h3 className="text-base font-medium">Import</h3>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Import a ChatGPT or Claude data export (.zip) without connecting an account.
+              </p>
+              <Button onClick={handleImport} variant="outline" size="sm" disabled={isImporting}>
+                {isImporting ? (
+                  <SpinnerIcon size={14} className="animate-spin" />
+                ) : (
+                  <UploadSimpleIcon size={14} />
+                )}
+                Import
+              </Button>
+            </div>
+            {importStatus && <p className="text-xs text-muted-foreground">{importStatus}</p>}
+          </div>
+
+          {/* Mirror Section */}
+          <MirrorSettings />
+
           {/* MCP Server Section */}
           <div className="space-y-4">
             <h3 className="text-base font-medium">MCP Server</h3>
@@ -101,12 +163,14 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
               />
             </div>
 
+            <McpClients onTokenCreated={setMcpToken} />
+
             {/* Configuration JSON */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>JSON Configuration</Label>
-                <Button onClick={handleCopyConfig} variant="outline" size="xs">
-                  {copied ? (
+                <Button onClick={() => handleCopyConfig('http')} variant="outline" size="xs">
+                  {copied === 'http' ? (
                     <>
                       <CheckIcon size={14} />
                       Copied
@@ -123,6 +187,35 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                 {getMcpConfig()}
               </pre>
             </div>
+
+            {/* Stdio configuration */}
+            {stdioConfig && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Stdio Configuration</Label>
+                  <Button onClick={() => handleCopyConfig('stdio')} variant="outline" size="xs">
+                    {copied === 'stdio' ? (
+                      <>
+                        <CheckIcon size={14} />
+                        Copied
+                      </>
+                    ) : (
+                      <>
+                        <CopyIcon size={14} />
+                        Copy
+                      </>
+                    )}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  For clients that only launch servers as commands, e.g. Claude Desktop. Reads the
+                  database without a token, even when OwnYourChat is closed.
+                </p>
+                <pre className="text-xs bg-muted border border-border rounded p-3 overflow-x-auto">
+                  {getStdioConfig()}
+                </pre>
+              </div>
+            )}
           </div>
         </div>
       </DialogContent>
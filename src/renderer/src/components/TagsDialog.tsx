@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react'
+import { XIcon } from '@phosphor-icons/react'
+import type { Conversation, TagCount } from '@shared/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+interface TagsDialogProps {
+  conversation: Conversation
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConversationChange: (conversation: Conversation) => void
+}
+
+const SUGGESTIONS_MAX = 8
+
+/**
+ * Adds and removes the tags of a conversation. Each change is saved right away; the
+ * main process normalizes the names (lower case, dashes instead of spaces).
+ */
+export function TagsDialog({
+  conversation,
+  open,
+  onOpenChange,
+  onConversationChange
+}: TagsDialogProps) {
+  const [input, setInput] = useState('')
+  const [allTags, setAllTags] = useState<TagCount[]>([])
+  const tags = conversation.tags ?? []
+
+  useEffect(() => {
+    if (!open) return
+    // eslint-disable-next-line
+    setInput('')
+    window.api?.tags.list().then(setAllTags)
+  }, [open])
+
+  const saveTags = async (next: string[]) => {
+    const updated = await window.api?.conversations.setTags(conversation.id, next)
+    if (updated) onConversationChange(updated)
+  }
+
+  const handleAdd = async (tag: string) => {
+    setInput('')
+    if (!tag.trim()) return
+    await saveTags([...tags, tag])
+  }
+
+  const query = input.trim().replace(/^#/, '').toLowerCase()
+  const suggestions = allTags
+    .filter(({ tag }) => !tags.includes(tag) && tag.startsWith(query))
+    .slice(0, SUGGESTIONS_MAX)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1.5">
+          {tags.length === 0 && <p className="text-muted-foreground">No tags yet</p>}
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-0.5 rounded-md bg-secondary pl-2 text-sm"
+            >
+              #{tag}
+              <Button
+                variant="ghost"
+                size="icon-xs"
+                aria-label={`Remove ${tag}`}
+                onClick={() => saveTags(tags.filter((t) => t !== tag))}
+              >
+                <XIcon />
+              </Button>
+            </span>
+          ))}
+        </div>
+
+        <Input
+          autoFocus
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault()
+              handleAdd(input)
+            }
+          }}
+          placeholder="Add a tag and press Enter..."
+        />
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {suggestions.map(({ tag, count }) => (
+              <Button key={tag} variant="outline" size="xs" onClick={() => handleAdd(tag)}>
+                #{tag}
+                <span className="text-muted-foreground">{count}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,30 +1,33 @@
 import { OpenAiLogoIcon } from '@phosphor-icons/react'
 import { ClaudeIcon } from '@/components/ui/icons/claude'
 import { PerplexityIcon } from '@/components/ui/icons/perplexity'
+import { GeminiIcon } from '@/components/ui/icons/gemini'
+import { GrokIcon } from '@/components/ui/icons/grok'
 
 export const AI_PROVIDERS = {
   chatgpt: {
     id: 'chatgpt',
     name: 'ChatGPT',
-    icon: OpenAiLogoIcon,
-    openConversation: (conversationId: string) => {
-      window.api?.shell.openExternal(`https://chatgpt.com/c/${conversationId}`)
-    }
+    icon: OpenAiLogoIcon
   },
   claude: {
     id: 'claude',
     name: 'Claude',
-    icon: ClaudeIcon,
-    openConversation: (conversationId: string) => {
-      window.api?.shell.openExternal(`https://claude.ai/chat/${conversationId}`)
-    }
+    icon: ClaudeIcon
   },
   perplexity: {
     id: 'perplexity',
     name: 'Perplexity',
-    icon: PerplexityIcon,
-    openConversation: (conversationId: string) => {
-      window.api?.shell.openExternal(`https://www.perplexity.ai/search/${conversationId}`)
-    }
+    icon: PerplexityIcon
+  },
+  gemini: {
+    id: 'gemini',
+    name: 'Gemini',
+    icon: GeminiIcon
+  },
+  grok: {
+    id: 'grok',
+    name: 'Grok',
+    icon: GrokIcon
   }
 } as const
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, getArtifactPreviewKind, highlightCode } from '../artifact-utils'
+
+describe('highlightCode', () => {
+  it('should highlight code with highlight.js classes and escape it', () => {
+    const html = highlightCode('const x = "<b>" // note', 'JavaScript')
+
+    expect(html).toContain('<span class="hljs-keyword">const</span>')
+    expect(html).toContain('<span class="hljs-comment">// note</span>')
+    expect(html).toContain('&lt;b&gt;')
+  })
+
+  it('should return null for languages it does not know', () => {
+    expect(highlightCode('x', 'not-a-language')).toBeNull()
+    expect(highlightCode('x', null)).toBeNull()
+  })
+})
+
+describe('diffLines', () => {
+  it('should mark added and removed lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'equal', text: 'c' },
+      { type: 'added', text: 'd' }
+    ])
+  })
+
+  it('should keep moved blocks as common lines where possible', () => {
+    const diff = diffLines('x\na\nb\nc', 'a\nb\nc\nx')
+
+    expect(diff.filter((line) => line.type === 'equal').map((line) => line.text)).toEqual([
+      'a',
+      'b',
+      'c'
+    ])
+  })
+
+  it('should return only equal lines for identical text', () => {
+    expect(diffLines('same\ntext', 'same\ntext').every((line) => line.type === 'equal')).toBe(true)
+  })
+})
+
+describe('getArtifactPreviewKind', () => {
+  it('should preview markdown and svg only', () => {
+    expect(getArtifactPreviewKind({ type: 'text/markdown' })).toBe('markdown')
+    expect(getArtifactPreviewKind({ type: 'image/svg+xml' })).toBe('svg')
+    expect(getArtifactPreviewKind({ type: 'application/vnd.ant.code' })).toBeNull()
+  })
+})
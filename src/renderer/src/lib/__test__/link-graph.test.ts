@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { findClusters, layoutLinkGraph } from '../link-graph'
+import type { LinkGraph, LinkGraphEdge } from '../../../../shared/types'
+
+function edge(source: string, target: string, kind: LinkGraphEdge['kind'] = 'link'): LinkGraphEdge {
+  return { source, target, kind, weight: 1 }
+}
+
+const graph: LinkGraph = {
+  nodes: ['a', 'b', 'c', 'd', 'e'].map((id) => ({ id, title: id, provider: 'chatgpt' })),
+  edges: [edge('a', 'b'), edge('b', 'c', 'source'), edge('d', 'e')]
+}
+
+describe('findClusters', () => {
+  it('should number connected conversations by cluster size', () => {
+    const clusters = findClusters(['a', 'b', 'c', 'd', 'e', 'f'], graph.edges)
+
+    expect(clusters.get('a')).toBe(0)
+    expect(clusters.get('b')).toBe(0)
+    expect(clusters.get('c')).toBe(0)
+    expect(clusters.get('d')).toBe(1)
+    expect(clusters.get('e')).toBe(1)
+    expect(clusters.get('f')).toBe(2)
+  })
+
+  it('should ignore edges to unknown conversations', () => {
+    const clusters = findClusters(['a', 'b'], [edge('a', 'x')])
+
+    expect(clusters.get('a')).not.toBe(clusters.get('b'))
+  })
+})
+
+describe('layoutLinkGraph', () => {
+  const layout = layoutLinkGraph(graph, { width: 800, height: 600 })
+  const position = (id: string) => layout.nodes.find((node) => node.id === id)!
+  const distance = (a: string, b: string) =>
+    Math.hypot(position(a).x - position(b).x, position(a).y - position(b).y)
+
+  it('should keep every node inside the canvas', () => {
+    for (const node of layout.nodes) {
+      expect(node.x).toBeGreaterThanOrEqual(0)
+      expect(node.x).toBeLessThanOrEqual(800)
+      expect(node.y).toBeGreaterThanOrEqual(0)
+      expect(node.y).toBeLessThanOrEqual(600)
+    }
+  })
+
+  it('should place linked conversations closer than unlinked ones', () => {
+    expect(distance('a', 'b')).toBeLessThan(distance('a', 'd'))
+    expect(distance('d', 'e')).toBeLessThan(distance('b', 'e'))
+  })
+
+  it('should report clusters and degrees', () => {
+    expect(layout.clusterCount).toBe(2)
+    expect(position('b').degree).toBe(2)
+    expect(position('e').cluster).toBe(1)
+  })
+
+  it('should lay out the same graph the same way', () => {
+    expect(layoutLinkGraph(graph, { width: 800, height: 600 })).toEqual(layout)
+  })
+})
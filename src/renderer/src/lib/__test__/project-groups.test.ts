@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { groupByProject, NO_PROJECT_KEY } from '../project-groups'
+import type { Conversation } from '../../../../shared/types'
+
+const thesis = { id: 'g-p-1', name: 'Thesis', kind: 'project' as const }
+const writer = { id: 'g-2', name: 'Writer', kind: 'gpt' as const }
+
+function conversation(id: string, project: Conversation['project']) {
+  return { id, project }
+}
+
+const conversations = [
+  conversation('a', null),
+  conversation('b', writer),
+  conversation('c', thesis),
+  conversation('d', writer),
+  conversation('e', undefined)
+]
+
+describe('groupByProject', () => {
+  it('should order groups by their most recent conversation, ungrouped last', () => {
+    const rows = groupByProject(conversations, new Set())
+
+    expect(
+      rows.map((row) =>
+        row.type === 'project' ? `[${row.key}:${row.count}]` : row.conversation.id
+      )
+    ).toEqual([`[g-2:2]`, 'b', 'd', '[g-p-1:1]', 'c', `[${NO_PROJECT_KEY}:2]`, 'a', 'e'])
+  })
+
+  it('should keep only the header of collapsed groups', () => {
+    const rows = groupByProject(conversations, new Set(['g-2']))
+
+    expect(rows[0]).toEqual({
+      type: 'project',
+      key: 'g-2',
+      project: writer,
+      count: 2,
+      collapsed: true
+    })
+    expect(rows[1]).toMatchObject({ type: 'project', key: 'g-p-1' })
+  })
+})
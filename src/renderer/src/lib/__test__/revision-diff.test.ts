@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import type { RevisionMessage } from '../../../../shared/types'
+import { diffMessages, getRevisionMessageText } from '../revision-diff'
+
+function message(id: string, text: string): RevisionMessage {
+  return { id, parentId: null, role: 'assistant', parts: [{ type: 'text', text }] }
+}
+
+describe('diffMessages', () => {
+  it('should match messages by ID and tell apart changed ones', () => {
+    const changes = diffMessages(
+      [message('a', 'Hi'), message('b', 'Old answer')],
+      [message('a', 'Hi'), message('b', 'New answer'), message('c', 'Follow-up')]
+    )
+
+    expect(changes.map((change) => change.type)).toEqual(['unchanged', 'changed', 'added'])
+  })
+
+  it('should keep removed messages where they were', () => {
+    const changes = diffMessages(
+      [message('x', 'Gone first'), message('a', 'Hi'), message('b', 'Gone'), message('c', 'Bye')],
+      [message('a', 'Hi'), message('c', 'Bye')]
+    )
+
+    expect(
+      changes.map(
+        (change) => `${change.type}:${'after' in change ? change.after.id : change.before.id}`
+      )
+    ).toEqual(['removed:x', 'unchanged:a', 'removed:b', 'unchanged:c'])
+  })
+})
+
+describe('getRevisionMessageText', () => {
+  it('should join the text of the parts', () => {
+    expect(
+      getRevisionMessageText({
+        id: 'a',
+        parentId: null,
+        role: 'assistant',
+        parts: [
+          { type: 'reasoning', text: 'Thinking' },
+          { type: 'text', text: 'Answer' },
+          { type: 'artifact', artifactId: 'doc', command: 'create', content: 'Draft' }
+        ]
+      })
+    ).toBe('Thinking\nAnswer\nDraft')
+  })
+})
@@ -0,0 +1,93 @@
+import hljs from 'highlight.js/lib/common'
+import type { ArtifactVersion } from '../../../shared/types'
+
+export type DiffLine = {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Code highlighted by highlight.js, as HTML with its `hljs-*` classes (the code itself is
+ * escaped). Null when the language isn't one of the common languages it bundles.
+ */
+export function highlightCode(code: string, language?: string | null): string | null {
+  const lang = language?.trim().toLowerCase()
+  if (!lang || !hljs.getLanguage(lang)) return null
+  return hljs.highlight(code, { language: lang, ignoreIllegals: true }).value
+}
+
+// Above this many line pairs, the changed middle is shown as a block replacement
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Line diff between two versions (longest common subsequence).
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Unchanged head and tail don't need the LCS table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'equal', text }))
+  const tail: DiffLine[] = a.slice(endA).map((text) => ({ type: 'equal', text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail
+    ]
+  }
+
+  // lcs[i][j] = length of the LCS of midA[i:] and midB[j:]
+  const lcs = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  )
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const middle: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'equal', text: midA[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] })
+    } else {
+      middle.push({ type: 'added', text: midB[j++] })
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] })
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] })
+
+  return [...head, ...middle, ...tail]
+}
+
+/**
+ * How the viewer can preview an artifact; everything else is shown as code.
+ */
+export function getArtifactPreviewKind(
+  artifact: Pick<ArtifactVersion, 'type'>
+): 'markdown' | 'svg' | null {
+  if (artifact.type === 'text/markdown') return 'markdown'
+  if (artifact.type === 'image/svg+xml') return 'svg'
+  return null
+}
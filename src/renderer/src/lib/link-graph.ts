@@ -0,0 +1,159 @@
+import type { LinkGraph, LinkGraphEdge } from '../../../shared/types'
+
+export type GraphNodeLayout = LinkGraph['nodes'][number] & {
+  x: number
+  y: number
+  cluster: number // 0 is the largest cluster
+  degree: number
+}
+
+export type GraphLayout = {
+  nodes: GraphNodeLayout[]
+  edges: LinkGraphEdge[]
+  clusterCount: number
+}
+
+// Margin kept free around the layout so labels and large nodes fit
+const PADDING = 24
+
+/**
+ * Group connected conversations. Clusters are numbered by size, largest first.
+ */
+export function findClusters(nodeIds: string[], edges: LinkGraphEdge[]): Map<string, number> {
+  const parent = new Map(nodeIds.map((id) => [id, id]))
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) root = parent.get(root)!
+    // Point everything on the way at the root, so later lookups are short
+    while (id !== root) {
+      const next = parent.get(id)!
+      parent.set(id, root)
+      id = next
+    }
+    return root
+  }
+
+  for (const edge of edges) {
+    if (!parent.has(edge.source) || !parent.has(edge.target)) continue
+    parent.set(find(edge.source), find(edge.target))
+  }
+
+  const members = new Map<string, string[]>()
+  for (const id of nodeIds) {
+    const root = find(id)
+    members.set(root, [...(members.get(root) ?? []), id])
+  }
+
+  const clusters = new Map<string, number>()
+  ;[...members.values()]
+    .sort((a, b) => b.length - a.length)
+    .forEach((ids, index) => {
+      for (const id of ids) clusters.set(id, index)
+    })
+  return clusters
+}
+
+/**
+ * Force-directed layout: linked conversations pull together, all of them push apart and a
+ * weak pull to the center keeps unconnected clusters on screen. Deterministic, so the graph
+ * looks the same every time it's opened.
+ */
+export function layoutLinkGraph(
+  graph: LinkGraph,
+  options: { width: number; height: number; iterations?: number }
+): GraphLayout {
+  const { width, height, iterations = 200 } = options
+  const count = graph.nodes.length
+  const clusters = findClusters(
+    graph.nodes.map((node) => node.id),
+    graph.edges
+  )
+
+  const index = new Map(graph.nodes.map((node, i) => [node.id, i]))
+  const degree = new Array<number>(count).fill(0)
+  const springs: Array<{ a: number; b: number; strength: number }> = []
+  for (const edge of graph.edges) {
+    const a = index.get(edge.source)
+    const b = index.get(edge.target)
+    if (a === undefined || b === undefined || a === b) continue
+    degree[a]++
+    degree[b]++
+    // User links hold tighter than a shared source
+    const strength = Math.min(edge.weight, 3) * (edge.kind === 'link' ? 1.5 : 1)
+    springs.push({ a, b, strength })
+  }
+
+  // Start on a spiral, grouped by cluster
+  const order = graph.nodes
+    .map((node, i) => ({ i, cluster: clusters.get(node.id) ?? 0 }))
+    .sort((a, b) => a.cluster - b.cluster || a.i - b.i)
+  const x = new Array<number>(count)
+  const y = new Array<number>(count)
+  const radius = Math.min(width, height) / 2 - PADDING
+  order.forEach(({ i }, position) => {
+    const distance = radius * Math.sqrt((position + 0.5) / Math.max(count, 1))
+    const angle = position * 2.399963 // Golden angle
+    x[i] = width / 2 + distance * Math.cos(angle)
+    y[i] = height / 2 + distance * Math.sin(angle)
+  })
+
+  const k = Math.sqrt((width * height) / Math.max(count, 1)) * 0.75
+  let temperature = width / 10
+
+  for (let step = 0; step < iterations; step++) {
+    const dx = new Array<number>(count).fill(0)
+    const dy = new Array<number>(count).fill(0)
+
+    for (let a = 0; a < count; a++) {
+      for (let b = a + 1; b < count; b++) {
+        const ex = x[a] - x[b]
+        const ey = y[a] - y[b]
+        const distance = Math.max(Math.hypot(ex, ey), 0.01)
+        const force = (k * k) / distance
+        dx[a] += (ex / distance) * force
+        dy[a] += (ey / distance) * force
+        dx[b] -= (ex / distance) * force
+        dy[b] -= (ey / distance) * force
+      }
+    }
+
+    for (const { a, b, strength } of springs) {
+      const ex = x[a] - x[b]
+      const ey = y[a] - y[b]
+      const distance = Math.max(Math.hypot(ex, ey), 0.01)
+      const force = ((distance * distance) / k) * strength
+      dx[a] -= (ex / distance) * force
+      dy[a] -= (ey / distance) * force
+      dx[b] += (ex / distance) * force
+      dy[b] += (ey / distance) * force
+    }
+
+    for (let i = 0; i < count; i++) {
+      dx[i] += (width / 2 - x[i]) * 0.1
+      dy[i] += (height / 2 - y[i]) * 0.1
+
+      const length = Math.max(Math.hypot(dx[i], dy[i]), 0.01)
+      const move = Math.min(length, temperature)
+      x[i] = clamp(x[i] + (dx[i] / length) * move, PADDING, width - PADDING)
+      y[i] = clamp(y[i] + (dy[i] / length) * move, PADDING, height - PADDING)
+    }
+
+    temperature = Math.max(temperature * 0.97, 0.5)
+  }
+
+  return {
+    nodes: graph.nodes.map((node, i) => ({
+      ...node,
+      x: x[i],
+      y: y[i],
+      cluster: clusters.get(node.id) ?? 0,
+      degree: degree[i]
+    })),
+    edges: graph.edges,
+    clusterCount: new Set(clusters.values()).size
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,50 @@
+import type { Conversation } from '../../../shared/types'
+
+type Project = NonNullable<Conversation['project']>
+
+export type ChatListRow<T> =
+  | { type: 'project'; key: string; project: Project | null; count: number; collapsed: boolean }
+  | { type: 'conversation'; conversation: T }
+
+// Key of the group for conversations outside any project
+export const NO_PROJECT_KEY = 'no-project'
+
+/**
+ * Rows of the sidebar grouped by project: a header per project, followed by its
+ * conversations unless collapsed. Groups keep the order of their most recent
+ * conversation; conversations outside any project come last.
+ */
+export function groupByProject<T extends Pick<Conversation, 'project'>>(
+  conversations: T[],
+  collapsed: ReadonlySet<string>
+): ChatListRow<T>[] {
+  const groups = new Map<string, { project: Project | null; conversations: T[] }>()
+  for (const conversation of conversations) {
+    const key = conversation.project?.id ?? NO_PROJECT_KEY
+    const group = groups.get(key)
+    if (group) group.conversations.push(conversation)
+    else groups.set(key, { project: conversation.project ?? null, conversations: [conversation] })
+  }
+
+  const ordered = [...groups].sort(
+    ([a], [b]) => Number(a === NO_PROJECT_KEY) - Number(b === NO_PROJECT_KEY)
+  )
+  return ordered.flatMap(([key, group]) => {
+    const isCollapsed = collapsed.has(key)
+    const header: ChatListRow<T> = {
+      type: 'project',
+      key,
+      project: group.project,
+      count: group.conversations.length,
+      collapsed: isCollapsed
+    }
+    if (isCollapsed) return [header]
+    return [
+      header,
+      ...group.conversations.map((conversation) => ({
+        type: 'conversation' as const,
+        conversation
+      }))
+    ]
+  })
+}
@@ -0,0 +1,30 @@
+import type { ProviderInfo, ProviderName } from '@shared/types'
+import { getConversationUrl } from '@shared/conversation-url'
+import { AI_PROVIDERS } from '@/constants'
+
+type BuiltinProvider = (typeof AI_PROVIDERS)[keyof typeof AI_PROVIDERS]
+
+/**
+ * Bundled name and icon of a built-in provider; undefined for plugins.
+ */
+export function getBuiltinProvider(id: ProviderName): BuiltinProvider | undefined {
+  return Object.hasOwn(AI_PROVIDERS, id) ? AI_PROVIDERS[id as keyof typeof AI_PROVIDERS] : undefined
+}
+
+export function getProviderName(providers: ProviderInfo[], id: ProviderName): string {
+  return providers.find((p) => p.id === id)?.name ?? getBuiltinProvider(id)?.name ?? id
+}
+
+export function canOpenConversation(provider: ProviderInfo | undefined): boolean {
+  return !!provider && (!!getBuiltinProvider(provider.id) || !!provider.conversationUrl)
+}
+
+/**
+ * Open a conversation on the provider's website.
+ */
+export function openConversation(provider: ProviderInfo, conversationId: string): void {
+  const url = getConversationUrl(provider.id, conversationId, provider.conversationUrl)
+  if (url) {
+    window.api?.shell.openExternal(url)
+  }
+}
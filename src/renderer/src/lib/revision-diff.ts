@@ -0,0 +1,77 @@
+import type { MessagePart, RevisionMessage } from '../../../shared/types'
+
+export type MessageChange =
+  | { type: 'unchanged' | 'changed'; before: RevisionMessage; after: RevisionMessage }
+  | { type: 'added'; after: RevisionMessage }
+  | { type: 'removed'; before: RevisionMessage }
+
+function getPartText(part: MessagePart): string | null {
+  switch (part.type) {
+    case 'text':
+    case 'reasoning':
+      return part.text
+    case 'tool-call':
+      return part.input
+    case 'tool-result':
+      return part.output
+    case 'code-execution':
+      return part.output !== undefined ? `${part.code}\n${part.output}` : part.code
+    case 'artifact':
+      return part.content ?? part.newStr ?? null
+    case 'source-url':
+      return part.url
+    default:
+      return null
+  }
+}
+
+// Text of a message as compared line by line
+export function getRevisionMessageText(message: RevisionMessage): string {
+  return message.parts
+    .map(getPartText)
+    .filter((text) => text !== null)
+    .join('\n')
+}
+
+function isSameContent(a: RevisionMessage, b: RevisionMessage): boolean {
+  return (
+    a.role === b.role && a.model === b.model && JSON.stringify(a.parts) === JSON.stringify(b.parts)
+  )
+}
+
+/**
+ * Messages of two states of a conversation, matched by ID, in the order of the later
+ * state. A removed message follows the closest earlier message that's still there.
+ */
+export function diffMessages(before: RevisionMessage[], after: RevisionMessage[]): MessageChange[] {
+  const afterIds = new Set(after.map((message) => message.id))
+  const beforeById = new Map(before.map((message) => [message.id, message]))
+
+  const removedAfter = new Map<string | null, MessageChange[]>()
+  let anchor: string | null = null
+  for (const message of before) {
+    if (afterIds.has(message.id)) {
+      anchor = message.id
+      continue
+    }
+    const removed = removedAfter.get(anchor) ?? []
+    removed.push({ type: 'removed', before: message })
+    removedAfter.set(anchor, removed)
+  }
+
+  const changes: MessageChange[] = [...(removedAfter.get(null) ?? [])]
+  for (const message of after) {
+    const previous = beforeById.get(message.id)
+    changes.push(
+      previous
+        ? {
+            type: isSameContent(previous, message) ? 'unchanged' : 'changed',
+            before: previous,
+            after: message
+          }
+        : { type: 'added', after: message }
+    )
+    changes.push(...(removedAfter.get(message.id) ?? []))
+  }
+  return changes
+}
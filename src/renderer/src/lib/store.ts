@@ -5,6 +5,9 @@ import type { AppState } from '@shared/types'
 export const useStore = createUseStore<AppState>()
 
 // Typed selectors for convenience
+export const useRegisteredProviders = () =>
+  useStore<AppState['registeredProviders']>((state) => state.registeredProviders)
+
 export const useProvidersState = () => useStore<AppState['providers']>((state) => state.providers)
 
 export const useAuthState = () => useStore<AppState['auth']>((state) => state.auth)
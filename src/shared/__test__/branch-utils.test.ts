@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { updateBranchSelection, type MessageTree } from '../branch-utils'
-import type { Message } from '../../../../shared/types'
+import {
+  getActiveBranch,
+  getAllBranches,
+  updateBranchSelection,
+  type MessageTree
+} from '../branch-utils'
+import type { Message } from '../types'
 
 describe('updateBranchSelection', () => {
   it('should update selection and clear descendants of old branch', () => {
@@ -102,3 +107,78 @@ describe('updateBranchSelection', () => {
     expect(Object.keys(result)).toEqual(['msg1'])
   })
 })
+
+describe('getActiveBranch', () => {
+  const message = (id: string, parentId: string | null, orderIndex: number): Message => ({
+    id,
+    conversationId: 'conv1',
+    role: orderIndex % 2 === 0 ? 'user' : 'assistant',
+    parts: [{ type: 'text', text: id }],
+    parentId,
+    siblingIds: [],
+    siblingIndex: 0,
+    orderIndex,
+    createdAt: new Date('2024-01-01')
+  })
+
+  // root -> msg1 -> (msg2 -> msg4 | msg3 -> msg5)
+  const messages = [
+    message('root', null, 0),
+    message('msg1', 'root', 1),
+    message('msg2', 'msg1', 2),
+    message('msg3', 'msg1', 3),
+    message('msg4', 'msg2', 4),
+    message('msg5', 'msg3', 5)
+  ]
+
+  it('should follow the path to the current node', () => {
+    const branch = getActiveBranch(messages, 'msg5')
+    expect(branch.map((m) => m.id)).toEqual(['root', 'msg1', 'msg3', 'msg5'])
+  })
+
+  it('should take the first child at each branch without a current node', () => {
+    const branch = getActiveBranch(messages, null)
+    expect(branch.map((m) => m.id)).toEqual(['root', 'msg1', 'msg2', 'msg4'])
+  })
+})
+
+describe('getAllBranches', () => {
+  const message = (id: string, parentId: string | null, orderIndex: number): Message => ({
+    id,
+    conversationId: 'conv1',
+    role: orderIndex % 2 === 0 ? 'user' : 'assistant',
+    parts: [{ type: 'text', text: id }],
+    parentId,
+    siblingIds: [],
+    siblingIndex: 0,
+    orderIndex,
+    createdAt: new Date('2024-01-01')
+  })
+
+  // root -> msg1 -> (msg2 -> msg4 | msg3 -> msg5 | msg6)
+  const messages = [
+    message('root', null, 0),
+    message('msg1', 'root', 1),
+    message('msg2', 'msg1', 2),
+    message('msg3', 'msg1', 3),
+    message('msg4', 'msg2', 4),
+    message('msg5', 'msg3', 5),
+    message('msg6', 'msg1', 6)
+  ]
+
+  it('should list every branch with the active one first', () => {
+    const branches = getAllBranches(messages, 'msg5')
+    expect(branches.map((branch) => branch.map((m) => m.id))).toEqual([
+      ['root', 'msg1', 'msg3', 'msg5'],
+      ['root', 'msg1', 'msg2', 'msg4'],
+      ['root', 'msg1', 'msg6']
+    ])
+  })
+
+  it('should treat unlinked messages as one linear branch', () => {
+    const linear = [message('b', null, 1), message('a', null, 0)]
+    expect(getAllBranches(linear, null).map((branch) => branch.map((m) => m.id))).toEqual([
+      ['a', 'b']
+    ])
+  })
+})
@@ -1,4 +1,4 @@
-import type { Message } from '../../../shared/types'
+import type { Message } from './types'
 
 export interface MessageTree {
   allMessages: Map<string, Message>
@@ -39,6 +39,24 @@ export function buildMessageTree(messages: Message[]): MessageTree {
   return { allMessages, childrenMap, rootIds }
 }
 
+/**
+ * Whether the messages are several roots without children: linear conversations whose
+ * provider doesn't link messages (like Perplexity), rather than one branch per root.
+ */
+function hasOnlyIndependentRoots(tree: MessageTree): boolean {
+  return (
+    tree.rootIds.length > 1 &&
+    tree.rootIds.every((rootId) => (tree.childrenMap.get(rootId) || []).length === 0)
+  )
+}
+
+function getIndependentRoots(tree: MessageTree): Message[] {
+  return tree.rootIds
+    .map((id) => tree.allMessages.get(id))
+    .filter((msg): msg is Message => msg !== undefined)
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+}
+
 /**
  * Get the path from root to a specific node (used for default path).
  * Returns messages in order from root to the target node.
@@ -83,17 +101,8 @@ export function getDisplayPath(
 
   // Special case: If we have multiple roots with no children (linear conversation like Perplexity),
   // return all roots sorted by orderIndex
-  const hasOnlyIndependentRoots = tree.rootIds.every((rootId) => {
-    const children = tree.childrenMap.get(rootId) || []
-    return children.length === 0
-  })
-
-  if (hasOnlyIndependentRoots && tree.rootIds.length > 1) {
-    // Return all roots sorted by orderIndex (for linear conversations)
-    return tree.rootIds
-      .map((id) => tree.allMessages.get(id))
-      .filter((msg): msg is Message => msg !== undefined)
-      .sort((a, b) => a.orderIndex - b.orderIndex)
+  if (hasOnlyIndependentRoots(tree)) {
+    return getIndependentRoots(tree)
   }
 
   // Start from root and follow selections (or first child when no selection)
@@ -125,6 +134,39 @@ export function getDisplayPath(
   return path
 }
 
+/**
+ * Messages on the branch the provider shows by default, ending at its current node.
+ */
+export function getActiveBranch(messages: Message[], currentNodeId: string | null): Message[] {
+  return getDisplayPath(buildMessageTree(messages), {}, currentNodeId)
+}
+
+/**
+ * Every branch from a root to a leaf, the active branch first and the others in message
+ * order. Linear conversations are a single branch.
+ */
+export function getAllBranches(messages: Message[], currentNodeId: string | null): Message[][] {
+  const tree = buildMessageTree(messages)
+  if (tree.rootIds.length === 0) return []
+  if (hasOnlyIndependentRoots(tree)) return [getIndependentRoots(tree)]
+
+  const leafIds: string[] = []
+  const stack = [...tree.rootIds].reverse()
+  let nodeId: string | undefined
+  while ((nodeId = stack.pop()) !== undefined) {
+    const children = tree.childrenMap.get(nodeId) || []
+    if (children.length === 0) {
+      leafIds.push(nodeId)
+    } else {
+      stack.push(...[...children].reverse())
+    }
+  }
+
+  const active = getDisplayPath(tree, {}, currentNodeId)
+  const activeEnd = active[active.length - 1]?.id
+  return [active, ...leafIds.filter((id) => id !== activeEnd).map((id) => getPathToNode(tree, id))]
+}
+
 /**
  * When switching branches, we need to update selections and potentially
  * clear downstream selections that are no longer valid.
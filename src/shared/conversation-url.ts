@@ -0,0 +1,27 @@
+import type { ProviderName } from './types'
+
+// Conversation links on the websites of the built-in providers
+const BUILTIN_CONVERSATION_URLS: Record<string, (conversationId: string) => string> = {
+  chatgpt: (id) => `https://chatgpt.com/c/${id}`,
+  claude: (id) => `https://claude.ai/chat/${id}`,
+  perplexity: (id) => `https://www.perplexity.ai/search/${id}`,
+  // Synced IDs carry a c_ prefix the website doesn't use
+  gemini: (id) => `https://gemini.google.com/app/${id.replace(/^c_/, '')}`,
+  grok: (id) => `https://grok.com/chat/${id}`
+}
+
+/**
+ * Link to a conversation on its provider's website.
+ *
+ * @param template - `conversationUrl` of a plugin provider, `{id}` is replaced with the ID
+ */
+export function getConversationUrl(
+  provider: ProviderName,
+  conversationId: string,
+  template?: string | null
+): string | null {
+  if (Object.hasOwn(BUILTIN_CONVERSATION_URLS, provider)) {
+    return BUILTIN_CONVERSATION_URLS[provider](conversationId)
+  }
+  return template ? template.replace('{id}', encodeURIComponent(conversationId)) : null
+}
@@ -8,12 +8,7 @@ export interface AuthStatus {
 }
 
 export type ProviderStatus =
-  | 'connected'
-  | 'syncing'
-  | 'timeout'
-  | 'logged_out'
-  | 'error'
-  | 'disconnected'
+  'connected' | 'syncing' | 'timeout' | 'logged_out' | 'error' | 'disconnected'
 
 export interface ProviderState {
   isOnline: boolean
@@ -23,13 +18,24 @@ export interface ProviderState {
   isSyncing: boolean
 }
 
+// Provider id: one of the built-in providers or the id from a plugin manifest
+export type ProviderName = string
+
+// What the UI needs to show a registered provider
+export interface ProviderInfo {
+  id: ProviderName
+  name: string
+  builtin: boolean
+  iconUrl: string | null // Data URL of a plugin's icon; built-in icons are bundled with the renderer
+  conversationUrl: string | null // URL template, `{id}` is replaced with the conversation ID
+}
+
 export interface AppState {
+  // Providers in registration order (built-in first, then plugins)
+  registeredProviders: ProviderInfo[]
+
   // Provider states
-  providers: {
-    chatgpt: ProviderState
-    claude: ProviderState
-    perplexity: ProviderState
-  }
+  providers: Record<ProviderName, ProviderState>
 
   // Auth state (derived from providers)
   auth: {
@@ -56,37 +62,129 @@ export interface AppState {
     exportPath: string
     mcpEnabled: boolean
     mcpPort: number
+    mirrorEnabled: boolean
+    mirrorPath: string
+    mirrorFormat: 'markdown' | 'json'
+    mirrorIncludeAttachments: boolean
+    mirrorDeleteRemoved: boolean
+    mirrorMarkdown: MarkdownExportOptions
   }
 
   // UI state
   ui: {
-    connectingProvider: 'chatgpt' | 'claude' | 'perplexity' | null
+    connectingProvider: ProviderName | null
   }
 
   // Actions
-  updateProviderState: (
-    provider: 'chatgpt' | 'claude' | 'perplexity',
-    state: Partial<ProviderState>
-  ) => void
+  registerProvider: (info: ProviderInfo) => void
+  updateProviderState: (provider: ProviderName, state: Partial<ProviderState>) => void
   updateSyncState: (state: Partial<AppState['sync']>) => void
   updateSettings: (settings: Partial<AppState['settings']>) => void
   setAuthState: (auth: Partial<AppState['auth']>) => void
-  setConnectingProvider: (provider: 'chatgpt' | 'claude' | 'perplexity' | null) => void
+  setConnectingProvider: (provider: ProviderName | null) => void
 }
 
 export interface Conversation {
   id: string
   title: string
-  provider: 'chatgpt' | 'claude' | 'perplexity'
+  provider: ProviderName
   createdAt: Date
   updatedAt: Date
   syncedAt: Date
   messageCount: number
   currentNodeId: string | null // Default branch endpoint for navigation
+  mode?: string | null // Provider search mode, e.g. Perplexity 'COPILOT' (Pro Search) or 'RESEARCH'
+  searchFocus?: string | null // Perplexity search focus, e.g. 'internet', 'scholar'
+  project?: { id: string; name: string; kind: ProjectKind } | null // Provider project or custom GPT
+  // Archived or deleted on the provider; the local copy is kept
+  remoteStatus?: RemoteStatus | null
+  remoteDeletedAt?: Date | null // When reconciliation found it archived or deleted
+  // Organization set by the user, kept across syncs
+  starred?: boolean
+  folder?: { id: string; path: string } | null
+  tags?: string[] // Normalized names, sorted
+}
+
+// Full-text search snippets wrap matched terms in these markers
+export const SNIPPET_HIGHLIGHT_START = '\u0002'
+export const SNIPPET_HIGHLIGHT_END = '\u0003'
+
+export interface ConversationSearchResult extends Conversation {
+  snippet?: string // Excerpt of the best matching message (only when searching in messages or semantically)
+}
+
+// Number of conversations with at least one message from a model
+export interface ModelCount {
+  model: string
+  provider: Conversation['provider']
+  count: number
+}
+
+export interface ModeCount {
+  mode: string
+  provider: Conversation['provider']
+  count: number
+}
+
+// Folder the user sorts conversations into
+export interface Folder {
+  id: string
+  name: string
+  parentId: string | null
+  path: string // Names from the top-level folder down, joined with '/'
+  conversationCount: number // Conversations directly in the folder
+}
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+// What happened to a conversation the provider no longer lists
+export type RemoteStatus = 'archived' | 'deleted'
+
+// ChatGPT projects and custom GPTs, Claude projects
+export type ProjectKind = 'project' | 'gpt'
+
+export interface Project {
+  id: string
+  provider: ProviderName
+  kind: ProjectKind
+  name: string
+  description: string | null
+  instructions: string | null // Custom instructions of the project or GPT, when the provider shares them
+  createdAt: Date | null
+  updatedAt: Date | null
+  conversationCount: number
+}
+
+// Knowledge file of a project
+export interface ProjectDocument {
+  id: string
+  projectId: string
+  filename: string
+  content: string | null // Text of the file, null when the provider only lists it
+  createdAt: Date | null
+}
+
+// Filters on the user's organization, accepted by listing, search and export
+export interface OrganizeFilters {
+  tag?: string
+  folder?: string // Folder ID or path ("Work/Clients"), subfolders included
+  starred?: boolean
 }
 
 // Vercel AI SDK compatible message parts
-export type MessagePart = TextPart | SourceUrlPart
+export type MessagePart =
+  | TextPart
+  | SourceUrlPart
+  | ReasoningPart
+  | ToolCallPart
+  | ToolResultPart
+  | CodeExecutionPart
+  | ArtifactPart
+  | PlanPart
+  | RelatedQueriesPart
 
 export type TextPart = {
   type: 'text'
@@ -103,6 +201,172 @@ export type SourceUrlPart = {
   snippet?: string
 }
 
+// Model "thinking" shown before the answer
+export type ReasoningPart = {
+  type: 'reasoning'
+  text: string
+}
+
+export type ToolCallPart = {
+  type: 'tool-call'
+  toolCallId: string
+  toolName: string
+  input: string // Raw call payload (usually JSON)
+}
+
+export type ToolResultPart = {
+  type: 'tool-result'
+  toolCallId: string
+  toolName: string
+  output: string
+}
+
+// Code interpreter run: the code and its execution output
+export type CodeExecutionPart = {
+  type: 'code-execution'
+  toolCallId: string
+  language: string
+  code: string
+  output?: string
+}
+
+// Claude artifact command. Updates replace oldStr with newStr in the previous version
+export type ArtifactPart = {
+  type: 'artifact'
+  artifactId: string
+  command: 'create' | 'update' | 'rewrite'
+  artifactType?: string // e.g. 'text/markdown', 'application/vnd.ant.code', 'image/svg+xml'
+  title?: string
+  language?: string
+  content?: string // Full content (create/rewrite)
+  oldStr?: string // Replaced text (update)
+  newStr?: string // Replacement text (update)
+}
+
+// Research plan steps the assistant went through (Perplexity)
+export type PlanPart = {
+  type: 'plan'
+  steps: string[]
+}
+
+// Suggested follow-up questions shown under the answer (Perplexity)
+export type RelatedQueriesPart = {
+  type: 'related-queries'
+  queries: string[]
+}
+
+// Full content of an artifact after one create/update/rewrite command
+export interface ArtifactVersion {
+  id: string
+  conversationId: string
+  messageId: string
+  artifactId: string
+  version: number // 1-based, in message order
+  command: ArtifactPart['command']
+  type: string | null
+  title: string | null
+  language: string | null
+  content: string
+  createdAt: Date | null
+}
+
+// Message of a conversation as stored at some point (see db/revisions.ts)
+export interface RevisionMessage {
+  id: string
+  parentId: string | null
+  role: 'user' | 'assistant' | 'system'
+  parts: MessagePart[]
+  model?: string
+}
+
+// Title and messages of a conversation, in orderIndex order
+export interface ConversationSnapshot {
+  title: string
+  currentNodeId: string | null
+  messages: RevisionMessage[]
+}
+
+// Earlier state of a conversation, kept when a sync replaced it with different content
+export interface ConversationRevision extends ConversationSnapshot {
+  id: number
+  conversationId: string
+  syncedAt: Date | null // When this state was synced
+  recordedAt: Date // When a sync replaced it
+}
+
+export interface ConversationRevisionSummary {
+  id: number
+  title: string
+  messageCount: number
+  syncedAt: Date | null
+  recordedAt: Date
+}
+
+// Link a user made from a message to another conversation, or to one of its messages
+export interface ConversationLink {
+  id: string
+  sourceConversationId: string
+  sourceMessageId: string
+  targetConversationId: string
+  targetMessageId: string | null // null links the whole conversation
+  createdAt: Date
+}
+
+// A link with the conversation on its other end and the start of the linked or linking message
+export interface LinkedConversation {
+  link: ConversationLink
+  conversation: Conversation
+  snippet: string | null
+}
+
+// Links of one conversation, as shown in the links panel
+export interface ConversationLinks {
+  outgoing: LinkedConversation[]
+  backlinks: LinkedConversation[]
+  related: Array<{ conversation: Conversation; urls: string[] }> // Conversations citing the same URLs
+}
+
+// Conversations connected by links ('link') or by the URLs they cite ('source')
+export interface LinkGraphEdge {
+  source: string
+  target: string
+  kind: 'link' | 'source'
+  weight: number // Number of links or shared URLs
+}
+
+export interface LinkGraph {
+  nodes: Array<Pick<Conversation, 'id' | 'title' | 'provider'>>
+  edges: LinkGraphEdge[]
+}
+
+// MCP client allowed to connect with a bearer token (the token itself is only shown once)
+export interface McpTokenInfo {
+  id: string
+  name: string
+  tokenPrefix: string
+  providers: ProviderName[] | null // Providers the client may read, null for all
+  createdAt: Date
+  lastUsedAt: Date | null
+}
+
+// One MCP call in the audit log
+export interface McpAuditEntry {
+  id: number
+  tokenId: string | null
+  clientName: string
+  method: string // tools/call, resources/read, prompts/get
+  target: string | null // Tool or prompt name, resource URI
+  arguments: string | null // JSON
+  createdAt: Date
+}
+
+// Command that stdio-only MCP clients run to launch the stdio server (see mcp/stdio.ts)
+export interface McpStdioConfig {
+  command: string
+  args: string[]
+  env: Record<string, string>
+}
+
 export interface Message {
   id: string
   conversationId: string
@@ -110,6 +374,7 @@ export interface Message {
   parts: MessagePart[]
   createdAt: Date
   orderIndex: number
+  model?: string // Model that generated the message (assistant messages only)
   attachments?: Attachment[]
   // Branch/tree structure fields
   parentId: string | null // Parent message ID (null for root)
@@ -138,18 +403,40 @@ export interface SyncStatus {
   error: string | null
 }
 
+// Markdown style, e.g. for an Obsidian vault; unset options keep the plain style
+export type MarkdownExportOptions = {
+  frontmatter?: boolean // YAML frontmatter with id, provider, title, dates, model, tags, source
+  roleHeadings?: Partial<Record<Message['role'], string>> // Default: User, Assistant, System
+  footnotes?: boolean // Sources as footnotes instead of inline links
+  wikilinks?: boolean // Attachments as [[wikilinks]] instead of markdown links
+}
+
+// Which messages of a branched conversation are written (see export/utils.ts)
+// - all: every message in orderIndex order, as stored
+// - active: the branch from currentNodeId, as the provider shows it
+// - each: one file per branch, the active one first
+// - tree: JSON only, messages nested under their parent as `children`
+export type ExportBranches = 'all' | 'active' | 'each' | 'tree'
+
+// HTML is self-contained; PDF is printed from the HTML (see export/html.ts)
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf'
+
 export type ExportSettings = {
-  format: 'markdown' | 'json'
+  format: ExportFormat
   includeAttachments: boolean
   prefixTimestamp: boolean
   outputPath: string
+  branches?: ExportBranches
+  markdown?: MarkdownExportOptions
 }
 
 export interface ExportOptions {
-  format: 'markdown' | 'json'
+  format: ExportFormat
   includeAttachments: boolean
   prefixTimestamp?: boolean
   outputPath: string
+  branches?: ExportBranches
+  markdown?: MarkdownExportOptions
 }
 
 // Export progress tracking
@@ -160,6 +447,20 @@ export type ExportProgress = {
   conversationTitle?: string
 }
 
+// Result of bringing the mirror folder up to date (see export/mirror.ts)
+export type MirrorResult = {
+  written: number
+  removed: number
+  unchanged: number
+}
+
+export type ImportResult = {
+  provider: 'chatgpt' | 'claude'
+  imported: number
+  skipped: number
+  attachments: number
+}
+
 // IPC channel names
 export const enum IPC_CHANNELS {
   // Sync
@@ -171,13 +472,49 @@ export const enum IPC_CHANNELS {
   CONVERSATIONS_GET_MESSAGES_PAGE = 'conversations:get-messages-page',
   CONVERSATIONS_SEARCH = 'conversations:search',
   CONVERSATIONS_PROVIDER_COUNTS = 'conversations:provider-counts',
+  CONVERSATIONS_MODELS = 'conversations:models',
+  CONVERSATIONS_MODES = 'conversations:modes',
   CONVERSATIONS_REFRESH = 'conversations:refresh',
+  CONVERSATIONS_SET_STARRED = 'conversations:set-starred',
+  CONVERSATIONS_SET_FOLDER = 'conversations:set-folder',
+  CONVERSATIONS_SET_TAGS = 'conversations:set-tags',
+
+  // Tags and folders
+  TAGS_LIST = 'tags:list',
+  TAGS_RENAME = 'tags:rename',
+  TAGS_DELETE = 'tags:delete',
+  FOLDERS_LIST = 'folders:list',
+  FOLDERS_CREATE = 'folders:create',
+  FOLDERS_RENAME = 'folders:rename',
+  FOLDERS_DELETE = 'folders:delete',
+
+  // Projects
+  PROJECTS_LIST = 'projects:list',
+  PROJECTS_GET = 'projects:get',
 
   // Export
   EXPORT_CONVERSATION = 'export:conversation',
   EXPORT_ALL = 'export:all',
   EXPORT_PROGRESS = 'export:progress',
   EXPORT_CANCEL = 'export:cancel',
+  EXPORT_MIRROR = 'export:mirror',
+
+  // Import
+  IMPORT_ARCHIVE = 'import:archive',
+
+  // Artifacts
+  ARTIFACTS_LIST = 'artifacts:list',
+  ARTIFACTS_EXPORT = 'artifacts:export',
+
+  // Revisions
+  REVISIONS_LIST = 'revisions:list',
+  REVISIONS_GET = 'revisions:get',
+
+  // Links
+  LINKS_LIST = 'links:list',
+  LINKS_CREATE = 'links:create',
+  LINKS_DELETE = 'links:delete',
+  LINKS_GRAPH = 'links:graph',
 
   // Auth
   AUTH_STATUS = 'auth:status',
@@ -187,17 +524,20 @@ export const enum IPC_CHANNELS {
   AUTH_CANCEL_CONNECTION = 'auth:cancel-connection',
 
   // Debug
-  DEBUG_TOGGLE_CHATGPT_VIEW = 'debug:toggle-chatgpt-view',
-  DEBUG_OPEN_CHATGPT_DEVTOOLS = 'debug:open-chatgpt-devtools',
-  DEBUG_TOGGLE_CLAUDE_VIEW = 'debug:toggle-claude-view',
-  DEBUG_OPEN_CLAUDE_DEVTOOLS = 'debug:open-claude-devtools',
-  DEBUG_TOGGLE_PERPLEXITY_VIEW = 'debug:toggle-perplexity-view',
-  DEBUG_OPEN_PERPLEXITY_DEVTOOLS = 'debug:open-perplexity-devtools',
+  DEBUG_TOGGLE_VIEW = 'debug:toggle-view',
+  DEBUG_OPEN_DEVTOOLS = 'debug:open-devtools',
 
   // Settings
   SETTINGS_GET = 'settings:get',
   SETTINGS_SET = 'settings:set',
 
+  // MCP clients
+  MCP_TOKENS_LIST = 'mcp:tokens-list',
+  MCP_TOKENS_CREATE = 'mcp:tokens-create',
+  MCP_TOKENS_REVOKE = 'mcp:tokens-revoke',
+  MCP_AUDIT_LOG = 'mcp:audit-log',
+  MCP_STDIO_CONFIG = 'mcp:stdio-config',
+
   // User Preferences
   USER_PREFERENCES_GET = 'user-preferences:get',
   USER_PREFERENCES_SET = 'user-preferences:set',
@@ -222,11 +562,16 @@ export const enum IPC_CHANNELS {
 // ElectronAPI type definition for window.api
 export interface ElectronAPI {
   conversations: {
-    list: (options?: {
-      limit?: number
-      offset?: number
-      provider?: 'chatgpt' | 'claude' | 'perplexity'
-    }) => Promise<{
+    list: (
+      options?: {
+        limit?: number
+        offset?: number
+        provider?: ProviderName
+        model?: string
+        mode?: string
+        remoteStatus?: RemoteStatus | 'any' // Archived or deleted on the provider
+      } & OrganizeFilters
+    ) => Promise<{
       items: Conversation[]
       total: number
       hasMore: boolean
@@ -251,34 +596,93 @@ export interface ElectronAPI {
     search: (
       query: string,
       options?: {
-        provider?: 'chatgpt' | 'claude' | 'perplexity'
+        provider?: ProviderName
+        model?: string
+        mode?: string
+        remoteStatus?: RemoteStatus | 'any' // Archived or deleted on the provider
         caseInsensitive?: boolean
         searchInMessages?: boolean
-      }
+        semantic?: boolean // Rank by meaning instead of matching text
+      } & OrganizeFilters
     ) => Promise<{
-      items: Conversation[]
+      items: ConversationSearchResult[]
       total: number
       hasMore: boolean
     }>
-    getProviderCounts: () => Promise<{
-      chatgpt: number
-      claude: number
-      perplexity: number
-    }>
+    getProviderCounts: () => Promise<Record<ProviderName, number>>
+    getModels: () => Promise<ModelCount[]>
+    getModes: () => Promise<ModeCount[]>
     refresh: (id: string) => Promise<{ conversation: Conversation; messages: Message[] } | null>
+    // Each returns the updated conversation
+    setStarred: (id: string, starred: boolean) => Promise<Conversation | null>
+    setFolder: (id: string, folderId: string | null) => Promise<Conversation | null>
+    setTags: (id: string, tags: string[]) => Promise<Conversation | null>
+  }
+  tags: {
+    list: () => Promise<TagCount[]>
+    rename: (tag: string, newName: string) => Promise<void>
+    delete: (tag: string) => Promise<void>
+  }
+  folders: {
+    list: () => Promise<Folder[]>
+    create: (name: string, parentId?: string | null) => Promise<Folder>
+    rename: (id: string, name: string) => Promise<void>
+    delete: (id: string) => Promise<void>
+  }
+  projects: {
+    list: () => Promise<Project[]>
+    get: (id: string) => Promise<{ project: Project; documents: ProjectDocument[] } | null>
   }
   export: {
     conversation: (
       id: string,
       options: ExportOptions
     ) => Promise<{ success: boolean; path?: string; error?: string }>
-    all: (options: ExportOptions) => Promise<{ success: boolean; path?: string; error?: string }>
+    all: (
+      options: ExportOptions,
+      filters?: OrganizeFilters
+    ) => Promise<{ success: boolean; path?: string; error?: string }>
     onProgress: (callback: (progress: ExportProgress) => void) => () => void
     cancel: () => Promise<void>
+    mirror: () => Promise<{ success: boolean; result?: MirrorResult; error?: string }>
+  }
+  import: {
+    archive: () => Promise<{
+      success: boolean
+      result?: ImportResult
+      error?: string
+      canceled?: boolean
+    }>
+  }
+  artifacts: {
+    list: (conversationId: string) => Promise<ArtifactVersion[]>
+    export: (versionId: string) => Promise<{
+      success: boolean
+      filePath?: string
+      error?: string
+      canceled?: boolean
+    }>
+  }
+  revisions: {
+    list: (conversationId: string) => Promise<ConversationRevisionSummary[]>
+    get: (
+      id: number
+    ) => Promise<{ revision: ConversationRevision; current: ConversationSnapshot } | null>
+  }
+  links: {
+    list: (conversationId: string) => Promise<ConversationLinks>
+    create: (link: {
+      sourceConversationId: string
+      sourceMessageId: string
+      targetConversationId: string
+      targetMessageId?: string | null
+    }) => Promise<ConversationLink>
+    delete: (id: string) => Promise<void>
+    graph: () => Promise<LinkGraph>
   }
   auth: {
-    login: (provider: 'chatgpt' | 'claude' | 'perplexity') => Promise<{ success: boolean }>
-    logout: (provider?: 'chatgpt' | 'claude' | 'perplexity') => Promise<{ success: boolean }>
+    login: (provider: ProviderName) => Promise<{ success: boolean }>
+    logout: (provider?: ProviderName) => Promise<{ success: boolean }>
     cancelConnection: () => Promise<void>
   }
   settings: {
@@ -288,6 +692,12 @@ export interface ElectronAPI {
       exportPath: string
       mcpEnabled: boolean
       mcpPort: number
+      mirrorEnabled: boolean
+      mirrorPath: string
+      mirrorFormat: 'markdown' | 'json'
+      mirrorIncludeAttachments: boolean
+      mirrorDeleteRemoved: boolean
+      mirrorMarkdown: MarkdownExportOptions
     }>
     set: (settings: {
       syncIntervalMinutes?: number
@@ -295,14 +705,36 @@ export interface ElectronAPI {
       exportPath?: string
       mcpEnabled?: boolean
       mcpPort?: number
+      mirrorEnabled?: boolean
+      mirrorPath?: string
+      mirrorFormat?: 'markdown' | 'json'
+      mirrorIncludeAttachments?: boolean
+      mirrorDeleteRemoved?: boolean
+      mirrorMarkdown?: MarkdownExportOptions
     }) => Promise<{
       syncIntervalMinutes: number
       autoSync: boolean
       exportPath: string
       mcpEnabled: boolean
       mcpPort: number
+      mirrorEnabled: boolean
+      mirrorPath: string
+      mirrorFormat: 'markdown' | 'json'
+      mirrorIncludeAttachments: boolean
+      mirrorDeleteRemoved: boolean
+      mirrorMarkdown: MarkdownExportOptions
     }>
   }
+  mcp: {
+    listTokens: () => Promise<McpTokenInfo[]>
+    createToken: (
+      name: string,
+      providers: ProviderName[] | null
+    ) => Promise<{ token: string; info: McpTokenInfo }>
+    revokeToken: (id: string) => Promise<void>
+    getAuditLog: (limit?: number) => Promise<McpAuditEntry[]>
+    getStdioConfig: () => Promise<McpStdioConfig>
+  }
   userPreferences: {
     get: () => Promise<{
       hasCompletedOnboarding: boolean
@@ -320,12 +752,8 @@ export interface ElectronAPI {
     }>
   }
   debug: {
-    toggleChatGPTView: () => Promise<{ isVisible: boolean }>
-    toggleClaudeView: () => Promise<{ isVisible: boolean }>
-    togglePerplexityView: () => Promise<{ isVisible: boolean }>
-    openChatGPTDevTools: () => Promise<void>
-    openClaudeDevTools: () => Promise<void>
-    openPerplexityDevTools: () => Promise<void>
+    toggleView: (provider: ProviderName) => Promise<{ isVisible: boolean }>
+    openDevTools: (provider: ProviderName) => Promise<void>
   }
   attachments: {
     download: (